@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE `Transaction` ADD COLUMN `recurringRuleId` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `RecurringRule` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `type` ENUM('income', 'expense', 'transfer') NOT NULL,
+    `amount` DECIMAL(18, 2) NOT NULL,
+    `note` TEXT NULL,
+    `walletId` VARCHAR(191) NULL,
+    `categoryId` VARCHAR(191) NULL,
+    `fromWalletId` VARCHAR(191) NULL,
+    `toWalletId` VARCHAR(191) NULL,
+    `frequency` ENUM('daily', 'weekly', 'monthly', 'yearly') NOT NULL,
+    `interval` INTEGER NOT NULL DEFAULT 1,
+    `dayOfMonth` INTEGER NULL,
+    `dayOfWeek` INTEGER NULL,
+    `startDate` DATETIME(3) NOT NULL,
+    `endDate` DATETIME(3) NULL,
+    `nextRunAt` DATETIME(3) NULL,
+    `lastRunAt` DATETIME(3) NULL,
+    `lastError` TEXT NULL,
+    `failedAttempts` INTEGER NOT NULL DEFAULT 0,
+    `retryAt` DATETIME(3) NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `RecurringRule_userId_idx`(`userId`),
+    INDEX `RecurringRule_isActive_nextRunAt_idx`(`isActive`, `nextRunAt`),
+    INDEX `RecurringRule_isActive_retryAt_idx`(`isActive`, `retryAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `Transaction_recurringRuleId_transactionDate_idx` ON `Transaction`(`recurringRuleId`, `transactionDate`);
+
+-- AddForeignKey
+ALTER TABLE `Transaction` ADD CONSTRAINT `Transaction_recurringRuleId_fkey` FOREIGN KEY (`recurringRuleId`) REFERENCES `RecurringRule`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RecurringRule` ADD CONSTRAINT `RecurringRule_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `Transaction` ADD COLUMN `externalId` VARCHAR(255) NULL,
+    ADD COLUMN `importWalletId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Transaction_importWalletId_externalId_key` ON `Transaction`(`importWalletId`, `externalId`);
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `TransactionEntry` ADD COLUMN `categoryId` VARCHAR(191) NULL,
+    ADD COLUMN `isFee` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX `TransactionEntry_categoryId_idx` ON `TransactionEntry`(`categoryId`);
+
+-- AddForeignKey
+ALTER TABLE `TransactionEntry` ADD CONSTRAINT `TransactionEntry_categoryId_fkey` FOREIGN KEY (`categoryId`) REFERENCES `Category`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN `baseCurrency` CHAR(3) NOT NULL DEFAULT 'VND';
+
+-- AlterTable
+ALTER TABLE `Wallet` ADD COLUMN `currency` CHAR(3) NOT NULL DEFAULT 'VND';
+
+-- AlterTable
+ALTER TABLE `Transaction` ADD COLUMN `currency` CHAR(3) NOT NULL DEFAULT 'VND',
+    ADD COLUMN `exchangeRate` DECIMAL(18, 8) NULL;
+
+-- AlterTable
+ALTER TABLE `Loan` ADD COLUMN `currency` CHAR(3) NOT NULL DEFAULT 'VND';
+
+-- CreateTable
+CREATE TABLE `ExchangeRate` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `fromCurrency` CHAR(3) NOT NULL,
+    `toCurrency` CHAR(3) NOT NULL,
+    `rate` DECIMAL(18, 8) NOT NULL,
+    `effectiveDate` DATETIME(3) NOT NULL,
+    `source` VARCHAR(191) NOT NULL DEFAULT 'manual',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `ExchangeRate_userId_fromCurrency_toCurrency_effectiveDate_key`(`userId`, `fromCurrency`, `toCurrency`, `effectiveDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ExchangeRate` ADD CONSTRAINT `ExchangeRate_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `TransactionAttachment` (
+    `id` VARCHAR(191) NOT NULL,
+    `transactionId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `fileName` VARCHAR(255) NOT NULL,
+    `mimeType` VARCHAR(100) NOT NULL,
+    `size` INTEGER NOT NULL,
+    `storageKey` VARCHAR(255) NOT NULL,
+    `thumbnailKey` VARCHAR(255) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `TransactionAttachment_transactionId_idx`(`transactionId`),
+    INDEX `TransactionAttachment_userId_idx`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `TransactionAttachment` ADD CONSTRAINT `TransactionAttachment_transactionId_fkey` FOREIGN KEY (`transactionId`) REFERENCES `Transaction`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `TransactionAttachment` ADD CONSTRAINT `TransactionAttachment_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
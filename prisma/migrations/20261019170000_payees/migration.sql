@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE `Transaction` ADD COLUMN `payeeId` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `Loan` ADD COLUMN `payeeId` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `Payee` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(100) NOT NULL,
+    `normalizedName` VARCHAR(100) NOT NULL,
+    `lastCategoryId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `Payee_userId_normalizedName_key`(`userId`, `normalizedName`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `Transaction_payeeId_transactionDate_idx` ON `Transaction`(`payeeId`, `transactionDate`);
+
+-- CreateIndex
+CREATE INDEX `Loan_payeeId_idx` ON `Loan`(`payeeId`);
+
+-- AddForeignKey
+ALTER TABLE `Transaction` ADD CONSTRAINT `Transaction_payeeId_fkey` FOREIGN KEY (`payeeId`) REFERENCES `Payee`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Loan` ADD CONSTRAINT `Loan_payeeId_fkey` FOREIGN KEY (`payeeId`) REFERENCES `Payee`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Payee` ADD CONSTRAINT `Payee_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Payee` ADD CONSTRAINT `Payee_lastCategoryId_fkey` FOREIGN KEY (`lastCategoryId`) REFERENCES `Category`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `CategorizationRule` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(100) NOT NULL,
+    `type` ENUM('income', 'expense') NOT NULL,
+    `conditions` JSON NOT NULL,
+    `categoryId` VARCHAR(191) NULL,
+    `tags` JSON NULL,
+    `priority` INTEGER NOT NULL DEFAULT 100,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `CategorizationRule_userId_isActive_priority_idx`(`userId`, `isActive`, `priority`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `CategorizationRule` ADD CONSTRAINT `CategorizationRule_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE `Transaction` ADD COLUMN `status` ENUM('pending', 'cleared', 'reconciled') NOT NULL DEFAULT 'pending',
+    ADD COLUMN `reconciliationId` VARCHAR(191) NULL;
+
+-- Giao dịch đã có trước khi có tính năng đối chiếu được coi là đã khớp sao kê
+UPDATE `Transaction` SET `status` = 'cleared';
+
+-- CreateTable
+CREATE TABLE `WalletReconciliation` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `walletId` VARCHAR(191) NOT NULL,
+    `statementDate` DATETIME(3) NOT NULL,
+    `statementBalance` DECIMAL(18, 2) NOT NULL,
+    `transactionCount` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `WalletReconciliation_walletId_statementDate_idx`(`walletId`, `statementDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `Transaction_userId_status_transactionDate_idx` ON `Transaction`(`userId`, `status`, `transactionDate`);
+
+-- AddForeignKey
+ALTER TABLE `Transaction` ADD CONSTRAINT `Transaction_reconciliationId_fkey` FOREIGN KEY (`reconciliationId`) REFERENCES `WalletReconciliation`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `WalletReconciliation` ADD CONSTRAINT `WalletReconciliation_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `WalletReconciliation` ADD CONSTRAINT `WalletReconciliation_walletId_fkey` FOREIGN KEY (`walletId`) REFERENCES `Wallet`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
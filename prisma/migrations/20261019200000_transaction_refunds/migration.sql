@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `Transaction` MODIFY `type` ENUM('income', 'expense', 'transfer', 'refund') NOT NULL,
+    ADD COLUMN `refundOfId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `Transaction_refundOfId_idx` ON `Transaction`(`refundOfId`);
+
+-- AddForeignKey
+ALTER TABLE `Transaction` ADD CONSTRAINT `Transaction_refundOfId_fkey` FOREIGN KEY (`refundOfId`) REFERENCES `Transaction`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Transaction` MODIFY `type` ENUM('income', 'expense', 'transfer', 'refund', 'adjustment') NOT NULL;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `Wallet` ADD COLUMN `creditLimit` DECIMAL(18, 2) NULL,
+    ADD COLUMN `statementClosingDay` INTEGER NULL,
+    ADD COLUMN `paymentDueDay` INTEGER NULL;
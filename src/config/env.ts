@@ -13,6 +13,22 @@ const envSchema = z.object({
   JWT_REFRESH_EXPIRES: z.string().default('7d'),
 
   CORS_ORIGIN: z.string().optional(),
+
+  // Chu kỳ quét recurring rules đến hạn (ms), 0 => tắt scheduler
+  RECURRING_SCHEDULER_INTERVAL_MS: z.coerce.number().int().min(0).default(60_000),
+
+  // Khoảng thời gian (phút) quanh transactionDate để coi là giao dịch nghi trùng, 0 => tắt kiểm tra khi tạo
+  DUPLICATE_WINDOW_MINUTES: z.coerce.number().int().min(0).default(1440),
+
+  // Số ngày nhắc trước hạn thanh toán thẻ tín dụng (mặc định của GET /wallets/credit/reminders)
+  CREDIT_REMINDER_DAYS: z.coerce.number().int().min(0).max(31).default(5),
+
+  // Nơi lưu file đính kèm: local => thư mục STORAGE_LOCAL_DIR (tương đối với thư mục chạy server)
+  STORAGE_DRIVER: z.enum(['local']).default('local'),
+  STORAGE_LOCAL_DIR: z.string().min(1).default('uploads'),
+
+  // Kích thước tối đa của 1 file đính kèm (MB)
+  ATTACHMENT_MAX_SIZE_MB: z.coerce.number().positive().max(50).default(10),
 });
 
 export const env = envSchema.parse(process.env);
@@ -92,6 +92,11 @@ export const swaggerOptions = {
               enum: ['cash', 'bank', 'ewallet', 'credit'],
               example: 'cash'
             },
+            currency: {
+              type: 'string',
+              example: 'VND',
+              description: 'Mã tiền tệ ISO 4217 của ví'
+            },
             openingBalance: {
               type: 'number',
               format: 'decimal',
@@ -102,6 +107,22 @@ export const swaggerOptions = {
               format: 'decimal',
               example: 1500.00
             },
+            creditLimit: {
+              type: 'number',
+              format: 'decimal',
+              nullable: true,
+              description: 'Chỉ ví credit: hạn mức, currentBalance được âm đến -creditLimit'
+            },
+            statementClosingDay: {
+              type: 'integer',
+              nullable: true,
+              description: 'Chỉ ví credit: ngày chốt sao kê hằng tháng (1-31)'
+            },
+            paymentDueDay: {
+              type: 'integer',
+              nullable: true,
+              description: 'Chỉ ví credit: ngày đến hạn thanh toán (1-31)'
+            },
             isArchived: {
               type: 'boolean',
               default: false
@@ -176,13 +197,29 @@ export const swaggerOptions = {
             },
             type: {
               type: 'string',
-              enum: ['income', 'expense', 'transfer'],
+              enum: ['income', 'expense', 'transfer', 'refund', 'adjustment'],
               example: 'expense'
             },
             transactionDate: {
               type: 'string',
               format: 'date-time'
             },
+            status: {
+              type: 'string',
+              enum: ['pending', 'cleared', 'reconciled'],
+              description: 'reconciled => đã đối chiếu với sao kê, bị khoá sửa/xoá'
+            },
+            reconciliationId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true
+            },
+            refundOfId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Giao dịch chi tiêu gốc (chỉ type = refund)'
+            },
             categoryId: {
               type: 'string',
               format: 'uuid',
@@ -193,11 +230,52 @@ export const swaggerOptions = {
               format: 'decimal',
               example: 100.00
             },
+            currency: {
+              type: 'string',
+              example: 'VND',
+              description: 'Tiền tệ của amount (tiền tệ của ví, transfer: ví nguồn)'
+            },
+            exchangeRate: {
+              type: 'number',
+              nullable: true,
+              description: 'Tỷ giá của transfer giữa 2 ví khác tiền tệ (1 đơn vị tiền ví nguồn = exchangeRate đơn vị tiền ví đích)'
+            },
             note: {
               type: 'string',
               nullable: true,
               example: 'Ăn trưa tại quán'
             },
+            externalId: {
+              type: 'string',
+              nullable: true,
+              description: 'ID dòng sao kê khi giao dịch được import từ file OFX/QIF'
+            },
+            payeeId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true
+            },
+            payee: {
+              nullable: true,
+              allOf: [{ $ref: '#/components/schemas/Payee' }]
+            },
+            tags: {
+              type: 'array',
+              description: 'Tag gắn vào giao dịch',
+              items: {
+                type: 'object',
+                properties: {
+                  tagId: { type: 'string', format: 'uuid' },
+                  tag: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string', format: 'uuid' },
+                      name: { type: 'string', example: 'trip-dalat' }
+                    }
+                  }
+                }
+              }
+            },
             deletedAt: {
               type: 'string',
               format: 'date-time',
@@ -219,6 +297,12 @@ export const swaggerOptions = {
             },
             category: {
               $ref: '#/components/schemas/Category'
+            },
+            splits: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/TransactionSplitInput'
+              }
             }
           }
         },
@@ -256,9 +340,204 @@ export const swaggerOptions = {
             }
           }
         },
+        Attachment: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            transactionId: {
+              type: 'string',
+              format: 'uuid'
+            },
+            fileName: {
+              type: 'string',
+              example: 'hoa-don-dien-thang-10.jpg'
+            },
+            mimeType: {
+              type: 'string',
+              enum: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
+              example: 'image/jpeg'
+            },
+            size: {
+              type: 'integer',
+              description: 'Kích thước file (bytes)',
+              example: 245760
+            },
+            hasThumbnail: {
+              type: 'boolean',
+              description: 'Có thumbnail (chỉ với file ảnh)'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        Payee: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            name: {
+              type: 'string',
+              example: 'Highlands Coffee'
+            },
+            normalizedName: {
+              type: 'string',
+              example: 'highlands coffee',
+              description: 'Tên đã chuẩn hoá dùng để so khớp (bỏ dấu, chữ thường)'
+            },
+            lastCategoryId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Danh mục của giao dịch gần nhất, dùng để điền sẵn khi tạo giao dịch mới'
+            },
+            lastCategory: {
+              nullable: true,
+              allOf: [{ $ref: '#/components/schemas/Category' }]
+            },
+            transactionCount: {
+              type: 'integer',
+              description: 'Số giao dịch (chưa xoá) gắn payee, chỉ có ở danh sách'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        CategorizationRuleCondition: {
+          type: 'object',
+          required: ['field', 'operator', 'value'],
+          description: 'note/payee: contains | equals | startsWith (không phân biệt hoa thường/dấu); amount: eq | gt | gte | lt | lte; walletId: eq',
+          properties: {
+            field: {
+              type: 'string',
+              enum: ['note', 'payee', 'amount', 'walletId']
+            },
+            operator: {
+              type: 'string',
+              enum: ['contains', 'equals', 'startsWith', 'eq', 'gt', 'gte', 'lt', 'lte'],
+              example: 'contains'
+            },
+            value: {
+              oneOf: [{ type: 'string' }, { type: 'number' }],
+              example: 'GRAB'
+            }
+          }
+        },
+        CategorizationRule: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            name: {
+              type: 'string',
+              example: 'Grab'
+            },
+            type: {
+              type: 'string',
+              enum: ['income', 'expense']
+            },
+            conditions: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/CategorizationRuleCondition' }
+            },
+            categoryId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true
+            },
+            category: {
+              nullable: true,
+              allOf: [{ $ref: '#/components/schemas/Category' }]
+            },
+            tags: {
+              type: 'array',
+              nullable: true,
+              items: { type: 'string' },
+              example: ['work']
+            },
+            priority: {
+              type: 'integer',
+              example: 100
+            },
+            isActive: {
+              type: 'boolean'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        ApplyCategorizationRulesRequest: {
+          type: 'object',
+          required: ['startDate', 'endDate'],
+          properties: {
+            startDate: {
+              type: 'string',
+              format: 'date-time'
+            },
+            endDate: {
+              type: 'string',
+              format: 'date-time'
+            },
+            ruleIds: {
+              type: 'array',
+              items: { type: 'string', format: 'uuid' },
+              description: 'Chỉ chạy các rule này (kể cả rule đang tạm dừng); mặc định mọi rule đang bật'
+            }
+          }
+        },
+        ReconcileWalletRequest: {
+          type: 'object',
+          required: ['statementDate', 'statementBalance'],
+          properties: {
+            statementDate: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Ngày cuối kỳ sao kê, giao dịch đến ngày này được tính'
+            },
+            statementBalance: {
+              type: 'number',
+              format: 'decimal',
+              example: 12500000.00,
+              description: 'Số dư cuối kỳ trên sao kê (có thể âm)'
+            }
+          }
+        },
+        WalletReconciliation: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            walletId: { type: 'string', format: 'uuid' },
+            statementDate: { type: 'string', format: 'date-time' },
+            statementBalance: { type: 'number', format: 'decimal' },
+            transactionCount: { type: 'integer', description: 'Số giao dịch được khoá (reconciled) ở lần đối chiếu này' },
+            clearedBalance: { type: 'number', format: 'decimal' },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
         IncomeTransaction: {
           type: 'object',
-          required: ['type', 'walletId', 'categoryId', 'transactionDate', 'amount'],
+          required: ['type', 'walletId', 'transactionDate', 'amount'],
+          description: 'Dùng categoryId (1 danh mục) hoặc splits (nhiều danh mục), không dùng cả hai; bỏ trống cả hai => danh mục theo quy tắc tự phân loại',
           properties: {
             type: {
               type: 'string',
@@ -279,6 +558,11 @@ export const swaggerOptions = {
               format: 'date-time',
               example: '2024-01-21T10:00:00.000Z'
             },
+            status: {
+              type: 'string',
+              enum: ['pending', 'cleared'],
+              default: 'pending'
+            },
             amount: {
               type: 'number',
               format: 'decimal',
@@ -289,12 +573,42 @@ export const swaggerOptions = {
               type: 'string',
               maxLength: 1000,
               example: 'Thu nhập từ lương tháng 1'
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              maxItems: 20,
+              example: ['#trip-dalat'],
+              description: 'Tag tự do, tag chưa có sẽ được tạo tự động'
+            },
+            payeeId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Payee có sẵn (không dùng cùng payeeName)'
+            },
+            payeeName: {
+              type: 'string',
+              maxLength: 100,
+              example: 'Highlands Coffee',
+              description: 'Tên payee, payee chưa có sẽ được tạo tự động'
+            },
+            force: {
+              type: 'boolean',
+              description: 'Vẫn tạo giao dịch dù phát hiện giao dịch nghi trùng (mặc định trả 409)'
+            },
+            splits: {
+              type: 'array',
+              minItems: 2,
+              items: {
+                $ref: '#/components/schemas/TransactionSplitInput'
+              }
             }
           }
         },
         ExpenseTransaction: {
           type: 'object',
-          required: ['type', 'walletId', 'categoryId', 'transactionDate', 'amount'],
+          required: ['type', 'walletId', 'transactionDate', 'amount'],
+          description: 'Dùng categoryId (1 danh mục) hoặc splits (nhiều danh mục), không dùng cả hai; bỏ trống cả hai => danh mục theo quy tắc tự phân loại',
           properties: {
             type: {
               type: 'string',
@@ -315,6 +629,11 @@ export const swaggerOptions = {
               format: 'date-time',
               example: '2024-01-21T10:00:00.000Z'
             },
+            status: {
+              type: 'string',
+              enum: ['pending', 'cleared'],
+              default: 'pending'
+            },
             amount: {
               type: 'number',
               format: 'decimal',
@@ -325,6 +644,56 @@ export const swaggerOptions = {
               type: 'string',
               maxLength: 1000,
               example: 'Ăn trưa tại nhà hàng'
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              maxItems: 20,
+              example: ['#trip-dalat'],
+              description: 'Tag tự do, tag chưa có sẽ được tạo tự động'
+            },
+            payeeId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Payee có sẵn (không dùng cùng payeeName)'
+            },
+            payeeName: {
+              type: 'string',
+              maxLength: 100,
+              example: 'Highlands Coffee',
+              description: 'Tên payee, payee chưa có sẽ được tạo tự động'
+            },
+            force: {
+              type: 'boolean',
+              description: 'Vẫn tạo giao dịch dù phát hiện giao dịch nghi trùng (mặc định trả 409)'
+            },
+            splits: {
+              type: 'array',
+              minItems: 2,
+              items: {
+                $ref: '#/components/schemas/TransactionSplitInput'
+              }
+            }
+          }
+        },
+        TransactionSplitInput: {
+          type: 'object',
+          required: ['categoryId', 'amount'],
+          description: 'Tổng amount các dòng phải bằng amount của giao dịch',
+          properties: {
+            categoryId: {
+              type: 'string',
+              format: 'uuid'
+            },
+            amount: {
+              type: 'number',
+              format: 'decimal',
+              minimum: 0.01,
+              example: 50.00
+            },
+            note: {
+              type: 'string',
+              maxLength: 255
             }
           }
         },
@@ -351,16 +720,83 @@ export const swaggerOptions = {
               format: 'date-time',
               example: '2024-01-21T10:00:00.000Z'
             },
+            status: {
+              type: 'string',
+              enum: ['pending', 'cleared'],
+              default: 'pending'
+            },
             amount: {
               type: 'number',
               format: 'decimal',
               minimum: 0.01,
-              example: 200.00
+              example: 200.00,
+              description: 'Số tiền trừ khỏi ví nguồn (chưa gồm phí)'
+            },
+            toAmount: {
+              type: 'number',
+              format: 'decimal',
+              minimum: 0.01,
+              description: 'Số tiền ví đích thực nhận (mặc định = amount, ví khác tiền tệ: quy đổi theo bảng tỷ giá)'
+            },
+            fee: {
+              type: 'number',
+              format: 'decimal',
+              minimum: 0.01,
+              example: 3.30,
+              description: 'Phí chuyển tiền, trừ thêm từ ví nguồn'
+            },
+            feeCategoryId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Danh mục chi tiêu của phí (bắt buộc khi có fee)'
             },
             note: {
               type: 'string',
               maxLength: 1000,
               example: 'Chuyển tiền từ ví tiền mặt sang ví ngân hàng'
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              maxItems: 20,
+              example: ['#trip-dalat'],
+              description: 'Tag tự do, tag chưa có sẽ được tạo tự động'
+            },
+            force: {
+              type: 'boolean',
+              description: 'Vẫn tạo giao dịch dù phát hiện giao dịch nghi trùng (mặc định trả 409)'
+            }
+          }
+        },
+        RefundTransaction: {
+          type: 'object',
+          required: ['transactionDate', 'amount'],
+          properties: {
+            transactionDate: {
+              type: 'string',
+              format: 'date-time',
+              example: '2024-01-25T10:00:00.000Z'
+            },
+            amount: {
+              type: 'number',
+              format: 'decimal',
+              minimum: 0.01,
+              example: 150.00,
+              description: 'Tổng các lần hoàn không vượt quá amount của giao dịch gốc'
+            },
+            categoryId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Danh mục được giảm chi tiêu, mặc định danh mục của giao dịch gốc (bắt buộc nếu gốc là split)'
+            },
+            note: {
+              type: 'string',
+              maxLength: 1000
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'cleared'],
+              default: 'pending'
             }
           }
         }
@@ -0,0 +1,42 @@
+/**
+ * File Upload Middleware
+ * File này cung cấp middleware nhận file upload (multipart/form-data) bằng multer
+ */
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { env } from '../config/env';
+import { handleError } from '../utils/error-handler';
+
+// Giữ file trong bộ nhớ (đã giới hạn kích thước), service tự ghi qua storage driver
+const upload = multer({
+  storage: multer.memoryStorage(),
+  // Tên file trong form-data là UTF-8 (giữ nguyên tên tiếng Việt)
+  defParamCharset: 'utf8',
+  limits: {
+    fileSize: env.ATTACHMENT_MAX_SIZE_MB * 1024 * 1024,
+    files: 1
+  }
+});
+
+/**
+ * Middleware factory nhận 1 file tại field chỉ định, file nằm ở req.file
+ * Lỗi của multer được chuyển thành error code để trả response thống nhất
+ *
+ * @param field - Tên field chứa file trong form-data
+ * @returns Express middleware function
+ *
+ * @example
+ * router.post('/transactions/:id/attachments', uploadSingleFile('file'), controller.upload);
+ */
+export const uploadSingleFile =
+  (field: string) => (req: Request, res: Response, next: NextFunction) => {
+    upload.single(field)(req, res, (err: unknown) => {
+      if (!err) return next();
+
+      if (err instanceof multer.MulterError) {
+        const code = err.code === 'LIMIT_FILE_SIZE' ? 'ATTACHMENT_TOO_LARGE' : 'INVALID_UPLOAD';
+        return handleError(new Error(code), res, 'Upload');
+      }
+      next(err);
+    });
+  };
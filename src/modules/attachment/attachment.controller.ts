@@ -0,0 +1,255 @@
+/**
+ * Attachment Controller
+ * File này xử lý HTTP requests/responses cho file đính kèm giao dịch
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { AttachmentService } from './attachment.service';
+import { handleError } from '../../utils/error-handler';
+import { logger } from '../../config/logger';
+
+// Create module-specific error handler
+const handleAttachmentError = (error: any, res: Response) =>
+  handleError(error, res, 'Attachment');
+
+/**
+ * Stream file đính kèm về client
+ * inline: hiển thị trực tiếp (thumbnail), ngược lại trình duyệt tải file về với tên gốc
+ */
+async function sendAttachmentFile(
+  res: Response,
+  file: Awaited<ReturnType<typeof AttachmentService.getAttachmentFile>>,
+  inline: boolean
+) {
+  res.status(200);
+  res.setHeader('Content-Type', file.mimeType);
+  res.setHeader('Cache-Control', 'private, max-age=86400');
+  if (inline) {
+    res.setHeader('Content-Disposition', 'inline');
+  } else {
+    res.attachment(file.fileName);
+  }
+  await pipeline(file.stream, res);
+}
+
+export const AttachmentController = {
+  /**
+   * @swagger
+   * /transactions/{id}/attachments:
+   *   post:
+   *     tags:
+   *       - Attachments
+   *     summary: Upload file đính kèm cho giao dịch
+   *     description: |
+   *       Upload ảnh hoá đơn (JPEG/PNG/WebP) hoặc PDF, tối đa ATTACHMENT_MAX_SIZE_MB (mặc định 10MB)
+   *       và 10 file / giao dịch. Loại file được kiểm tra theo nội dung; ảnh được tạo thumbnail.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - file
+   *             properties:
+   *               file:
+   *                 type: string
+   *                 format: binary
+   *     responses:
+   *       201:
+   *         description: File đã được lưu
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 attachment:
+   *                   $ref: '#/components/schemas/Attachment'
+   *       400:
+   *         description: Thiếu file hoặc ảnh bị hỏng
+   *       404:
+   *         description: Giao dịch không tồn tại
+   *       409:
+   *         description: Giao dịch đã đủ số file tối đa
+   *       413:
+   *         description: File quá lớn
+   *       415:
+   *         description: Loại file không được hỗ trợ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async uploadAttachment(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      if (!req.file) {
+        return handleAttachmentError(new Error('ATTACHMENT_FILE_REQUIRED'), res);
+      }
+
+      const attachment = await AttachmentService.uploadAttachment(req.params.id, userId, req.file);
+      return res.status(201).json({
+        message: 'Attachment uploaded successfully',
+        attachment
+      });
+    } catch (e: any) {
+      return handleAttachmentError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/{id}/attachments:
+   *   get:
+   *     tags:
+   *       - Attachments
+   *     summary: Lấy danh sách file đính kèm của giao dịch
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Danh sách file đính kèm
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 attachments:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Attachment'
+   *       404:
+   *         description: Giao dịch không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getAttachments(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const attachments = await AttachmentService.getAttachments(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Attachments retrieved successfully',
+        attachments
+      });
+    } catch (e: any) {
+      return handleAttachmentError(e, res);
+    }
+  },
+
+  /**
+   * Download file đính kèm gốc
+   * GET /api/transactions/:id/attachments/:attachmentId
+   *
+   * @param req.params.id - Transaction ID
+   * @param req.params.attachmentId - Attachment ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với nội dung file (Content-Disposition: attachment)
+   * @returns 404 Not Found nếu file không tồn tại
+   */
+  async downloadAttachment(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const file = await AttachmentService.getAttachmentFile(req.params.id, req.params.attachmentId, userId);
+      await sendAttachmentFile(res, file, false);
+    } catch (e: any) {
+      // Đã bắt đầu gửi file => chỉ có thể cắt kết nối
+      if (res.headersSent) {
+        logger.error({ err: e }, 'Download attachment error');
+        res.destroy(e);
+        return;
+      }
+      return handleAttachmentError(e, res);
+    }
+  },
+
+  /**
+   * Lấy thumbnail (WebP) của ảnh đính kèm
+   * GET /api/transactions/:id/attachments/:attachmentId/thumbnail
+   *
+   * @param req.params.id - Transaction ID
+   * @param req.params.attachmentId - Attachment ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với ảnh thumbnail
+   * @returns 404 Not Found nếu file không tồn tại hoặc không phải ảnh
+   */
+  async getAttachmentThumbnail(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const file = await AttachmentService.getAttachmentFile(
+        req.params.id,
+        req.params.attachmentId,
+        userId,
+        'thumbnail'
+      );
+      await sendAttachmentFile(res, file, true);
+    } catch (e: any) {
+      if (res.headersSent) {
+        logger.error({ err: e }, 'Download attachment thumbnail error');
+        res.destroy(e);
+        return;
+      }
+      return handleAttachmentError(e, res);
+    }
+  },
+
+  /**
+   * Xoá file đính kèm
+   * DELETE /api/transactions/:id/attachments/:attachmentId
+   *
+   * @param req.params.id - Transaction ID
+   * @param req.params.attachmentId - Attachment ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK
+   * @returns 404 Not Found nếu file không tồn tại
+   */
+  async deleteAttachment(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await AttachmentService.deleteAttachment(req.params.id, req.params.attachmentId, userId);
+      return res.status(200).json({
+        message: 'Attachment deleted successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleAttachmentError(e, res);
+    }
+  }
+};
@@ -0,0 +1,276 @@
+/**
+ * Attachment Service
+ * File này chứa business logic cho file đính kèm giao dịch (ảnh hoá đơn, PDF)
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * - File được ghi qua storage driver, DB chỉ lưu metadata và key
+ * - Loại file xác định từ nội dung (magic bytes), không tin MIME type client gửi lên
+ * - Ảnh được tạo thêm thumbnail WebP
+ */
+import { randomUUID } from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { prisma } from '../../db/prisma';
+import { logger } from '../../config/logger';
+import { storage } from '../../storage/storage.driver';
+
+// Số file đính kèm tối đa của 1 giao dịch
+const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+// Kích thước tối đa (px) mỗi chiều của thumbnail
+const THUMBNAIL_SIZE = 320;
+
+// Loại file được phép upload => phần mở rộng khi lưu
+const ALLOWED_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf'
+};
+
+// Thông tin file trả về cho client (ẩn key trong storage)
+const attachmentSelect = {
+  id: true,
+  transactionId: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  thumbnailKey: true,
+  createdAt: true
+} as const;
+
+type UploadedFile = {
+  originalname: string;
+  buffer: Buffer;
+};
+
+/**
+ * Xác định MIME type từ magic bytes đầu file
+ * @returns MIME type hoặc null nếu không thuộc loại được phép
+ */
+function detectMimeType(buffer: Buffer) {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (buffer.toString('latin1', 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  return null;
+}
+
+/**
+ * Tên file an toàn để lưu metadata/trả về khi download (bỏ đường dẫn và ký tự điều khiển)
+ */
+function sanitizeFileName(fileName: string, extension: string) {
+  const base = path.basename(fileName.replace(/\\/g, '/')).replace(/[\u0000-\u001f\u007f"\\]/g, '').trim();
+  return (base || `attachment${extension}`).slice(0, 255);
+}
+
+function toAttachmentResponse({ thumbnailKey, ...attachment }: {
+  id: string;
+  transactionId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  thumbnailKey: string | null;
+  createdAt: Date;
+}) {
+  return { ...attachment, hasThumbnail: thumbnailKey !== null };
+}
+
+/**
+ * Kiểm tra giao dịch (chưa xoá) thuộc về user
+ * @throws Error('TRANSACTION_NOT_FOUND') nếu không tìm thấy
+ */
+async function validateTransactionOwnership(transactionId: string, userId: string) {
+  const transaction = await prisma.transaction.findFirst({
+    where: { id: transactionId, userId, deletedAt: null },
+    select: { id: true }
+  });
+  if (!transaction) {
+    throw new Error('TRANSACTION_NOT_FOUND');
+  }
+}
+
+/**
+ * Xoá file (và thumbnail) khỏi storage
+ * Dùng sau khi đã xoá dòng trong DB => lỗi storage chỉ được log, không làm hỏng thao tác chính
+ *
+ * @param attachments - Danh sách key cần xoá
+ */
+export async function removeAttachmentFiles(attachments: { storageKey: string; thumbnailKey: string | null }[]) {
+  const keys = attachments.flatMap((attachment) =>
+    attachment.thumbnailKey ? [attachment.storageKey, attachment.thumbnailKey] : [attachment.storageKey]
+  );
+
+  await Promise.all(keys.map(async (key) => {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      logger.warn({ key, err: error }, 'Failed to delete attachment file');
+    }
+  }));
+}
+
+export const AttachmentService = {
+  /**
+   * Upload file đính kèm cho giao dịch
+   *
+   * @param transactionId - ID của giao dịch
+   * @param userId - ID của user sở hữu giao dịch
+   * @param file - File đã nhận từ multer (nằm trong bộ nhớ)
+   * @returns Thông tin file đính kèm đã lưu
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu giao dịch không tồn tại
+   * @throws Error('ATTACHMENT_LIMIT_REACHED') nếu giao dịch đã đủ số file tối đa
+   * @throws Error('ATTACHMENT_TYPE_NOT_ALLOWED') nếu không phải ảnh JPEG/PNG/WebP hoặc PDF
+   * @throws Error('ATTACHMENT_INVALID_FILE') nếu ảnh bị hỏng, không đọc được
+   */
+  async uploadAttachment(transactionId: string, userId: string, file: UploadedFile) {
+    await validateTransactionOwnership(transactionId, userId);
+
+    const count = await prisma.transactionAttachment.count({ where: { transactionId } });
+    if (count >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+      throw new Error('ATTACHMENT_LIMIT_REACHED');
+    }
+
+    const mimeType = detectMimeType(file.buffer);
+    if (!mimeType) {
+      throw new Error('ATTACHMENT_TYPE_NOT_ALLOWED');
+    }
+
+    // Tạo thumbnail trước khi ghi file để ảnh hỏng bị từ chối sớm
+    let thumbnail: Buffer | null = null;
+    if (mimeType.startsWith('image/')) {
+      try {
+        thumbnail = await sharp(file.buffer)
+          .rotate() // Xoay theo EXIF (ảnh chụp từ điện thoại)
+          .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+          .webp({ quality: 80 })
+          .toBuffer();
+      } catch {
+        throw new Error('ATTACHMENT_INVALID_FILE');
+      }
+    }
+
+    const id = randomUUID();
+    const extension = ALLOWED_TYPES[mimeType];
+    const storageKey = `attachments/${userId}/${id}${extension}`;
+    const thumbnailKey = thumbnail ? `attachments/${userId}/${id}.thumb.webp` : null;
+
+    try {
+      await storage.put(storageKey, file.buffer, mimeType);
+      if (thumbnail && thumbnailKey) {
+        await storage.put(thumbnailKey, thumbnail, 'image/webp');
+      }
+
+      const attachment = await prisma.transactionAttachment.create({
+        data: {
+          id,
+          transactionId,
+          userId,
+          fileName: sanitizeFileName(file.originalname, extension),
+          mimeType,
+          size: file.buffer.length,
+          storageKey,
+          thumbnailKey
+        },
+        select: attachmentSelect
+      });
+      return toAttachmentResponse(attachment);
+    } catch (error) {
+      // Ghi file hoặc lưu metadata thất bại => dọn các file đã ghi (xoá key chưa tồn tại vẫn an toàn)
+      await removeAttachmentFiles([{ storageKey, thumbnailKey }]);
+      throw error;
+    }
+  },
+
+  /**
+   * Lấy danh sách file đính kèm của giao dịch (cũ nhất trước)
+   *
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu giao dịch không tồn tại
+   */
+  async getAttachments(transactionId: string, userId: string) {
+    await validateTransactionOwnership(transactionId, userId);
+
+    const attachments = await prisma.transactionAttachment.findMany({
+      where: { transactionId },
+      select: attachmentSelect,
+      orderBy: { createdAt: 'asc' }
+    });
+    return attachments.map(toAttachmentResponse);
+  },
+
+  /**
+   * Mở file đính kèm (hoặc thumbnail) để download
+   *
+   * @param variant - 'original' (file gốc) hoặc 'thumbnail'
+   * @returns Stream nội dung file kèm tên file và MIME type
+   * @throws Error('ATTACHMENT_NOT_FOUND') nếu file (hoặc thumbnail) không tồn tại
+   */
+  async getAttachmentFile(
+    transactionId: string,
+    attachmentId: string,
+    userId: string,
+    variant: 'original' | 'thumbnail' = 'original'
+  ) {
+    const attachment = await prisma.transactionAttachment.findFirst({
+      where: {
+        id: attachmentId,
+        transactionId,
+        userId,
+        transaction: { deletedAt: null }
+      }
+    });
+    if (!attachment) {
+      throw new Error('ATTACHMENT_NOT_FOUND');
+    }
+
+    const key = variant === 'thumbnail' ? attachment.thumbnailKey : attachment.storageKey;
+    if (!key) {
+      throw new Error('ATTACHMENT_NOT_FOUND');
+    }
+
+    try {
+      return {
+        stream: await storage.getStream(key),
+        fileName: attachment.fileName,
+        mimeType: variant === 'thumbnail' ? 'image/webp' : attachment.mimeType
+      };
+    } catch (error: any) {
+      if (error.message === 'STORAGE_FILE_NOT_FOUND') {
+        throw new Error('ATTACHMENT_NOT_FOUND');
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Xoá file đính kèm (metadata và file trong storage)
+   *
+   * @throws Error('ATTACHMENT_NOT_FOUND') nếu file không tồn tại
+   */
+  async deleteAttachment(transactionId: string, attachmentId: string, userId: string) {
+    const attachment = await prisma.transactionAttachment.findFirst({
+      where: {
+        id: attachmentId,
+        transactionId,
+        userId,
+        transaction: { deletedAt: null }
+      }
+    });
+    if (!attachment) {
+      throw new Error('ATTACHMENT_NOT_FOUND');
+    }
+
+    await prisma.transactionAttachment.delete({ where: { id: attachmentId } });
+    await removeAttachmentFiles([attachment]);
+
+    return { id: attachmentId, deleted: true };
+  }
+};
@@ -0,0 +1,329 @@
+/**
+ * Categorization Controller
+ * File này xử lý HTTP requests/responses cho quy tắc tự phân loại giao dịch
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { CategorizationService } from './categorization.service';
+import { handleError } from '../../utils/error-handler';
+
+// Create module-specific error handler
+const handleCategorizationError = (error: any, res: Response) =>
+  handleError(error, res, 'Categorization');
+
+export const CategorizationController = {
+  /**
+   * @swagger
+   * /categorization-rules:
+   *   post:
+   *     tags:
+   *       - Categorization Rules
+   *     summary: Tạo quy tắc tự phân loại giao dịch
+   *     description: |
+   *       VD: "note chứa GRAB => danh mục Di chuyển, tag #work" hoặc "amount = 220000 và ví VCB => Internet".
+   *       Giao dịch phải thoả tất cả điều kiện và cùng type với rule. Rule được áp dụng khi tạo giao dịch
+   *       (danh mục chỉ dùng khi không gửi categoryId/splits, tag được gộp thêm) và khi import sao kê.
+   *       Danh mục phải thuộc user và cùng type với rule.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *               - type
+   *               - conditions
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: Grab
+   *               type:
+   *                 type: string
+   *                 enum: [income, expense]
+   *               conditions:
+   *                 type: array
+   *                 items:
+   *                   $ref: '#/components/schemas/CategorizationRuleCondition'
+   *               categoryId:
+   *                 type: string
+   *                 format: uuid
+   *               tags:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                 example: ["work"]
+   *               priority:
+   *                 type: integer
+   *                 minimum: 0
+   *                 maximum: 1000
+   *                 default: 100
+   *                 description: Nhỏ chạy trước; rule khớp đầu tiên có danh mục quyết định danh mục
+   *               isActive:
+   *                 type: boolean
+   *     responses:
+   *       201:
+   *         description: Rule được tạo thành công
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 rule:
+   *                   $ref: '#/components/schemas/CategorizationRule'
+   *       400:
+   *         description: Dữ liệu không hợp lệ hoặc danh mục khác type rule
+   *       404:
+   *         description: Danh mục hoặc ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rule = await CategorizationService.createRule(req.body, userId);
+      return res.status(201).json({
+        message: 'Categorization rule created successfully',
+        rule
+      });
+    } catch (e: any) {
+      return handleCategorizationError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /categorization-rules:
+   *   get:
+   *     tags:
+   *       - Categorization Rules
+   *     summary: Lấy danh sách quy tắc tự phân loại
+   *     description: Trả về rule theo thứ tự áp dụng (priority tăng dần)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: isActive
+   *         schema:
+   *           type: boolean
+   *     responses:
+   *       200:
+   *         description: Danh sách rule
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 rules:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/CategorizationRule'
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getRules(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const isActive = req.query.isActive !== undefined
+        ? req.query.isActive === 'true' || req.query.isActive === '1'
+        : undefined;
+
+      const rules = await CategorizationService.getRules(userId, { isActive });
+      return res.status(200).json({
+        message: 'Categorization rules retrieved successfully',
+        rules
+      });
+    } catch (e: any) {
+      return handleCategorizationError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /categorization-rules/apply/preview:
+   *   post:
+   *     tags:
+   *       - Categorization Rules
+   *     summary: Xem trước kết quả chạy lại rule cho giao dịch cũ
+   *     description: |
+   *       Quét giao dịch income/expense trong khoảng ngày (tối đa 5000 giao dịch, không gồm giao dịch vay nợ)
+   *       và trả về các giao dịch sẽ bị đổi danh mục hoặc được thêm tag. Không ghi DB.
+   *       Giao dịch split chỉ được thêm tag, không đổi danh mục.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/ApplyCategorizationRulesRequest'
+   *     responses:
+   *       200:
+   *         description: Danh sách giao dịch sẽ thay đổi (newCategory, addTags, ruleIds)
+   *       400:
+   *         description: Khoảng ngày không hợp lệ hoặc có quá nhiều giao dịch
+   *       404:
+   *         description: Rule trong ruleIds không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async previewApply(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const preview = await CategorizationService.previewApply(req.body, userId);
+      return res.status(200).json({
+        message: 'Categorization preview generated successfully',
+        ...preview
+      });
+    } catch (e: any) {
+      return handleCategorizationError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /categorization-rules/apply:
+   *   post:
+   *     tags:
+   *       - Categorization Rules
+   *     summary: Chạy lại rule cho giao dịch cũ trong khoảng ngày
+   *     description: |
+   *       Áp dụng các thay đổi như preview (đổi danh mục, thêm tag) trong 1 DB transaction.
+   *       Số dư ví không thay đổi.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/ApplyCategorizationRulesRequest'
+   *     responses:
+   *       200:
+   *         description: Số giao dịch đã quét/cập nhật và chi tiết thay đổi
+   *       400:
+   *         description: Khoảng ngày không hợp lệ hoặc có quá nhiều giao dịch
+   *       404:
+   *         description: Rule trong ruleIds không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async applyRules(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await CategorizationService.applyRules(req.body, userId);
+      return res.status(200).json({
+        message: 'Categorization rules applied successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleCategorizationError(e, res);
+    }
+  },
+
+  /**
+   * Lấy quy tắc tự phân loại theo ID
+   * GET /api/categorization-rules/:id
+   *
+   * @param req.params.id - Rule ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với rule (kèm danh mục)
+   * @returns 404 Not Found nếu rule không tồn tại
+   */
+  async getRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rule = await CategorizationService.getRuleById(req.params.id, userId);
+      if (!rule) {
+        return res.status(404).json({ message: 'Categorization rule not found' });
+      }
+
+      return res.status(200).json({
+        message: 'Categorization rule retrieved successfully',
+        rule
+      });
+    } catch (e: any) {
+      return handleCategorizationError(e, res);
+    }
+  },
+
+  /**
+   * Cập nhật quy tắc tự phân loại (không đổi được type)
+   * PUT /api/categorization-rules/:id
+   *
+   * @param req.params.id - Rule ID
+   * @param req.body - { name?, conditions?, categoryId?, tags?, priority?, isActive? } đã được validate
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với rule đã cập nhật
+   * @returns 400 Bad Request nếu rule không còn gán danh mục lẫn tag hoặc danh mục khác type
+   * @returns 404 Not Found nếu rule, danh mục hoặc ví không tồn tại
+   */
+  async updateRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rule = await CategorizationService.updateRule(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Categorization rule updated successfully',
+        rule
+      });
+    } catch (e: any) {
+      return handleCategorizationError(e, res);
+    }
+  },
+
+  /**
+   * Xoá quy tắc tự phân loại (giao dịch đã phân loại giữ nguyên)
+   * DELETE /api/categorization-rules/:id
+   *
+   * @param req.params.id - Rule ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK
+   * @returns 404 Not Found nếu rule không tồn tại
+   */
+  async deleteRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await CategorizationService.deleteRule(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Categorization rule deleted successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleCategorizationError(e, res);
+    }
+  }
+};
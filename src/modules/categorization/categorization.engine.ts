@@ -0,0 +1,147 @@
+/**
+ * Categorization Engine
+ * So khớp giao dịch với các quy tắc tự phân loại (CategorizationRule)
+ *
+ * - Rule chỉ áp dụng cho giao dịch cùng type (income/expense) và khi tất cả điều kiện đều thoả
+ * - Rule chạy theo priority tăng dần: rule khớp đầu tiên có danh mục quyết định danh mục,
+ *   tag của mọi rule khớp được gộp lại
+ */
+import { prisma } from '../../db/prisma';
+import { Prisma } from '../../generated/prisma/client';
+import { foldSearchText } from '../transaction/transaction.search';
+import { normalizePayeeName } from '../payee/payee.normalize';
+import { RuleCondition } from './categorization.schema';
+
+// Thông tin giao dịch dùng để so khớp rule
+export type RuleSubject = {
+  type: 'income' | 'expense';
+  note?: string | null;
+  payeeName?: string | null;
+  amount: Prisma.Decimal | number;
+  walletId: string;
+};
+
+// Kết quả so khớp: danh mục (null => không rule nào gán danh mục), tag gộp và các rule đã khớp
+export type RuleMatch = {
+  categoryId: string | null;
+  tags: string[];
+  ruleIds: string[];
+};
+
+// Rule đã load, danh mục sai type/không còn tồn tại đã được bỏ
+type LoadedRule = {
+  id: string;
+  name: string;
+  type: 'income' | 'expense';
+  conditions: RuleCondition[];
+  categoryId: string | null;
+  tags: string[];
+};
+
+/**
+ * Chuỗi so khớp của note: bỏ dấu, chữ thường, gộp khoảng trắng
+ */
+function foldNote(text: string) {
+  return foldSearchText(text).replace(/\s+/g, ' ').trim();
+}
+
+function matchesText(text: string, operator: 'contains' | 'equals' | 'startsWith', value: string) {
+  if (!text || !value) return false;
+  switch (operator) {
+    case 'contains':
+      return text.includes(value);
+    case 'equals':
+      return text === value;
+    case 'startsWith':
+      return text.startsWith(value);
+  }
+}
+
+function matchesCondition(condition: RuleCondition, subject: RuleSubject) {
+  switch (condition.field) {
+    case 'note':
+      return matchesText(foldNote(subject.note ?? ''), condition.operator, foldNote(condition.value));
+    case 'payee':
+      return matchesText(
+        normalizePayeeName(subject.payeeName ?? ''),
+        condition.operator,
+        normalizePayeeName(condition.value)
+      );
+    case 'amount': {
+      const comparison = new Prisma.Decimal(subject.amount).comparedTo(condition.value);
+      switch (condition.operator) {
+        case 'eq': return comparison === 0;
+        case 'gt': return comparison > 0;
+        case 'gte': return comparison >= 0;
+        case 'lt': return comparison < 0;
+        case 'lte': return comparison <= 0;
+      }
+      return false;
+    }
+    case 'walletId':
+      return subject.walletId === condition.value;
+  }
+}
+
+/**
+ * So khớp 1 giao dịch với danh sách rule (đã sắp theo priority)
+ */
+function matchRules(rules: LoadedRule[], subject: RuleSubject): RuleMatch {
+  const result: RuleMatch = { categoryId: null, tags: [], ruleIds: [] };
+
+  for (const rule of rules) {
+    if (rule.type !== subject.type || !rule.conditions.every((condition) => matchesCondition(condition, subject))) {
+      continue;
+    }
+    result.ruleIds.push(rule.id);
+    if (!result.categoryId && rule.categoryId) {
+      result.categoryId = rule.categoryId;
+    }
+    for (const tag of rule.tags) {
+      if (!result.tags.includes(tag)) result.tags.push(tag);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Load rule của user 1 lần và trả về hàm so khớp (dùng cho cả batch giao dịch)
+ * Danh mục của rule được kiểm tra lại ownership + type tại đây => rule không bao giờ gán danh mục sai type,
+ * kể cả khi danh mục bị xoá/đổi sau khi lưu rule
+ *
+ * @param userId - ID của user
+ * @param ruleIds - Chỉ load các rule này (kể cả rule đang tạm dừng); mặc định mọi rule đang bật
+ * @returns rules đã load và hàm match(subject)
+ */
+export async function loadRuleMatcher(userId: string, ruleIds?: string[]) {
+  const records = await prisma.categorizationRule.findMany({
+    where: ruleIds ? { userId, id: { in: ruleIds } } : { userId, isActive: true },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  const categoryIds = [...new Set(records.flatMap((rule) => (rule.categoryId ? [rule.categoryId] : [])))];
+  const categories = categoryIds.length > 0
+    ? await prisma.category.findMany({
+      where: { id: { in: categoryIds }, userId },
+      select: { id: true, type: true }
+    })
+    : [];
+  const categoryTypes = new Map(categories.map((category) => [category.id, category.type]));
+
+  const rules: LoadedRule[] = records.map((rule) => ({
+    id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    conditions: rule.conditions as RuleCondition[],
+    categoryId: rule.categoryId && categoryTypes.get(rule.categoryId) === rule.type ? rule.categoryId : null,
+    tags: Array.isArray(rule.tags) ? (rule.tags as string[]) : []
+  }));
+
+  return {
+    rules,
+    match: (subject: RuleSubject) => matchRules(rules, subject)
+  };
+}
+
+export type RuleMatcher = Awaited<ReturnType<typeof loadRuleMatcher>>;
@@ -0,0 +1,101 @@
+// Schema validation cho Categorization Rule APIs
+// Sử dụng Zod để validate điều kiện/hành động của quy tắc tự phân loại giao dịch
+import { z } from 'zod';
+import { transactionTagsSchema } from '../tag/tag.schema';
+
+const textValueSchema = z.string()
+  .trim()
+  .min(1, 'value không được rỗng')
+  .max(255, 'value không được quá 255 ký tự');
+
+const textOperatorSchema = z.enum(['contains', 'equals', 'startsWith'], {
+  message: 'operator phải là contains, equals hoặc startsWith'
+});
+
+const dateSchema = (field: string) => z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: `${field} phải là ngày hợp lệ`
+}).transform((val) => new Date(val));
+
+// 1 điều kiện của rule
+// - note/payee: so khớp không phân biệt hoa thường/dấu
+// - amount: so sánh với số tiền giao dịch (theo tiền tệ của ví)
+// - walletId: giao dịch thuộc ví
+export const ruleConditionSchema = z.discriminatedUnion('field', [
+  z.object({ field: z.literal('note'), operator: textOperatorSchema, value: textValueSchema }),
+  z.object({ field: z.literal('payee'), operator: textOperatorSchema, value: textValueSchema }),
+  z.object({
+    field: z.literal('amount'),
+    operator: z.enum(['eq', 'gt', 'gte', 'lt', 'lte'], {
+      message: 'operator phải là eq, gt, gte, lt hoặc lte'
+    }),
+    value: z.number().positive('value phải lớn hơn 0').refine(
+      (val) => Number(val.toFixed(2)) === val,
+      'value chỉ được phép 2 số thập phân'
+    )
+  }),
+  z.object({
+    field: z.literal('walletId'),
+    operator: z.literal('eq'),
+    value: z.string().uuid('walletId phải là UUID hợp lệ')
+  })
+], { message: 'field phải là note, payee, amount hoặc walletId' });
+
+// Danh sách điều kiện: giao dịch phải thoả tất cả
+const conditionsSchema = z.array(ruleConditionSchema)
+  .min(1, 'conditions phải có ít nhất 1 điều kiện')
+  .max(10, 'conditions không được quá 10 điều kiện');
+
+const prioritySchema = z.number().int()
+  .min(0, 'priority phải từ 0 đến 1000')
+  .max(1000, 'priority phải từ 0 đến 1000');
+
+// Schema cho tạo rule mới
+// Rule phải gán danh mục hoặc tag (hoặc cả hai); danh mục phải cùng type với rule
+export const createCategorizationRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Tên rule không được rỗng').max(100, 'Tên rule không được quá 100 ký tự'),
+  type: z.enum(['income', 'expense'], {
+    message: 'type phải là income hoặc expense'
+  }),
+  conditions: conditionsSchema,
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').optional(),
+  tags: transactionTagsSchema.optional(),
+  priority: prioritySchema.optional().default(100),
+  isActive: z.boolean().optional()
+}).refine(
+  (data) => data.categoryId !== undefined || (data.tags?.length ?? 0) > 0,
+  { message: 'Rule phải gán categoryId hoặc tags', path: ['categoryId'] }
+);
+
+// Schema cho cập nhật rule
+// Không cho đổi type (xoá và tạo rule mới nếu cần); null => bỏ danh mục
+export const updateCategorizationRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Tên rule không được rỗng').max(100, 'Tên rule không được quá 100 ký tự').optional(),
+  conditions: conditionsSchema.optional(),
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').nullable().optional(),
+  tags: transactionTagsSchema.optional(),
+  priority: prioritySchema.optional(),
+  isActive: z.boolean().optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Phải cung cấp ít nhất một trường để cập nhật'
+);
+
+// Schema cho chạy lại rule trên giao dịch cũ (preview và apply dùng chung)
+// ruleIds: chỉ chạy các rule này (mặc định: mọi rule đang bật)
+export const applyCategorizationRulesSchema = z.object({
+  startDate: dateSchema('startDate'),
+  endDate: dateSchema('endDate'),
+  ruleIds: z.array(z.string().uuid('ruleIds phải là UUID hợp lệ'))
+    .min(1, 'ruleIds phải có ít nhất 1 rule')
+    .max(100, 'ruleIds không được quá 100 rule')
+    .optional()
+}).refine(
+  (data) => data.endDate >= data.startDate,
+  { message: 'endDate phải sau startDate', path: ['endDate'] }
+);
+
+// Type definitions cho TypeScript
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type CreateCategorizationRuleData = z.infer<typeof createCategorizationRuleSchema>;
+export type UpdateCategorizationRuleData = z.infer<typeof updateCategorizationRuleSchema>;
+export type ApplyCategorizationRulesData = z.infer<typeof applyCategorizationRulesSchema>;
@@ -0,0 +1,359 @@
+/**
+ * Categorization Service
+ * File này chứa business logic cho quy tắc tự phân loại giao dịch (CategorizationRule)
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * - Rule được áp dụng tự động khi tạo giao dịch và khi import sao kê (xem categorization.engine)
+ * - Chạy lại rule cho giao dịch cũ theo khoảng ngày: preview danh sách thay đổi trước, apply sau
+ * - Danh mục của rule phải thuộc user và cùng type với rule (validateCategoryOwnership)
+ */
+import { prisma } from '../../db/prisma';
+import { CategorizationRule, Prisma } from '../../generated/prisma/client';
+import { validateCategoryOwnership } from '../transaction/transaction.service';
+import { resolveTagIds } from '../tag/tag.service';
+import { loadRuleMatcher } from './categorization.engine';
+import {
+  ApplyCategorizationRulesData,
+  CreateCategorizationRuleData,
+  RuleCondition,
+  UpdateCategorizationRuleData
+} from './categorization.schema';
+
+// Số giao dịch tối đa được quét trong 1 lần chạy lại rule (thu hẹp khoảng ngày nếu vượt)
+const MAX_APPLY_TRANSACTIONS = 5000;
+
+// Danh mục trả kèm rule / thay đổi
+const categorySelect = { id: true, name: true, type: true, icon: true } as const;
+
+/**
+ * Validate danh mục (cùng type với rule) và ví trong điều kiện của rule thuộc về user
+ * @throws Error('TRANSACTION_CATEGORY_NOT_FOUND' | 'INVALID_CATEGORY_TYPE_FOR_*' | 'TRANSACTION_WALLET_NOT_FOUND')
+ */
+async function validateRuleReferences(
+  rule: { type: 'income' | 'expense'; categoryId?: string | null; conditions: RuleCondition[] },
+  userId: string
+) {
+  if (rule.categoryId) {
+    await validateCategoryOwnership(rule.categoryId, userId, rule.type);
+  }
+
+  for (const condition of rule.conditions) {
+    if (condition.field !== 'walletId') continue;
+    const wallet = await prisma.wallet.findFirst({
+      where: { id: condition.value, userId },
+      select: { id: true }
+    });
+    if (!wallet) {
+      throw new Error('TRANSACTION_WALLET_NOT_FOUND');
+    }
+  }
+}
+
+/**
+ * Gắn thông tin danh mục vào rule (categoryId không có FK nên load riêng)
+ */
+async function withCategories(rules: CategorizationRule[], userId: string) {
+  const categoryIds = [...new Set(rules.flatMap((rule) => (rule.categoryId ? [rule.categoryId] : [])))];
+  const categories = categoryIds.length > 0
+    ? await prisma.category.findMany({
+      where: { id: { in: categoryIds }, userId },
+      select: categorySelect
+    })
+    : [];
+  const byId = new Map(categories.map((category) => [category.id, category]));
+
+  return rules.map((rule) => ({
+    ...rule,
+    category: rule.categoryId ? byId.get(rule.categoryId) ?? null : null
+  }));
+}
+
+/**
+ * Tính các thay đổi khi chạy lại rule cho giao dịch income/expense trong khoảng ngày
+ * - Danh mục: đổi sang danh mục của rule khớp (giao dịch split giữ nguyên danh mục)
+ * - Tag: thêm tag của rule khớp mà giao dịch chưa có
+ * Giao dịch thuộc luồng vay nợ và giao dịch đã chốt đối chiếu (reconciled) không bị thay đổi
+ */
+async function findRuleChanges(data: ApplyCategorizationRulesData, userId: string) {
+  if (data.ruleIds) {
+    const ruleIds = [...new Set(data.ruleIds)];
+    const found = await prisma.categorizationRule.count({
+      where: { id: { in: ruleIds }, userId }
+    });
+    if (found !== ruleIds.length) {
+      throw new Error('CATEGORIZATION_RULE_NOT_FOUND');
+    }
+  }
+
+  const matcher = await loadRuleMatcher(userId, data.ruleIds);
+  const where: Prisma.TransactionWhereInput = {
+    userId,
+    deletedAt: null,
+    type: { in: ['income', 'expense'] },
+    transactionDate: { gte: data.startDate, lte: data.endDate },
+    loanId: null,
+    loanPayment: { is: null },
+    status: { not: 'reconciled' }
+  };
+
+  const scannedCount = await prisma.transaction.count({ where });
+  if (scannedCount > MAX_APPLY_TRANSACTIONS) {
+    throw new Error('CATEGORIZATION_APPLY_TOO_MANY_TRANSACTIONS');
+  }
+  if (matcher.rules.length === 0 || scannedCount === 0) {
+    return { scannedCount, changes: [] };
+  }
+
+  const transactions = await prisma.transaction.findMany({
+    where,
+    orderBy: { transactionDate: 'asc' },
+    select: {
+      id: true,
+      type: true,
+      transactionDate: true,
+      amount: true,
+      currency: true,
+      note: true,
+      categoryId: true,
+      category: { select: categorySelect },
+      payee: { select: { id: true, name: true } },
+      entries: { select: { walletId: true }, take: 1 },
+      tags: { select: { tag: { select: { name: true } } } },
+      _count: { select: { splits: true } }
+    }
+  });
+
+  const changes = [];
+  for (const transaction of transactions) {
+    const match = matcher.match({
+      type: transaction.type as 'income' | 'expense',
+      note: transaction.note,
+      payeeName: transaction.payee?.name,
+      amount: transaction.amount,
+      walletId: transaction.entries[0]?.walletId ?? ''
+    });
+
+    const hasSplits = transaction._count.splits > 0;
+    const newCategoryId = !hasSplits && match.categoryId && match.categoryId !== transaction.categoryId
+      ? match.categoryId
+      : null;
+    const currentTags = new Set(transaction.tags.map(({ tag }) => tag.name));
+    const addTags = match.tags.filter((tag) => !currentTags.has(tag));
+
+    if (newCategoryId || addTags.length > 0) {
+      const { _count, entries, tags, ...rest } = transaction;
+      changes.push({ ...rest, newCategoryId, addTags, ruleIds: match.ruleIds });
+    }
+  }
+
+  return { scannedCount, changes };
+}
+
+export const CategorizationService = {
+  /**
+   * Tạo quy tắc tự phân loại
+   *
+   * @param data - Dữ liệu rule đã validate
+   * @param userId - ID của user tạo rule
+   * @returns CategorizationRule object đã tạo (kèm danh mục)
+   * @throws Error('TRANSACTION_CATEGORY_NOT_FOUND') nếu danh mục không tồn tại
+   * @throws Error('INVALID_CATEGORY_TYPE_FOR_INCOME' | 'INVALID_CATEGORY_TYPE_FOR_EXPENSE') nếu danh mục khác type rule
+   * @throws Error('TRANSACTION_WALLET_NOT_FOUND') nếu ví trong điều kiện không tồn tại
+   */
+  async createRule(data: CreateCategorizationRuleData, userId: string) {
+    await validateRuleReferences(data, userId);
+
+    const rule = await prisma.categorizationRule.create({
+      data: {
+        userId,
+        name: data.name,
+        type: data.type,
+        conditions: data.conditions,
+        categoryId: data.categoryId,
+        tags: data.tags ? [...new Set(data.tags)] : undefined,
+        priority: data.priority,
+        isActive: data.isActive
+      }
+    });
+
+    return (await withCategories([rule], userId))[0];
+  },
+
+  /**
+   * Lấy danh sách rule của user theo thứ tự áp dụng (priority tăng dần)
+   *
+   * @param userId - ID của user
+   * @param filters - isActive
+   * @returns Danh sách rule kèm danh mục
+   */
+  async getRules(userId: string, filters: { isActive?: boolean } = {}) {
+    const rules = await prisma.categorizationRule.findMany({
+      where: {
+        userId,
+        ...(filters.isActive !== undefined ? { isActive: filters.isActive } : {})
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    return await withCategories(rules, userId);
+  },
+
+  /**
+   * Lấy rule theo ID
+   *
+   * @param ruleId - ID của rule
+   * @param userId - ID của user (để verify ownership)
+   * @returns CategorizationRule object (kèm danh mục) hoặc null nếu không tìm thấy
+   */
+  async getRuleById(ruleId: string, userId: string) {
+    const rule = await prisma.categorizationRule.findFirst({
+      where: { id: ruleId, userId }
+    });
+    return rule ? (await withCategories([rule], userId))[0] : null;
+  },
+
+  /**
+   * Cập nhật rule (không áp dụng lại cho giao dịch cũ, dùng apply nếu cần)
+   *
+   * @param ruleId - ID của rule
+   * @param userId - ID của user sở hữu rule
+   * @param data - Dữ liệu cập nhật
+   * @returns CategorizationRule object đã cập nhật
+   * @throws Error('CATEGORIZATION_RULE_NOT_FOUND') nếu rule không tồn tại
+   * @throws Error('CATEGORIZATION_RULE_NO_ACTION') nếu rule không còn gán danh mục lẫn tag
+   */
+  async updateRule(ruleId: string, userId: string, data: UpdateCategorizationRuleData) {
+    const existing = await prisma.categorizationRule.findFirst({
+      where: { id: ruleId, userId }
+    });
+    if (!existing) {
+      throw new Error('CATEGORIZATION_RULE_NOT_FOUND');
+    }
+
+    const categoryId = data.categoryId !== undefined ? data.categoryId : existing.categoryId;
+    const tags = data.tags !== undefined
+      ? [...new Set(data.tags)]
+      : (Array.isArray(existing.tags) ? (existing.tags as string[]) : []);
+    if (!categoryId && tags.length === 0) {
+      throw new Error('CATEGORIZATION_RULE_NO_ACTION');
+    }
+
+    await validateRuleReferences({
+      type: existing.type,
+      categoryId: data.categoryId,
+      conditions: data.conditions ?? []
+    }, userId);
+
+    const rule = await prisma.categorizationRule.update({
+      where: { id: ruleId },
+      data: {
+        name: data.name,
+        conditions: data.conditions,
+        categoryId: data.categoryId,
+        tags: data.tags !== undefined ? tags : undefined,
+        priority: data.priority,
+        isActive: data.isActive
+      }
+    });
+
+    return (await withCategories([rule], userId))[0];
+  },
+
+  /**
+   * Xoá rule (giao dịch đã phân loại giữ nguyên)
+   *
+   * @param ruleId - ID của rule
+   * @param userId - ID của user sở hữu rule
+   * @throws Error('CATEGORIZATION_RULE_NOT_FOUND') nếu rule không tồn tại
+   */
+  async deleteRule(ruleId: string, userId: string) {
+    const existing = await prisma.categorizationRule.findFirst({
+      where: { id: ruleId, userId },
+      select: { id: true }
+    });
+    if (!existing) {
+      throw new Error('CATEGORIZATION_RULE_NOT_FOUND');
+    }
+
+    await prisma.categorizationRule.delete({
+      where: { id: ruleId }
+    });
+
+    return { id: ruleId, deleted: true };
+  },
+
+  /**
+   * Xem trước (dry-run) kết quả chạy lại rule cho giao dịch trong khoảng ngày
+   *
+   * @param data - Khoảng ngày và danh sách rule (mặc định: mọi rule đang bật)
+   * @param userId - ID của user
+   * @returns Số giao dịch đã quét và danh sách giao dịch sẽ thay đổi (danh mục mới, tag thêm)
+   * @throws Error('CATEGORIZATION_RULE_NOT_FOUND') nếu ruleIds có rule không tồn tại
+   * @throws Error('CATEGORIZATION_APPLY_TOO_MANY_TRANSACTIONS') nếu khoảng ngày có quá nhiều giao dịch
+   */
+  async previewApply(data: ApplyCategorizationRulesData, userId: string) {
+    const { scannedCount, changes } = await findRuleChanges(data, userId);
+
+    const categoryIds = [...new Set(changes.flatMap((change) => (change.newCategoryId ? [change.newCategoryId] : [])))];
+    const categories = categoryIds.length > 0
+      ? await prisma.category.findMany({
+        where: { id: { in: categoryIds }, userId },
+        select: categorySelect
+      })
+      : [];
+    const byId = new Map(categories.map((category) => [category.id, category]));
+
+    return {
+      scannedCount,
+      affectedCount: changes.length,
+      changes: changes.map(({ newCategoryId, ...change }) => ({
+        ...change,
+        newCategory: newCategoryId ? byId.get(newCategoryId) ?? null : null
+      }))
+    };
+  },
+
+  /**
+   * Chạy lại rule cho giao dịch trong khoảng ngày: đổi danh mục và thêm tag theo kết quả preview
+   * Chỉ đổi danh mục/tag nên số dư ví không bị ảnh hưởng
+   *
+   * @param data - Khoảng ngày và danh sách rule (mặc định: mọi rule đang bật)
+   * @param userId - ID của user
+   * @returns Số giao dịch đã quét, số giao dịch đã cập nhật và chi tiết thay đổi
+   * @throws Error('CATEGORIZATION_RULE_NOT_FOUND') nếu ruleIds có rule không tồn tại
+   * @throws Error('CATEGORIZATION_APPLY_TOO_MANY_TRANSACTIONS') nếu khoảng ngày có quá nhiều giao dịch
+   */
+  async applyRules(data: ApplyCategorizationRulesData, userId: string) {
+    const { scannedCount, changes } = await findRuleChanges(data, userId);
+    if (changes.length === 0) {
+      return { scannedCount, updatedCount: 0, changes };
+    }
+
+    const tagIds = await resolveTagIds(userId, changes.flatMap((change) => change.addTags));
+
+    // Gom giao dịch theo danh mục mới để cập nhật theo lô
+    const byCategory = new Map<string, string[]>();
+    for (const change of changes) {
+      if (!change.newCategoryId) continue;
+      byCategory.set(change.newCategoryId, [...(byCategory.get(change.newCategoryId) ?? []), change.id]);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const [categoryId, ids] of byCategory) {
+        await tx.transaction.updateMany({
+          where: { id: { in: ids }, userId, deletedAt: null },
+          data: { categoryId }
+        });
+      }
+
+      const tagLinks = changes.flatMap((change) =>
+        change.addTags.map((name) => ({ transactionId: change.id, tagId: tagIds.get(name)! }))
+      );
+      if (tagLinks.length > 0) {
+        await tx.transactionTag.createMany({ data: tagLinks, skipDuplicates: true });
+      }
+    }, { timeout: 60_000 });
+
+    return { scannedCount, updatedCount: changes.length, changes };
+  }
+};
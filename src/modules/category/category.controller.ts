@@ -48,6 +48,7 @@ export const CategoryController = {
    * - includeChildren: 'true' | 'false' (default: true)
    * - limit: number (default: 50, max: 100)
    * - offset: number (default: 0)
+   * - cursor: nextCursor/prevCursor của trang trước đó, gửi rỗng để lấy trang đầu ở chế độ cursor
    *
    * @param req.query - Query parameters đã được validate
    * @param req.user.sub - User ID từ JWT token
@@ -64,15 +65,15 @@ export const CategoryController = {
         type: req.query.type as 'income' | 'expense' | undefined,
         includeChildren: req.query.includeChildren !== 'false',
         limit: parseInt(req.query.limit as string) || 50,
-        offset: parseInt(req.query.offset as string) || 0
+        offset: parseInt(req.query.offset as string) || 0,
+        cursor: req.query.cursor as string | undefined
       });
       return res.status(200).json({
         message: 'Categories retrieved successfully',
         ...result
       });
     } catch (e: any) {
-      console.error('Get categories error:', e);
-      return res.status(500).json({ message: 'Internal server error' });
+      return handleCategoryError(e, res);
     }
   },
 
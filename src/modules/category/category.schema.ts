@@ -38,7 +38,9 @@ export const getCategoriesQuerySchema = z.object({
   offset: z.string().transform((val) => {
     const num = parseInt(val);
     return isNaN(num) ? 0 : Math.max(num, 0);
-  }).optional().default(0)
+  }).optional().default(0),
+  // Có cursor (kể cả rỗng) => phân trang keyset thay cho offset
+  cursor: z.string().optional()
 });
 
 // Schema cho tạo category từ template
@@ -4,8 +4,18 @@
  * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
  */
 import { prisma } from '../../db/prisma';
+import { Prisma } from '../../generated/prisma/client';
+import { KeysetField, findCursorPage } from '../../utils/pagination';
 import { CreateCategoryData, UpdateCategoryData, GetCategoriesQuery, CreateFromTemplateData } from './category.schema';
 
+// Thứ tự của danh sách danh mục khi phân trang bằng cursor (thêm id để thứ tự ổn định)
+const CATEGORY_CURSOR_KEYS: KeysetField[] = [
+  { field: 'type', direction: 'asc', type: 'enum', values: ['income', 'expense'] },
+  { field: 'sortOrder', direction: 'asc', type: 'number' },
+  { field: 'createdAt', direction: 'asc', type: 'date' },
+  { field: 'id', direction: 'asc', type: 'string' }
+];
+
 export const CategoryService = {
   /**
    * Tạo danh mục mới cho user
@@ -73,11 +83,11 @@ export const CategoryService = {
    * Lấy danh sách danh mục của user
    *
    * @param userId - ID của user
-   * @param filters - Các filter tùy chọn
+   * @param filters - Các filter tùy chọn (có cursor => phân trang keyset, không đếm total)
    * @returns Danh sách danh mục với pagination
    */
   async getCategories(userId: string, filters: Partial<GetCategoriesQuery> = {}) {
-    const { type, includeChildren = true, limit = 50, offset = 0 } = filters;
+    const { type, includeChildren = true, limit = 50, offset = 0, cursor } = filters;
 
     // Build where clause
     const where: any = {
@@ -88,18 +98,27 @@ export const CategoryService = {
       where.type = type;
     }
 
+    const include = {
+      children: includeChildren ? {
+        orderBy: { sortOrder: 'asc' }
+      } : false,
+      parent: true,
+      _count: {
+        select: { transactions: true, splits: true, feeEntries: true }
+      }
+    } satisfies Prisma.CategoryInclude;
+
+    if (cursor !== undefined) {
+      const { items, pagination } = await findCursorPage(CATEGORY_CURSOR_KEYS, cursor, limit, (page) =>
+        prisma.category.findMany({ where: { AND: [where, page.where] }, include, orderBy: page.orderBy, take: page.take })
+      );
+      return { categories: items, pagination };
+    }
+
     // Lấy danh sách danh mục
     const categories = await prisma.category.findMany({
       where,
-      include: {
-        children: includeChildren ? {
-          orderBy: { sortOrder: 'asc' }
-        } : false,
-        parent: true,
-        _count: {
-          select: { transactions: true }
-        }
-      },
+      include,
       orderBy: [
         { type: 'asc' },      // Income trước, expense sau
         { sortOrder: 'asc' }, // Theo thứ tự sắp xếp
@@ -142,7 +161,7 @@ export const CategoryService = {
         },
         parent: true,
         _count: {
-          select: { transactions: true }
+          select: { transactions: true, splits: true, feeEntries: true }
         }
       }
     });
@@ -221,6 +240,14 @@ export const CategoryService = {
         transactions: {
           select: { id: true },
           take: 1
+        },
+        splits: {
+          select: { id: true },
+          take: 1
+        },
+        feeEntries: {
+          select: { id: true },
+          take: 1
         }
       }
     });
@@ -229,8 +256,8 @@ export const CategoryService = {
       throw new Error('CATEGORY_NOT_FOUND');
     }
 
-    // Kiểm tra danh mục có giao dịch nào không
-    if (category.transactions.length > 0) {
+    // Kiểm tra danh mục có giao dịch nào không (kể cả dòng split và phí chuyển tiền)
+    if (category.transactions.length > 0 || category.splits.length > 0 || category.feeEntries.length > 0) {
       throw new Error('CATEGORY_HAS_TRANSACTIONS');
     }
 
@@ -0,0 +1,206 @@
+/**
+ * Currency Controller
+ * File này xử lý HTTP requests/responses cho các exchange rate endpoints
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { CurrencyService } from './currency.service';
+import { currencyCodeSchema } from './currency.schema';
+import { handleError } from '../../utils/error-handler';
+
+// Create module-specific error handler
+const handleCurrencyError = (error: any, res: Response) =>
+  handleError(error, res, 'Currency');
+
+export const CurrencyController = {
+  /**
+   * @swagger
+   * /exchange-rates:
+   *   post:
+   *     tags:
+   *       - Exchange Rates
+   *     summary: Nhập tỷ giá thủ công
+   *     description: |
+   *       1 đơn vị fromCurrency = rate đơn vị toCurrency, áp dụng từ effectiveDate đến khi có tỷ giá mới hơn.
+   *       Chiều ngược lại được suy ra bằng nghịch đảo. Nhập lại cùng cặp tiền trong cùng ngày sẽ ghi đè.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - fromCurrency
+   *               - toCurrency
+   *               - rate
+   *               - effectiveDate
+   *             properties:
+   *               fromCurrency:
+   *                 type: string
+   *                 example: USD
+   *               toCurrency:
+   *                 type: string
+   *                 example: VND
+   *               rate:
+   *                 type: number
+   *                 example: 25400
+   *               effectiveDate:
+   *                 type: string
+   *                 format: date
+   *                 example: "2026-10-19"
+   *     responses:
+   *       201:
+   *         description: Tỷ giá đã được lưu
+   *       400:
+   *         description: Dữ liệu không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createRate(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rate = await CurrencyService.createRate(req.body, userId);
+      return res.status(201).json({
+        message: 'Exchange rate saved successfully',
+        rate
+      });
+    } catch (e: any) {
+      return handleCurrencyError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /exchange-rates/import:
+   *   post:
+   *     tags:
+   *       - Exchange Rates
+   *     summary: Import tỷ giá từ file CSV
+   *     description: |
+   *       Mỗi dòng gồm effectiveDate (yyyy-MM-dd), fromCurrency, toCurrency, rate (dấu chấm thập phân).
+   *       Dòng header được tự bỏ qua, dòng không hợp lệ trả về trong skippedRows.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - content
+   *             properties:
+   *               content:
+   *                 type: string
+   *                 example: "effectiveDate,fromCurrency,toCurrency,rate\n2026-10-01,USD,VND,25400"
+   *               delimiter:
+   *                 type: string
+   *                 enum: [',', ';', "\t"]
+   *     responses:
+   *       201:
+   *         description: Import thành công
+   *       400:
+   *         description: Không có dòng hợp lệ hoặc file quá nhiều dòng
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async importRates(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await CurrencyService.importRates(req.body, userId);
+      return res.status(201).json({
+        message: 'Exchange rates imported successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleCurrencyError(e, res);
+    }
+  },
+
+  /**
+   * Lấy danh sách tỷ giá của user
+   * GET /api/exchange-rates
+   *
+   * Query parameters (tất cả optional):
+   * - fromCurrency, toCurrency: mã tiền tệ ISO 4217
+   * - limit: number (default: 50, max: 100)
+   * - offset: number (default: 0)
+   *
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với danh sách tỷ giá và pagination info
+   */
+  async getRates(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 50;
+      const offset = parseInt(req.query.offset as string) || 0;
+      if (limit < 1 || limit > 100) {
+        return res.status(400).json({ message: 'Limit must be between 1 and 100' });
+      }
+      if (offset < 0) {
+        return res.status(400).json({ message: 'Offset must be non-negative' });
+      }
+
+      const fromCurrency = req.query.fromCurrency === undefined
+        ? undefined : currencyCodeSchema.safeParse(req.query.fromCurrency);
+      const toCurrency = req.query.toCurrency === undefined
+        ? undefined : currencyCodeSchema.safeParse(req.query.toCurrency);
+      if (fromCurrency?.success === false || toCurrency?.success === false) {
+        return res.status(400).json({ message: 'Invalid currency code' });
+      }
+
+      const result = await CurrencyService.getRates(userId, {
+        fromCurrency: fromCurrency?.data,
+        toCurrency: toCurrency?.data,
+        limit,
+        offset
+      });
+      return res.status(200).json({
+        message: 'Exchange rates retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleCurrencyError(e, res);
+    }
+  },
+
+  /**
+   * Xoá tỷ giá
+   * DELETE /api/exchange-rates/:id
+   *
+   * @param req.params.id - Exchange rate ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK
+   * @returns 404 Not Found nếu tỷ giá không tồn tại
+   */
+  async deleteRate(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rate = await CurrencyService.deleteRate(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Exchange rate deleted successfully',
+        rate
+      });
+    } catch (e: any) {
+      return handleCurrencyError(e, res);
+    }
+  }
+};
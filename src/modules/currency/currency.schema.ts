@@ -0,0 +1,33 @@
+// Schema validation cho Currency / Exchange Rate APIs
+// Sử dụng Zod để validate mã tiền tệ và tỷ giá
+import { z } from 'zod';
+
+// Mã tiền tệ ISO 4217 (VD: VND, USD), chấp nhận chữ thường và tự chuyển thành chữ hoa
+export const currencyCodeSchema = z.string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, 'Mã tiền tệ phải gồm 3 chữ cái theo ISO 4217 (VD: VND, USD)');
+
+// Schema cho nhập tỷ giá thủ công
+// 1 đơn vị fromCurrency = rate đơn vị toCurrency, áp dụng từ effectiveDate (yyyy-MM-dd)
+export const createExchangeRateSchema = z.object({
+  fromCurrency: currencyCodeSchema,
+  toCurrency: currencyCodeSchema,
+  rate: z.number().positive('Tỷ giá phải lớn hơn 0').max(1e10, 'Tỷ giá quá lớn'),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'effectiveDate phải có dạng yyyy-MM-dd')
+    .refine((val) => !isNaN(Date.parse(val)), 'effectiveDate không hợp lệ')
+}).refine(
+  (data) => data.fromCurrency !== data.toCurrency,
+  { message: 'fromCurrency và toCurrency phải khác nhau', path: ['toCurrency'] }
+);
+
+// Schema cho import tỷ giá từ file CSV
+// Các cột: effectiveDate,fromCurrency,toCurrency,rate (dòng header được tự bỏ qua)
+export const importExchangeRatesSchema = z.object({
+  content: z.string().min(1, 'content không được rỗng').max(900_000, 'File tỷ giá quá lớn'),
+  delimiter: z.enum([',', ';', '\t']).optional().default(',')
+});
+
+// Type definitions cho TypeScript
+export type CreateExchangeRateData = z.infer<typeof createExchangeRateSchema>;
+export type ImportExchangeRatesData = z.infer<typeof importExchangeRatesSchema>;
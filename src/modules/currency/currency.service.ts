@@ -0,0 +1,304 @@
+/**
+ * Currency Service
+ * File này chứa business logic cho tỷ giá và quy đổi tiền tệ
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ */
+import { prisma } from '../../db/prisma';
+import { Prisma } from '../../generated/prisma/client';
+import { parseCsv } from '../../utils/csv';
+import { CreateExchangeRateData, ImportExchangeRatesData, currencyCodeSchema } from './currency.schema';
+
+// Tiền tệ gốc mặc định (dữ liệu cũ đều là VND)
+export const DEFAULT_CURRENCY = 'VND';
+
+// Giới hạn số dòng cho 1 lần import tỷ giá (cùng giới hạn với import sao kê)
+const MAX_IMPORT_RATE_ROWS = 1000;
+
+type RateRecord = {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: Prisma.Decimal;
+  effectiveDate: Date;
+};
+
+/**
+ * Bộ quy đổi số tiền sang tiền tệ gốc của user tại 1 thời điểm
+ * Tiền tệ thiếu tỷ giá được ghi nhận vào unconvertedCurrencies thay vì throw
+ */
+export type CurrencyConverter = {
+  baseCurrency: string;
+  convert(amount: Prisma.Decimal | number, currency: string): Prisma.Decimal | null;
+  readonly unconvertedCurrencies: string[];
+};
+
+/**
+ * Chuẩn hoá ngày hiệu lực yyyy-MM-dd về 00:00 UTC (1 tỷ giá / cặp tiền / ngày)
+ */
+function toRateDate(value: string) {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+/**
+ * Chọn tỷ giá from -> to có hiệu lực tại asOf (effectiveDate gần nhất <= asOf)
+ * Ưu tiên tỷ giá trực tiếp, nếu không có thì dùng nghịch đảo của tỷ giá chiều ngược lại
+ *
+ * @returns Tỷ giá hoặc null nếu không có dữ liệu
+ */
+export function pickExchangeRate(rates: RateRecord[], from: string, to: string, asOf: Date) {
+  if (from === to) return new Prisma.Decimal(1);
+
+  let best: { rate: Prisma.Decimal; effectiveDate: Date; direct: boolean } | null = null;
+  for (const record of rates) {
+    if (record.effectiveDate > asOf) continue;
+
+    const direct = record.fromCurrency === from && record.toCurrency === to;
+    const inverse = record.fromCurrency === to && record.toCurrency === from;
+    if (!direct && !inverse) continue;
+
+    const isNewer = !best
+      || record.effectiveDate > best.effectiveDate
+      || (record.effectiveDate.getTime() === best.effectiveDate.getTime() && direct && !best.direct);
+    if (isNewer) {
+      best = {
+        rate: direct ? record.rate : new Prisma.Decimal(1).div(record.rate),
+        effectiveDate: record.effectiveDate,
+        direct
+      };
+    }
+  }
+
+  return best?.rate ?? null;
+}
+
+/**
+ * Lấy tỷ giá from -> to của user tại thời điểm asOf
+ *
+ * @throws Error('EXCHANGE_RATE_NOT_FOUND') nếu chưa có tỷ giá cho cặp tiền này
+ */
+export async function getExchangeRate(userId: string, from: string, to: string, asOf: Date) {
+  if (from === to) return new Prisma.Decimal(1);
+
+  const rates = await prisma.exchangeRate.findMany({
+    where: {
+      userId,
+      effectiveDate: { lte: asOf },
+      OR: [
+        { fromCurrency: from, toCurrency: to },
+        { fromCurrency: to, toCurrency: from }
+      ]
+    },
+    orderBy: { effectiveDate: 'desc' },
+    take: 2
+  });
+
+  const rate = pickExchangeRate(rates, from, to, asOf);
+  if (!rate) {
+    throw new Error('EXCHANGE_RATE_NOT_FOUND');
+  }
+  return rate;
+}
+
+/**
+ * Tạo bộ quy đổi sang tiền tệ gốc của user, dùng tỷ giá có hiệu lực tại asOf
+ * Tỷ giá được load 1 lần để quy đổi nhiều số tiền (báo cáo, thống kê)
+ *
+ * @param userId - ID của user
+ * @param asOf - Thời điểm lấy tỷ giá (mặc định: hiện tại)
+ */
+export async function createCurrencyConverter(userId: string, asOf: Date = new Date()): Promise<CurrencyConverter> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { baseCurrency: true }
+  });
+  const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  const rates = await prisma.exchangeRate.findMany({
+    where: {
+      userId,
+      effectiveDate: { lte: asOf },
+      OR: [{ fromCurrency: baseCurrency }, { toCurrency: baseCurrency }]
+    }
+  });
+
+  const unconverted = new Set<string>();
+
+  return {
+    baseCurrency,
+    convert(amount, currency) {
+      const rate = pickExchangeRate(rates, currency, baseCurrency, asOf);
+      if (!rate) {
+        unconverted.add(currency);
+        return null;
+      }
+      return new Prisma.Decimal(amount).times(rate).toDecimalPlaces(2);
+    },
+    get unconvertedCurrencies() {
+      return [...unconverted];
+    }
+  };
+}
+
+export const CurrencyService = {
+  /**
+   * Lấy danh sách tỷ giá của user (mới nhất trước)
+   *
+   * @param userId - ID của user
+   * @param filters - Lọc theo cặp tiền tệ và phân trang
+   */
+  async getRates(
+    userId: string,
+    filters: { fromCurrency?: string; toCurrency?: string; limit: number; offset: number }
+  ) {
+    const { fromCurrency, toCurrency, limit, offset } = filters;
+    const where: Prisma.ExchangeRateWhereInput = { userId };
+    if (fromCurrency) where.fromCurrency = fromCurrency;
+    if (toCurrency) where.toCurrency = toCurrency;
+
+    const [rates, total] = await Promise.all([
+      prisma.exchangeRate.findMany({
+        where,
+        orderBy: [{ effectiveDate: 'desc' }, { fromCurrency: 'asc' }, { toCurrency: 'asc' }],
+        take: limit,
+        skip: offset
+      }),
+      prisma.exchangeRate.count({ where })
+    ]);
+
+    return {
+      rates,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Nhập tỷ giá thủ công
+   * Nếu đã có tỷ giá cho cặp tiền trong ngày đó thì ghi đè
+   *
+   * @param data - Dữ liệu tỷ giá đã validate
+   * @param userId - ID của user
+   * @returns ExchangeRate đã lưu
+   */
+  async createRate(data: CreateExchangeRateData, userId: string) {
+    const effectiveDate = toRateDate(data.effectiveDate);
+
+    return await prisma.exchangeRate.upsert({
+      where: {
+        userId_fromCurrency_toCurrency_effectiveDate: {
+          userId,
+          fromCurrency: data.fromCurrency,
+          toCurrency: data.toCurrency,
+          effectiveDate
+        }
+      },
+      create: {
+        userId,
+        fromCurrency: data.fromCurrency,
+        toCurrency: data.toCurrency,
+        rate: data.rate,
+        effectiveDate,
+        source: 'manual'
+      },
+      update: { rate: data.rate, source: 'manual' }
+    });
+  },
+
+  /**
+   * Import tỷ giá từ file CSV (effectiveDate,fromCurrency,toCurrency,rate)
+   * Dòng không hợp lệ được bỏ qua và trả về trong skippedRows, dòng hợp lệ ghi đè tỷ giá cùng ngày
+   *
+   * @param data - Nội dung file và delimiter
+   * @param userId - ID của user
+   * @returns Số tỷ giá đã import và các dòng bị bỏ qua
+   * @throws Error('IMPORT_TOO_MANY_ROWS') nếu file quá nhiều dòng
+   * @throws Error('IMPORT_NO_VALID_ROWS') nếu không có dòng hợp lệ
+   */
+  async importRates(data: ImportExchangeRatesData, userId: string) {
+    const lines = parseCsv(data.content, data.delimiter);
+
+    // Dòng đầu không bắt đầu bằng ngày => header
+    if (lines.length > 0 && !/^\d{4}-\d{2}-\d{2}$/.test(lines[0][0] ?? '')) {
+      lines.shift();
+    }
+
+    if (lines.length > MAX_IMPORT_RATE_ROWS) {
+      throw new Error('IMPORT_TOO_MANY_ROWS');
+    }
+
+    const validRows: { fromCurrency: string; toCurrency: string; rate: Prisma.Decimal; effectiveDate: Date }[] = [];
+    const skippedRows: { rowNumber: number; error: string }[] = [];
+
+    lines.forEach((cells, index) => {
+      const [dateCell = '', fromCell = '', toCell = '', rateCell = ''] = cells;
+      const from = currencyCodeSchema.safeParse(fromCell);
+      const to = currencyCodeSchema.safeParse(toCell);
+      const rateValue = Number(rateCell.replace(/\s/g, ''));
+      const rowNumber = index + 1;
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(dateCell) || isNaN(Date.parse(dateCell))) {
+        skippedRows.push({ rowNumber, error: 'INVALID_DATE' });
+        return;
+      }
+      if (!from.success || !to.success || from.data === to.data) {
+        skippedRows.push({ rowNumber, error: 'INVALID_CURRENCY' });
+        return;
+      }
+      if (!rateCell || !Number.isFinite(rateValue) || rateValue <= 0) {
+        skippedRows.push({ rowNumber, error: 'INVALID_RATE' });
+        return;
+      }
+
+      validRows.push({
+        fromCurrency: from.data,
+        toCurrency: to.data,
+        rate: new Prisma.Decimal(rateCell.replace(/\s/g, '')),
+        effectiveDate: toRateDate(dateCell)
+      });
+    });
+
+    if (validRows.length === 0) {
+      throw new Error('IMPORT_NO_VALID_ROWS');
+    }
+
+    await prisma.$transaction(validRows.map((row) => prisma.exchangeRate.upsert({
+      where: {
+        userId_fromCurrency_toCurrency_effectiveDate: {
+          userId,
+          fromCurrency: row.fromCurrency,
+          toCurrency: row.toCurrency,
+          effectiveDate: row.effectiveDate
+        }
+      },
+      create: { userId, ...row, source: 'import' },
+      update: { rate: row.rate, source: 'import' }
+    })));
+
+    return {
+      imported: validRows.length,
+      skipped: skippedRows.length,
+      skippedRows
+    };
+  },
+
+  /**
+   * Xoá tỷ giá
+   * Giao dịch đã tạo giữ nguyên exchangeRate đã lưu, chỉ báo cáo quy đổi bị ảnh hưởng
+   *
+   * @throws Error('EXCHANGE_RATE_NOT_FOUND') nếu tỷ giá không tồn tại
+   */
+  async deleteRate(rateId: string, userId: string) {
+    const rate = await prisma.exchangeRate.findFirst({
+      where: { id: rateId, userId }
+    });
+
+    if (!rate) {
+      throw new Error('EXCHANGE_RATE_NOT_FOUND');
+    }
+
+    return await prisma.exchangeRate.delete({ where: { id: rateId } });
+  }
+};
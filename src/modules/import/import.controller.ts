@@ -0,0 +1,346 @@
+/**
+ * Import Controller
+ * File này xử lý HTTP requests/responses cho các import endpoints
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { ImportService } from './import.service';
+import { handleError } from '../../utils/error-handler';
+
+// Create module-specific error handler
+const handleImportError = (error: any, res: Response) =>
+  handleError(error, res, 'Import');
+
+export const ImportController = {
+  /**
+   * @swagger
+   * /imports/csv/preview:
+   *   post:
+   *     tags:
+   *       - Imports
+   *     summary: Xem trước import sao kê CSV
+   *     description: |
+   *       Parse file CSV sao kê ngân hàng theo mapping cột (hoặc preset đã lưu) mà không ghi DB.
+   *       Trả về từng dòng đã parse (kèm mã lỗi nếu dòng không hợp lệ) và số dư ví dự kiến.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - content
+   *               - walletId
+   *             properties:
+   *               content:
+   *                 type: string
+   *                 description: Nội dung file CSV
+   *               walletId:
+   *                 type: string
+   *                 format: uuid
+   *               presetId:
+   *                 type: string
+   *                 format: uuid
+   *                 description: Dùng preset đã lưu thay cho mapping
+   *               mapping:
+   *                 type: object
+   *                 properties:
+   *                   delimiter:
+   *                     type: string
+   *                     enum: [',', ';', "\t", '|']
+   *                   hasHeader:
+   *                     type: boolean
+   *                     default: true
+   *                   skipRows:
+   *                     type: integer
+   *                     default: 0
+   *                   dateColumn:
+   *                     oneOf:
+   *                       - type: string
+   *                       - type: integer
+   *                     example: "Ngày giao dịch"
+   *                   descriptionColumn:
+   *                     oneOf:
+   *                       - type: string
+   *                       - type: integer
+   *                   amountColumn:
+   *                     oneOf:
+   *                       - type: string
+   *                       - type: integer
+   *                   debitColumn:
+   *                     oneOf:
+   *                       - type: string
+   *                       - type: integer
+   *                   creditColumn:
+   *                     oneOf:
+   *                       - type: string
+   *                       - type: integer
+   *                   dateFormat:
+   *                     type: string
+   *                     enum: [dd/MM/yyyy, MM/dd/yyyy, yyyy-MM-dd, dd-MM-yyyy, dd.MM.yyyy]
+   *                   numberFormat:
+   *                     type: string
+   *                     enum: [vi, en]
+   *               incomeCategoryId:
+   *                 type: string
+   *                 format: uuid
+   *               expenseCategoryId:
+   *                 type: string
+   *                 format: uuid
+   *     responses:
+   *       200:
+   *         description: Kết quả parse và số dư dự kiến
+   *       400:
+   *         description: Dữ liệu không hợp lệ hoặc cột không có trong header
+   *       404:
+   *         description: Ví hoặc preset không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async previewCsv(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await ImportService.previewCsv(req.body, userId);
+      return res.status(200).json({
+        message: 'CSV import preview generated successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /imports/csv/commit:
+   *   post:
+   *     tags:
+   *       - Imports
+   *     summary: Import sao kê CSV thành giao dịch
+   *     description: |
+   *       Tạo các dòng hợp lệ thành giao dịch income/expense trong 1 DB transaction (all-or-nothing).
+   *       Dòng không hợp lệ được bỏ qua và trả về trong skippedRows.
+   *       Body giống /imports/csv/preview, incomeCategoryId/expenseCategoryId bắt buộc nếu có dòng tương ứng.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       201:
+   *         description: Import thành công
+   *       400:
+   *         description: Không có dòng hợp lệ, thiếu danh mục hoặc giao dịch bị rollback
+   *       404:
+   *         description: Ví, danh mục hoặc preset không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async commitCsv(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await ImportService.commitCsv(req.body, userId);
+      return res.status(result.committed ? 201 : 400).json({
+        message: result.committed ? 'CSV imported successfully' : 'CSV import rolled back',
+        ...result
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /imports/statement/preview:
+   *   post:
+   *     tags:
+   *       - Imports
+   *     summary: Xem trước import file OFX/QIF
+   *     description: |
+   *       Parse file sao kê OFX hoặc QIF mà không ghi DB.
+   *       Dòng đã import trước đó (trùng FITID, hoặc hash ngày/số tiền/payee nếu file không có FITID) được đánh dấu duplicate.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - content
+   *               - walletId
+   *             properties:
+   *               content:
+   *                 type: string
+   *                 description: Nội dung file OFX/QIF
+   *               format:
+   *                 type: string
+   *                 enum: [ofx, qif]
+   *                 description: Bỏ trống để tự nhận diện
+   *               walletId:
+   *                 type: string
+   *                 format: uuid
+   *               qifDateFormat:
+   *                 type: string
+   *                 enum: [MM/dd/yyyy, dd/MM/yyyy]
+   *                 default: MM/dd/yyyy
+   *               incomeCategoryId:
+   *                 type: string
+   *                 format: uuid
+   *               expenseCategoryId:
+   *                 type: string
+   *                 format: uuid
+   *     responses:
+   *       200:
+   *         description: Kết quả parse và số dư dự kiến
+   *       400:
+   *         description: Dữ liệu không hợp lệ hoặc không nhận diện được định dạng file
+   *       404:
+   *         description: Ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async previewStatement(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await ImportService.previewStatement(req.body, userId);
+      return res.status(200).json({
+        message: 'Statement import preview generated successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /imports/statement/commit:
+   *   post:
+   *     tags:
+   *       - Imports
+   *     summary: Import file OFX/QIF thành giao dịch
+   *     description: |
+   *       Tạo các dòng chưa import thành giao dịch income/expense, lưu externalId để import lại không bị trùng.
+   *       Mỗi dòng là 1 giao dịch độc lập, dòng lỗi không chặn các dòng khác.
+   *       Body giống /imports/statement/preview.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       201:
+   *         description: Tất cả dòng mới được import thành công
+   *       200:
+   *         description: Có dòng lỗi hoặc không có dòng mới (file đã import trước đó)
+   *       400:
+   *         description: Không có dòng hợp lệ hoặc thiếu danh mục
+   *       404:
+   *         description: Ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async commitStatement(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await ImportService.commitStatement(req.body, userId);
+      const allImported = result.imported > 0 && result.failed === 0;
+      return res.status(allImported ? 201 : 200).json({
+        message: allImported ? 'Statement imported successfully' : 'Statement imported with skipped rows',
+        ...result
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * Lấy danh sách preset mapping của user
+   * GET /api/imports/presets
+   *
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với danh sách presets
+   */
+  async getPresets(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const presets = await ImportService.getPresets(userId);
+      return res.status(200).json({
+        message: 'Import presets retrieved successfully',
+        presets
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * Lưu preset mapping cột (VD: "VCB", "Techcombank")
+   * POST /api/imports/presets
+   *
+   * @param req.body - { name, mapping } đã được validate
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 201 Created với preset đã tạo
+   * @returns 409 Conflict nếu tên preset đã tồn tại
+   */
+  async createPreset(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const preset = await ImportService.createPreset(req.body, userId);
+      return res.status(201).json({
+        message: 'Import preset created successfully',
+        preset
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * Xoá preset mapping
+   * DELETE /api/imports/presets/:id
+   *
+   * @param req.params.id - Preset ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK
+   * @returns 404 Not Found nếu preset không tồn tại
+   */
+  async deletePreset(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const preset = await ImportService.deletePreset(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Import preset deleted successfully',
+        preset
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  }
+};
@@ -0,0 +1,190 @@
+/**
+ * Import Parsers
+ * Parse ngày/số tiền của dòng sao kê CSV và đọc file OFX/QIF (không truy cập DB)
+ */
+import { CsvMapping, StatementImportData } from './import.schema';
+
+// Regex phần ngày theo định dạng, nhóm bắt theo thứ tự [ngày, tháng, năm]
+const DATE_PATTERNS: Record<CsvMapping['dateFormat'], { regex: RegExp; order: [number, number, number] }> = {
+  'dd/MM/yyyy': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [1, 2, 3] },
+  'MM/dd/yyyy': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [2, 1, 3] },
+  'yyyy-MM-dd': { regex: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: [3, 2, 1] },
+  'dd-MM-yyyy': { regex: /^(\d{1,2})-(\d{1,2})-(\d{4})/, order: [1, 2, 3] },
+  'dd.MM.yyyy': { regex: /^(\d{1,2})\.(\d{1,2})\.(\d{4})/, order: [1, 2, 3] }
+};
+
+/**
+ * Parse ngày theo định dạng đã chọn (cho phép phần giờ HH:mm[:ss] phía sau)
+ * @returns Date theo giờ địa phương hoặc null nếu không hợp lệ
+ */
+export function parseStatementDate(value: string, format: CsvMapping['dateFormat']) {
+  const { regex, order } = DATE_PATTERNS[format];
+  const match = value.trim().match(regex);
+  if (!match) return null;
+
+  const day = Number(match[order[0]]);
+  const month = Number(match[order[1]]);
+  const year = Number(match[order[2]]);
+
+  const time = value.slice(match[0].length).match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  const [hours, minutes, seconds] = time
+    ? [Number(time[1]), Number(time[2]), Number(time[3] ?? 0)]
+    : [0, 0, 0];
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Loại ngày không tồn tại (VD: 31/02) - Date tự tràn sang tháng sau
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse số tiền theo định dạng vi (1.234.567,00) hoặc en (1,234,567.00)
+ * Bỏ ký hiệu tiền tệ/khoảng trắng; dấu '-' ở đầu/cuối hoặc (...) => số âm
+ * @returns Số đã làm tròn 2 chữ số thập phân, undefined nếu ô trống, null nếu không hợp lệ
+ */
+export function parseStatementAmount(value: string, format: CsvMapping['numberFormat']) {
+  let text = value.replace(/[^\d.,()+-]/g, '');
+  if (text === '') return undefined;
+
+  const negative = text.startsWith('-') || text.endsWith('-') || (text.startsWith('(') && text.endsWith(')'));
+  text = text.replace(/[()+-]/g, '');
+  text = format === 'vi'
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+
+  const amount = Math.round(Number(text) * 100) / 100;
+  return negative ? -amount : amount;
+}
+
+// Dòng thô đọc từ file OFX/QIF (chưa chuẩn hoá số tiền)
+export type RawStatementLine = {
+  transactionDate: Date | null;
+  amount: string;
+  payee: string;
+  memo: string;
+  fitId?: string; // Chỉ có ở OFX
+};
+
+/**
+ * Giải mã các entity XML thường gặp trong OFX
+ */
+function decodeOfxText(value: string) {
+  return value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&amp;/gi, '&')
+    .trim();
+}
+
+/**
+ * Lấy giá trị tag trong 1 block OFX
+ * Hỗ trợ cả OFX 1.x (SGML, không có thẻ đóng) và OFX 2.x (XML)
+ */
+function getOfxTag(block: string, tag: string) {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeOfxText(match[1]) : '';
+}
+
+/**
+ * Parse ngày OFX dạng YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]] theo giờ địa phương
+ */
+function parseOfxDate(value: string) {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day, Number(match[4] ?? 0), Number(match[5] ?? 0), Number(match[6] ?? 0));
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Đọc các dòng giao dịch (<STMTTRN>) từ file OFX
+ */
+export function parseOfx(content: string): RawStatementLine[] {
+  return content.split(/<STMTTRN>/i).slice(1).map((chunk) => {
+    const block = chunk.split(/<\/STMTTRN>/i)[0];
+    return {
+      transactionDate: parseOfxDate(getOfxTag(block, 'DTPOSTED')),
+      // OFX cho phép dấu ',' làm dấu thập phân
+      amount: getOfxTag(block, 'TRNAMT').replace(',', '.'),
+      payee: getOfxTag(block, 'NAME') || getOfxTag(block, 'PAYEE'),
+      memo: getOfxTag(block, 'MEMO'),
+      fitId: getOfxTag(block, 'FITID') || undefined
+    };
+  });
+}
+
+/**
+ * Parse ngày QIF (VD: 12/31/2023, 12/31'23, 1/ 5'24)
+ * Năm 2 chữ số: có dấu ' => 20xx, ngược lại => 19xx (quy ước của Quicken)
+ */
+export function parseQifDate(value: string, format: StatementImportData['qifDateFormat']) {
+  const match = value.replace(/\s/g, '').match(/^(\d{1,2})[\/.-](\d{1,2})(['\/.-])(\d{2}|\d{4})$/);
+  if (!match) return null;
+
+  const [first, second] = [Number(match[1]), Number(match[2])];
+  const [day, month] = format === 'MM/dd/yyyy' ? [second, first] : [first, second];
+  let year = Number(match[4]);
+  if (match[4].length === 2) {
+    year += match[3] === "'" ? 2000 : 1900;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Đọc các record (kết thúc bằng ^) từ file QIF
+ * Chỉ lấy trường đầu tiên của mỗi mã (bỏ qua các dòng split S/E/$ của Quicken)
+ */
+export function parseQif(content: string, dateFormat: StatementImportData['qifDateFormat']): RawStatementLine[] {
+  const records: Record<string, string>[] = [];
+  let current: Record<string, string> = {};
+
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    // Bỏ dòng trống và header (!Type:Bank, !Option:...)
+    if (!line || line.startsWith('!')) continue;
+
+    if (line.startsWith('^')) {
+      if (Object.keys(current).length > 0) records.push(current);
+      current = {};
+      continue;
+    }
+
+    const code = line[0];
+    if (!(code in current)) {
+      current[code] = line.slice(1).trim();
+    }
+  }
+  if (Object.keys(current).length > 0) records.push(current);
+
+  return records.map((record) => ({
+    transactionDate: parseQifDate(record.D ?? '', dateFormat),
+    amount: record.T ?? record.U ?? '',
+    payee: record.P ?? '',
+    memo: record.M ?? ''
+  }));
+}
+
+/**
+ * Nhận diện định dạng file sao kê theo nội dung
+ */
+export function detectStatementFormat(content: string): 'ofx' | 'qif' {
+  if (/OFXHEADER|<OFX>/i.test(content)) return 'ofx';
+  if (/^\uFEFF?\s*!(Type|Account|Option)/i.test(content)) return 'qif';
+  throw new Error('IMPORT_UNSUPPORTED_FORMAT');
+}
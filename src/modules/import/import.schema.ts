@@ -0,0 +1,70 @@
+// Schema validation cho Import APIs
+// Sử dụng Zod để validate cấu hình mapping cột và request import sao kê
+import { z } from 'zod';
+
+// Cột được tham chiếu theo tên header hoặc theo vị trí (0-based)
+const columnRef = z.union([
+  z.string().min(1, 'Tên cột không được rỗng'),
+  z.number().int().min(0, 'Vị trí cột phải >= 0')
+]);
+
+// Schema cho cấu hình mapping cột CSV
+// Số tiền lấy từ 1 cột có dấu (amountColumn, âm = chi) hoặc 2 cột nợ/có (debitColumn/creditColumn)
+export const csvMappingSchema = z.object({
+  delimiter: z.enum([',', ';', '\t', '|']).optional().default(','),
+  hasHeader: z.boolean().optional().default(true),
+  // Số dòng bỏ qua ở đầu file (tiêu đề ngân hàng, thông tin tài khoản...) trước header
+  skipRows: z.number().int().min(0).max(50).optional().default(0),
+  dateColumn: columnRef,
+  descriptionColumn: columnRef.optional(),
+  amountColumn: columnRef.optional(),
+  debitColumn: columnRef.optional(),
+  creditColumn: columnRef.optional(),
+  // Phần giờ (HH:mm hoặc HH:mm:ss) phía sau ngày được chấp nhận với mọi định dạng
+  dateFormat: z.enum(['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd', 'dd-MM-yyyy', 'dd.MM.yyyy'])
+    .optional().default('dd/MM/yyyy'),
+  // vi: 1.234.567,00 - en: 1,234,567.00
+  numberFormat: z.enum(['vi', 'en']).optional().default('vi')
+}).refine(
+  (data) => (data.amountColumn !== undefined) !== (data.debitColumn !== undefined || data.creditColumn !== undefined),
+  { message: 'Phải cung cấp amountColumn hoặc debitColumn/creditColumn (không dùng cả hai)', path: ['amountColumn'] }
+);
+
+// Schema cho request preview/commit import CSV
+// Dùng mapping trực tiếp hoặc presetId của preset đã lưu
+export const csvImportSchema = z.object({
+  content: z.string().min(1, 'content không được rỗng').max(900_000, 'File CSV quá lớn'),
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ'),
+  mapping: csvMappingSchema.optional(),
+  presetId: z.string().uuid('presetId phải là UUID hợp lệ').optional(),
+  // Danh mục gán cho dòng tiền vào / tiền ra (bắt buộc khi commit nếu có dòng tương ứng)
+  incomeCategoryId: z.string().uuid('incomeCategoryId phải là UUID hợp lệ').optional(),
+  expenseCategoryId: z.string().uuid('expenseCategoryId phải là UUID hợp lệ').optional()
+}).refine(
+  (data) => (data.mapping !== undefined) !== (data.presetId !== undefined),
+  { message: 'Phải cung cấp mapping hoặc presetId (không dùng cả hai)', path: ['mapping'] }
+);
+
+// Schema cho request preview/commit import file OFX/QIF
+// format bỏ trống => tự nhận diện theo nội dung file
+export const statementImportSchema = z.object({
+  content: z.string().min(1, 'content không được rỗng').max(900_000, 'File sao kê quá lớn'),
+  format: z.enum(['ofx', 'qif']).optional(),
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ'),
+  // QIF không chuẩn hoá định dạng ngày (Quicken US dùng MM/dd)
+  qifDateFormat: z.enum(['MM/dd/yyyy', 'dd/MM/yyyy']).optional().default('MM/dd/yyyy'),
+  incomeCategoryId: z.string().uuid('incomeCategoryId phải là UUID hợp lệ').optional(),
+  expenseCategoryId: z.string().uuid('expenseCategoryId phải là UUID hợp lệ').optional()
+});
+
+// Schema cho tạo preset mapping
+export const createImportPresetSchema = z.object({
+  name: z.string().min(1, 'Tên preset không được rỗng').max(100, 'Tên preset không được quá 100 ký tự'),
+  mapping: csvMappingSchema
+});
+
+// Type definitions cho TypeScript
+export type CsvMapping = z.infer<typeof csvMappingSchema>;
+export type CsvImportData = z.infer<typeof csvImportSchema>;
+export type StatementImportData = z.infer<typeof statementImportSchema>;
+export type CreateImportPresetData = z.infer<typeof createImportPresetSchema>;
@@ -0,0 +1,555 @@
+/**
+ * Import Service
+ * File này chứa business logic cho việc import sao kê ngân hàng thành giao dịch
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Luồng import CSV:
+ * - Parse file theo mapping cột (trực tiếp hoặc từ preset đã lưu)
+ * - Preview: trả về từng dòng đã parse (kèm lỗi nếu có) và số dư dự kiến của ví (dry-run)
+ * - Commit: tạo các dòng hợp lệ thành income/expense trong 1 DB transaction (atomic)
+ *
+ * Payee được tách từ mô tả của từng dòng (tạo mới nếu chưa có). Danh mục của dòng lấy theo
+ * quy tắc tự phân loại khớp với dòng, sau đó tới danh mục ghi nhớ của payee, cuối cùng là
+ * danh mục mặc định của lần import; tag của rule khớp được gắn khi tạo giao dịch
+ */
+import { createHash } from 'crypto';
+import { prisma } from '../../db/prisma';
+import { Prisma } from '../../generated/prisma/client';
+import { parseCsv } from '../../utils/csv';
+import { ErrorMap } from '../../utils/error-handler';
+import { TransactionService } from '../transaction/transaction.service';
+import { CreateTransactionData } from '../transaction/transaction.schema';
+import { extractPayeeName, normalizePayeeName } from '../payee/payee.normalize';
+import { loadRuleMatcher } from '../categorization/categorization.engine';
+import {
+  csvMappingSchema,
+  CsvMapping,
+  CsvImportData,
+  StatementImportData,
+  CreateImportPresetData
+} from './import.schema';
+import {
+  detectStatementFormat,
+  parseOfx,
+  parseQif,
+  parseStatementAmount,
+  parseStatementDate,
+  RawStatementLine
+} from './import.parsers';
+
+// Số dòng tối đa cho 1 lần commit (giới hạn thời gian của DB transaction)
+const MAX_IMPORT_ROWS = 1000;
+
+// Dòng sao kê sau khi parse
+type ParsedStatementRow = {
+  rowNumber: number; // Thứ tự dòng dữ liệu (1-based, không tính header/dòng bỏ qua)
+  transactionDate: Date | null;
+  type: 'income' | 'expense' | null;
+  amount: number | null;
+  description: string;
+  payeeName: string | null; // Tên payee tách từ mô tả (null nếu không tách được)
+  error?: string; // INVALID_DATE | INVALID_AMOUNT | ZERO_AMOUNT | AMBIGUOUS_AMOUNT
+};
+
+/**
+ * Xác định vị trí cột theo tên header (không phân biệt hoa thường) hoặc theo index
+ */
+function resolveColumn(ref: string | number | undefined, header: string[] | null) {
+  if (ref === undefined) return undefined;
+  if (typeof ref === 'number') return ref;
+
+  const index = header
+    ? header.findIndex((name) => name.trim().toLowerCase() === ref.trim().toLowerCase())
+    : -1;
+  if (index === -1) {
+    throw new Error('IMPORT_COLUMN_NOT_FOUND');
+  }
+  return index;
+}
+
+/**
+ * Parse nội dung CSV thành các dòng sao kê theo mapping
+ */
+function parseStatementCsv(content: string, mapping: CsvMapping): ParsedStatementRow[] {
+  const lines = parseCsv(content, mapping.delimiter).slice(mapping.skipRows);
+  const header = mapping.hasHeader ? lines.shift() ?? [] : null;
+
+  const dateIndex = resolveColumn(mapping.dateColumn, header)!;
+  const descriptionIndex = resolveColumn(mapping.descriptionColumn, header);
+  const amountIndex = resolveColumn(mapping.amountColumn, header);
+  const debitIndex = resolveColumn(mapping.debitColumn, header);
+  const creditIndex = resolveColumn(mapping.creditColumn, header);
+
+  const cell = (line: string[], index: number | undefined) =>
+    index === undefined ? '' : line[index] ?? '';
+
+  return lines.map((line, i) => {
+    const description = cell(line, descriptionIndex);
+    const row: ParsedStatementRow = {
+      rowNumber: i + 1,
+      transactionDate: parseStatementDate(cell(line, dateIndex), mapping.dateFormat),
+      type: null,
+      amount: null,
+      description,
+      payeeName: extractPayeeName(description)
+    };
+
+    if (!row.transactionDate) {
+      return { ...row, error: 'INVALID_DATE' };
+    }
+
+    let signedAmount: number;
+    if (amountIndex !== undefined) {
+      // 1 cột số tiền có dấu: âm = tiền ra
+      const amount = parseStatementAmount(cell(line, amountIndex), mapping.numberFormat);
+      if (amount === null || amount === undefined) {
+        return { ...row, error: 'INVALID_AMOUNT' };
+      }
+      signedAmount = amount;
+    } else {
+      // 2 cột nợ/có: ô trống = 0
+      const debit = parseStatementAmount(cell(line, debitIndex), mapping.numberFormat);
+      const credit = parseStatementAmount(cell(line, creditIndex), mapping.numberFormat);
+      if (debit === null || credit === null) {
+        return { ...row, error: 'INVALID_AMOUNT' };
+      }
+      const debitAmount = Math.abs(debit ?? 0);
+      const creditAmount = Math.abs(credit ?? 0);
+      if (debitAmount > 0 && creditAmount > 0) {
+        return { ...row, error: 'AMBIGUOUS_AMOUNT' };
+      }
+      signedAmount = creditAmount - debitAmount;
+    }
+
+    if (signedAmount === 0) {
+      return { ...row, error: 'ZERO_AMOUNT' };
+    }
+
+    return {
+      ...row,
+      type: signedAmount > 0 ? 'income' : 'expense',
+      amount: Math.abs(signedAmount)
+    };
+  });
+}
+
+/**
+ * Lấy mapping từ request (trực tiếp) hoặc từ preset đã lưu của user
+ */
+async function resolveMapping(data: CsvImportData, userId: string): Promise<CsvMapping> {
+  if (data.mapping) return data.mapping;
+
+  const preset = await prisma.importPreset.findFirst({
+    where: { id: data.presetId, userId }
+  });
+  if (!preset) {
+    throw new Error('IMPORT_PRESET_NOT_FOUND');
+  }
+  return csvMappingSchema.parse(preset.mapping);
+}
+
+// Dòng sao kê OFX/QIF kèm externalId để chống import trùng
+type ExternalStatementRow = ParsedStatementRow & {
+  externalId: string | null;
+  duplicate?: boolean; // Đã được import trước đó (hoặc lặp FITID trong cùng file)
+};
+
+/**
+ * Chuẩn hoá dòng OFX/QIF thành dòng sao kê kèm externalId
+ * externalId = FITID; nếu file không có FITID => hash ngày/số tiền/payee
+ * (kèm số thứ tự lặp trong file để 2 giao dịch giống hệt nhau cùng ngày vẫn được giữ)
+ */
+function toExternalRows(lines: RawStatementLine[]): ExternalStatementRow[] {
+  const occurrences = new Map<string, number>();
+  const seenIds = new Set<string>();
+
+  return lines.map((line, i) => {
+    const row: ExternalStatementRow = {
+      rowNumber: i + 1,
+      transactionDate: line.transactionDate,
+      type: null,
+      amount: null,
+      description: [line.payee, line.memo].filter(Boolean).join(' - '),
+      payeeName: extractPayeeName(line.payee || line.memo),
+      externalId: null
+    };
+
+    if (!row.transactionDate) {
+      return { ...row, error: 'INVALID_DATE' };
+    }
+    const amount = parseStatementAmount(line.amount, 'en');
+    if (amount === null || amount === undefined) {
+      return { ...row, error: 'INVALID_AMOUNT' };
+    }
+    if (amount === 0) {
+      return { ...row, error: 'ZERO_AMOUNT' };
+    }
+
+    let externalId = line.fitId;
+    if (!externalId) {
+      const date = row.transactionDate;
+      const key = [
+        `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`,
+        amount.toFixed(2),
+        line.payee.toLowerCase()
+      ].join('|');
+      const occurrence = (occurrences.get(key) ?? 0) + 1;
+      occurrences.set(key, occurrence);
+      externalId = `hash:${createHash('sha1').update(`${key}|${occurrence}`).digest('hex')}`;
+    }
+
+    const duplicate = seenIds.has(externalId);
+    seenIds.add(externalId);
+
+    return {
+      ...row,
+      type: amount > 0 ? 'income' : 'expense',
+      amount: Math.abs(amount),
+      externalId,
+      duplicate
+    };
+  });
+}
+
+/**
+ * Lấy ví đích của import (phải thuộc user và chưa lưu trữ)
+ */
+async function findImportWallet(walletId: string, userId: string) {
+  const wallet = await prisma.wallet.findFirst({
+    where: { id: walletId, userId, isArchived: false },
+    select: { id: true, name: true, currentBalance: true }
+  });
+  if (!wallet) {
+    throw new Error('WALLET_NOT_FOUND');
+  }
+  return wallet;
+}
+
+/**
+ * Load quy tắc tự phân loại và danh mục đã ghi nhớ của các payee có sẵn mà các dòng import tham chiếu tới
+ * Thứ tự ưu tiên: danh mục của rule khớp => danh mục ghi nhớ của payee (nếu cùng loại thu/chi) => fallback
+ *
+ * @returns Hàm chọn danh mục cho 1 dòng
+ */
+async function loadImportCategories(rows: ParsedStatementRow[], walletId: string, userId: string) {
+  const matcher = await loadRuleMatcher(userId);
+
+  const keys = [...new Set(rows.flatMap((row) => (row.payeeName ? [normalizePayeeName(row.payeeName)] : [])))];
+  const payees = keys.length > 0
+    ? await prisma.payee.findMany({
+      where: { userId, normalizedName: { in: keys }, lastCategoryId: { not: null } },
+      select: { normalizedName: true, lastCategory: { select: { id: true, type: true } } }
+    })
+    : [];
+  const categories = new Map(payees.map((payee) => [payee.normalizedName, payee.lastCategory!]));
+
+  return (row: ParsedStatementRow, fallback: string | undefined) => {
+    const ruleCategoryId = matcher.match({
+      type: row.type!,
+      note: row.description,
+      payeeName: row.payeeName,
+      amount: row.amount!,
+      walletId
+    }).categoryId;
+    if (ruleCategoryId) return ruleCategoryId;
+
+    const remembered = row.payeeName ? categories.get(normalizePayeeName(row.payeeName)) : undefined;
+    return remembered && remembered.type === row.type ? remembered.id : fallback;
+  };
+}
+
+/**
+ * Tổng hợp các dòng sẽ được import và số dư ví dự kiến sau import
+ * Dòng lỗi và dòng trùng (đã import trước đó) không được tính
+ */
+function summarizeRows(rows: (ParsedStatementRow & { duplicate?: boolean })[], currentBalance: Prisma.Decimal) {
+  let totalIncome = new Prisma.Decimal(0);
+  let totalExpense = new Prisma.Decimal(0);
+  let validRows = 0;
+  let duplicateRows = 0;
+
+  for (const row of rows) {
+    if (row.error) continue;
+    if (row.duplicate) {
+      duplicateRows++;
+      continue;
+    }
+    validRows++;
+    if (row.type === 'income') totalIncome = totalIncome.plus(row.amount!);
+    else totalExpense = totalExpense.plus(row.amount!);
+  }
+
+  return {
+    totalRows: rows.length,
+    validRows,
+    invalidRows: rows.length - validRows - duplicateRows,
+    duplicateRows,
+    totalIncome,
+    totalExpense,
+    currentBalance,
+    projectedBalance: currentBalance.plus(totalIncome).minus(totalExpense)
+  };
+}
+
+export const ImportService = {
+  /**
+   * Preview (dry-run) import CSV vào ví
+   * Không ghi DB, trả về từng dòng đã parse và số dư ví dự kiến sau khi import các dòng hợp lệ
+   *
+   * @param data - Nội dung CSV, ví đích, mapping hoặc presetId
+   * @param userId - ID của user
+   * @returns Ví, các dòng đã parse và tổng hợp thay đổi số dư
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại
+   * @throws Error('IMPORT_PRESET_NOT_FOUND') nếu preset không tồn tại
+   * @throws Error('IMPORT_COLUMN_NOT_FOUND') nếu cột trong mapping không có trong header
+   */
+  async previewCsv(data: CsvImportData, userId: string) {
+    const wallet = await findImportWallet(data.walletId, userId);
+    const mapping = await resolveMapping(data, userId);
+    const rows = parseStatementCsv(data.content, mapping);
+
+    return {
+      wallet,
+      rows,
+      summary: summarizeRows(rows, wallet.currentBalance)
+    };
+  },
+
+  /**
+   * Commit import CSV: tạo các dòng hợp lệ thành income/expense trong 1 DB transaction
+   * Dòng lỗi được bỏ qua và trả về trong skippedRows
+   *
+   * @param data - Nội dung CSV, ví đích, mapping/presetId và danh mục thu/chi
+   * @param userId - ID của user
+   * @returns Kết quả tạo giao dịch (theo bulk atomic) và các dòng bị bỏ qua
+   * @throws Error('IMPORT_NO_VALID_ROWS') nếu không có dòng hợp lệ
+   * @throws Error('IMPORT_TOO_MANY_ROWS') nếu vượt quá số dòng cho phép
+   * @throws Error('IMPORT_CATEGORY_REQUIRED') nếu thiếu danh mục cho dòng thu/chi
+   */
+  async commitCsv(data: CsvImportData, userId: string) {
+    const preview = await this.previewCsv(data, userId);
+    const validRows = preview.rows.filter((row) => !row.error);
+
+    if (validRows.length === 0) {
+      throw new Error('IMPORT_NO_VALID_ROWS');
+    }
+    if (validRows.length > MAX_IMPORT_ROWS) {
+      throw new Error('IMPORT_TOO_MANY_ROWS');
+    }
+
+    // Dòng khớp quy tắc tự phân loại hoặc có payee đã ghi nhớ danh mục không cần danh mục mặc định
+    const categoryFor = await loadImportCategories(validRows, data.walletId, userId);
+    const categoryIds = validRows.map((row) =>
+      categoryFor(row, row.type === 'income' ? data.incomeCategoryId : data.expenseCategoryId)
+    );
+    if (categoryIds.some((categoryId) => !categoryId)) {
+      throw new Error('IMPORT_CATEGORY_REQUIRED');
+    }
+
+    const items: CreateTransactionData[] = validRows.map((row, i) => ({
+      type: row.type!,
+      walletId: data.walletId,
+      categoryId: categoryIds[i]!,
+      transactionDate: row.transactionDate!,
+      amount: row.amount!,
+      note: row.description ? row.description.slice(0, 1000) : undefined,
+      payeeName: row.payeeName ?? undefined,
+      // Dòng lấy từ sao kê ngân hàng => đã khớp sao kê
+      status: 'cleared'
+    }));
+
+    const result = await TransactionService.createTransactionsBulk({ mode: 'atomic', items }, userId);
+
+    return {
+      ...result,
+      // Map kết quả về số dòng trong file để client hiển thị
+      results: result.results.map((item) => ({ ...item, rowNumber: validRows[item.index].rowNumber })),
+      skippedRows: preview.rows.filter((row) => row.error)
+    };
+  },
+
+  /**
+   * Preview (dry-run) import file OFX/QIF vào ví
+   * Dòng đã được import trước đó (trùng externalId trong ví) được đánh dấu duplicate
+   *
+   * @param data - Nội dung file, định dạng (tự nhận diện nếu bỏ trống), ví đích
+   * @param userId - ID của user
+   * @returns Ví, các dòng đã parse và tổng hợp thay đổi số dư
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại
+   * @throws Error('IMPORT_UNSUPPORTED_FORMAT') nếu không nhận diện được định dạng file
+   */
+  async previewStatement(data: StatementImportData, userId: string) {
+    const wallet = await findImportWallet(data.walletId, userId);
+
+    const format = data.format ?? detectStatementFormat(data.content);
+    const rows = toExternalRows(
+      format === 'ofx' ? parseOfx(data.content) : parseQif(data.content, data.qifDateFormat)
+    );
+
+    // Giao dịch import đã bị xoá mềm vẫn tính là đã import (khôi phục qua restore, không sinh lại)
+    const externalIds = rows.flatMap((row) => (row.externalId ? [row.externalId] : []));
+    const existing = externalIds.length > 0
+      ? await prisma.transaction.findMany({
+          where: {
+            importWalletId: data.walletId,
+            externalId: { in: externalIds }
+          },
+          select: { externalId: true }
+        })
+      : [];
+    const importedIds = new Set(existing.map((transaction) => transaction.externalId));
+    for (const row of rows) {
+      if (row.externalId && importedIds.has(row.externalId)) {
+        row.duplicate = true;
+      }
+    }
+
+    return {
+      format,
+      wallet,
+      rows,
+      summary: summarizeRows(rows, wallet.currentBalance)
+    };
+  },
+
+  /**
+   * Commit import file OFX/QIF: tạo từng dòng mới thành giao dịch (lưu externalId)
+   * Mỗi dòng là 1 giao dịch độc lập; dòng lỗi không chặn các dòng khác,
+   * import lại cùng file sẽ chỉ tạo các dòng chưa thành công
+   *
+   * @param data - Nội dung file, ví đích và danh mục thu/chi
+   * @param userId - ID của user
+   * @returns Kết quả từng dòng, các dòng trùng và các dòng bị bỏ qua
+   * @throws Error('IMPORT_NO_VALID_ROWS') nếu file không có dòng hợp lệ
+   * @throws Error('IMPORT_TOO_MANY_ROWS') nếu vượt quá số dòng cho phép
+   * @throws Error('IMPORT_CATEGORY_REQUIRED') nếu thiếu danh mục cho dòng thu/chi
+   */
+  async commitStatement(data: StatementImportData, userId: string) {
+    const preview = await this.previewStatement(data, userId);
+    const duplicateRows = preview.rows.filter((row) => !row.error && row.duplicate);
+    // Tạo theo thứ tự thời gian để tiền vào được cộng trước các khoản chi phía sau
+    const newRows = preview.rows
+      .filter((row) => !row.error && !row.duplicate)
+      .sort((a, b) => a.transactionDate!.getTime() - b.transactionDate!.getTime());
+
+    if (newRows.length === 0 && duplicateRows.length === 0) {
+      throw new Error('IMPORT_NO_VALID_ROWS');
+    }
+    if (newRows.length > MAX_IMPORT_ROWS) {
+      throw new Error('IMPORT_TOO_MANY_ROWS');
+    }
+
+    const categoryFor = await loadImportCategories(newRows, data.walletId, userId);
+    const categoryIds = newRows.map((row) =>
+      categoryFor(row, row.type === 'income' ? data.incomeCategoryId : data.expenseCategoryId)
+    );
+    if (categoryIds.some((categoryId) => !categoryId)) {
+      throw new Error('IMPORT_CATEGORY_REQUIRED');
+    }
+
+    const results = [];
+    for (const [i, row] of newRows.entries()) {
+      try {
+        const transaction = await TransactionService.createTransaction(
+          {
+            type: row.type!,
+            walletId: data.walletId,
+            categoryId: categoryIds[i]!,
+            transactionDate: row.transactionDate!,
+            amount: row.amount!,
+            note: row.description ? row.description.slice(0, 1000) : undefined,
+            payeeName: row.payeeName ?? undefined,
+            status: 'cleared'
+          },
+          userId,
+          { externalId: row.externalId! }
+        );
+        results.push({ rowNumber: row.rowNumber, success: true, transaction });
+      } catch (error: any) {
+        // Dòng vừa được 1 request import khác tạo (unique importWalletId + externalId) => trùng
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          duplicateRows.push({ ...row, duplicate: true });
+          continue;
+        }
+        const config = ErrorMap[error?.message];
+        results.push({
+          rowNumber: row.rowNumber,
+          success: false,
+          error: config
+            ? { code: error.message, status: config.status, message: config.message }
+            : { code: 'INTERNAL_ERROR', status: 500, message: 'Internal server error' }
+        });
+      }
+    }
+
+    return {
+      format: preview.format,
+      imported: results.filter((result) => result.success).length,
+      failed: results.filter((result) => !result.success).length,
+      results,
+      duplicateRows,
+      skippedRows: preview.rows.filter((row) => row.error)
+    };
+  },
+
+  /**
+   * Lấy danh sách preset mapping của user
+   *
+   * @param userId - ID của user
+   * @returns Danh sách preset
+   */
+  async getPresets(userId: string) {
+    return await prisma.importPreset.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' }
+    });
+  },
+
+  /**
+   * Lưu preset mapping mới
+   *
+   * @param data - Tên và mapping đã validate
+   * @param userId - ID của user
+   * @returns ImportPreset object đã tạo
+   * @throws Error('IMPORT_PRESET_NAME_EXISTS') nếu tên preset đã tồn tại
+   */
+  async createPreset(data: CreateImportPresetData, userId: string) {
+    const existing = await prisma.importPreset.findFirst({
+      where: { userId, name: data.name }
+    });
+    if (existing) {
+      throw new Error('IMPORT_PRESET_NAME_EXISTS');
+    }
+
+    return await prisma.importPreset.create({
+      data: {
+        userId,
+        name: data.name,
+        mapping: data.mapping
+      }
+    });
+  },
+
+  /**
+   * Xoá preset mapping
+   *
+   * @param presetId - ID của preset
+   * @param userId - ID của user sở hữu preset
+   * @throws Error('IMPORT_PRESET_NOT_FOUND') nếu preset không tồn tại
+   */
+  async deletePreset(presetId: string, userId: string) {
+    const existing = await prisma.importPreset.findFirst({
+      where: { id: presetId, userId },
+      select: { id: true }
+    });
+    if (!existing) {
+      throw new Error('IMPORT_PRESET_NOT_FOUND');
+    }
+
+    await prisma.importPreset.delete({
+      where: { id: presetId }
+    });
+
+    return { id: presetId, deleted: true };
+  }
+};
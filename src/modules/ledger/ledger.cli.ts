@@ -0,0 +1,62 @@
+/**
+ * Ledger CLI - Kiểm tra/sửa số dư ví và dư nợ khoản vay từ command line
+ *
+ * Cách dùng:
+ *   npm run ledger:check                       # Báo cáo chỗ lệch của mọi user
+ *   npm run ledger:check -- --user <userId>    # Chỉ kiểm tra 1 user
+ *   npm run ledger:check -- --repair           # Sửa các chỗ lệch (mỗi lần sửa được ghi log)
+ *
+ * Exit code 1 nếu còn chỗ lệch chưa được sửa (dùng được trong cron/CI)
+ */
+import 'dotenv/config';
+import { prisma } from '../../db/prisma';
+import { LedgerService } from './ledger.service';
+
+/**
+ * Đọc tham số --repair và --user <userId>
+ */
+function parseArgs(argv: string[]) {
+  const userIndex = argv.indexOf('--user');
+  return {
+    repair: argv.includes('--repair'),
+    userId: userIndex >= 0 ? argv[userIndex + 1] : undefined
+  };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const report = await LedgerService.checkIntegrity(options);
+
+  console.log(`Đã kiểm tra ${report.walletsChecked} ví, ${report.loansChecked} khoản vay`);
+  for (const wallet of report.walletDiscrepancies) {
+    console.log(
+      `${wallet.repaired ? '✅ Đã sửa' : '❌ Lệch'} ví ${wallet.name} (${wallet.id}, user ${wallet.userId}): ` +
+      `currentBalance ${wallet.currentBalance} ${wallet.currency}, tính lại ${wallet.expectedBalance}, chênh lệch ${wallet.difference}`
+    );
+  }
+  for (const loan of report.loanDiscrepancies) {
+    console.log(
+      `${loan.repaired ? '✅ Đã sửa' : '❌ Lệch'} khoản vay ${loan.counterpartyName} (${loan.id}, user ${loan.userId}): ` +
+      `outstandingAmount ${loan.outstandingAmount} (${loan.status}), tính lại ${loan.expectedOutstanding} (${loan.expectedStatus})`
+    );
+  }
+
+  const unresolved = [...report.walletDiscrepancies, ...report.loanDiscrepancies]
+    .filter((item) => !item.repaired).length;
+  if (unresolved === 0) {
+    console.log('🎉 Sổ sách khớp');
+  }
+  return unresolved;
+}
+
+// Chạy kiểm tra và đóng kết nối database
+main()
+  .then(async (unresolved) => {
+    await prisma.$disconnect();
+    process.exit(unresolved > 0 ? 1 : 0);
+  })
+  .catch(async (e) => {
+    console.error(e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,134 @@
+/**
+ * Ledger Controller
+ * File này xử lý HTTP requests/responses cho kiểm tra tính toàn vẹn sổ sách (số dư ví, dư nợ khoản vay)
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { LedgerService } from './ledger.service';
+import { adminLedgerQuerySchema } from './ledger.schema';
+import { handleError } from '../../utils/error-handler';
+
+// Create module-specific error handler
+const handleLedgerError = (error: any, res: Response) =>
+  handleError(error, res, 'Ledger');
+
+export const LedgerController = {
+  /**
+   * @swagger
+   * /ledger/integrity:
+   *   get:
+   *     tags:
+   *       - Ledger
+   *     summary: Kiểm tra số dư ví và dư nợ khoản vay của user
+   *     description: |
+   *       Tính lại số dư từng ví = openingBalance + entries của giao dịch chưa xoá và dư nợ từng khoản vay
+   *       = principal - tổng thanh toán, trả về các chỗ lệch so với currentBalance/outstandingAmount đang lưu.
+   *       Không ghi DB.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: walletDiscrepancies (expectedBalance, difference) và loanDiscrepancies (expectedOutstanding, expectedStatus)
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async checkIntegrity(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const report = await LedgerService.checkIntegrity({ userId });
+      return res.status(200).json({
+        message: 'Ledger integrity checked successfully',
+        ...report
+      });
+    } catch (e: any) {
+      return handleLedgerError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /ledger/integrity/repair:
+   *   post:
+   *     tags:
+   *       - Ledger
+   *     summary: Sửa số dư ví và dư nợ khoản vay bị lệch của user
+   *     description: |
+   *       Ghi currentBalance/outstandingAmount theo giá trị tính lại, mỗi lần sửa được ghi log.
+   *       Ví/khoản vay vừa thay đổi bởi giao dịch đồng thời được bỏ qua (repaired = false), gọi lại để kiểm tra.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Các chỗ lệch kèm repaired
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async repairIntegrity(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const report = await LedgerService.checkIntegrity({ userId, repair: true });
+      return res.status(200).json({
+        message: 'Ledger integrity repaired successfully',
+        ...report
+      });
+    } catch (e: any) {
+      return handleLedgerError(e, res);
+    }
+  },
+
+  /**
+   * Kiểm tra sổ sách của mọi user (hoặc 1 user theo query userId) - chỉ ADMIN
+   * GET /api/admin/ledger/integrity
+   *
+   * @param req.query.userId - Chỉ kiểm tra user này (optional)
+   * @returns 200 OK với báo cáo chỗ lệch, 400 nếu userId không phải UUID
+   */
+  async checkAllIntegrity(req: Request, res: Response) {
+    try {
+      const query = adminLedgerQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: 'Invalid userId' });
+      }
+
+      const report = await LedgerService.checkIntegrity({ userId: query.data.userId });
+      return res.status(200).json({
+        message: 'Ledger integrity checked successfully',
+        ...report
+      });
+    } catch (e: any) {
+      return handleLedgerError(e, res);
+    }
+  },
+
+  /**
+   * Sửa sổ sách bị lệch của mọi user (hoặc 1 user theo query userId) - chỉ ADMIN
+   * POST /api/admin/ledger/integrity/repair
+   *
+   * @param req.query.userId - Chỉ sửa user này (optional)
+   * @returns 200 OK với báo cáo chỗ lệch kèm repaired, 400 nếu userId không phải UUID
+   */
+  async repairAllIntegrity(req: Request, res: Response) {
+    try {
+      const query = adminLedgerQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: 'Invalid userId' });
+      }
+
+      const report = await LedgerService.checkIntegrity({ userId: query.data.userId, repair: true });
+      return res.status(200).json({
+        message: 'Ledger integrity repaired successfully',
+        ...report
+      });
+    } catch (e: any) {
+      return handleLedgerError(e, res);
+    }
+  }
+};
@@ -0,0 +1,10 @@
+// Schema validation cho Ledger APIs
+// Sử dụng Zod để validate query của các endpoint kiểm tra sổ sách
+import { z } from 'zod';
+
+// Query của endpoint admin: chỉ kiểm tra/sửa 1 user (optional, 1 giá trị duy nhất)
+export const adminLedgerQuerySchema = z.object({
+  userId: z.string().uuid('userId phải là UUID hợp lệ').optional()
+});
+
+export type AdminLedgerQuery = z.infer<typeof adminLedgerQuerySchema>;
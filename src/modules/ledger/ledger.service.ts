@@ -0,0 +1,183 @@
+/**
+ * Ledger Service
+ * File này chứa business logic kiểm tra tính toàn vẹn sổ sách
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP (dùng chung cho API và CLI)
+ *
+ * - Wallet.currentBalance là giá trị cache, phải bằng openingBalance + entries (in: +, out: -) của giao dịch chưa xoá
+ * - Loan.outstandingAmount phải bằng principal - tổng LoanPayment (không âm), status closed khi dư nợ = 0
+ *
+ * Sửa lệch dùng UPDATE có điều kiện giá trị cũ: nếu số dư/dư nợ vừa bị thay đổi bởi giao dịch đồng thời
+ * thì bỏ qua (repaired = false), chạy lại để kiểm tra lần nữa
+ */
+import { prisma } from '../../db/prisma';
+import { logger } from '../../config/logger';
+import { Prisma } from '../../generated/prisma/client';
+
+// Tuỳ chọn kiểm tra: userId không truyền => toàn bộ user (admin/CLI)
+export type LedgerCheckOptions = {
+  userId?: string;
+  repair?: boolean;
+};
+
+/**
+ * So sánh currentBalance của từng ví với số dư tính lại từ entries
+ */
+async function findWalletDiscrepancies(userId?: string) {
+  const wallets = await prisma.wallet.findMany({
+    where: userId ? { userId } : {},
+    select: {
+      id: true,
+      userId: true,
+      name: true,
+      currency: true,
+      isArchived: true,
+      openingBalance: true,
+      currentBalance: true
+    },
+    orderBy: { id: 'asc' }
+  });
+
+  const sums = await prisma.transactionEntry.groupBy({
+    by: ['walletId', 'direction'],
+    where: {
+      transaction: { deletedAt: null },
+      wallet: userId ? { userId } : undefined
+    },
+    _sum: { amount: true }
+  });
+
+  const movements = new Map<string, Prisma.Decimal>();
+  for (const sum of sums) {
+    const current = movements.get(sum.walletId) ?? new Prisma.Decimal(0);
+    const amount = sum._sum.amount ?? 0;
+    movements.set(sum.walletId, sum.direction === 'in' ? current.plus(amount) : current.minus(amount));
+  }
+
+  return {
+    checked: wallets.length,
+    discrepancies: wallets.flatMap((wallet) => {
+      const expectedBalance = wallet.openingBalance.plus(movements.get(wallet.id) ?? 0);
+      if (expectedBalance.equals(wallet.currentBalance)) return [];
+      const { openingBalance, ...rest } = wallet;
+      return [{
+        ...rest,
+        expectedBalance,
+        difference: wallet.currentBalance.minus(expectedBalance)
+      }];
+    })
+  };
+}
+
+/**
+ * So sánh outstandingAmount/status của từng khoản vay với principal - tổng thanh toán
+ */
+async function findLoanDiscrepancies(userId?: string) {
+  const loans = await prisma.loan.findMany({
+    where: { deletedAt: null, ...(userId ? { userId } : {}) },
+    select: {
+      id: true,
+      userId: true,
+      kind: true,
+      counterpartyName: true,
+      currency: true,
+      principal: true,
+      outstandingAmount: true,
+      status: true
+    },
+    orderBy: { id: 'asc' }
+  });
+
+  const payments = await prisma.loanPayment.groupBy({
+    by: ['loanId'],
+    where: {
+      loan: { deletedAt: null, ...(userId ? { userId } : {}) }
+    },
+    _sum: { amount: true }
+  });
+  const paid = new Map(payments.map((payment) => [payment.loanId, payment._sum.amount ?? new Prisma.Decimal(0)]));
+
+  return {
+    checked: loans.length,
+    discrepancies: loans.flatMap((loan) => {
+      const remaining = loan.principal.minus(paid.get(loan.id) ?? 0);
+      const expectedOutstanding = remaining.isNegative() ? new Prisma.Decimal(0) : remaining;
+      const expectedStatus = expectedOutstanding.isZero() ? 'closed' as const : 'open' as const;
+      if (expectedOutstanding.equals(loan.outstandingAmount) && expectedStatus === loan.status) return [];
+      return [{
+        ...loan,
+        paidAmount: paid.get(loan.id) ?? new Prisma.Decimal(0),
+        expectedOutstanding,
+        expectedStatus
+      }];
+    })
+  };
+}
+
+export const LedgerService = {
+  /**
+   * Kiểm tra số dư ví và dư nợ khoản vay, tuỳ chọn sửa các chỗ lệch
+   * Mỗi lần sửa được ghi log (warn) kèm giá trị cũ/mới
+   *
+   * @param options - userId (không truyền => toàn bộ user), repair (mặc định false: chỉ báo cáo)
+   * @returns Số ví/khoản vay đã kiểm tra và danh sách chỗ lệch (repaired: đã sửa hay chưa)
+   */
+  async checkIntegrity(options: LedgerCheckOptions = {}) {
+    const { userId, repair = false } = options;
+
+    const wallets = await findWalletDiscrepancies(userId);
+    const loans = await findLoanDiscrepancies(userId);
+
+    const walletResults = [];
+    for (const wallet of wallets.discrepancies) {
+      let repaired = false;
+      if (repair) {
+        const { count } = await prisma.wallet.updateMany({
+          where: { id: wallet.id, currentBalance: wallet.currentBalance },
+          data: { currentBalance: wallet.expectedBalance }
+        });
+        repaired = count > 0;
+        if (repaired) {
+          logger.warn({
+            walletId: wallet.id,
+            userId: wallet.userId,
+            previousBalance: wallet.currentBalance.toString(),
+            correctedBalance: wallet.expectedBalance.toString(),
+            difference: wallet.difference.toString()
+          }, 'Wallet balance corrected');
+        }
+      }
+      walletResults.push({ ...wallet, repaired });
+    }
+
+    const loanResults = [];
+    for (const loan of loans.discrepancies) {
+      let repaired = false;
+      if (repair) {
+        const { count } = await prisma.loan.updateMany({
+          where: { id: loan.id, outstandingAmount: loan.outstandingAmount, status: loan.status },
+          data: { outstandingAmount: loan.expectedOutstanding, status: loan.expectedStatus }
+        });
+        repaired = count > 0;
+        if (repaired) {
+          logger.warn({
+            loanId: loan.id,
+            userId: loan.userId,
+            previousOutstanding: loan.outstandingAmount.toString(),
+            correctedOutstanding: loan.expectedOutstanding.toString(),
+            previousStatus: loan.status,
+            correctedStatus: loan.expectedStatus
+          }, 'Loan outstanding amount corrected');
+        }
+      }
+      loanResults.push({ ...loan, repaired });
+    }
+
+    return {
+      checkedAt: new Date(),
+      walletsChecked: wallets.checked,
+      loansChecked: loans.checked,
+      walletDiscrepancies: walletResults,
+      loanDiscrepancies: loanResults
+    };
+  }
+};
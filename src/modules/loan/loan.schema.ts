@@ -9,17 +9,25 @@ export const createLoanSchema = z.object({
   kind: z.enum(['you_owe', 'owed_to_you'], {
     message: 'Loại khoản nợ phải là you_owe hoặc owed_to_you'
   }),
-  counterpartyName: z.string().min(1, 'Tên người/đơn vị không được để trống').max(255, 'Tên quá dài'),
+  // Bỏ trống khi có payeeId => dùng tên payee
+  counterpartyName: z.string().min(1, 'Tên người/đơn vị không được để trống').max(255, 'Tên quá dài').optional(),
+  // Liên kết khoản nợ với payee (cùng người/đơn vị trong giao dịch thường)
+  payeeId: z.string().uuid('ID payee không hợp lệ').optional(),
   principal: z.number().positive('Số tiền gốc phải lớn hơn 0'),
   walletId: z.string().uuid('ID ví không hợp lệ'),
   startDate: z.string().datetime('Ngày bắt đầu không hợp lệ'),
   dueDate: z.string().datetime('Ngày hết hạn không hợp lệ').optional(),
   note: z.string().max(1000, 'Ghi chú quá dài').optional()
+}).refine((data) => data.counterpartyName !== undefined || data.payeeId !== undefined, {
+  message: 'Phải cung cấp counterpartyName hoặc payeeId',
+  path: ['counterpartyName']
 });
 
 // Schema cho cập nhật loan
 export const updateLoanSchema = z.object({
   counterpartyName: z.string().min(1, 'Tên người/đơn vị không được để trống').max(255, 'Tên quá dài').optional(),
+  // null => bỏ liên kết payee
+  payeeId: z.string().uuid('ID payee không hợp lệ').nullable().optional(),
   dueDate: z.string().datetime('Ngày hết hạn không hợp lệ').optional(),
   note: z.string().max(1000, 'Ghi chú quá dài').optional()
 });
@@ -40,14 +48,17 @@ export const getLoansQuerySchema = z.object({
   startDate: z.string().optional(),
   endDate: z.string().optional(),
   limit: z.coerce.number().int().min(1).max(100).default(50),
-  offset: z.coerce.number().int().min(0).default(0)
+  offset: z.coerce.number().int().min(0).default(0),
+  // Có cursor (kể cả rỗng) => phân trang keyset thay cho offset
+  cursor: z.string().optional()
 });
 
 // Schema cho query params lấy danh sách loan payments
 export const getLoanPaymentsQuerySchema = z.object({
   loanId: z.string().uuid('ID khoản nợ không hợp lệ').optional(),
   limit: z.coerce.number().int().min(1).max(100).default(50),
-  offset: z.coerce.number().int().min(0).default(0)
+  offset: z.coerce.number().int().min(0).default(0),
+  cursor: z.string().optional()
 });
 
 // Export types
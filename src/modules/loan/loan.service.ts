@@ -7,14 +7,35 @@
  * - Loan: quản lý khoản nợ (bạn nợ người khác) hoặc cho vay (người khác nợ bạn)
  * - LoanPayment: mỗi lần trả/thu nợ phải tạo Transaction tương ứng và cập nhật wallet balance
  * - Khi outstandingAmount = 0 thì tự động đổi status thành 'closed'
+ * - Loan dùng tiền tệ của ví giải ngân, trả/thu nợ phải dùng ví cùng tiền tệ
  */
 import { prisma } from '../../db/prisma';
+import { Prisma } from '../../generated/prisma/client';
+import { KeysetField, findCursorPage } from '../../utils/pagination';
+import { createCurrencyConverter } from '../currency/currency.service';
+import { validatePayeeOwnership } from '../payee/payee.service';
+import { creditWallet, debitWallet } from '../wallet/wallet.balance';
 import { CreateLoanData, UpdateLoanData, CreateLoanPaymentData, GetLoansQuery, GetLoanPaymentsQuery } from './loan.schema';
 
+// Thứ tự của danh sách khoản nợ khi phân trang bằng cursor (thêm id để thứ tự ổn định)
+const LOAN_CURSOR_KEYS: KeysetField[] = [
+  { field: 'status', direction: 'asc', type: 'enum', values: ['open', 'closed'] },
+  { field: 'dueDate', direction: 'asc', type: 'date', nullable: true },
+  { field: 'createdAt', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' }
+];
+
+// Thứ tự của danh sách thanh toán khi phân trang bằng cursor
+const LOAN_PAYMENT_CURSOR_KEYS: KeysetField[] = [
+  { field: 'paymentDate', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' }
+];
+
 /**
  * Validate wallet ownership
+ * Số dư được kiểm tra khi trừ tiền trong DB transaction (debitWallet)
  */
-async function validateWalletOwnership(walletId: string, userId: string, requiredAmount?: number) {
+async function validateWalletOwnership(walletId: string, userId: string) {
   const wallet = await prisma.wallet.findFirst({
     where: { id: walletId, userId, isArchived: false }
   });
@@ -22,11 +43,6 @@ async function validateWalletOwnership(walletId: string, userId: string, require
     throw new Error('WALLET_NOT_FOUND');
   }
 
-  // Kiểm tra số dư nếu cần trừ tiền (khi trả nợ - you_owe)
-  if (requiredAmount !== undefined && wallet.currentBalance.toNumber() < requiredAmount) {
-    throw new Error('INSUFFICIENT_WALLET_BALANCE');
-  }
-
   return wallet;
 }
 
@@ -56,17 +72,18 @@ export const LoanService = {
    * @param data - Dữ liệu khoản nợ mới
    * @param userId - ID của user tạo khoản nợ
    * @returns Loan object đã tạo
+   * @throws Error('PAYEE_NOT_FOUND') nếu payeeId không tồn tại
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu cho vay (owed_to_you) mà ví không đủ số dư
    */
   async createLoan(data: CreateLoanData, userId: string) {
-    const { kind, counterpartyName, principal, walletId, startDate, dueDate, note } = data;
+    const { kind, payeeId, principal, walletId, startDate, dueDate, note } = data;
 
     // Validate wallet ownership
-    await validateWalletOwnership(walletId, userId);
+    const wallet = await validateWalletOwnership(walletId, userId);
 
-    // Nếu là cho vay (owed_to_you), kiểm tra số dư ví
-    if (kind === 'owed_to_you') {
-      await validateWalletOwnership(walletId, userId, principal);
-    }
+    // Liên kết payee: không gửi counterpartyName thì dùng tên payee
+    const payee = payeeId ? await validatePayeeOwnership(payeeId, userId) : null;
+    const counterpartyName = data.counterpartyName ?? payee!.name;
 
     // Tạo loan và transaction trong DB transaction
     return await prisma.$transaction(async (tx) => {
@@ -76,7 +93,9 @@ export const LoanService = {
           userId,
           kind,
           counterpartyName,
+          payeeId,
           principal,
+          currency: wallet.currency,
           outstandingAmount: principal, // Ban đầu dư nợ = số tiền gốc
           startDate: new Date(startDate),
           dueDate: dueDate ? new Date(dueDate) : null,
@@ -110,7 +129,9 @@ export const LoanService = {
           transactionDate: new Date(startDate),
           categoryId,
           amount: principal,
+          currency: wallet.currency,
           note: note || `${kind === 'you_owe' ? 'Vay nợ' : 'Cho vay'}: ${counterpartyName}`,
+          payeeId,
           loanId: loan.id, // ✅ đánh dấu giao dịch gốc của khoản vay
           entries: {
             create: {
@@ -125,24 +146,10 @@ export const LoanService = {
       // 3. Cập nhật wallet balance
       if (kind === 'you_owe') {
         // Vay nợ: cộng tiền vào ví
-        await tx.wallet.update({
-          where: { id: walletId },
-          data: {
-            currentBalance: {
-              increment: principal
-            }
-          }
-        });
+        await creditWallet(tx, walletId, principal);
       } else {
-        // Cho vay: trừ tiền từ ví
-        await tx.wallet.update({
-          where: { id: walletId },
-          data: {
-            currentBalance: {
-              decrement: principal
-            }
-          }
-        });
+        // Cho vay: trừ tiền từ ví (số dư phải đủ)
+        await debitWallet(tx, walletId, principal);
       }
 
       // Có thể return kèm transaction nếu FE cần sau này
@@ -154,11 +161,11 @@ export const LoanService = {
    * Lấy danh sách khoản nợ/cho vay của user
    *
    * @param userId - ID của user
-   * @param filters - Các filter tùy chọn
+   * @param filters - Các filter tùy chọn (có cursor => phân trang keyset, không đếm total)
    * @returns Danh sách khoản nợ với pagination
    */
   async getLoans(userId: string, filters: Partial<GetLoansQuery> = {}) {
-    const { kind, status, startDate, endDate } = filters;
+    const { kind, status, startDate, endDate, cursor } = filters;
     const limit = Math.min(100, Math.max(1, Number(filters.limit) || 50));
     const offset = Math.max(0, Number(filters.offset) || 0);
 
@@ -182,15 +189,24 @@ export const LoanService = {
       }
     }
 
+    const include = {
+      payments: {
+        orderBy: { paymentDate: 'desc' },
+        take: 3 // Lấy 3 lần trả gần nhất
+      }
+    } satisfies Prisma.LoanInclude;
+
+    if (cursor !== undefined) {
+      const { items, pagination } = await findCursorPage(LOAN_CURSOR_KEYS, cursor, limit, (page) =>
+        prisma.loan.findMany({ where: { AND: [where, page.where] }, include, orderBy: page.orderBy, take: page.take })
+      );
+      return { loans: items, pagination };
+    }
+
     // Lấy danh sách khoản nợ
     const loans = await prisma.loan.findMany({
       where,
-      include: {
-        payments: {
-          orderBy: { paymentDate: 'desc' },
-          take: 3 // Lấy 3 lần trả gần nhất
-        }
-      },
+      include,
       orderBy: [
         { status: 'asc' }, // Open loans trước
         { dueDate: 'asc' }, // Sắp hết hạn trước
@@ -235,7 +251,8 @@ export const LoanService = {
             transaction: true
           },
           orderBy: { paymentDate: 'desc' }
-        }
+        },
+        payee: { select: { id: true, name: true } }
       }
     });
   },
@@ -248,6 +265,7 @@ export const LoanService = {
    * @param data - Dữ liệu cập nhật
    * @returns Loan object đã cập nhật
    * @throws Error('LOAN_NOT_FOUND') nếu khoản nợ không tồn tại
+   * @throws Error('PAYEE_NOT_FOUND') nếu payeeId không tồn tại
    */
   async updateLoan(loanId: string, userId: string, data: UpdateLoanData) {
     // Kiểm tra khoản nợ tồn tại và thuộc user
@@ -258,6 +276,9 @@ export const LoanService = {
     if (!existingLoan) {
       throw new Error('LOAN_NOT_FOUND');
     }
+    if (data.payeeId) {
+      await validatePayeeOwnership(data.payeeId, userId);
+    }
 
     // Cập nhật khoản nợ
     const updatedLoan = await prisma.loan.update({
@@ -279,6 +300,8 @@ export const LoanService = {
    * @returns Loan object đã xóa
    * @throws Error('LOAN_NOT_FOUND') nếu khoản nợ không tồn tại
    * @throws Error('LOAN_HAS_PAYMENTS') nếu khoản nợ đã có thanh toán
+   * @throws Error('TRANSACTION_RECONCILED') nếu giao dịch giải ngân đã chốt đối chiếu
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu xoá khoản vay (you_owe) mà ví không còn đủ tiền để trừ lại
    */
   async deleteLoan(loanId: string, userId: string) {
     // Xóa khoản nợ cần đảm bảo hoàn lại tiền gốc vào ví
@@ -318,21 +341,22 @@ export const LoanService = {
         }
       });
 
+      // Giao dịch giải ngân đã chốt đối chiếu => phải unlock trước khi xoá khoản vay
+      if (baseTransaction?.status === 'reconciled') {
+        throw new Error('TRANSACTION_RECONCILED');
+      }
+
       if (baseTransaction && baseTransaction.entries.length === 1) {
         const entry = baseTransaction.entries[0];
 
         // 3. Hoàn tiền lại ví theo loại khoản nợ
         // - you_owe: lúc tạo loan đã cộng tiền vào ví -> giờ phải trừ lại
         // - owed_to_you: lúc tạo loan đã trừ tiền khỏi ví -> giờ phải cộng lại
-        await tx.wallet.update({
-          where: { id: entry.walletId },
-          data: {
-            currentBalance: {
-              [loan.kind === 'you_owe' ? 'decrement' : 'increment']:
-                loan.principal
-            } as any
-          }
-        });
+        if (loan.kind === 'you_owe') {
+          await debitWallet(tx, entry.walletId, loan.principal);
+        } else {
+          await creditWallet(tx, entry.walletId, loan.principal);
+        }
 
         // 4. Soft delete transaction gốc để không còn hiển thị trong lịch sử
         await tx.transaction.update({
@@ -364,6 +388,9 @@ export const LoanService = {
    * @param data - Dữ liệu thanh toán
    * @param userId - ID của user thực hiện thanh toán
    * @returns LoanPayment object đã tạo
+   * @throws Error('LOAN_CURRENCY_MISMATCH') nếu ví khác tiền tệ với khoản nợ
+   * @throws Error('PAYMENT_EXCEEDS_OUTSTANDING') nếu số tiền vượt dư nợ (kể cả khi có thanh toán đồng thời)
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu trả nợ (you_owe) mà ví không đủ số dư
    */
   async createLoanPayment(data: CreateLoanPaymentData, userId: string) {
     const { loanId, walletId, paymentDate, amount, note } = data;
@@ -376,9 +403,13 @@ export const LoanService = {
       throw new Error('PAYMENT_EXCEEDS_OUTSTANDING');
     }
 
-    // Validate wallet và kiểm tra số dư nếu cần (you_owe case)
-    const requiredAmount = loan.kind === 'you_owe' ? amount : undefined;
-    await validateWalletOwnership(walletId, userId, requiredAmount);
+    // Validate wallet (số dư khi trả nợ - you_owe được kiểm tra lúc trừ tiền)
+    const wallet = await validateWalletOwnership(walletId, userId);
+
+    // Số tiền trả/thu trừ thẳng vào dư nợ nên ví phải cùng tiền tệ với khoản nợ
+    if (wallet.currency !== loan.currency) {
+      throw new Error('LOAN_CURRENCY_MISMATCH');
+    }
 
     // Tạo payment và transaction trong DB transaction
     return await prisma.$transaction(async (tx) => {
@@ -407,7 +438,9 @@ export const LoanService = {
           transactionDate: new Date(paymentDate),
           categoryId,
           amount,
+          currency: wallet.currency,
           note: note || `${loan.kind === 'you_owe' ? 'Trả nợ' : 'Thu nợ'}: ${loan.counterpartyName}`,
+          payeeId: loan.payeeId,
           entries: {
             create: {
               walletId,
@@ -438,38 +471,30 @@ export const LoanService = {
 
       // 3. Cập nhật wallet balance
       if (loan.kind === 'you_owe') {
-        // Trả nợ: trừ tiền từ wallet
-        await tx.wallet.update({
-          where: { id: walletId },
-          data: {
-            currentBalance: {
-              decrement: amount
-            }
-          }
-        });
+        // Trả nợ: trừ tiền từ wallet (số dư phải đủ)
+        await debitWallet(tx, walletId, amount);
       } else {
         // Thu nợ: cộng tiền vào wallet
-        await tx.wallet.update({
-          where: { id: walletId },
-          data: {
-            currentBalance: {
-              increment: amount
-            }
-          }
-        });
+        await creditWallet(tx, walletId, amount);
       }
 
-      // 4. Cập nhật outstandingAmount của loan
-      const newOutstandingAmount = loan.outstandingAmount.toNumber() - amount;
-      const newStatus = newOutstandingAmount <= 0 ? 'closed' : 'open';
-
-      await tx.loan.update({
-        where: { id: loanId },
+      // 4. Trừ outstandingAmount của loan (kiểm tra dư nợ và trừ trong cùng 1 câu lệnh
+      //    để 2 lần thanh toán đồng thời không vượt dư nợ hoặc ghi đè kết quả của nhau)
+      const { count } = await tx.loan.updateMany({
+        where: { id: loanId, outstandingAmount: { gte: amount } },
         data: {
-          outstandingAmount: Math.max(0, newOutstandingAmount),
-          status: newStatus
+          outstandingAmount: {
+            decrement: amount
+          }
         }
       });
+      if (count === 0) {
+        throw new Error('PAYMENT_EXCEEDS_OUTSTANDING');
+      }
+      await tx.loan.updateMany({
+        where: { id: loanId, outstandingAmount: { lte: 0 } },
+        data: { status: 'closed' }
+      });
 
       return loanPayment;
     });
@@ -479,23 +504,34 @@ export const LoanService = {
    * Lấy danh sách thanh toán khoản nợ
    *
    * @param userId - ID của user
-   * @param filters - Các filter tùy chọn
+   * @param filters - Các filter tùy chọn (có cursor => phân trang keyset, không đếm total)
    * @returns Danh sách thanh toán với pagination
    */
   async getLoanPayments(userId: string, filters: Partial<GetLoanPaymentsQuery> = {}) {
-    const { loanId, limit = 50, offset = 0 } = filters;
+    const { loanId, cursor } = filters;
+    const limit = Math.min(100, Math.max(1, Number(filters.limit) || 50));
+    const offset = Math.max(0, Number(filters.offset) || 0);
 
     // Build where clause
     const where: any = { userId };
     if (loanId) where.loanId = loanId;
 
+    const include = {
+      loan: true,
+      wallet: true,
+      transaction: true
+    } satisfies Prisma.LoanPaymentInclude;
+
+    if (cursor !== undefined) {
+      const { items, pagination } = await findCursorPage(LOAN_PAYMENT_CURSOR_KEYS, cursor, limit, (page) =>
+        prisma.loanPayment.findMany({ where: { AND: [where, page.where] }, include, orderBy: page.orderBy, take: page.take })
+      );
+      return { payments: items, pagination };
+    }
+
     const payments = await prisma.loanPayment.findMany({
       where,
-      include: {
-        loan: true,
-        wallet: true,
-        transaction: true
-      },
+      include,
       orderBy: { paymentDate: 'desc' },
       take: limit,
       skip: offset
@@ -516,14 +552,16 @@ export const LoanService = {
 
   /**
    * Lấy thống kê tổng quan về khoản nợ của user
+   * Tổng dư nợ được quy đổi sang tiền tệ gốc của user theo tỷ giá hiện hành,
+   * tiền tệ chưa có tỷ giá không được cộng vào và được liệt kê trong unconvertedCurrencies
    *
    * @param userId - ID của user
    * @returns Thống kê tổng quan
    */
   async getLoanStats(userId: string) {
-    // Thống kê theo kind và status
+    // Thống kê theo kind, status và tiền tệ
     const loanStats = await prisma.loan.groupBy({
-      by: ['kind', 'status'],
+      by: ['kind', 'status', 'currency'],
       where: {
         userId,
         deletedAt: null
@@ -536,25 +574,30 @@ export const LoanService = {
       }
     });
 
-    // Tính tổng dư nợ theo loại
-    const youOweTotal = loanStats
-      .filter(stat => stat.kind === 'you_owe' && stat.status === 'open')
-      .reduce((sum, stat) => sum + (stat._sum.outstandingAmount?.toNumber() || 0), 0);
+    // Tính tổng dư nợ theo loại (quy đổi sang tiền tệ gốc)
+    const converter = await createCurrencyConverter(userId);
+    const sumOutstanding = (kind: string) => loanStats
+      .filter(stat => stat.kind === kind && stat.status === 'open')
+      .reduce((sum, stat) => {
+        const converted = converter.convert(stat._sum.outstandingAmount ?? 0, stat.currency);
+        return converted ? sum.plus(converted) : sum;
+      }, new Prisma.Decimal(0));
 
-    const owedToYouTotal = loanStats
-      .filter(stat => stat.kind === 'owed_to_you' && stat.status === 'open')
-      .reduce((sum, stat) => sum + (stat._sum.outstandingAmount?.toNumber() || 0), 0);
+    const youOweTotal = sumOutstanding('you_owe');
+    const owedToYouTotal = sumOutstanding('owed_to_you');
 
     return {
       youOwe: {
         count: loanStats.filter(s => s.kind === 'you_owe' && s.status === 'open').reduce((sum, s) => sum + s._count.id, 0),
-        totalAmount: youOweTotal
+        totalAmount: youOweTotal.toNumber()
       },
       owedToYou: {
         count: loanStats.filter(s => s.kind === 'owed_to_you' && s.status === 'open').reduce((sum, s) => sum + s._count.id, 0),
-        totalAmount: owedToYouTotal
+        totalAmount: owedToYouTotal.toNumber()
       },
-      totalLoans: loanStats.reduce((sum, stat) => sum + stat._count.id, 0)
+      totalLoans: loanStats.reduce((sum, stat) => sum + stat._count.id, 0),
+      baseCurrency: converter.baseCurrency,
+      unconvertedCurrencies: converter.unconvertedCurrencies
     };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,306 @@
+/**
+ * Payee Controller
+ * File này xử lý HTTP requests/responses cho các payee endpoints
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { PayeeService } from './payee.service';
+import { handleError } from '../../utils/error-handler';
+
+// Create module-specific error handler
+const handlePayeeError = (error: any, res: Response) =>
+  handleError(error, res, 'Payee');
+
+export const PayeeController = {
+  /**
+   * @swagger
+   * /payees:
+   *   post:
+   *     tags:
+   *       - Payees
+   *     summary: Tạo payee mới
+   *     description: |
+   *       Payee là người nhận/cửa hàng của giao dịch (VD: Highlands Coffee). Tên được so khớp không phân biệt
+   *       hoa thường/dấu/ký tự đặc biệt. Payee cũng được tạo tự động khi gắn vào giao dịch bằng payeeName
+   *       và khi import sao kê.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 maxLength: 100
+   *                 example: Highlands Coffee
+   *     responses:
+   *       201:
+   *         description: Payee được tạo thành công
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 payee:
+   *                   $ref: '#/components/schemas/Payee'
+   *       400:
+   *         description: Tên payee không hợp lệ
+   *       409:
+   *         description: Payee đã tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createPayee(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const payee = await PayeeService.createPayee(req.body, userId);
+      return res.status(201).json({
+        message: 'Payee created successfully',
+        payee
+      });
+    } catch (e: any) {
+      return handlePayeeError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /payees:
+   *   get:
+   *     tags:
+   *       - Payees
+   *     summary: Lấy danh sách payee
+   *     description: |
+   *       Trả về payee kèm số giao dịch và lastCategory (danh mục của giao dịch gần nhất) để client
+   *       điền sẵn danh mục khi tạo giao dịch mới. Dùng q để tìm theo tên (autocomplete).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: q
+   *         schema:
+   *           type: string
+   *         description: Lọc theo tên (không phân biệt hoa thường/dấu)
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 100
+   *     responses:
+   *       200:
+   *         description: Danh sách payee
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 payees:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Payee'
+   *       400:
+   *         description: limit không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getPayees(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 100)) {
+        return res.status(400).json({ message: 'Limit must be between 1 and 100' });
+      }
+
+      const payees = await PayeeService.getPayees(userId, {
+        q: typeof req.query.q === 'string' ? req.query.q : undefined,
+        limit
+      });
+      return res.status(200).json({
+        message: 'Payees retrieved successfully',
+        payees
+      });
+    } catch (e: any) {
+      return handlePayeeError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /payees/summary:
+   *   get:
+   *     tags:
+   *       - Payees
+   *     summary: Tổng thu/chi theo payee
+   *     description: |
+   *       Tổng chi (totalExpense), tổng thu (totalIncome) và số giao dịch của từng payee trong khoảng thời gian.
+   *       Chỉ tính giao dịch income/expense có gắn payee, refund được trừ vào tổng chi. Số tiền được quy đổi sang baseCurrency của user.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: excludeLoanRelated
+   *         schema:
+   *           type: boolean
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *         description: Chỉ lấy N payee chi nhiều nhất
+   *     responses:
+   *       200:
+   *         description: Tổng thu/chi theo payee, sắp xếp giảm dần theo tổng chi
+   *       400:
+   *         description: Ngày hoặc limit không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getPayeeSummary(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+      if (startDate && isNaN(startDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid startDate format' });
+      }
+      if (endDate && isNaN(endDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid endDate format' });
+      }
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 100)) {
+        return res.status(400).json({ message: 'Limit must be between 1 and 100' });
+      }
+
+      const summary = await PayeeService.getPayeeSummary(userId, {
+        startDate,
+        endDate,
+        excludeLoanRelated: req.query.excludeLoanRelated === 'true' || req.query.excludeLoanRelated === '1',
+        limit
+      });
+      return res.status(200).json({
+        message: 'Payee summary retrieved successfully',
+        ...summary
+      });
+    } catch (e: any) {
+      return handlePayeeError(e, res);
+    }
+  },
+
+  /**
+   * Lấy payee theo ID
+   * GET /api/payees/:id
+   *
+   * @param req.params.id - Payee ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với payee info (kèm lastCategory)
+   * @returns 404 Not Found nếu payee không tồn tại
+   */
+  async getPayee(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const payee = await PayeeService.getPayeeById(req.params.id, userId);
+      if (!payee) {
+        return res.status(404).json({ message: 'Payee not found' });
+      }
+
+      return res.status(200).json({
+        message: 'Payee retrieved successfully',
+        payee
+      });
+    } catch (e: any) {
+      return handlePayeeError(e, res);
+    }
+  },
+
+  /**
+   * Cập nhật payee (đổi tên, đặt/bỏ danh mục gợi ý)
+   * PUT /api/payees/:id
+   *
+   * @param req.params.id - Payee ID
+   * @param req.body - { name?, lastCategoryId? } đã được validate
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với payee đã cập nhật
+   * @returns 404 Not Found nếu payee hoặc danh mục không tồn tại
+   * @returns 409 Conflict nếu tên mới trùng payee khác
+   */
+  async updatePayee(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const payee = await PayeeService.updatePayee(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Payee updated successfully',
+        payee
+      });
+    } catch (e: any) {
+      return handlePayeeError(e, res);
+    }
+  },
+
+  /**
+   * Xoá payee (giao dịch và khoản vay giữ nguyên, chỉ bỏ liên kết)
+   * DELETE /api/payees/:id
+   *
+   * @param req.params.id - Payee ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK
+   * @returns 404 Not Found nếu payee không tồn tại
+   */
+  async deletePayee(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const payee = await PayeeService.deletePayee(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Payee deleted successfully',
+        payee
+      });
+    } catch (e: any) {
+      return handlePayeeError(e, res);
+    }
+  }
+};
@@ -0,0 +1,104 @@
+/**
+ * Payee Normalize
+ * Chuẩn hoá tên payee để so khớp và tách tên payee từ mô tả giao dịch trong sao kê
+ * VD: "POS 4213xxxx1234 HIGHLANDS COFFEE Q1 HCM 12/10" => "Highlands Coffee"
+ */
+import { foldSearchText } from '../transaction/transaction.search';
+
+// Độ dài tối đa của tên payee (khớp cột VarChar(100))
+export const PAYEE_NAME_MAX_LENGTH = 100;
+
+// Số từ tối đa giữ lại khi tách tên payee từ mô tả sao kê (phần sau thường là nội dung chuyển khoản)
+const MAX_EXTRACTED_WORDS = 6;
+
+// Cụm từ mở đầu thường gặp trong mô tả sao kê (đã bỏ dấu), không thuộc tên payee
+const STATEMENT_PREFIXES = [
+  'chuyen khoan den', 'chuyen tien den', 'ck den', 'payment to', 'transfer to',
+  'thanh toan', 'chuyen khoan', 'chuyen tien', 'mua hang', 'rut tien',
+  'pos', 'atm', 'visa', 'mastercard', 'debit', 'purchase', 'payment', 'tt', 'ck', 'qr', 'vietqr'
+].map((phrase) => phrase.split(' '));
+
+// Từ đánh dấu phần nội dung/mã tham chiếu phía sau tên payee (đã bỏ dấu) => cắt bỏ từ đây
+const CONTENT_MARKERS = ['noi dung', 'nd', 'ref', 'ma gd', 'memo'].map((phrase) => phrase.split(' '));
+
+// Hậu tố chi nhánh/địa điểm ở cuối tên (Q1, P.5, HCM...) => gộp các chi nhánh về 1 payee
+const LOCATION_SUFFIX = /^(?:[qp]\d{1,2}|hcm|tphcm|hn|hanoi|vn|vnm)$/;
+
+/**
+ * Khoá so khớp payee: bỏ dấu, chữ thường, chỉ giữ chữ/số và gộp khoảng trắng
+ * VD: "Highlands Coffee!" và "HIGHLANDS  COFFEE" => "highlands coffee"
+ *
+ * @returns Chuỗi rỗng nếu tên không có chữ/số
+ */
+export function normalizePayeeName(name: string) {
+  return foldSearchText(name)
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .slice(0, PAYEE_NAME_MAX_LENGTH)
+    .trim();
+}
+
+/**
+ * Token là số tham chiếu/số thẻ/ngày trong sao kê (VD: 4213xxxx1234, FT2610, 12/10/2026)
+ */
+function isReferenceToken(token: string) {
+  return /\d{4,}/.test(token)
+    || /[*x]{3,}/i.test(token)
+    || /^\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?$/.test(token);
+}
+
+/**
+ * Tách tên payee từ mô tả giao dịch trong sao kê
+ * - Chỉ lấy đoạn trước dấu phân cách đầu tiên (" - ", "|", "/")
+ * - Bỏ số thẻ/số tham chiếu/ngày, cụm từ mở đầu (POS, Thanh toan...), phần nội dung phía sau (ND, ref...)
+ *   và hậu tố chi nhánh (Q1, HCM...)
+ * - Mô tả viết hoa toàn bộ được chuyển sang dạng Title Case
+ *
+ * @param description - Mô tả giao dịch (hoặc trường payee của OFX/QIF)
+ * @returns Tên payee hoặc null nếu không tách được tên có nghĩa
+ */
+export function extractPayeeName(description: string) {
+  const segment = description.split(/\s+-\s+|\s*[|/]\s+/)[0] ?? '';
+  const tokens = segment
+    .split(/\s+/)
+    .map((token) => token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}&.']+$/gu, ''))
+    .filter((token) => token && !isReferenceToken(token));
+
+  // Bỏ lần lượt các cụm từ mở đầu (có thể nối nhau, VD: "POS VISA ...")
+  let removed = true;
+  while (removed && tokens.length > 0) {
+    removed = false;
+    const folded = tokens.map((token) => normalizePayeeName(token));
+    for (const phrase of STATEMENT_PREFIXES) {
+      if (phrase.length < tokens.length && phrase.every((word, i) => folded[i] === word)) {
+        tokens.splice(0, phrase.length);
+        removed = true;
+        break;
+      }
+    }
+  }
+
+  const foldedTokens = tokens.map((token) => normalizePayeeName(token));
+  const markerIndex = foldedTokens.findIndex((_, start) => start > 0 && CONTENT_MARKERS.some(
+    (marker) => marker.every((word, i) => foldedTokens[start + i] === word)
+  ));
+  if (markerIndex > 0) {
+    tokens.splice(markerIndex);
+  }
+
+  while (tokens.length > 1 && LOCATION_SUFFIX.test(normalizePayeeName(tokens[tokens.length - 1]).replace(/ /g, ''))) {
+    tokens.pop();
+  }
+
+  const words = tokens.slice(0, MAX_EXTRACTED_WORDS);
+  if (!words.some((word) => /\p{L}/u.test(word))) {
+    return null;
+  }
+
+  const name = words.join(' ');
+  const titleCased = name === name.toUpperCase()
+    ? words.map((word) => word.charAt(0) + word.slice(1).toLowerCase()).join(' ')
+    : name;
+
+  return titleCased.slice(0, PAYEE_NAME_MAX_LENGTH).trim();
+}
@@ -0,0 +1,31 @@
+// Schema validation cho Payee APIs
+// Sử dụng Zod để validate tên payee và request body của các payee operations
+import { z } from 'zod';
+import { normalizePayeeName, PAYEE_NAME_MAX_LENGTH } from './payee.normalize';
+
+// Tên payee: bỏ khoảng trắng thừa, phải có ít nhất 1 chữ hoặc số
+export const payeeNameSchema = z.string()
+  .trim()
+  .transform((val) => val.replace(/\s+/g, ' '))
+  .pipe(z.string()
+    .min(1, 'Tên payee không được rỗng')
+    .max(PAYEE_NAME_MAX_LENGTH, `Tên payee không được quá ${PAYEE_NAME_MAX_LENGTH} ký tự`)
+    .refine((val) => normalizePayeeName(val).length > 0, 'Tên payee phải có ít nhất 1 chữ hoặc số'));
+
+// Schema cho tạo payee mới
+export const createPayeeSchema = z.object({
+  name: payeeNameSchema
+});
+
+// Schema cho cập nhật payee (đổi tên, đặt/bỏ danh mục gợi ý)
+export const updatePayeeSchema = z.object({
+  name: payeeNameSchema.optional(),
+  lastCategoryId: z.string().uuid('lastCategoryId phải là UUID hợp lệ').nullable().optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Phải cung cấp ít nhất một trường để cập nhật'
+);
+
+// Type definitions cho TypeScript
+export type CreatePayeeData = z.infer<typeof createPayeeSchema>;
+export type UpdatePayeeData = z.infer<typeof updatePayeeSchema>;
@@ -0,0 +1,308 @@
+/**
+ * Payee Service
+ * File này chứa business logic cho payee (người nhận/cửa hàng của giao dịch)
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * - Payee được so khớp theo tên chuẩn hoá (normalizedName) => "HIGHLANDS COFFEE" và "Highlands Coffee" là 1 payee
+ * - Payee tự tạo khi gắn vào giao dịch theo tên hoặc khi import sao kê
+ * - lastCategoryId ghi nhớ danh mục của giao dịch gần nhất để gợi ý cho giao dịch mới
+ */
+import { prisma } from '../../db/prisma';
+import { Prisma } from '../../generated/prisma/client';
+import { createCurrencyConverter } from '../currency/currency.service';
+import { normalizePayeeName } from './payee.normalize';
+import { CreatePayeeData, UpdatePayeeData } from './payee.schema';
+
+// Số payee tối đa trả về mỗi lần (danh sách dùng cho gợi ý/autocomplete)
+const MAX_PAYEES_PER_PAGE = 100;
+
+// Danh mục gợi ý trả kèm payee
+const lastCategorySelect = {
+  select: { id: true, name: true, type: true, icon: true }
+} as const;
+
+/**
+ * Lấy ID của các payee theo tên, tạo mới payee chưa tồn tại
+ * Tên được so khớp theo normalizedName; tên không có chữ/số bị bỏ qua
+ *
+ * @param userId - ID của user
+ * @param names - Danh sách tên payee (có thể trùng lặp)
+ * @returns Map tên payee -> payee ID
+ */
+export async function resolvePayeeIds(userId: string, names: string[]) {
+  const byKey = new Map<string, string>(); // normalizedName -> tên hiển thị (lần xuất hiện đầu tiên)
+  for (const name of names) {
+    const key = normalizePayeeName(name);
+    if (key && !byKey.has(key)) {
+      byKey.set(key, name.trim().slice(0, 100));
+    }
+  }
+  if (byKey.size === 0) {
+    return new Map<string, string>();
+  }
+
+  await prisma.payee.createMany({
+    data: [...byKey].map(([normalizedName, name]) => ({ userId, name, normalizedName })),
+    skipDuplicates: true
+  });
+
+  const payees = await prisma.payee.findMany({
+    where: { userId, normalizedName: { in: [...byKey.keys()] } },
+    select: { id: true, normalizedName: true }
+  });
+
+  // Collation của DB có thể coi 2 khoá khác nhau là trùng => so khớp theo cùng quy tắc
+  const findId = (key: string) =>
+    payees.find((payee) => payee.normalizedName.localeCompare(key, undefined, { sensitivity: 'base' }) === 0)?.id;
+
+  const result = new Map<string, string>();
+  for (const name of names) {
+    const id = findId(normalizePayeeName(name));
+    if (id) result.set(name, id);
+  }
+  return result;
+}
+
+/**
+ * Kiểm tra payee thuộc về user
+ * @throws Error('PAYEE_NOT_FOUND') nếu không tìm thấy
+ */
+export async function validatePayeeOwnership(payeeId: string, userId: string) {
+  const payee = await prisma.payee.findFirst({
+    where: { id: payeeId, userId }
+  });
+  if (!payee) {
+    throw new Error('PAYEE_NOT_FOUND');
+  }
+  return payee;
+}
+
+export const PayeeService = {
+  /**
+   * Lấy danh sách payee của user kèm số giao dịch và danh mục gợi ý
+   * q: lọc theo tên (không phân biệt hoa thường/dấu) để làm autocomplete
+   *
+   * @param userId - ID của user
+   * @param filters - Từ khoá và số lượng tối đa
+   * @returns Danh sách payee sắp xếp theo tên
+   */
+  async getPayees(userId: string, filters: { q?: string; limit?: number } = {}) {
+    const { q, limit = MAX_PAYEES_PER_PAGE } = filters;
+    const key = q ? normalizePayeeName(q) : '';
+
+    const payees = await prisma.payee.findMany({
+      where: {
+        userId,
+        ...(key ? { normalizedName: { contains: key } } : {})
+      },
+      orderBy: { name: 'asc' },
+      take: Math.min(Math.max(limit, 1), MAX_PAYEES_PER_PAGE),
+      include: {
+        lastCategory: lastCategorySelect,
+        _count: {
+          select: {
+            transactions: { where: { deletedAt: null } }
+          }
+        }
+      }
+    });
+
+    return payees.map(({ _count, ...payee }) => ({
+      ...payee,
+      transactionCount: _count.transactions
+    }));
+  },
+
+  /**
+   * Lấy payee theo ID (kèm danh mục gợi ý)
+   *
+   * @param payeeId - ID của payee
+   * @param userId - ID của user (để verify ownership)
+   * @returns Payee object hoặc null nếu không tìm thấy
+   */
+  async getPayeeById(payeeId: string, userId: string) {
+    return await prisma.payee.findFirst({
+      where: { id: payeeId, userId },
+      include: { lastCategory: lastCategorySelect }
+    });
+  },
+
+  /**
+   * Tạo payee mới
+   *
+   * @param data - Tên payee
+   * @param userId - ID của user
+   * @returns Payee object đã tạo
+   * @throws Error('PAYEE_NAME_EXISTS') nếu đã có payee cùng tên (sau chuẩn hoá)
+   */
+  async createPayee(data: CreatePayeeData, userId: string) {
+    const normalizedName = normalizePayeeName(data.name);
+    const existing = await prisma.payee.findFirst({
+      where: { userId, normalizedName }
+    });
+    if (existing) {
+      throw new Error('PAYEE_NAME_EXISTS');
+    }
+
+    return await prisma.payee.create({
+      data: { userId, name: data.name, normalizedName },
+      include: { lastCategory: lastCategorySelect }
+    });
+  },
+
+  /**
+   * Cập nhật payee: đổi tên và/hoặc đặt danh mục gợi ý (null => bỏ gợi ý)
+   *
+   * @param payeeId - ID của payee
+   * @param userId - ID của user sở hữu payee
+   * @param data - Dữ liệu cập nhật đã validate
+   * @returns Payee object đã cập nhật
+   * @throws Error('PAYEE_NOT_FOUND') nếu payee không tồn tại
+   * @throws Error('PAYEE_NAME_EXISTS') nếu tên mới trùng payee khác
+   * @throws Error('CATEGORY_NOT_FOUND') nếu danh mục không tồn tại
+   */
+  async updatePayee(payeeId: string, userId: string, data: UpdatePayeeData) {
+    await validatePayeeOwnership(payeeId, userId);
+
+    const updateData: Prisma.PayeeUncheckedUpdateInput = {};
+    if (data.name !== undefined) {
+      const normalizedName = normalizePayeeName(data.name);
+      const nameExists = await prisma.payee.findFirst({
+        where: { userId, normalizedName, id: { not: payeeId } }
+      });
+      if (nameExists) {
+        throw new Error('PAYEE_NAME_EXISTS');
+      }
+      updateData.name = data.name;
+      updateData.normalizedName = normalizedName;
+    }
+    if (data.lastCategoryId) {
+      const category = await prisma.category.findFirst({
+        where: { id: data.lastCategoryId, userId },
+        select: { id: true }
+      });
+      if (!category) {
+        throw new Error('CATEGORY_NOT_FOUND');
+      }
+    }
+    if (data.lastCategoryId !== undefined) {
+      updateData.lastCategoryId = data.lastCategoryId;
+    }
+
+    return await prisma.payee.update({
+      where: { id: payeeId },
+      data: updateData,
+      include: { lastCategory: lastCategorySelect }
+    });
+  },
+
+  /**
+   * Xoá payee (giao dịch và khoản vay giữ nguyên, chỉ bỏ liên kết)
+   *
+   * @param payeeId - ID của payee
+   * @param userId - ID của user sở hữu payee
+   * @throws Error('PAYEE_NOT_FOUND') nếu payee không tồn tại
+   */
+  async deletePayee(payeeId: string, userId: string) {
+    await validatePayeeOwnership(payeeId, userId);
+
+    await prisma.payee.delete({
+      where: { id: payeeId }
+    });
+
+    return { id: payeeId, deleted: true };
+  },
+
+  /**
+   * Tổng thu/chi theo từng payee trong khoảng thời gian
+   * Chỉ tính giao dịch income/expense có gắn payee, refund được trừ vào tổng chi. Số tiền quy đổi sang tiền tệ gốc
+   * theo tỷ giá tại endDate (mặc định: hiện tại)
+   *
+   * @param userId - ID của user
+   * @param filters - Khoảng ngày, loại trừ giao dịch vay nợ, số payee tối đa
+   * @returns Danh sách payee kèm tổng chi/thu, sắp xếp giảm dần theo tổng chi
+   */
+  async getPayeeSummary(userId: string, filters: {
+    startDate?: Date;
+    endDate?: Date;
+    excludeLoanRelated?: boolean;
+    limit?: number;
+  } = {}) {
+    const { startDate, endDate, excludeLoanRelated = false, limit } = filters;
+
+    const where: Prisma.TransactionWhereInput = {
+      userId,
+      deletedAt: null,
+      type: { in: ['income', 'expense', 'refund'] },
+      payeeId: { not: null }
+    };
+    if (startDate || endDate) {
+      where.transactionDate = {};
+      if (startDate) where.transactionDate.gte = startDate;
+      if (endDate) where.transactionDate.lte = endDate;
+    }
+    if (excludeLoanRelated) {
+      where.NOT = {
+        OR: [
+          { loanPayment: { isNot: null } },
+          { loanId: { not: null } }
+        ]
+      };
+    }
+
+    // Gom theo payee + loại + tiền tệ, quy đổi tổng của từng nhóm
+    const groups = await prisma.transaction.groupBy({
+      by: ['payeeId', 'type', 'currency'],
+      where,
+      _sum: { amount: true },
+      _count: { _all: true }
+    });
+
+    const payeeIds = [...new Set(groups.map((group) => group.payeeId!))];
+    const payees = await prisma.payee.findMany({
+      where: { id: { in: payeeIds } },
+      select: { id: true, name: true }
+    });
+    const names = new Map(payees.map((payee) => [payee.id, payee.name]));
+
+    const converter = await createCurrencyConverter(userId, endDate ?? new Date());
+    const totals = new Map<string, {
+      id: string;
+      name: string;
+      totalExpense: Prisma.Decimal;
+      totalIncome: Prisma.Decimal;
+      transactionCount: number;
+    }>();
+
+    for (const group of groups) {
+      const payeeId = group.payeeId!;
+      const current = totals.get(payeeId) ?? {
+        id: payeeId,
+        name: names.get(payeeId) ?? '',
+        totalExpense: new Prisma.Decimal(0),
+        totalIncome: new Prisma.Decimal(0),
+        transactionCount: 0
+      };
+      const converted = converter.convert(group._sum.amount ?? 0, group.currency);
+      if (converted && group.type === 'expense') {
+        current.totalExpense = current.totalExpense.plus(converted);
+      } else if (converted && group.type === 'refund') {
+        current.totalExpense = current.totalExpense.minus(converted);
+      } else if (converted) {
+        current.totalIncome = current.totalIncome.plus(converted);
+      }
+      current.transactionCount += group._count._all;
+      totals.set(payeeId, current);
+    }
+
+    const sorted = [...totals.values()]
+      .map((payee) => ({ ...payee, net: payee.totalIncome.minus(payee.totalExpense) }))
+      .sort((a, b) => b.totalExpense.comparedTo(a.totalExpense));
+
+    return {
+      payees: limit ? sorted.slice(0, limit) : sorted,
+      baseCurrency: converter.baseCurrency,
+      unconvertedCurrencies: converter.unconvertedCurrencies
+    };
+  }
+};
@@ -0,0 +1,170 @@
+/**
+ * Reconciliation Controller
+ * File này xử lý HTTP requests/responses cho đối chiếu ví với sao kê ngân hàng
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { ReconciliationService } from './reconciliation.service';
+import { ErrorMap, handleError } from '../../utils/error-handler';
+
+// Create module-specific error handler
+const handleReconciliationError = (error: any, res: Response) =>
+  handleError(error, res, 'Reconciliation');
+
+export const ReconciliationController = {
+  /**
+   * @swagger
+   * /wallets/{id}/reconciliations/preview:
+   *   post:
+   *     tags:
+   *       - Reconciliation
+   *     summary: Xem trước đối chiếu ví với sao kê
+   *     description: |
+   *       Tính số dư đã đối chiếu = openingBalance + giao dịch cleared/reconciled của ví đến statementDate
+   *       và chênh lệch difference = statementBalance - clearedBalance.
+   *       Trả kèm các giao dịch cleared (sẽ bị khoá khi chốt) và pending đến statementDate, mỗi giao dịch có
+   *       walletAmount là số tiền ảnh hưởng lên ví (âm = tiền ra). Không ghi DB.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/ReconcileWalletRequest'
+   *     responses:
+   *       200:
+   *         description: clearedBalance, difference, clearedTransactions, pendingTransactions
+   *       400:
+   *         description: Dữ liệu không hợp lệ
+   *       404:
+   *         description: Ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async previewReconciliation(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const preview = await ReconciliationService.previewReconciliation(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Reconciliation preview generated successfully',
+        ...preview
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /wallets/{id}/reconciliations:
+   *   post:
+   *     tags:
+   *       - Reconciliation
+   *     summary: Chốt đối chiếu ví với sao kê
+   *     description: |
+   *       Chỉ chốt khi số dư đã đối chiếu khớp số dư sao kê (difference = 0).
+   *       Mọi giao dịch cleared của ví đến statementDate chuyển sang reconciled và bị khoá sửa/xoá
+   *       cho đến khi mở khoá qua POST /transactions/{id}/unlock.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/ReconcileWalletRequest'
+   *     responses:
+   *       201:
+   *         description: Đối chiếu thành công
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 reconciliation:
+   *                   $ref: '#/components/schemas/WalletReconciliation'
+   *       400:
+   *         description: Dữ liệu không hợp lệ
+   *       404:
+   *         description: Ví không tồn tại
+   *       409:
+   *         description: Số dư đã đối chiếu khác số dư sao kê (trả kèm clearedBalance, difference) hoặc giao dịch bị thay đổi trong lúc chốt
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createReconciliation(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      // Còn chênh lệch => trả về số liệu để user đánh dấu thêm giao dịch cleared
+      const preview = await ReconciliationService.previewReconciliation(req.params.id, userId, req.body);
+      if (!preview.difference.isZero()) {
+        return res.status(409).json({
+          message: ErrorMap.RECONCILIATION_BALANCE_MISMATCH.message,
+          code: 'RECONCILIATION_BALANCE_MISMATCH',
+          statementBalance: preview.statementBalance,
+          clearedBalance: preview.clearedBalance,
+          difference: preview.difference
+        });
+      }
+
+      const reconciliation = await ReconciliationService.reconcileWallet(req.params.id, userId, req.body);
+      return res.status(201).json({
+        message: 'Wallet reconciled successfully',
+        reconciliation
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Lấy lịch sử đối chiếu của ví (mới nhất trước)
+   * GET /api/wallets/:id/reconciliations
+   *
+   * @param req.params.id - Wallet ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với danh sách lần đối chiếu
+   * @returns 404 Not Found nếu ví không tồn tại
+   */
+  async getReconciliations(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const reconciliations = await ReconciliationService.getReconciliations(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Reconciliations retrieved successfully',
+        reconciliations
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  }
+};
@@ -0,0 +1,18 @@
+// Schema validation cho Reconciliation APIs
+// Sử dụng Zod để validate số dư/ngày sao kê khi đối chiếu ví
+import { z } from 'zod';
+
+// Schema cho preview và chốt đối chiếu ví với sao kê
+// statementBalance có thể âm (VD: thẻ tín dụng)
+export const reconcileWalletSchema = z.object({
+  statementDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'statementDate phải là ngày hợp lệ'
+  }).transform((val) => new Date(val)),
+  statementBalance: z.number().refine(
+    (val) => Number(val.toFixed(2)) === val,
+    'statementBalance chỉ được phép 2 số thập phân'
+  )
+});
+
+// Type definitions cho TypeScript
+export type ReconcileWalletData = z.infer<typeof reconcileWalletSchema>;
@@ -0,0 +1,198 @@
+/**
+ * Reconciliation Service
+ * File này chứa business logic cho việc đối chiếu ví với sao kê ngân hàng
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Luồng đối chiếu:
+ * - User nhập số dư và ngày cuối kỳ trên sao kê, đánh dấu các giao dịch đã thấy trên sao kê là cleared
+ * - Preview: số dư đã đối chiếu (openingBalance + giao dịch cleared/reconciled đến statementDate) và chênh lệch
+ * - Chốt: chênh lệch = 0 => các giao dịch cleared được khoá (reconciled), lưu lịch sử đối chiếu
+ */
+import { prisma } from '../../db/prisma';
+import { Prisma } from '../../generated/prisma/client';
+import { ReconcileWalletData } from './reconciliation.schema';
+
+// Giao dịch tính vào số dư đã đối chiếu
+const CLEARED_STATUSES = ['cleared', 'reconciled'] as const;
+
+/**
+ * Lấy ví cần đối chiếu (phải thuộc user)
+ * @throws Error('WALLET_NOT_FOUND') nếu không tìm thấy
+ */
+async function findReconcileWallet(walletId: string, userId: string) {
+  const wallet = await prisma.wallet.findFirst({
+    where: { id: walletId, userId },
+    select: { id: true, name: true, currency: true, openingBalance: true, currentBalance: true }
+  });
+  if (!wallet) {
+    throw new Error('WALLET_NOT_FOUND');
+  }
+  return wallet;
+}
+
+/**
+ * Số dư đã đối chiếu của ví tại statementDate:
+ * openingBalance + tổng entries (in: +, out: -) của giao dịch cleared/reconciled chưa xoá
+ */
+async function computeClearedBalance(
+  db: Prisma.TransactionClient,
+  wallet: { id: string; openingBalance: Prisma.Decimal },
+  statementDate: Date
+) {
+  const sums = await db.transactionEntry.groupBy({
+    by: ['direction'],
+    where: {
+      walletId: wallet.id,
+      transaction: {
+        deletedAt: null,
+        status: { in: [...CLEARED_STATUSES] },
+        transactionDate: { lte: statementDate }
+      }
+    },
+    _sum: { amount: true }
+  });
+
+  return sums.reduce(
+    (balance, sum) => sum.direction === 'in'
+      ? balance.plus(sum._sum.amount ?? 0)
+      : balance.minus(sum._sum.amount ?? 0),
+    new Prisma.Decimal(wallet.openingBalance)
+  );
+}
+
+export const ReconciliationService = {
+  /**
+   * Preview đối chiếu ví: số dư đã đối chiếu, chênh lệch với sao kê
+   * và các giao dịch chưa chốt (pending/cleared) đến statementDate
+   *
+   * @param walletId - ID của ví
+   * @param userId - ID của user sở hữu ví
+   * @param data - Ngày và số dư cuối kỳ trên sao kê
+   * @returns clearedBalance, difference (= statementBalance - clearedBalance) và danh sách giao dịch
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại
+   */
+  async previewReconciliation(walletId: string, userId: string, data: ReconcileWalletData) {
+    const wallet = await findReconcileWallet(walletId, userId);
+    const clearedBalance = await computeClearedBalance(prisma, wallet, data.statementDate);
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        status: { in: ['pending', 'cleared'] },
+        transactionDate: { lte: data.statementDate },
+        entries: { some: { walletId } }
+      },
+      orderBy: [{ transactionDate: 'asc' }, { id: 'asc' }],
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        transactionDate: true,
+        note: true,
+        category: { select: { id: true, name: true } },
+        payee: { select: { id: true, name: true } },
+        entries: {
+          where: { walletId },
+          select: { direction: true, amount: true }
+        }
+      }
+    });
+
+    // Số tiền ảnh hưởng lên ví này (transfer: số tiền gửi/nhận + phí của riêng ví)
+    const withWalletAmount = transactions.map(({ entries, ...transaction }) => ({
+      ...transaction,
+      walletAmount: entries.reduce(
+        (sum, entry) => entry.direction === 'in' ? sum.plus(entry.amount) : sum.minus(entry.amount),
+        new Prisma.Decimal(0)
+      )
+    }));
+
+    const statementBalance = new Prisma.Decimal(data.statementBalance);
+    return {
+      wallet: { id: wallet.id, name: wallet.name, currency: wallet.currency },
+      statementDate: data.statementDate,
+      statementBalance,
+      clearedBalance,
+      difference: statementBalance.minus(clearedBalance),
+      clearedTransactions: withWalletAmount.filter((transaction) => transaction.status === 'cleared'),
+      pendingTransactions: withWalletAmount.filter((transaction) => transaction.status === 'pending')
+    };
+  },
+
+  /**
+   * Chốt đối chiếu ví: khoá (reconciled) mọi giao dịch cleared của ví đến statementDate
+   * Số dư đã đối chiếu được tính lại trong DB transaction và phải khớp số dư sao kê
+   *
+   * @param walletId - ID của ví
+   * @param userId - ID của user sở hữu ví
+   * @param data - Ngày và số dư cuối kỳ trên sao kê
+   * @returns Lần đối chiếu đã lưu
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại
+   * @throws Error('RECONCILIATION_BALANCE_MISMATCH') nếu số dư đã đối chiếu khác số dư sao kê
+   * @throws Error('RECONCILIATION_TRANSACTIONS_CHANGED') nếu giao dịch cleared bị thay đổi trong lúc chốt
+   */
+  async reconcileWallet(walletId: string, userId: string, data: ReconcileWalletData) {
+    const wallet = await findReconcileWallet(walletId, userId);
+
+    return await prisma.$transaction(async (tx) => {
+      const clearedBalance = await computeClearedBalance(tx, wallet, data.statementDate);
+      if (!clearedBalance.equals(data.statementBalance)) {
+        throw new Error('RECONCILIATION_BALANCE_MISMATCH');
+      }
+
+      const transactions = await tx.transaction.findMany({
+        where: {
+          userId,
+          deletedAt: null,
+          status: 'cleared',
+          transactionDate: { lte: data.statementDate },
+          entries: { some: { walletId } }
+        },
+        select: { id: true }
+      });
+
+      const reconciliation = await tx.walletReconciliation.create({
+        data: {
+          userId,
+          walletId,
+          statementDate: data.statementDate,
+          statementBalance: data.statementBalance,
+          transactionCount: transactions.length
+        }
+      });
+
+      // Giao dịch bị xoá/đổi trạng thái bởi request khác sau khi đọc => huỷ, số dư vừa kiểm tra không còn đúng
+      const { count } = await tx.transaction.updateMany({
+        where: {
+          id: { in: transactions.map((transaction) => transaction.id) },
+          status: 'cleared',
+          deletedAt: null
+        },
+        data: { status: 'reconciled', reconciliationId: reconciliation.id }
+      });
+      if (count !== transactions.length) {
+        throw new Error('RECONCILIATION_TRANSACTIONS_CHANGED');
+      }
+
+      return { ...reconciliation, clearedBalance };
+    });
+  },
+
+  /**
+   * Lịch sử đối chiếu của ví (mới nhất trước)
+   *
+   * @param walletId - ID của ví
+   * @param userId - ID của user sở hữu ví
+   * @returns Danh sách lần đối chiếu
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại
+   */
+  async getReconciliations(walletId: string, userId: string) {
+    await findReconcileWallet(walletId, userId);
+
+    return await prisma.walletReconciliation.findMany({
+      where: { walletId, userId },
+      orderBy: [{ statementDate: 'desc' }, { createdAt: 'desc' }]
+    });
+  }
+};
@@ -0,0 +1,305 @@
+/**
+ * Recurring Rule Controller
+ * File này xử lý HTTP requests/responses cho các recurring rule endpoints
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { RecurringService } from './recurring.service';
+import { handleError } from '../../utils/error-handler';
+
+// Create module-specific error handler
+const handleRecurringError = (error: any, res: Response) =>
+  handleError(error, res, 'Recurring');
+
+export const RecurringController = {
+  /**
+   * @swagger
+   * /recurring-rules:
+   *   post:
+   *     tags:
+   *       - Recurring Rules
+   *     summary: Tạo quy tắc giao dịch định kỳ
+   *     description: |
+   *       Tạo rule sinh giao dịch tự động, VD "Lương ngày 5 hằng tháng vào VCB".
+   *       income/expense cần walletId + categoryId, transfer cần fromWalletId + toWalletId.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *               - type
+   *               - amount
+   *               - frequency
+   *               - startDate
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: "Lương tháng"
+   *               type:
+   *                 type: string
+   *                 enum: [income, expense, transfer]
+   *               amount:
+   *                 type: number
+   *                 format: decimal
+   *                 example: 15000000
+   *               note:
+   *                 type: string
+   *               walletId:
+   *                 type: string
+   *                 format: uuid
+   *               categoryId:
+   *                 type: string
+   *                 format: uuid
+   *               fromWalletId:
+   *                 type: string
+   *                 format: uuid
+   *               toWalletId:
+   *                 type: string
+   *                 format: uuid
+   *               frequency:
+   *                 type: string
+   *                 enum: [daily, weekly, monthly, yearly]
+   *               interval:
+   *                 type: integer
+   *                 minimum: 1
+   *                 default: 1
+   *               dayOfMonth:
+   *                 type: integer
+   *                 minimum: 1
+   *                 maximum: 31
+   *                 example: 5
+   *               dayOfWeek:
+   *                 type: integer
+   *                 minimum: 0
+   *                 maximum: 6
+   *                 description: 0 = Chủ nhật
+   *               startDate:
+   *                 type: string
+   *                 format: date-time
+   *               endDate:
+   *                 type: string
+   *                 format: date-time
+   *     responses:
+   *       201:
+   *         description: Rule được tạo thành công
+   *       400:
+   *         description: Dữ liệu không hợp lệ
+   *       404:
+   *         description: Ví hoặc danh mục không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rule = await RecurringService.createRule(req.body, userId);
+      return res.status(201).json({
+        message: 'Recurring rule created successfully',
+        rule
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * Lấy danh sách rule của user
+   * GET /api/recurring-rules
+   *
+   * Query parameters (tất cả optional):
+   * - isActive: 'true' | 'false'
+   * - limit: number (default: 50, max: 100)
+   * - offset: number (default: 0)
+   *
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với danh sách rules và pagination info
+   */
+  async getRules(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 50;
+      const offset = parseInt(req.query.offset as string) || 0;
+      if (limit < 1 || limit > 100) {
+        return res.status(400).json({ message: 'Limit must be between 1 and 100' });
+      }
+      if (offset < 0) {
+        return res.status(400).json({ message: 'Offset must be non-negative' });
+      }
+
+      const result = await RecurringService.getRules(userId, {
+        isActive: req.query.isActive === undefined ? undefined : req.query.isActive === 'true',
+        limit,
+        offset
+      });
+      return res.status(200).json({
+        message: 'Recurring rules retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * Lấy rule theo ID
+   * GET /api/recurring-rules/:id
+   *
+   * @param req.params.id - Rule ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với rule info
+   * @returns 404 Not Found nếu rule không tồn tại
+   */
+  async getRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rule = await RecurringService.getRuleById(req.params.id, userId);
+      if (!rule) {
+        return res.status(404).json({ message: 'Recurring rule not found' });
+      }
+
+      return res.status(200).json({
+        message: 'Recurring rule retrieved successfully',
+        rule
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * Cập nhật rule
+   * PUT /api/recurring-rules/:id
+   *
+   * @param req.params.id - Rule ID
+   * @param req.body - Update data đã được validate
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với rule đã cập nhật
+   * @returns 400 Bad Request nếu gửi ví/danh mục không dùng cho type của rule
+   * @returns 404 Not Found nếu rule không tồn tại
+   */
+  async updateRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rule = await RecurringService.updateRule(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Recurring rule updated successfully',
+        rule
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * Xóa rule (giao dịch đã sinh được giữ lại)
+   * DELETE /api/recurring-rules/:id
+   *
+   * @param req.params.id - Rule ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK
+   * @returns 404 Not Found nếu rule không tồn tại
+   */
+  async deleteRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rule = await RecurringService.deleteRule(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Recurring rule deleted successfully',
+        rule
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /recurring-rules/{id}/preview:
+   *   get:
+   *     tags:
+   *       - Recurring Rules
+   *     summary: Xem trước các lần chạy tiếp theo
+   *     description: Liệt kê N occurrence tiếp theo của rule (không sinh giao dịch)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: count
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 10
+   *     responses:
+   *       200:
+   *         description: Danh sách ngày sẽ sinh giao dịch
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 occurrences:
+   *                   type: array
+   *                   items:
+   *                     type: string
+   *                     format: date-time
+   *       404:
+   *         description: Rule không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async previewRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const count = req.query.count ? parseInt(req.query.count as string) : 10;
+      if (isNaN(count) || count < 1 || count > 100) {
+        return res.status(400).json({ message: 'Count must be between 1 and 100' });
+      }
+
+      const result = await RecurringService.previewRule(req.params.id, userId, count);
+      return res.status(200).json({
+        message: 'Recurring rule preview retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  }
+};
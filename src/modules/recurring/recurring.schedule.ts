@@ -0,0 +1,116 @@
+/**
+ * Recurring Schedule
+ * Tính các occurrence của rule định kỳ theo giờ địa phương (không truy cập DB)
+ * Giờ trong ngày lấy theo startDate; dayOfMonth lớn hơn số ngày của tháng => ngày cuối tháng
+ */
+import { RecurringRule } from '../../generated/prisma/client';
+
+// Các field quyết định lịch chạy của rule
+export type RuleSchedule = Pick<
+  RecurringRule,
+  'frequency' | 'interval' | 'dayOfMonth' | 'dayOfWeek' | 'startDate' | 'endDate'
+>;
+
+/**
+ * Số ngày của tháng (month tính từ 0)
+ */
+function daysInMonth(year: number, month: number) {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * Dựng ngày theo năm/tháng/ngày, giữ giờ trong ngày của `time`
+ * Ngày lớn hơn số ngày của tháng sẽ được đưa về ngày cuối tháng (VD: 31 -> 28/2)
+ */
+function atDayOfMonth(year: number, month: number, day: number, time: Date) {
+  // Chuẩn hoá month vượt 0..11 (VD: month = 12 => tháng 1 năm sau)
+  const normalized = new Date(year, month, 1);
+  const result = new Date(time);
+  result.setFullYear(
+    normalized.getFullYear(),
+    normalized.getMonth(),
+    Math.min(day, daysInMonth(normalized.getFullYear(), normalized.getMonth()))
+  );
+  return result;
+}
+
+/**
+ * Cộng số ngày theo giờ địa phương
+ */
+function addDays(date: Date, days: number) {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Occurrence đầu tiên (>= startDate) của rule
+ */
+export function firstOccurrence(schedule: RuleSchedule) {
+  const start = schedule.startDate;
+  const dayOfMonth = schedule.dayOfMonth ?? start.getDate();
+
+  switch (schedule.frequency) {
+    case 'daily':
+      return new Date(start);
+
+    case 'weekly': {
+      const dayOfWeek = schedule.dayOfWeek ?? start.getDay();
+      return addDays(start, (dayOfWeek - start.getDay() + 7) % 7);
+    }
+
+    case 'monthly': {
+      const candidate = atDayOfMonth(start.getFullYear(), start.getMonth(), dayOfMonth, start);
+      return candidate < start
+        ? atDayOfMonth(start.getFullYear(), start.getMonth() + 1, dayOfMonth, start)
+        : candidate;
+    }
+
+    case 'yearly': {
+      const candidate = atDayOfMonth(start.getFullYear(), start.getMonth(), dayOfMonth, start);
+      return candidate < start
+        ? atDayOfMonth(start.getFullYear() + 1, start.getMonth(), dayOfMonth, start)
+        : candidate;
+    }
+  }
+}
+
+/**
+ * Occurrence kế tiếp sau `previous`
+ * monthly/yearly luôn tính lại từ dayOfMonth để không bị trôi ngày (31 -> 28 -> 28...)
+ */
+export function nextOccurrence(schedule: RuleSchedule, previous: Date) {
+  const dayOfMonth = schedule.dayOfMonth ?? schedule.startDate.getDate();
+
+  switch (schedule.frequency) {
+    case 'daily':
+      return addDays(previous, schedule.interval);
+
+    case 'weekly':
+      return addDays(previous, 7 * schedule.interval);
+
+    case 'monthly':
+      return atDayOfMonth(previous.getFullYear(), previous.getMonth() + schedule.interval, dayOfMonth, previous);
+
+    case 'yearly':
+      return atDayOfMonth(previous.getFullYear() + schedule.interval, schedule.startDate.getMonth(), dayOfMonth, previous);
+  }
+}
+
+/**
+ * Trả về occurrence nếu còn trong hạn (<= endDate), ngược lại null
+ */
+export function withinEndDate(schedule: RuleSchedule, occurrence: Date) {
+  return !schedule.endDate || occurrence <= schedule.endDate ? occurrence : null;
+}
+
+/**
+ * Occurrence đầu tiên lớn hơn `after` (hoặc >= nếu inclusive), null nếu đã quá endDate
+ */
+export function firstOccurrenceAfter(schedule: RuleSchedule, after: Date | null, inclusive = false) {
+  let occurrence: Date | null = withinEndDate(schedule, firstOccurrence(schedule));
+  while (occurrence && after && (inclusive ? occurrence < after : occurrence <= after)) {
+    occurrence = withinEndDate(schedule, nextOccurrence(schedule, occurrence));
+  }
+  return occurrence;
+}
@@ -0,0 +1,45 @@
+/**
+ * Recurring Rule Scheduler
+ * Chạy trong process của server: định kỳ gọi RecurringService.runDueRules()
+ * Lần chạy đầu tiên diễn ra ngay khi start để catch-up các occurrence bị lỡ khi server tắt
+ */
+import { logger } from '../../config/logger';
+import { RecurringService } from './recurring.service';
+
+/**
+ * Khởi động scheduler
+ *
+ * @param intervalMs - Chu kỳ quét rule đến hạn (ms); <= 0 => không chạy scheduler
+ * @returns Hàm dừng scheduler (dùng khi shutdown)
+ */
+export function startRecurringScheduler(intervalMs: number) {
+  if (intervalMs <= 0) {
+    logger.info('Recurring scheduler disabled');
+    return () => {};
+  }
+
+  // Tránh 2 lần chạy chồng lên nhau khi 1 lần chạy lâu hơn intervalMs
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await RecurringService.runDueRules();
+      if (result.createdTransactions > 0) {
+        logger.info(result, 'Recurring rules materialized');
+      }
+    } catch (err) {
+      logger.error({ err }, 'Recurring scheduler failed');
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, intervalMs);
+  // Không giữ process sống chỉ vì scheduler
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,77 @@
+// Schema validation cho Recurring Rule APIs
+// Sử dụng Zod để validate request body cho các quy tắc giao dịch định kỳ
+import { z } from 'zod';
+
+const amountSchema = z.number().positive('amount phải lớn hơn 0').refine(
+  (val) => Number(val.toFixed(2)) === val,
+  'amount chỉ được phép 2 số thập phân'
+);
+
+const dateSchema = (field: string) => z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: `${field} phải là ngày hợp lệ`
+}).transform((val) => new Date(val));
+
+// Các field lịch chạy có thể sửa sau khi tạo
+const scheduleFields = {
+  interval: z.number().int().min(1, 'interval phải >= 1').max(365, 'interval không được quá 365'),
+  dayOfMonth: z.number().int().min(1, 'dayOfMonth phải từ 1 đến 31').max(31, 'dayOfMonth phải từ 1 đến 31'),
+  dayOfWeek: z.number().int().min(0, 'dayOfWeek phải từ 0 (Chủ nhật) đến 6').max(6, 'dayOfWeek phải từ 0 (Chủ nhật) đến 6')
+};
+
+// Schema cho tạo rule mới
+// income/expense cần walletId + categoryId, transfer cần fromWalletId + toWalletId
+export const createRecurringRuleSchema = z.object({
+  name: z.string().min(1, 'Tên rule không được rỗng').max(100, 'Tên rule không được quá 100 ký tự'),
+  type: z.enum(['income', 'expense', 'transfer'], {
+    message: 'type phải là income, expense hoặc transfer'
+  }),
+  amount: amountSchema,
+  note: z.string().max(1000, 'note không được quá 1000 ký tự').optional(),
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ').optional(),
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').optional(),
+  fromWalletId: z.string().uuid('fromWalletId phải là UUID hợp lệ').optional(),
+  toWalletId: z.string().uuid('toWalletId phải là UUID hợp lệ').optional(),
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly'], {
+    message: 'frequency phải là daily, weekly, monthly hoặc yearly'
+  }),
+  interval: scheduleFields.interval.optional().default(1),
+  dayOfMonth: scheduleFields.dayOfMonth.optional(),
+  dayOfWeek: scheduleFields.dayOfWeek.optional(),
+  startDate: dateSchema('startDate'),
+  endDate: dateSchema('endDate').optional()
+}).superRefine((data, ctx) => {
+  if (data.type === 'transfer') {
+    if (!data.fromWalletId || !data.toWalletId) {
+      ctx.addIssue({ code: 'custom', message: 'transfer cần fromWalletId và toWalletId', path: ['fromWalletId'] });
+    }
+  } else if (!data.walletId || !data.categoryId) {
+    ctx.addIssue({ code: 'custom', message: `${data.type} cần walletId và categoryId`, path: ['walletId'] });
+  }
+  if (data.endDate && data.endDate < data.startDate) {
+    ctx.addIssue({ code: 'custom', message: 'endDate phải sau startDate', path: ['endDate'] });
+  }
+});
+
+// Schema cho cập nhật rule
+// Không cho đổi type/frequency/startDate (xoá và tạo rule mới nếu cần)
+export const updateRecurringRuleSchema = z.object({
+  name: z.string().min(1, 'Tên rule không được rỗng').max(100, 'Tên rule không được quá 100 ký tự').optional(),
+  amount: amountSchema.optional(),
+  note: z.string().max(1000, 'note không được quá 1000 ký tự').nullable().optional(),
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ').optional(),
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').optional(),
+  fromWalletId: z.string().uuid('fromWalletId phải là UUID hợp lệ').optional(),
+  toWalletId: z.string().uuid('toWalletId phải là UUID hợp lệ').optional(),
+  interval: scheduleFields.interval.optional(),
+  dayOfMonth: scheduleFields.dayOfMonth.nullable().optional(),
+  dayOfWeek: scheduleFields.dayOfWeek.nullable().optional(),
+  endDate: dateSchema('endDate').nullable().optional(),
+  isActive: z.boolean().optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Phải cung cấp ít nhất một trường để cập nhật'
+);
+
+// Type definitions cho TypeScript
+export type CreateRecurringRuleData = z.infer<typeof createRecurringRuleSchema>;
+export type UpdateRecurringRuleData = z.infer<typeof updateRecurringRuleSchema>;
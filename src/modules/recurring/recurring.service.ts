@@ -0,0 +1,396 @@
+/**
+ * Recurring Rule Service
+ * File này chứa business logic cho các quy tắc giao dịch định kỳ
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ quan trọng:
+ * - Mỗi rule lưu mẫu giao dịch + lịch chạy, nextRunAt là occurrence tiếp theo cần sinh
+ * - Scheduler gọi runDueRules() định kỳ, sinh giao dịch qua TransactionService.createTransaction
+ *   cho mọi occurrence <= hiện tại (catch-up các lần bị lỡ khi server tắt)
+ * - Mỗi giao dịch sinh ra được gắn recurringRuleId + transactionDate = occurrence,
+ *   nhờ đó chạy lại không sinh trùng
+ * - Ngày được tính theo giờ địa phương của server, giờ trong ngày lấy theo startDate
+ */
+import { prisma } from '../../db/prisma';
+import { logger } from '../../config/logger';
+import { RecurringRule } from '../../generated/prisma/client';
+import { TransactionService } from '../transaction/transaction.service';
+import { CreateTransactionData } from '../transaction/transaction.schema';
+import { CreateRecurringRuleData, UpdateRecurringRuleData } from './recurring.schema';
+import { firstOccurrenceAfter, nextOccurrence, RuleSchedule, withinEndDate } from './recurring.schedule';
+
+// Các field mẫu giao dịch của rule
+type RuleTemplate = {
+  type: 'income' | 'expense' | 'transfer';
+  walletId?: string | null;
+  categoryId?: string | null;
+  fromWalletId?: string | null;
+  toWalletId?: string | null;
+};
+
+// Số occurrence tối đa sinh cho 1 rule trong 1 lần chạy (tránh rule daily bị lỡ lâu chặn scheduler)
+const MAX_OCCURRENCES_PER_RUN = 366;
+
+// Rule lỗi liên tiếp: chờ 1 phút, 2 phút, 4 phút... (tối đa 1 ngày) trước khi thử lại,
+// lỗi quá MAX_FAILED_ATTEMPTS lần thì tự tạm dừng, user sửa nguyên nhân rồi bật lại
+const RETRY_BASE_DELAY_MS = 60_000;
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 10;
+
+/**
+ * Validate ví/danh mục trong mẫu giao dịch của rule thuộc về user
+ */
+async function validateRuleReferences(template: RuleTemplate, userId: string) {
+  const walletIds = template.type === 'transfer'
+    ? [template.fromWalletId, template.toWalletId]
+    : [template.walletId];
+
+  if (template.type === 'transfer' && template.fromWalletId === template.toWalletId) {
+    throw new Error('SAME_WALLET_TRANSFER');
+  }
+
+  for (const walletId of walletIds) {
+    const wallet = walletId
+      ? await prisma.wallet.findFirst({ where: { id: walletId, userId, isArchived: false } })
+      : null;
+    if (!wallet) {
+      throw new Error('TRANSACTION_WALLET_NOT_FOUND');
+    }
+  }
+
+  if (template.type !== 'transfer') {
+    const category = template.categoryId
+      ? await prisma.category.findFirst({ where: { id: template.categoryId, userId } })
+      : null;
+    if (!category) {
+      throw new Error('TRANSACTION_CATEGORY_NOT_FOUND');
+    }
+    if (category.type !== template.type) {
+      throw new Error(template.type === 'income' ? 'INVALID_CATEGORY_TYPE_FOR_INCOME' : 'INVALID_CATEGORY_TYPE_FOR_EXPENSE');
+    }
+  }
+}
+
+/**
+ * Dựng payload createTransaction từ mẫu của rule cho 1 occurrence
+ */
+function buildTransactionData(rule: RecurringRule, occurrence: Date): CreateTransactionData {
+  const base = {
+    transactionDate: occurrence,
+    amount: rule.amount.toNumber(),
+    note: rule.note ?? rule.name
+  };
+
+  if (rule.type === 'transfer') {
+    return { ...base, type: 'transfer', fromWalletId: rule.fromWalletId!, toWalletId: rule.toWalletId! };
+  }
+  return { ...base, type: rule.type, walletId: rule.walletId!, categoryId: rule.categoryId! };
+}
+
+/**
+ * Ghi nhận lần sinh giao dịch lỗi: lưu lastError, hẹn retryAt theo số lần lỗi liên tiếp
+ * hoặc tạm dừng rule khi đã lỗi MAX_FAILED_ATTEMPTS lần
+ *
+ * @param previousFailures - Số lần lỗi liên tiếp trước lần này (0 nếu occurrence trước vừa sinh thành công)
+ */
+async function recordRuleFailure(rule: RecurringRule, previousFailures: number, error: Error, now: Date) {
+  const failedAttempts = previousFailures + 1;
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (failedAttempts - 1), RETRY_MAX_DELAY_MS);
+  const paused = failedAttempts >= MAX_FAILED_ATTEMPTS;
+
+  await prisma.recurringRule.update({
+    where: { id: rule.id },
+    data: {
+      lastError: error.message,
+      failedAttempts,
+      retryAt: new Date(now.getTime() + delay),
+      isActive: paused ? false : undefined
+    }
+  });
+
+  if (paused) {
+    logger.warn({ ruleId: rule.id, failedAttempts }, 'Recurring rule paused after repeated failures');
+  }
+}
+
+/**
+ * Sinh giao dịch cho mọi occurrence đến hạn của 1 rule
+ * Dừng ở occurrence lỗi (VD: số dư không đủ), lưu lastError và hẹn thử lại (retryAt)
+ *
+ * @returns Số giao dịch đã sinh
+ */
+async function materializeRule(rule: RecurringRule, now: Date) {
+  let occurrence = rule.nextRunAt;
+  let created = 0;
+  // Số lần lỗi liên tiếp hiện tại: về 0 sau mỗi occurrence sinh thành công (giống giá trị trong DB)
+  let failedAttempts = rule.failedAttempts;
+
+  for (let i = 0; occurrence && occurrence <= now && i < MAX_OCCURRENCES_PER_RUN; i++) {
+    // Occurrence đã được sinh (hoặc đã sinh rồi bị user xoá) => bỏ qua
+    const existing = await prisma.transaction.findFirst({
+      where: { recurringRuleId: rule.id, transactionDate: occurrence },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      try {
+        await TransactionService.createTransaction(
+          buildTransactionData(rule, occurrence),
+          rule.userId,
+          { recurringRuleId: rule.id }
+        );
+        created++;
+      } catch (error: any) {
+        logger.warn({ ruleId: rule.id, occurrence, err: error }, 'Recurring rule occurrence failed');
+        await recordRuleFailure(rule, failedAttempts, error, now);
+        return created;
+      }
+    }
+
+    const processed = occurrence;
+    occurrence = withinEndDate(rule, nextOccurrence(rule, processed));
+
+    await prisma.recurringRule.update({
+      where: { id: rule.id },
+      data: {
+        nextRunAt: occurrence,
+        lastRunAt: processed,
+        lastError: null,
+        failedAttempts: 0,
+        retryAt: null
+      }
+    });
+    failedAttempts = 0;
+  }
+
+  return created;
+}
+
+export const RecurringService = {
+  /**
+   * Tạo rule giao dịch định kỳ
+   *
+   * @param data - Dữ liệu rule đã validate
+   * @param userId - ID của user tạo rule
+   * @returns RecurringRule object đã tạo (nextRunAt = occurrence đầu tiên)
+   * @throws Error('TRANSACTION_WALLET_NOT_FOUND') nếu ví không tồn tại
+   * @throws Error('TRANSACTION_CATEGORY_NOT_FOUND') nếu danh mục không tồn tại
+   */
+  async createRule(data: CreateRecurringRuleData, userId: string) {
+    await validateRuleReferences(data, userId);
+
+    const isTransfer = data.type === 'transfer';
+    const schedule: RuleSchedule = {
+      frequency: data.frequency,
+      interval: data.interval,
+      dayOfMonth: data.dayOfMonth ?? null,
+      dayOfWeek: data.dayOfWeek ?? null,
+      startDate: data.startDate,
+      endDate: data.endDate ?? null
+    };
+
+    return await prisma.recurringRule.create({
+      data: {
+        userId,
+        name: data.name,
+        type: data.type,
+        amount: data.amount,
+        note: data.note,
+        walletId: isTransfer ? null : data.walletId,
+        categoryId: isTransfer ? null : data.categoryId,
+        fromWalletId: isTransfer ? data.fromWalletId : null,
+        toWalletId: isTransfer ? data.toWalletId : null,
+        ...schedule,
+        nextRunAt: firstOccurrenceAfter(schedule, null)
+      }
+    });
+  },
+
+  /**
+   * Lấy danh sách rule của user
+   *
+   * @param userId - ID của user
+   * @param filters - isActive, limit, offset
+   * @returns Danh sách rule với pagination
+   */
+  async getRules(userId: string, filters: { isActive?: boolean; limit?: number; offset?: number } = {}) {
+    const { isActive, limit = 50, offset = 0 } = filters;
+
+    const where: any = { userId };
+    if (isActive !== undefined) where.isActive = isActive;
+
+    const rules = await prisma.recurringRule.findMany({
+      where,
+      orderBy: [
+        { isActive: 'desc' },
+        { nextRunAt: 'asc' }
+      ],
+      take: limit,
+      skip: offset
+    });
+
+    const total = await prisma.recurringRule.count({ where });
+
+    return {
+      rules,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Lấy rule theo ID
+   *
+   * @param ruleId - ID của rule
+   * @param userId - ID của user (để verify ownership)
+   * @returns RecurringRule object hoặc null nếu không tìm thấy
+   */
+  async getRuleById(ruleId: string, userId: string) {
+    return await prisma.recurringRule.findFirst({
+      where: { id: ruleId, userId }
+    });
+  },
+
+  /**
+   * Cập nhật rule
+   * Đổi lịch chạy => tính lại nextRunAt (bỏ qua các occurrence <= lastRunAt)
+   * Bật lại rule đã tạm dừng => không sinh bù các occurrence trong thời gian tạm dừng, xoá trạng thái lỗi
+   *
+   * @param ruleId - ID của rule
+   * @param userId - ID của user sở hữu rule
+   * @param data - Dữ liệu cập nhật
+   * @returns RecurringRule object đã cập nhật
+   * @throws Error('RECURRING_RULE_NOT_FOUND') nếu rule không tồn tại
+   * @throws Error('RECURRING_RULE_FIELD_NOT_APPLICABLE') nếu gửi ví/danh mục không dùng cho type của rule
+   */
+  async updateRule(ruleId: string, userId: string, data: UpdateRecurringRuleData) {
+    const existing = await prisma.recurringRule.findFirst({
+      where: { id: ruleId, userId }
+    });
+
+    if (!existing) {
+      throw new Error('RECURRING_RULE_NOT_FOUND');
+    }
+
+    // Chỉ field của type hiện tại được validate => không nhận field của type khác (VD: walletId cho transfer)
+    const otherTypeFields = existing.type === 'transfer'
+      ? [data.walletId, data.categoryId]
+      : [data.fromWalletId, data.toWalletId];
+    if (otherTypeFields.some((value) => value !== undefined)) {
+      throw new Error('RECURRING_RULE_FIELD_NOT_APPLICABLE');
+    }
+
+    const merged = { ...existing, ...data };
+    await validateRuleReferences(merged, userId);
+
+    if (merged.endDate && merged.endDate < merged.startDate) {
+      throw new Error('RECURRING_RULE_INVALID_END_DATE');
+    }
+
+    const scheduleChanged = ['interval', 'dayOfMonth', 'dayOfWeek', 'endDate']
+      .some((field) => field in data);
+    const reactivated = data.isActive === true && !existing.isActive;
+
+    let nextRunAt = existing.nextRunAt;
+    if (reactivated) {
+      nextRunAt = firstOccurrenceAfter(merged, new Date(), true);
+    } else if (scheduleChanged) {
+      nextRunAt = firstOccurrenceAfter(merged, existing.lastRunAt);
+    }
+
+    return await prisma.recurringRule.update({
+      where: { id: ruleId },
+      data: {
+        ...data,
+        nextRunAt,
+        ...(reactivated ? { failedAttempts: 0, retryAt: null } : {})
+      }
+    });
+  },
+
+  /**
+   * Xoá rule (hard delete)
+   * Các giao dịch đã sinh được giữ lại (recurringRuleId = null)
+   *
+   * @param ruleId - ID của rule
+   * @param userId - ID của user sở hữu rule
+   * @throws Error('RECURRING_RULE_NOT_FOUND') nếu rule không tồn tại
+   */
+  async deleteRule(ruleId: string, userId: string) {
+    const existing = await prisma.recurringRule.findFirst({
+      where: { id: ruleId, userId },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      throw new Error('RECURRING_RULE_NOT_FOUND');
+    }
+
+    await prisma.recurringRule.delete({
+      where: { id: ruleId }
+    });
+
+    return { id: ruleId, deleted: true };
+  },
+
+  /**
+   * Xem trước N occurrence tiếp theo của rule (không sinh giao dịch)
+   *
+   * @param ruleId - ID của rule
+   * @param userId - ID của user sở hữu rule
+   * @param count - Số occurrence cần xem (1-100)
+   * @returns Danh sách ngày occurrence
+   * @throws Error('RECURRING_RULE_NOT_FOUND') nếu rule không tồn tại
+   */
+  async previewRule(ruleId: string, userId: string, count: number) {
+    const rule = await prisma.recurringRule.findFirst({
+      where: { id: ruleId, userId }
+    });
+
+    if (!rule) {
+      throw new Error('RECURRING_RULE_NOT_FOUND');
+    }
+
+    const occurrences: Date[] = [];
+    let occurrence = rule.nextRunAt;
+    while (occurrence && occurrences.length < count) {
+      occurrences.push(occurrence);
+      occurrence = withinEndDate(rule, nextOccurrence(rule, occurrence));
+    }
+
+    return { rule, occurrences };
+  },
+
+  /**
+   * Sinh giao dịch cho tất cả rule đến hạn (được scheduler gọi định kỳ)
+   * Rule đang chờ thử lại sau lỗi (retryAt > now) bị bỏ qua => không chiếm chỗ của rule khác trong 100 rule/lần
+   *
+   * @param now - Mốc thời gian hiện tại (mặc định: new Date())
+   * @returns Số rule đã xử lý và số giao dịch đã sinh
+   */
+  async runDueRules(now: Date = new Date()) {
+    const rules = await prisma.recurringRule.findMany({
+      where: {
+        isActive: true,
+        nextRunAt: { lte: now },
+        OR: [{ retryAt: null }, { retryAt: { lte: now } }]
+      },
+      orderBy: { nextRunAt: 'asc' },
+      take: 100
+    });
+
+    let createdTransactions = 0;
+    for (const rule of rules) {
+      createdTransactions += await materializeRule(rule, now);
+    }
+
+    return {
+      processedRules: rules.length,
+      createdTransactions
+    };
+  }
+};
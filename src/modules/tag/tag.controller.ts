@@ -0,0 +1,249 @@
+/**
+ * Tag Controller
+ * File này xử lý HTTP requests/responses cho các tag endpoints
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { TagService } from './tag.service';
+import { handleError } from '../../utils/error-handler';
+
+// Create module-specific error handler
+const handleTagError = (error: any, res: Response) =>
+  handleError(error, res, 'Tag');
+
+export const TagController = {
+  /**
+   * @swagger
+   * /tags:
+   *   post:
+   *     tags:
+   *       - Tags
+   *     summary: Tạo tag mới
+   *     description: |
+   *       Tag là nhãn tự do (VD: #trip-dalat, #wedding) để gom giao dịch theo dự án/sự kiện xuyên qua các danh mục.
+   *       Tên được chuẩn hoá: bỏ '#' ở đầu, chuyển chữ thường. Tag cũng được tạo tự động khi gắn vào giao dịch.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 maxLength: 50
+   *                 example: "#trip-dalat"
+   *     responses:
+   *       201:
+   *         description: Tag được tạo thành công
+   *       400:
+   *         description: Tên tag không hợp lệ
+   *       409:
+   *         description: Tên tag đã tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createTag(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const tag = await TagService.createTag(req.body, userId);
+      return res.status(201).json({
+        message: 'Tag created successfully',
+        tag
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /tags:
+   *   get:
+   *     tags:
+   *       - Tags
+   *     summary: Lấy danh sách tag
+   *     description: Danh sách tag của user kèm số giao dịch đang gắn tag
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Danh sách tag
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getTags(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const tags = await TagService.getTags(userId);
+      return res.status(200).json({
+        message: 'Tags retrieved successfully',
+        tags
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /tags/summary:
+   *   get:
+   *     tags:
+   *       - Tags
+   *     summary: Tổng thu/chi theo tag
+   *     description: |
+   *       Tổng chi (totalExpense), tổng thu (totalIncome) và số giao dịch của từng tag trong khoảng thời gian.
+   *       Chỉ tính giao dịch income/expense, refund được trừ vào tổng chi; giao dịch gắn nhiều tag được tính vào từng tag.
+   *       Số tiền được quy đổi sang baseCurrency của user.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: excludeLoanRelated
+   *         schema:
+   *           type: boolean
+   *     responses:
+   *       200:
+   *         description: Tổng thu/chi theo tag, sắp xếp giảm dần theo tổng chi
+   *       400:
+   *         description: Ngày không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getTagSummary(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+      if (startDate && isNaN(startDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid startDate format' });
+      }
+      if (endDate && isNaN(endDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid endDate format' });
+      }
+
+      const summary = await TagService.getTagSummary(userId, {
+        startDate,
+        endDate,
+        excludeLoanRelated: req.query.excludeLoanRelated === 'true' || req.query.excludeLoanRelated === '1'
+      });
+      return res.status(200).json({
+        message: 'Tag summary retrieved successfully',
+        ...summary
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  },
+
+  /**
+   * Lấy tag theo ID
+   * GET /api/tags/:id
+   *
+   * @param req.params.id - Tag ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với tag info
+   * @returns 404 Not Found nếu tag không tồn tại
+   */
+  async getTag(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const tag = await TagService.getTagById(req.params.id, userId);
+      if (!tag) {
+        return res.status(404).json({ message: 'Tag not found' });
+      }
+
+      return res.status(200).json({
+        message: 'Tag retrieved successfully',
+        tag
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  },
+
+  /**
+   * Đổi tên tag
+   * PUT /api/tags/:id
+   *
+   * @param req.params.id - Tag ID
+   * @param req.body - { name } đã được validate
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với tag đã cập nhật
+   * @returns 404 Not Found nếu tag không tồn tại
+   * @returns 409 Conflict nếu tên mới đã tồn tại
+   */
+  async updateTag(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const tag = await TagService.updateTag(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Tag updated successfully',
+        tag
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  },
+
+  /**
+   * Xoá tag (gỡ khỏi mọi giao dịch)
+   * DELETE /api/tags/:id
+   *
+   * @param req.params.id - Tag ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK
+   * @returns 404 Not Found nếu tag không tồn tại
+   */
+  async deleteTag(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const tag = await TagService.deleteTag(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Tag deleted successfully',
+        tag
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  }
+};
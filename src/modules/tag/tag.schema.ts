@@ -0,0 +1,31 @@
+// Schema validation cho Tag APIs
+// Sử dụng Zod để validate tên tag và request body của các tag operations
+import { z } from 'zod';
+
+// Tên tag: bỏ '#' ở đầu và chuyển chữ thường ("#Trip-DaLat" => "trip-dalat")
+export const tagNameSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .transform((val) => val.replace(/^#+/, ''))
+  .pipe(z.string()
+    .min(1, 'Tên tag không được rỗng')
+    .max(50, 'Tên tag không được quá 50 ký tự')
+    .regex(/^[\p{L}\p{N}_-]+$/u, 'Tên tag chỉ gồm chữ, số, "-" và "_" (không có khoảng trắng)'));
+
+// Danh sách tag gắn vào giao dịch (tag chưa có sẽ được tạo tự động)
+export const transactionTagsSchema = z.array(tagNameSchema)
+  .max(20, 'Không được gắn quá 20 tag cho 1 giao dịch');
+
+// Schema cho tạo tag mới
+export const createTagSchema = z.object({
+  name: tagNameSchema
+});
+
+// Schema cho đổi tên tag
+export const updateTagSchema = z.object({
+  name: tagNameSchema
+});
+
+// Type definitions cho TypeScript
+export type CreateTagData = z.infer<typeof createTagSchema>;
+export type UpdateTagData = z.infer<typeof updateTagSchema>;
@@ -0,0 +1,239 @@
+/**
+ * Tag Service
+ * File này chứa business logic cho tag tự do gắn vào giao dịch
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ */
+import { prisma } from '../../db/prisma';
+import { Prisma } from '../../generated/prisma/client';
+import { createCurrencyConverter } from '../currency/currency.service';
+import { CreateTagData, UpdateTagData } from './tag.schema';
+
+/**
+ * Lấy ID của các tag theo tên, tạo mới tag chưa tồn tại
+ * Tên tag phải đã được chuẩn hoá bằng tagNameSchema
+ *
+ * @param userId - ID của user
+ * @param names - Danh sách tên tag (có thể trùng lặp)
+ * @returns Map tên tag -> tag ID
+ */
+export async function resolveTagIds(userId: string, names: string[]) {
+  const uniqueNames = [...new Set(names)];
+  if (uniqueNames.length === 0) {
+    return new Map<string, string>();
+  }
+
+  await prisma.tag.createMany({
+    data: uniqueNames.map((name) => ({ userId, name })),
+    skipDuplicates: true
+  });
+
+  const tags = await prisma.tag.findMany({
+    where: { userId, name: { in: uniqueNames } },
+    select: { id: true, name: true }
+  });
+
+  // Collation của DB không phân biệt hoa thường/dấu => so khớp tên theo cùng quy tắc
+  const findId = (name: string) =>
+    tags.find((tag) => tag.name.localeCompare(name, undefined, { sensitivity: 'base' }) === 0)?.id;
+
+  return new Map(uniqueNames.map((name) => [name, findId(name)!]));
+}
+
+export const TagService = {
+  /**
+   * Lấy danh sách tag của user kèm số giao dịch (chưa xoá) đang gắn tag
+   *
+   * @param userId - ID của user
+   * @returns Danh sách tag sắp xếp theo tên
+   */
+  async getTags(userId: string) {
+    const tags = await prisma.tag.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+      include: {
+        _count: {
+          select: {
+            transactions: { where: { transaction: { deletedAt: null } } }
+          }
+        }
+      }
+    });
+
+    return tags.map(({ _count, ...tag }) => ({
+      ...tag,
+      transactionCount: _count.transactions
+    }));
+  },
+
+  /**
+   * Lấy tag theo ID
+   *
+   * @param tagId - ID của tag
+   * @param userId - ID của user (để verify ownership)
+   * @returns Tag object hoặc null nếu không tìm thấy
+   */
+  async getTagById(tagId: string, userId: string) {
+    return await prisma.tag.findFirst({
+      where: { id: tagId, userId }
+    });
+  },
+
+  /**
+   * Tạo tag mới
+   *
+   * @param data - Tên tag đã chuẩn hoá
+   * @param userId - ID của user
+   * @returns Tag object đã tạo
+   * @throws Error('TAG_NAME_EXISTS') nếu tên tag đã tồn tại
+   */
+  async createTag(data: CreateTagData, userId: string) {
+    const existing = await prisma.tag.findFirst({
+      where: { userId, name: data.name }
+    });
+    if (existing) {
+      throw new Error('TAG_NAME_EXISTS');
+    }
+
+    return await prisma.tag.create({
+      data: { userId, name: data.name }
+    });
+  },
+
+  /**
+   * Đổi tên tag (các giao dịch đã gắn tag giữ nguyên liên kết)
+   *
+   * @param tagId - ID của tag
+   * @param userId - ID của user sở hữu tag
+   * @param data - Tên mới đã chuẩn hoá
+   * @returns Tag object đã cập nhật
+   * @throws Error('TAG_NOT_FOUND') nếu tag không tồn tại
+   * @throws Error('TAG_NAME_EXISTS') nếu tên mới trùng tag khác
+   */
+  async updateTag(tagId: string, userId: string, data: UpdateTagData) {
+    const tag = await prisma.tag.findFirst({
+      where: { id: tagId, userId }
+    });
+    if (!tag) {
+      throw new Error('TAG_NOT_FOUND');
+    }
+
+    const nameExists = await prisma.tag.findFirst({
+      where: { userId, name: data.name, id: { not: tagId } }
+    });
+    if (nameExists) {
+      throw new Error('TAG_NAME_EXISTS');
+    }
+
+    return await prisma.tag.update({
+      where: { id: tagId },
+      data: { name: data.name }
+    });
+  },
+
+  /**
+   * Xoá tag (gỡ tag khỏi mọi giao dịch, không xoá giao dịch)
+   *
+   * @param tagId - ID của tag
+   * @param userId - ID của user sở hữu tag
+   * @throws Error('TAG_NOT_FOUND') nếu tag không tồn tại
+   */
+  async deleteTag(tagId: string, userId: string) {
+    const tag = await prisma.tag.findFirst({
+      where: { id: tagId, userId },
+      select: { id: true }
+    });
+    if (!tag) {
+      throw new Error('TAG_NOT_FOUND');
+    }
+
+    await prisma.tag.delete({
+      where: { id: tagId }
+    });
+
+    return { id: tagId, deleted: true };
+  },
+
+  /**
+   * Tổng thu/chi theo từng tag trong khoảng thời gian
+   * Chỉ tính giao dịch income/expense (transfer không phải thu/chi), refund được trừ vào tổng chi,
+   * giao dịch gắn nhiều tag được tính vào từng tag. Số tiền quy đổi sang tiền tệ gốc theo tỷ giá tại endDate (mặc định: hiện tại)
+   *
+   * @param userId - ID của user
+   * @param filters - Khoảng ngày, loại trừ giao dịch vay nợ
+   * @returns Danh sách tag kèm tổng chi/thu, sắp xếp giảm dần theo tổng chi
+   */
+  async getTagSummary(userId: string, filters: {
+    startDate?: Date;
+    endDate?: Date;
+    excludeLoanRelated?: boolean;
+  } = {}) {
+    const { startDate, endDate, excludeLoanRelated = false } = filters;
+
+    const transactionWhere: Prisma.TransactionWhereInput = {
+      userId,
+      deletedAt: null,
+      type: { in: ['income', 'expense', 'refund'] }
+    };
+    if (startDate || endDate) {
+      transactionWhere.transactionDate = {};
+      if (startDate) transactionWhere.transactionDate.gte = startDate;
+      if (endDate) transactionWhere.transactionDate.lte = endDate;
+    }
+    if (excludeLoanRelated) {
+      transactionWhere.NOT = {
+        OR: [
+          { loanPayment: { isNot: null } },
+          { loanId: { not: null } }
+        ]
+      };
+    }
+
+    const links = await prisma.transactionTag.findMany({
+      where: {
+        tag: { userId },
+        transaction: transactionWhere
+      },
+      select: {
+        tag: { select: { id: true, name: true } },
+        transaction: { select: { type: true, amount: true, currency: true } }
+      }
+    });
+
+    const converter = await createCurrencyConverter(userId, endDate ?? new Date());
+    const totals = new Map<string, {
+      id: string;
+      name: string;
+      totalExpense: Prisma.Decimal;
+      totalIncome: Prisma.Decimal;
+      transactionCount: number;
+    }>();
+
+    for (const { tag, transaction } of links) {
+      const current = totals.get(tag.id) ?? {
+        id: tag.id,
+        name: tag.name,
+        totalExpense: new Prisma.Decimal(0),
+        totalIncome: new Prisma.Decimal(0),
+        transactionCount: 0
+      };
+      const converted = converter.convert(transaction.amount, transaction.currency);
+      if (converted && transaction.type === 'expense') {
+        current.totalExpense = current.totalExpense.plus(converted);
+      } else if (converted && transaction.type === 'refund') {
+        current.totalExpense = current.totalExpense.minus(converted);
+      } else if (converted) {
+        current.totalIncome = current.totalIncome.plus(converted);
+      }
+      current.transactionCount += 1;
+      totals.set(tag.id, current);
+    }
+
+    return {
+      tags: [...totals.values()]
+        .map((tag) => ({ ...tag, net: tag.totalIncome.minus(tag.totalExpense) }))
+        .sort((a, b) => b.totalExpense.comparedTo(a.totalExpense)),
+      baseCurrency: converter.baseCurrency,
+      unconvertedCurrencies: converter.unconvertedCurrencies
+    };
+  }
+};
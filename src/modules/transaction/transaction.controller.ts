@@ -5,12 +5,63 @@
  */
 import { Request, Response } from 'express';
 import { TransactionService } from './transaction.service';
-import { handleError } from '../../utils/error-handler';
+import { env } from '../../config/env';
+import { logger } from '../../config/logger';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportFormat,
+  resolveExportLocale,
+  writeTransactionsExport
+} from './transaction.export';
+import { ErrorMap, handleError } from '../../utils/error-handler';
+import { tagNameSchema } from '../tag/tag.schema';
 
 // Create module-specific error handler
 const handleTransactionError = (error: any, res: Response) =>
   handleError(error, res, 'Transaction');
 
+/**
+ * Parse filter tag từ query: tags=trip-dalat,#wedding và tagMode=any|all (mặc định any)
+ * @returns null nếu có tên tag hoặc tagMode không hợp lệ
+ */
+function parseTagFilter(query: Request['query']) {
+  const tagMode = (query.tagMode ?? 'any') as 'any' | 'all';
+  if (tagMode !== 'any' && tagMode !== 'all') {
+    return null;
+  }
+  if (!query.tags) {
+    return { tags: undefined, tagMode };
+  }
+
+  const tags: string[] = [];
+  for (const raw of String(query.tags).split(',')) {
+    const parsed = tagNameSchema.safeParse(raw);
+    if (!parsed.success) return null;
+    tags.push(parsed.data);
+  }
+  return { tags, tagMode };
+}
+
+// Trạng thái đối chiếu hợp lệ cho filter status
+const TRANSACTION_STATUSES = ['pending', 'cleared', 'reconciled'] as const;
+type TransactionStatusFilter = typeof TRANSACTION_STATUSES[number];
+
+/**
+ * Parse filter status từ query
+ * @returns null nếu status không hợp lệ, { status: undefined } nếu không lọc
+ */
+function parseStatusFilter(query: Request['query']) {
+  if (query.status === undefined) {
+    return { status: undefined };
+  }
+  const status = String(query.status) as TransactionStatusFilter;
+  return TRANSACTION_STATUSES.includes(status) ? { status } : null;
+}
+
+// Khoảng ngày tối đa của 1 lần quét giao dịch nghi trùng (mọi giao dịch trong khoảng được load để gom nhóm)
+const MAX_DUPLICATE_RANGE_DAYS = 366;
+
 export const TransactionController = {
   /**
    * @swagger
@@ -50,6 +101,8 @@ export const TransactionController = {
    *         description: Dữ liệu không hợp lệ
    *       404:
    *         description: Ví hoặc danh mục không tồn tại
+   *       409:
+   *         description: Phát hiện giao dịch nghi trùng (trả kèm duplicates), gửi lại với force=true để vẫn tạo
    *       401:
    *         description: Chưa đăng nhập
    */
@@ -61,8 +114,15 @@ export const TransactionController = {
         return res.status(401).json({ message: 'Unauthorized' });
       }
 
-      // Gọi service để tạo transaction
-      const transaction = await TransactionService.createTransaction(req.body, userId);
+      // Gọi service để tạo transaction (cảnh báo nghi trùng, client gửi lại với force: true nếu vẫn muốn tạo)
+      const { transaction, duplicates } = await TransactionService.createTransactionWithDuplicateCheck(req.body, userId);
+      if (!transaction) {
+        return res.status(409).json({
+          message: ErrorMap.POSSIBLE_DUPLICATE_TRANSACTION.message,
+          code: 'POSSIBLE_DUPLICATE_TRANSACTION',
+          duplicates
+        });
+      }
 
       // Trả về transaction đã tạo với status 201
       return res.status(201).json({
@@ -74,18 +134,583 @@ export const TransactionController = {
     }
   },
 
+  /**
+   * @swagger
+   * /transactions/bulk:
+   *   post:
+   *     tags:
+   *       - Transactions
+   *     summary: Tạo nhiều giao dịch cùng lúc
+   *     description: |
+   *       Mỗi item có cùng format với POST /transactions. Tất cả item được validate trước khi ghi.
+   *       - atomic (mặc định): tất cả cùng thành công hoặc không tạo gì
+   *       - best_effort: tạo các item hợp lệ, trả về lỗi (theo error code) cho từng item thất bại
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - items
+   *             properties:
+   *               mode:
+   *                 type: string
+   *                 enum: [atomic, best_effort]
+   *                 default: atomic
+   *               items:
+   *                 type: array
+   *                 minItems: 1
+   *                 maxItems: 500
+   *                 items:
+   *                   oneOf:
+   *                     - $ref: '#/components/schemas/IncomeTransaction'
+   *                     - $ref: '#/components/schemas/ExpenseTransaction'
+   *                     - $ref: '#/components/schemas/TransferTransaction'
+   *     responses:
+   *       201:
+   *         description: Tất cả giao dịch được tạo thành công
+   *       200:
+   *         description: best_effort - một số item thất bại, xem results[].error
+   *       400:
+   *         description: Dữ liệu không hợp lệ hoặc atomic batch bị rollback
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createTransactionsBulk(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await TransactionService.createTransactionsBulk(req.body, userId);
+      const succeeded = result.results.filter((item) => item.success).length;
+      const summary = {
+        total: result.results.length,
+        succeeded,
+        failed: result.results.length - succeeded
+      };
+
+      if (summary.failed === 0) {
+        return res.status(201).json({
+          message: 'Transactions created successfully',
+          summary,
+          ...result
+        });
+      }
+
+      // atomic bị rollback => 400; best_effort có item lỗi => 200 kèm lỗi từng item
+      return res.status(result.mode === 'atomic' ? 400 : 200).json({
+        message: result.mode === 'atomic'
+          ? 'Bulk transaction rolled back'
+          : 'Some transactions could not be created',
+        summary,
+        ...result
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/{id}:
+   *   get:
+   *     tags:
+   *       - Transactions
+   *     summary: Lấy chi tiết giao dịch
+   *     description: |
+   *       Trả về giao dịch kèm entries + ví, danh mục và chuỗi danh mục cha (categoryPath),
+   *       LoanPayment + Loan nếu là giao dịch trả/thu nợ, hoặc Loan nếu là giao dịch giải ngân gốc.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Chi tiết giao dịch
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                   example: "Transaction retrieved successfully"
+   *                 transaction:
+   *                   $ref: '#/components/schemas/Transaction'
+   *       404:
+   *         description: Giao dịch không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getTransaction(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const transaction = await TransactionService.getTransactionById(req.params.id, userId);
+      if (!transaction) {
+        return res.status(404).json({ message: 'Transaction not found' });
+      }
+
+      return res.status(200).json({
+        message: 'Transaction retrieved successfully',
+        transaction
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/{id}:
+   *   put:
+   *     tags:
+   *       - Transactions
+   *     summary: Cập nhật giao dịch
+   *     description: |
+   *       Sửa số tiền, ngày, danh mục, ghi chú, ví (hoặc ví nguồn/đích với transfer) hoặc đổi loại giao dịch.
+   *       Entries cũ được hoàn tác và entries mới được áp dụng lên số dư ví trong cùng một DB transaction.
+   *       Field không gửi lên sẽ giữ nguyên giá trị cũ.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               type:
+   *                 type: string
+   *                 enum: [income, expense, transfer]
+   *               transactionDate:
+   *                 type: string
+   *                 format: date-time
+   *               amount:
+   *                 type: number
+   *                 format: decimal
+   *                 minimum: 0.01
+   *               note:
+   *                 type: string
+   *                 maxLength: 1000
+   *                 nullable: true
+   *               walletId:
+   *                 type: string
+   *                 format: uuid
+   *               categoryId:
+   *                 type: string
+   *                 format: uuid
+   *               splits:
+   *                 type: array
+   *                 items:
+   *                   $ref: '#/components/schemas/TransactionSplitInput'
+   *               fromWalletId:
+   *                 type: string
+   *                 format: uuid
+   *               toWalletId:
+   *                 type: string
+   *                 format: uuid
+   *               toAmount:
+   *                 type: number
+   *                 nullable: true
+   *                 description: Số tiền ví đích nhận (transfer), null để bỏ
+   *               fee:
+   *                 type: number
+   *                 nullable: true
+   *                 description: Phí chuyển tiền (transfer), null để bỏ
+   *               feeCategoryId:
+   *                 type: string
+   *                 format: uuid
+   *               status:
+   *                 type: string
+   *                 enum: [pending, cleared]
+   *     responses:
+   *       200:
+   *         description: Giao dịch được cập nhật thành công
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                   example: "Transaction updated successfully"
+   *                 transaction:
+   *                   $ref: '#/components/schemas/Transaction'
+   *       400:
+   *         description: Dữ liệu không hợp lệ hoặc số dư ví không đủ
+   *       404:
+   *         description: Giao dịch, ví hoặc danh mục không tồn tại
+   *       409:
+   *         description: |
+   *           Giao dịch thuộc khoản vay/nợ (phải sửa qua Loan), đã chốt đối chiếu (phải unlock trước), là refund/adjustment
+   *           hoặc đã được hoàn tiền mà đổi type/giảm amount dưới tổng đã hoàn;
+   *           giao dịch bị request khác sửa trong lúc cập nhật (TRANSACTION_MODIFIED)
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async updateTransaction(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const transaction = await TransactionService.updateTransaction(req.params.id, userId, req.body);
+
+      return res.status(200).json({
+        message: 'Transaction updated successfully',
+        transaction
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/{id}:
+   *   delete:
+   *     tags:
+   *       - Transactions
+   *     summary: Xóa giao dịch
+   *     description: Soft delete giao dịch và hoàn tác ảnh hưởng lên số dư ví. Giao dịch vay/nợ phải xóa qua Loan.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Giao dịch đã được xóa
+   *       400:
+   *         description: Hoàn tác làm số dư ví bị âm
+   *       404:
+   *         description: Giao dịch không tồn tại
+   *       409:
+   *         description: Giao dịch thuộc khoản vay/nợ, đã chốt đối chiếu (phải unlock trước) hoặc còn refund chưa xoá
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async deleteTransaction(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const transaction = await TransactionService.deleteTransaction(req.params.id, userId);
+
+      return res.status(200).json({
+        message: 'Transaction deleted successfully',
+        transaction
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/{id}/restore:
+   *   post:
+   *     tags:
+   *       - Transactions
+   *     summary: Khôi phục giao dịch đã xóa
+   *     description: Bỏ soft delete và áp dụng lại giao dịch lên số dư ví (kiểm tra số dư như khi tạo mới)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Giao dịch đã được khôi phục
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                   example: "Transaction restored successfully"
+   *                 transaction:
+   *                   $ref: '#/components/schemas/Transaction'
+   *       400:
+   *         description: Số dư ví không đủ, hoặc refund có giao dịch gốc đã xoá/làm tổng tiền hoàn vượt amount gốc
+   *       404:
+   *         description: Không có giao dịch đã xóa với ID này
+   *       409:
+   *         description: Giao dịch thuộc khoản vay/nợ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async restoreTransaction(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const transaction = await TransactionService.restoreTransaction(req.params.id, userId);
+
+      return res.status(200).json({
+        message: 'Transaction restored successfully',
+        transaction
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/{id}/purge:
+   *   delete:
+   *     tags:
+   *       - Transactions
+   *     summary: Xóa vĩnh viễn giao dịch đã xóa
+   *     description: |
+   *       Xóa hẳn giao dịch đã soft delete (không thể khôi phục), kèm entries, tag và file đính kèm.
+   *       Giao dịch chưa xóa phải được DELETE /transactions/{id} trước.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Giao dịch đã được xóa vĩnh viễn
+   *       404:
+   *         description: Giao dịch không tồn tại
+   *       409:
+   *         description: Giao dịch chưa bị xóa
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async purgeTransaction(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await TransactionService.purgeTransaction(req.params.id, userId);
+
+      return res.status(200).json({
+        message: 'Transaction purged successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/status:
+   *   post:
+   *     tags:
+   *       - Transactions
+   *     summary: Đánh dấu trạng thái đối chiếu cho nhiều giao dịch
+   *     description: |
+   *       Đánh dấu giao dịch đã xuất hiện trên sao kê (cleared) hoặc bỏ đánh dấu (pending).
+   *       Giao dịch đã chốt đối chiếu (reconciled) phải unlock trước. Không ảnh hưởng số dư ví.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - transactionIds
+   *               - status
+   *             properties:
+   *               transactionIds:
+   *                 type: array
+   *                 maxItems: 500
+   *                 items:
+   *                   type: string
+   *                   format: uuid
+   *               status:
+   *                 type: string
+   *                 enum: [pending, cleared]
+   *     responses:
+   *       200:
+   *         description: Số giao dịch đã cập nhật
+   *       404:
+   *         description: Có giao dịch không tồn tại
+   *       409:
+   *         description: Có giao dịch đã chốt đối chiếu
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async updateTransactionStatus(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await TransactionService.updateTransactionStatus(req.body, userId);
+      return res.status(200).json({
+        message: 'Transaction status updated successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/{id}/refunds:
+   *   post:
+   *     tags:
+   *       - Transactions
+   *     summary: Hoàn tiền cho giao dịch chi tiêu
+   *     description: |
+   *       Tạo giao dịch refund gắn với giao dịch chi tiêu gốc: cộng tiền vào ví của giao dịch gốc và trừ vào
+   *       chi tiêu của danh mục gốc trong báo cáo (không tính là thu nhập). Hỗ trợ hoàn nhiều lần (1 phần),
+   *       tổng tiền hoàn không vượt quá amount của giao dịch gốc. Payee và tag lấy theo giao dịch gốc.
+   *       Giao dịch gốc là split phải chọn categoryId là 1 trong các danh mục split.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: ID giao dịch chi tiêu gốc
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/RefundTransaction'
+   *     responses:
+   *       201:
+   *         description: Refund được tạo thành công
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 refund:
+   *                   $ref: '#/components/schemas/Transaction'
+   *                 refundedAmount:
+   *                   type: number
+   *                   description: Tổng tiền đã hoàn (gồm refund này)
+   *                 refundableAmount:
+   *                   type: number
+   *                   description: Số tiền còn có thể hoàn
+   *       400:
+   *         description: Giao dịch gốc không phải chi tiêu, danh mục không hợp lệ hoặc vượt số tiền gốc
+   *       404:
+   *         description: Giao dịch gốc không tồn tại hoặc ví đã bị archive
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createRefund(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await TransactionService.createRefund(req.params.id, userId, req.body);
+      return res.status(201).json({
+        message: 'Refund created successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * Mở khoá giao dịch đã chốt đối chiếu (reconciled => cleared) để sửa/xoá
+   * POST /api/transactions/:id/unlock
+   *
+   * @param req.params.id - Transaction ID
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với transaction đã mở khoá
+   * @returns 404 Not Found nếu giao dịch không tồn tại
+   * @returns 409 Conflict nếu giao dịch chưa bị khoá
+   */
+  async unlockTransaction(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const transaction = await TransactionService.unlockTransaction(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Transaction unlocked successfully',
+        transaction
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
   /**
    * Lấy danh sách giao dịch của user
    * GET /api/transactions
    *
    * Query parameters (tất cả optional):
-   * - type: 'income' | 'expense' | 'transfer'
+   * - type: 'income' | 'expense' | 'transfer' | 'refund' | 'adjustment'
    * - startDate: ISO date string
    * - endDate: ISO date string
    * - categoryId: UUID string
    * - walletId: UUID string
+   * - payeeId: UUID string
+   * - status: 'pending' | 'cleared' | 'reconciled'
+   * - tags: tên tag, phân tách bằng dấu phẩy (VD: trip-dalat,wedding)
+   * - tagMode: 'any' (có ít nhất 1 tag, mặc định) | 'all' (có đủ các tag)
    * - limit: number (default 50)
    * - offset: number (default 0)
+   * - cursor: token nextCursor/prevCursor của trang trước đó, gửi rỗng (cursor=) để lấy trang đầu
+   *   ở chế độ cursor (bỏ qua offset, không trả total)
    *
    * @param req.query - Các filter parameters
    * @param req.user.id - User ID từ JWT token
@@ -101,14 +726,26 @@ export const TransactionController = {
 
       // Parse query parameters
       const excludeLoanRelated = req.query.excludeLoanRelated === 'true' || req.query.excludeLoanRelated === '1';
+      const tagFilter = parseTagFilter(req.query);
+      if (!tagFilter) {
+        return res.status(400).json({ message: 'Invalid tags or tagMode filter' });
+      }
+      const statusFilter = parseStatusFilter(req.query);
+      if (!statusFilter) {
+        return res.status(400).json({ message: 'status must be pending, cleared or reconciled' });
+      }
       const filters = {
-        type: req.query.type as 'income' | 'expense' | 'transfer' | undefined,
+        type: req.query.type as 'income' | 'expense' | 'transfer' | 'refund' | 'adjustment' | undefined,
         startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
         endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
         categoryId: req.query.categoryId as string | undefined,
         walletId: req.query.walletId as string | undefined,
+        payeeId: req.query.payeeId as string | undefined,
+        ...statusFilter,
+        ...tagFilter,
         limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
         offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+        cursor: req.query.cursor as string | undefined,
         excludeLoanRelated
       };
 
@@ -137,8 +774,457 @@ export const TransactionController = {
         ...result
       });
     } catch (e: any) {
-      console.error('Get transactions error:', e);
-      return res.status(500).json({ message: 'Internal server error' });
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/search:
+   *   get:
+   *     tags:
+   *       - Transactions
+   *     summary: Tìm kiếm giao dịch
+   *     description: |
+   *       Tìm theo note, tên danh mục, tên ví và tên người vay/cho vay, không phân biệt hoa thường/dấu
+   *       ("an uong" tìm thấy "Ăn uống"). Mọi từ khoá đều phải khớp; "cụm từ" trong ngoặc kép được giữ nguyên.
+   *       Câu truy vấn có thể chứa:
+   *       - Biểu thức số tiền: >500000, <=1tr, 100k, 100k-200k (k = nghìn, tr/m = triệu)
+   *       - Từ khoá ngày: today, yesterday, this/last week, this/last month, this/last year, last 7 days
+   *         (hoặc hôm nay, hôm qua, tuần này/trước, tháng này/trước, năm nay/ngoái, 7 ngày qua)
+   *       Kết hợp được với các bộ lọc của GET /transactions. Mỗi kết quả có highlights là đoạn trích
+   *       (HTML đã escape) với phần khớp bọc trong thẻ mark.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: q
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 200
+   *           example: an uong >500k thang truoc
+   *       - in: query
+   *         name: type
+   *         schema:
+   *           type: string
+   *           enum: [income, expense, transfer, refund, adjustment]
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: categoryId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: walletId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: payeeId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [pending, cleared, reconciled]
+   *       - in: query
+   *         name: tags
+   *         schema:
+   *           type: string
+   *           example: trip-dalat,wedding
+   *         description: Tên tag, phân tách bằng dấu phẩy
+   *       - in: query
+   *         name: tagMode
+   *         schema:
+   *           type: string
+   *           enum: [any, all]
+   *           default: any
+   *       - in: query
+   *         name: excludeLoanRelated
+   *         schema:
+   *           type: boolean
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 50
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *           default: 0
+   *     responses:
+   *       200:
+   *         description: Giao dịch khớp (kèm highlights), câu truy vấn đã phân tích và pagination
+   *       400:
+   *         description: Thiếu q hoặc tham số không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async searchTransactions(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (!query) {
+        return res.status(400).json({ message: 'Search query (q) is required' });
+      }
+      if (query.length > 200) {
+        return res.status(400).json({ message: 'Search query must be at most 200 characters' });
+      }
+
+      const tagFilter = parseTagFilter(req.query);
+      if (!tagFilter) {
+        return res.status(400).json({ message: 'Invalid tags or tagMode filter' });
+      }
+      const statusFilter = parseStatusFilter(req.query);
+      if (!statusFilter) {
+        return res.status(400).json({ message: 'status must be pending, cleared or reconciled' });
+      }
+
+      const filters = {
+        type: req.query.type as 'income' | 'expense' | 'transfer' | 'refund' | 'adjustment' | undefined,
+        startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+        endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
+        categoryId: req.query.categoryId as string | undefined,
+        walletId: req.query.walletId as string | undefined,
+        payeeId: req.query.payeeId as string | undefined,
+        ...statusFilter,
+        ...tagFilter,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+        excludeLoanRelated: req.query.excludeLoanRelated === 'true' || req.query.excludeLoanRelated === '1'
+      };
+
+      if (isNaN(filters.limit) || filters.limit < 1 || filters.limit > 100) {
+        return res.status(400).json({ message: 'Limit must be between 1 and 100' });
+      }
+      if (isNaN(filters.offset) || filters.offset < 0) {
+        return res.status(400).json({ message: 'Offset must be non-negative' });
+      }
+      if (filters.startDate && isNaN(filters.startDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid startDate format' });
+      }
+      if (filters.endDate && isNaN(filters.endDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid endDate format' });
+      }
+
+      const result = await TransactionService.searchTransactions(userId, query, filters);
+      return res.status(200).json({
+        message: 'Transactions retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/export:
+   *   get:
+   *     tags:
+   *       - Transactions
+   *     summary: Export giao dịch ra CSV/XLSX/JSON
+   *     description: |
+   *       Export toàn bộ giao dịch khớp bộ lọc (không phân trang), dùng chung bộ lọc với GET /transactions.
+   *       File được stream theo từng batch; số tiền/ngày định dạng theo locale (query locale hoặc Accept-Language).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [csv, xlsx, json]
+   *           default: csv
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *           example: vi-VN
+   *       - in: query
+   *         name: type
+   *         schema:
+   *           type: string
+   *           enum: [income, expense, transfer, refund, adjustment]
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: categoryId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: walletId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: payeeId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [pending, cleared, reconciled]
+   *       - in: query
+   *         name: tags
+   *         schema:
+   *           type: string
+   *           example: trip-dalat,wedding
+   *         description: Tên tag, phân tách bằng dấu phẩy
+   *       - in: query
+   *         name: tagMode
+   *         schema:
+   *           type: string
+   *           enum: [any, all]
+   *           default: any
+   *       - in: query
+   *         name: excludeLoanRelated
+   *         schema:
+   *           type: boolean
+   *     responses:
+   *       200:
+   *         description: File export (attachment)
+   *       400:
+   *         description: Tham số không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async exportTransactions(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const format = (req.query.format as string | undefined) ?? 'csv';
+      if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+        return res.status(400).json({ message: 'format must be csv, xlsx or json' });
+      }
+
+      const tagFilter = parseTagFilter(req.query);
+      if (!tagFilter) {
+        return res.status(400).json({ message: 'Invalid tags or tagMode filter' });
+      }
+      const statusFilter = parseStatusFilter(req.query);
+      if (!statusFilter) {
+        return res.status(400).json({ message: 'status must be pending, cleared or reconciled' });
+      }
+
+      const filters = {
+        type: req.query.type as 'income' | 'expense' | 'transfer' | 'refund' | 'adjustment' | undefined,
+        startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+        endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
+        categoryId: req.query.categoryId as string | undefined,
+        walletId: req.query.walletId as string | undefined,
+        payeeId: req.query.payeeId as string | undefined,
+        ...statusFilter,
+        ...tagFilter,
+        excludeLoanRelated: req.query.excludeLoanRelated === 'true' || req.query.excludeLoanRelated === '1'
+      };
+      if (filters.startDate && isNaN(filters.startDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid startDate format' });
+      }
+      if (filters.endDate && isNaN(filters.endDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid endDate format' });
+      }
+
+      const locale = resolveExportLocale(req.query.locale as string | undefined, req.acceptsLanguages());
+      const filename = `transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      res.status(200);
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format as ExportFormat]);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      await writeTransactionsExport(
+        TransactionService.iterateTransactionsForExport(userId, filters),
+        format as ExportFormat,
+        locale,
+        res
+      );
+    } catch (e: any) {
+      // Đã bắt đầu stream file => không thể trả JSON lỗi, cắt kết nối để client biết file không hoàn chỉnh
+      if (res.headersSent) {
+        logger.error({ err: e }, 'Export transactions error');
+        res.destroy(e);
+        return;
+      }
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /transactions/duplicates:
+   *   get:
+   *     tags:
+   *       - Transactions
+   *     summary: Liệt kê các nhóm giao dịch nghi trùng
+   *     description: |
+   *       Nhóm các giao dịch cùng ví, cùng loại, cùng số tiền, cùng danh mục, note tương tự
+   *       và cách nhau không quá windowMinutes. Dùng để dọn dẹp sau khi import.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Mặc định 90 ngày trước, khoảng startDate - endDate tối đa 366 ngày
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Mặc định hiện tại
+   *       - in: query
+   *         name: walletId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: windowMinutes
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 10080
+   *         description: Mặc định DUPLICATE_WINDOW_MINUTES
+   *     responses:
+   *       200:
+   *         description: Danh sách nhóm nghi trùng (tối đa 100 nhóm)
+   *       400:
+   *         description: Tham số không hợp lệ hoặc khoảng ngày quá 366 ngày
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getDuplicates(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
+      const startDate = req.query.startDate
+        ? new Date(req.query.startDate as string)
+        : new Date(endDate.getTime() - 90 * 24 * 60 * 60 * 1000);
+      const windowMinutes = req.query.windowMinutes
+        ? parseInt(req.query.windowMinutes as string)
+        : env.DUPLICATE_WINDOW_MINUTES || 1440;
+
+      if (isNaN(startDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid startDate format' });
+      }
+      if (isNaN(endDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid endDate format' });
+      }
+      if (startDate > endDate) {
+        return res.status(400).json({ message: 'startDate must be before endDate' });
+      }
+      if (endDate.getTime() - startDate.getTime() > MAX_DUPLICATE_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ message: `Date range must not exceed ${MAX_DUPLICATE_RANGE_DAYS} days` });
+      }
+      if (isNaN(windowMinutes) || windowMinutes < 1 || windowMinutes > 10080) {
+        return res.status(400).json({ message: 'windowMinutes must be between 1 and 10080' });
+      }
+
+      const result = await TransactionService.getDuplicateGroups(userId, {
+        startDate,
+        endDate,
+        walletId: req.query.walletId as string | undefined,
+        windowMinutes
+      });
+      return res.status(200).json({
+        message: 'Duplicate transactions retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
+    }
+  },
+
+  /**
+   * Thống kê tổng tiền theo danh mục
+   * GET /api/transactions/stats/by-category
+   *
+   * Query parameters (tất cả optional):
+   * - type: 'income' | 'expense'
+   * - startDate: ISO date string
+   * - endDate: ISO date string
+   * - excludeLoanRelated: 'true' | '1'
+   *
+   * Giao dịch split được tính theo từng dòng split vào đúng danh mục của dòng đó,
+   * refund được trừ vào danh mục chi tiêu của giao dịch gốc
+   * totalAmount được quy đổi sang baseCurrency, tiền tệ chưa có tỷ giá trả về trong unconvertedCurrencies
+   *
+   * @param req.user.sub - User ID từ JWT token
+   * @returns 200 OK với danh sách category kèm totalAmount và transactionCount
+   */
+  async getCategoryStats(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const type = req.query.type as 'income' | 'expense' | undefined;
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+
+      if (type && type !== 'income' && type !== 'expense') {
+        return res.status(400).json({ message: 'type must be income or expense' });
+      }
+      if (startDate && isNaN(startDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid startDate format' });
+      }
+      if (endDate && isNaN(endDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid endDate format' });
+      }
+
+      const stats = await TransactionService.getCategoryStats(userId, {
+        type,
+        startDate,
+        endDate,
+        excludeLoanRelated: req.query.excludeLoanRelated === 'true' || req.query.excludeLoanRelated === '1'
+      });
+
+      return res.status(200).json({
+        message: 'Category stats retrieved successfully',
+        ...stats
+      });
+    } catch (e: any) {
+      return handleTransactionError(e, res);
     }
   }
 };
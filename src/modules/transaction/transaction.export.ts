@@ -0,0 +1,159 @@
+/**
+ * Transaction Export
+ * Ghi danh sách giao dịch ra file CSV/XLSX/JSON theo dạng stream (từng dòng, không buffer toàn bộ)
+ * Số tiền và ngày được định dạng theo locale của user
+ */
+import { once } from 'events';
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { TransactionExportRow } from './transaction.service';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Locale mặc định khi request không chỉ định và không có Accept-Language hợp lệ
+const DEFAULT_EXPORT_LOCALE = 'vi-VN';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8'
+};
+
+// Các cột số tiền (Decimal) cần định dạng số
+const AMOUNT_KEYS = ['amount', 'toAmount', 'fee'] as const;
+
+// Thứ tự và tiêu đề cột của file CSV/XLSX
+const EXPORT_COLUMNS: { key: keyof TransactionExportRow; header: string; width: number }[] = [
+  { key: 'transactionDate', header: 'Date', width: 18 },
+  { key: 'type', header: 'Type', width: 10 },
+  { key: 'amount', header: 'Amount', width: 18 },
+  { key: 'currency', header: 'Currency', width: 10 },
+  { key: 'toAmount', header: 'Received amount', width: 18 },
+  { key: 'toCurrency', header: 'Received currency', width: 10 },
+  { key: 'exchangeRate', header: 'Exchange rate', width: 14 },
+  { key: 'fee', header: 'Fee', width: 14 },
+  { key: 'wallet', header: 'Wallet', width: 20 },
+  { key: 'toWallet', header: 'To wallet', width: 20 },
+  { key: 'category', header: 'Category', width: 24 },
+  { key: 'parentCategory', header: 'Parent category', width: 24 },
+  { key: 'payee', header: 'Payee', width: 24 },
+  { key: 'loanCounterparty', header: 'Loan counterparty', width: 24 },
+  { key: 'tags', header: 'Tags', width: 24 },
+  { key: 'note', header: 'Note', width: 40 },
+  { key: 'id', header: 'ID', width: 38 }
+];
+
+/**
+ * Chọn locale cho file export: query ?locale=, sau đó Accept-Language, cuối cùng là mặc định
+ * Locale không được Intl hỗ trợ sẽ bị bỏ qua
+ */
+export function resolveExportLocale(requested: string | undefined, accepted: string[]) {
+  for (const candidate of [requested, ...accepted]) {
+    if (!candidate || candidate === '*') continue;
+    try {
+      const [supported] = Intl.NumberFormat.supportedLocalesOf(candidate);
+      if (supported) return supported;
+    } catch {
+      // Tag locale sai cú pháp => thử candidate tiếp theo
+    }
+  }
+  return DEFAULT_EXPORT_LOCALE;
+}
+
+/**
+ * Ghi chunk và chờ drain khi buffer của stream đầy (backpressure)
+ */
+async function writeChunk(out: Writable, chunk: string) {
+  if (!out.write(chunk)) {
+    await once(out, 'drain');
+  }
+}
+
+function escapeCsvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Ghi toàn bộ dòng export ra stream theo định dạng đã chọn và kết thúc stream
+ *
+ * @param rows - Async iterator các dòng export (từ TransactionService.iterateTransactionsForExport)
+ * @param format - csv | xlsx | json
+ * @param locale - Locale dùng để định dạng số tiền/ngày (CSV, JSON)
+ * @param out - Stream đích (VD: Express response)
+ */
+export async function writeTransactionsExport(
+  rows: AsyncIterable<TransactionExportRow>,
+  format: ExportFormat,
+  locale: string,
+  out: Writable
+) {
+  const amountFormat = new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const dateFormat = new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  if (format === 'xlsx') {
+    // XLSX giữ số tiền/ngày dạng giá trị thật để kế toán tính toán được, Excel tự hiển thị theo locale máy
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: true });
+    const sheet = workbook.addWorksheet('Transactions');
+    sheet.columns = EXPORT_COLUMNS.map(({ key, header, width }) => ({ key, header, width }));
+    AMOUNT_KEYS.forEach((key) => {
+      sheet.getColumn(key).numFmt = '#,##0.00';
+    });
+    sheet.getColumn('transactionDate').numFmt = 'dd/mm/yyyy hh:mm';
+
+    for await (const row of rows) {
+      sheet.addRow({
+        ...row,
+        // ExcelJS ghi Date theo UTC => dịch về giờ địa phương để hiển thị đúng ngày giao dịch
+        transactionDate: new Date(row.transactionDate.getTime() - row.transactionDate.getTimezoneOffset() * 60_000),
+        amount: row.amount.toNumber(),
+        toAmount: row.toAmount?.toNumber() ?? null,
+        exchangeRate: row.exchangeRate?.toNumber() ?? null,
+        fee: row.fee?.toNumber() ?? null
+      }).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+    return;
+  }
+
+  if (format === 'csv') {
+    // BOM để Excel nhận đúng UTF-8 (tiếng Việt)
+    await writeChunk(out, '\uFEFF' + EXPORT_COLUMNS.map((column) => column.header).join(',') + '\r\n');
+    for await (const row of rows) {
+      const cells = EXPORT_COLUMNS.map(({ key }) => {
+        const value = row[key];
+        if (value === null) return '';
+        if (value instanceof Date) return dateFormat.format(value);
+        if ((AMOUNT_KEYS as readonly string[]).includes(key)) return amountFormat.format(Number(value));
+        return String(value);
+      });
+      await writeChunk(out, cells.map(escapeCsvCell).join(',') + '\r\n');
+    }
+  } else {
+    // JSON giữ giá trị thô (amount dạng chuỗi decimal, ngày ISO) kèm bản đã định dạng theo locale
+    await writeChunk(out, `{"locale":${JSON.stringify(locale)},"transactions":[`);
+    let first = true;
+    for await (const row of rows) {
+      await writeChunk(out, (first ? '' : ',') + JSON.stringify({
+        ...row,
+        amount: row.amount.toFixed(2),
+        toAmount: row.toAmount?.toFixed(2) ?? null,
+        exchangeRate: row.exchangeRate?.toString() ?? null,
+        fee: row.fee?.toFixed(2) ?? null,
+        amountFormatted: amountFormat.format(row.amount.toNumber()),
+        transactionDateFormatted: dateFormat.format(row.transactionDate)
+      }));
+      first = false;
+    }
+    await writeChunk(out, ']}');
+  }
+
+  out.end();
+}
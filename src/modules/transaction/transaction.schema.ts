@@ -1,6 +1,13 @@
 // Schema validation cho Transaction APIs
 // Sử dụng Zod để validate request body cho các loại transaction khác nhau
 import { z } from 'zod';
+import { transactionTagsSchema } from '../tag/tag.schema';
+import { payeeNameSchema } from '../payee/payee.schema';
+
+// Trạng thái đối chiếu user được đặt trực tiếp (reconciled chỉ đạt được qua đối chiếu ví)
+export const transactionStatusSchema = z.enum(['pending', 'cleared'], {
+  message: 'status phải là pending hoặc cleared'
+});
 
 // Schema chung cho tất cả transaction
 const baseTransactionSchema = {
@@ -11,7 +18,46 @@ const baseTransactionSchema = {
     (val) => Number(val.toFixed(2)) === val,
     'amount chỉ được phép 2 số thập phân'
   ),
-  note: z.string().max(1000, 'note không được quá 1000 ký tự').optional()
+  note: z.string().max(1000, 'note không được quá 1000 ký tự').optional(),
+  // Tên tag tự do (VD: ["#trip-dalat"]), tag chưa có sẽ được tạo tự động
+  tags: transactionTagsSchema.optional(),
+  // Mặc định pending (chưa khớp sao kê)
+  status: transactionStatusSchema.optional(),
+  // Vẫn tạo giao dịch dù phát hiện giao dịch nghi trùng
+  force: z.boolean().optional()
+};
+
+// Schema cho 1 dòng split (chia giao dịch income/expense thành nhiều danh mục)
+export const transactionSplitSchema = z.object({
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ'),
+  amount: baseTransactionSchema.amount,
+  note: z.string().max(255, 'note của dòng split không được quá 255 ký tự').optional()
+});
+
+// Danh sách split: tổng amount các dòng phải bằng amount của giao dịch (kiểm tra ở service)
+const splitsSchema = z.array(transactionSplitSchema)
+  .min(2, 'splits phải có ít nhất 2 dòng')
+  .max(20, 'splits không được quá 20 dòng');
+
+// Income/expense dùng categoryId (1 danh mục) hoặc splits (nhiều danh mục), không dùng cả hai
+// Bỏ trống cả hai => danh mục lấy từ quy tắc tự phân loại (kiểm tra ở service)
+const categoryOrSplits = (data: { categoryId?: string; splits?: unknown[] }) =>
+  data.categoryId === undefined || data.splits === undefined;
+const categoryOrSplitsMessage = {
+  message: 'Chỉ dùng categoryId hoặc splits (không dùng cả hai)',
+  path: ['categoryId']
+};
+
+// Payee của income/expense: chọn payee có sẵn (payeeId) hoặc gửi tên (payee chưa có sẽ được tạo tự động)
+const payeeFields = {
+  payeeId: z.string().uuid('payeeId phải là UUID hợp lệ').optional(),
+  payeeName: payeeNameSchema.optional()
+};
+const payeeIdOrName = (data: { payeeId?: string | null; payeeName?: string }) =>
+  data.payeeId === undefined || data.payeeName === undefined;
+const payeeIdOrNameMessage = {
+  message: 'Chỉ dùng payeeId hoặc payeeName (không dùng cả hai)',
+  path: ['payeeId']
 };
 
 // Schema cho Income transaction (thu tiền vào ví)
@@ -19,24 +65,42 @@ export const createIncomeSchema = z.object({
   ...baseTransactionSchema,
   type: z.literal('income'),
   walletId: z.string().uuid('walletId phải là UUID hợp lệ'),
-  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ')
-});
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').optional(),
+  splits: splitsSchema.optional(),
+  ...payeeFields
+}).refine(categoryOrSplits, categoryOrSplitsMessage).refine(payeeIdOrName, payeeIdOrNameMessage);
 
 // Schema cho Expense transaction (chi tiền ra khỏi ví)
 export const createExpenseSchema = z.object({
   ...baseTransactionSchema,
   type: z.literal('expense'),
   walletId: z.string().uuid('walletId phải là UUID hợp lệ'),
-  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ')
-});
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').optional(),
+  splits: splitsSchema.optional(),
+  ...payeeFields
+}).refine(categoryOrSplits, categoryOrSplitsMessage).refine(payeeIdOrName, payeeIdOrNameMessage);
+
+// Phí chuyển tiền phải đi kèm category chi tiêu để hạch toán
+const feeWithCategory = (data: { fee?: number | null; feeCategoryId?: string }) =>
+  !data.fee || data.feeCategoryId !== undefined;
+const feeWithCategoryMessage = {
+  message: 'Phải cung cấp feeCategoryId khi có fee',
+  path: ['feeCategoryId']
+};
 
 // Schema cho Transfer transaction (chuyển tiền giữa 2 ví)
+// amount: số tiền trừ khỏi ví nguồn (chưa gồm phí)
 export const createTransferSchema = z.object({
   ...baseTransactionSchema,
   type: z.literal('transfer'),
   fromWalletId: z.string().uuid('fromWalletId phải là UUID hợp lệ'),
-  toWalletId: z.string().uuid('toWalletId phải là UUID hợp lệ')
-});
+  toWalletId: z.string().uuid('toWalletId phải là UUID hợp lệ'),
+  // Số tiền ví đích thực nhận (mặc định = amount), VD: nạp ví điện tử được cộng khác số tiền chuyển
+  toAmount: baseTransactionSchema.amount.optional(),
+  // Phí chuyển tiền: trừ thêm từ ví nguồn, hạch toán chi tiêu vào feeCategoryId
+  fee: baseTransactionSchema.amount.optional(),
+  feeCategoryId: z.string().uuid('feeCategoryId phải là UUID hợp lệ').optional()
+}).refine(feeWithCategory, feeWithCategoryMessage);
 
 // Schema chung cho việc tạo transaction (union của 3 loại)
 export const createTransactionSchema = z.discriminatedUnion('type', [
@@ -45,8 +109,76 @@ export const createTransactionSchema = z.discriminatedUnion('type', [
   createTransferSchema
 ]);
 
+// Schema cho tạo nhiều transaction cùng lúc
+// - atomic: tất cả cùng thành công hoặc không tạo gì
+// - best_effort: tạo từng item, trả về lỗi riêng cho item thất bại
+export const bulkCreateTransactionsSchema = z.object({
+  mode: z.enum(['atomic', 'best_effort'], {
+    message: 'mode phải là atomic hoặc best_effort'
+  }).optional().default('atomic'),
+  items: z.array(createTransactionSchema)
+    .min(1, 'items phải có ít nhất 1 giao dịch')
+    .max(500, 'items không được quá 500 giao dịch')
+});
+
+// Schema cho việc cập nhật transaction
+// Tất cả field đều optional, field nào không gửi sẽ giữ nguyên giá trị cũ
+// Có thể đổi type (VD: expense -> transfer), khi đó phải gửi đủ ví/danh mục cho type mới
+export const updateTransactionSchema = z.object({
+  type: z.enum(['income', 'expense', 'transfer'], {
+    message: 'type phải là income, expense hoặc transfer'
+  }).optional(),
+  transactionDate: baseTransactionSchema.transactionDate.optional(),
+  amount: baseTransactionSchema.amount.optional(),
+  note: z.string().max(1000, 'note không được quá 1000 ký tự').nullable().optional(),
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ').optional(),
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').optional(),
+  splits: splitsSchema.optional(),
+  fromWalletId: z.string().uuid('fromWalletId phải là UUID hợp lệ').optional(),
+  toWalletId: z.string().uuid('toWalletId phải là UUID hợp lệ').optional(),
+  // null => bỏ số tiền nhận riêng/phí của transfer
+  toAmount: baseTransactionSchema.amount.nullable().optional(),
+  fee: baseTransactionSchema.amount.nullable().optional(),
+  feeCategoryId: z.string().uuid('feeCategoryId phải là UUID hợp lệ').optional(),
+  // Thay toàn bộ tag của giao dịch ([] => gỡ hết tag)
+  tags: transactionTagsSchema.optional(),
+  // null => bỏ payee
+  payeeId: payeeFields.payeeId.unwrap().nullable().optional(),
+  payeeName: payeeFields.payeeName,
+  status: transactionStatusSchema.optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Phải cung cấp ít nhất một trường để cập nhật'
+).refine(
+  categoryOrSplits,
+  categoryOrSplitsMessage
+).refine(payeeIdOrName, payeeIdOrNameMessage);
+
+// Schema cho đánh dấu trạng thái nhiều giao dịch cùng lúc (VD: tick các dòng đã thấy trên sao kê)
+export const updateTransactionStatusSchema = z.object({
+  transactionIds: z.array(z.string().uuid('transactionIds phải là UUID hợp lệ'))
+    .min(1, 'transactionIds phải có ít nhất 1 giao dịch')
+    .max(500, 'transactionIds không được quá 500 giao dịch'),
+  status: transactionStatusSchema
+});
+
+// Schema cho hoàn tiền 1 giao dịch chi tiêu (hoàn 1 phần hoặc toàn bộ)
+// categoryId: danh mục được giảm chi tiêu, mặc định danh mục của giao dịch gốc (bắt buộc nếu gốc là split)
+export const createRefundSchema = z.object({
+  transactionDate: baseTransactionSchema.transactionDate,
+  amount: baseTransactionSchema.amount,
+  note: baseTransactionSchema.note,
+  status: baseTransactionSchema.status,
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').optional()
+});
+
 // Type definitions cho TypeScript (sẽ được inferred từ zod schemas)
+export type TransactionSplitData = z.infer<typeof transactionSplitSchema>;
 export type CreateIncomeData = z.infer<typeof createIncomeSchema>;
 export type CreateExpenseData = z.infer<typeof createExpenseSchema>;
 export type CreateTransferData = z.infer<typeof createTransferSchema>;
 export type CreateTransactionData = z.infer<typeof createTransactionSchema>;
+export type BulkCreateTransactionsData = z.infer<typeof bulkCreateTransactionsSchema>;
+export type UpdateTransactionData = z.infer<typeof updateTransactionSchema>;
+export type UpdateTransactionStatusData = z.infer<typeof updateTransactionStatusSchema>;
+export type CreateRefundData = z.infer<typeof createRefundSchema>;
@@ -0,0 +1,342 @@
+/**
+ * Transaction Search
+ * Phân tích câu truy vấn tìm kiếm giao dịch (từ khoá, biểu thức số tiền, từ khoá ngày)
+ * và tạo đoạn trích có highlight cho kết quả
+ */
+
+// Số từ khoá tối đa trong 1 câu truy vấn (phần dư bị bỏ qua)
+const MAX_SEARCH_TERMS = 10;
+
+// Độ dài tối đa của đoạn trích và số ký tự giữ lại trước vị trí khớp đầu tiên
+const MAX_SNIPPET_LENGTH = 120;
+const SNIPPET_CONTEXT = 40;
+
+// Hậu tố số tiền: 100k = 100.000, 2tr / 2m = 2.000.000
+const AMOUNT_SUFFIXES: Record<string, number> = {
+  k: 1_000,
+  tr: 1_000_000,
+  m: 1_000_000
+};
+
+// Số tiền có thể kèm đơn vị tiền tệ ở cuối (500.000đ, 200k vnd, 1tr đồng)
+const AMOUNT_NUMBER = String.raw`(\d+(?:[.,]\d+)*)(k|tr|m)?(?:d|vnd|dong)?`;
+const AMOUNT_COMPARISON_PATTERN = new RegExp(`^(>=|<=|>|<|=)?${AMOUNT_NUMBER}$`);
+const AMOUNT_RANGE_PATTERN = new RegExp(`^${AMOUNT_NUMBER}-${AMOUNT_NUMBER}$`);
+
+/** Điều kiện số tiền (cùng dạng với Prisma DecimalFilter) */
+export type SearchAmountFilter = {
+  equals?: number;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+};
+
+export type ParsedSearchQuery = {
+  /** Từ khoá đã bỏ dấu, chữ thường; mọi từ khoá đều phải khớp */
+  terms: string[];
+  amounts: SearchAmountFilter[];
+  dateRange: { keyword: string; startDate: Date; endDate: Date } | null;
+};
+
+/** Trường được tìm kiếm của 1 giao dịch */
+export type SearchableFields = {
+  note: string | null;
+  categories: string[];
+  wallets: string[];
+  payee: string | null;
+  loanCounterparty: string | null;
+};
+
+export type SearchHighlight = {
+  field: 'note' | 'category' | 'wallet' | 'payee' | 'loanCounterparty';
+  snippet: string;
+};
+
+const startOfDay = (year: number, month: number, day: number) => new Date(year, month, day, 0, 0, 0, 0);
+const endOfDay = (year: number, month: number, day: number) => new Date(year, month, day, 23, 59, 59, 999);
+
+/**
+ * Khoảng ngày của tuần chứa date (tuần bắt đầu từ thứ Hai), lệch offset tuần
+ */
+function weekRange(now: Date, offset: number) {
+  const mondayDiff = (now.getDay() + 6) % 7;
+  const monday = now.getDate() - mondayDiff + offset * 7;
+  return {
+    startDate: startOfDay(now.getFullYear(), now.getMonth(), monday),
+    endDate: endOfDay(now.getFullYear(), now.getMonth(), monday + 6)
+  };
+}
+
+// Từ khoá ngày (so khớp trên chuỗi đã bỏ dấu), tính theo giờ local của server
+const DATE_KEYWORDS: {
+  pattern: RegExp;
+  range: (now: Date, match: RegExpMatchArray) => { startDate: Date; endDate: Date };
+}[] = [
+  {
+    pattern: /\b(today|hom nay)\b/,
+    range: (now) => ({
+      startDate: startOfDay(now.getFullYear(), now.getMonth(), now.getDate()),
+      endDate: endOfDay(now.getFullYear(), now.getMonth(), now.getDate())
+    })
+  },
+  {
+    pattern: /\b(yesterday|hom qua)\b/,
+    range: (now) => ({
+      startDate: startOfDay(now.getFullYear(), now.getMonth(), now.getDate() - 1),
+      endDate: endOfDay(now.getFullYear(), now.getMonth(), now.getDate() - 1)
+    })
+  },
+  { pattern: /\b(this week|tuan nay)\b/, range: (now) => weekRange(now, 0) },
+  { pattern: /\b(last week|tuan truoc)\b/, range: (now) => weekRange(now, -1) },
+  {
+    pattern: /\b(this month|thang nay)\b/,
+    range: (now) => ({
+      startDate: startOfDay(now.getFullYear(), now.getMonth(), 1),
+      endDate: endOfDay(now.getFullYear(), now.getMonth() + 1, 0)
+    })
+  },
+  {
+    pattern: /\b(last month|thang truoc)\b/,
+    range: (now) => ({
+      startDate: startOfDay(now.getFullYear(), now.getMonth() - 1, 1),
+      endDate: endOfDay(now.getFullYear(), now.getMonth(), 0)
+    })
+  },
+  {
+    pattern: /\b(this year|nam nay)\b/,
+    range: (now) => ({
+      startDate: startOfDay(now.getFullYear(), 0, 1),
+      endDate: endOfDay(now.getFullYear(), 11, 31)
+    })
+  },
+  {
+    pattern: /\b(last year|nam truoc|nam ngoai)\b/,
+    range: (now) => ({
+      startDate: startOfDay(now.getFullYear() - 1, 0, 1),
+      endDate: endOfDay(now.getFullYear() - 1, 11, 31)
+    })
+  },
+  {
+    // last 7 days / 7 ngay qua: N ngày gần nhất tính cả hôm nay
+    pattern: /\blast (\d{1,3}) days?\b|\b(\d{1,3}) ngay qua\b/,
+    range: (now, match) => ({
+      startDate: startOfDay(now.getFullYear(), now.getMonth(), now.getDate() - Number(match[1] ?? match[2]) + 1),
+      endDate: endOfDay(now.getFullYear(), now.getMonth(), now.getDate())
+    })
+  }
+];
+
+/**
+ * Bỏ dấu tiếng Việt và chuyển chữ thường ("Ăn uống" -> "an uong", "Đi chợ" -> "di cho")
+ */
+export function foldSearchText(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase();
+}
+
+/**
+ * Parse số tiền dạng 500000, 500.000, 1,5tr, 100k
+ * @returns null nếu không phải số hợp lệ
+ */
+function parseAmount(digits: string, suffix?: string) {
+  // 500.000 / 500,000 => dấu phân cách hàng nghìn; 1.5 / 1,5 => dấu thập phân
+  const normalized = /^\d{1,3}([.,]\d{3})+$/.test(digits)
+    ? digits.replace(/[.,]/g, '')
+    : digits.replace(',', '.');
+  const value = Number(normalized) * (suffix ? AMOUNT_SUFFIXES[suffix] : 1);
+  return Number.isFinite(value) ? Math.round(value * 100) / 100 : null;
+}
+
+/**
+ * Parse 1 token thành điều kiện số tiền: >500000, <=1tr, =200k, 100k, 100k-200k
+ * Số không có toán tử, hậu tố hay đơn vị tiền tệ (VD: 2024) được coi là từ khoá
+ *
+ * @returns null nếu token không phải biểu thức số tiền
+ */
+function parseAmountToken(token: string): SearchAmountFilter | null {
+  const range = token.match(AMOUNT_RANGE_PATTERN);
+  if (range) {
+    const [, fromDigits, fromSuffix, toDigits, toSuffix] = range;
+    // 100-200k => hậu tố của cận trên áp dụng cho cả cận dưới
+    const min = parseAmount(fromDigits, fromSuffix ?? toSuffix);
+    const max = parseAmount(toDigits, toSuffix);
+    if (min === null || max === null) return null;
+    return { gte: Math.min(min, max), lte: Math.max(min, max) };
+  }
+
+  const comparison = token.match(AMOUNT_COMPARISON_PATTERN);
+  if (!comparison) return null;
+
+  const [, operator, digits, suffix] = comparison;
+  if (!operator && !suffix && !/\d(d|vnd|dong)$/.test(token)) return null;
+
+  const value = parseAmount(digits, suffix);
+  if (value === null) return null;
+
+  switch (operator) {
+    case '>': return { gt: value };
+    case '>=': return { gte: value };
+    case '<': return { lt: value };
+    case '<=': return { lte: value };
+    default: return { equals: value };
+  }
+}
+
+/**
+ * Tách chuỗi thành các từ khoá chỉ gồm chữ và số
+ */
+function toTerms(text: string) {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Phân tích câu truy vấn tìm kiếm
+ * - "cụm từ trong ngoặc kép" được giữ nguyên là 1 từ khoá
+ * - Từ khoá ngày: today, yesterday, this/last week|month|year, last N days
+ *   và tiếng Việt tương ứng (hôm nay, tháng trước, 7 ngày qua...); chỉ áp dụng từ khoá ngày đầu tiên
+ * - Biểu thức số tiền: >500000, <=1tr, 100k, 100k-200k
+ * - Phần còn lại là từ khoá, so khớp không phân biệt hoa thường/dấu
+ *
+ * @param query - Câu truy vấn người dùng nhập
+ * @param now - Thời điểm hiện tại để tính từ khoá ngày
+ */
+export function parseSearchQuery(query: string, now: Date = new Date()): ParsedSearchQuery {
+  let text = foldSearchText(query);
+  const terms: string[] = [];
+  const amounts: SearchAmountFilter[] = [];
+  let dateRange: ParsedSearchQuery['dateRange'] = null;
+
+  text = text.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const normalized = toTerms(phrase).join(' ');
+    if (normalized) terms.push(normalized);
+    return ' ';
+  });
+
+  for (const { pattern, range } of DATE_KEYWORDS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    dateRange = { keyword: match[0], ...range(now, match) };
+    text = text.replace(pattern, ' ');
+    break;
+  }
+
+  // Gộp khoảng trắng quanh toán tử/dấu gạch: "> 500k" -> ">500k", "100k - 200k" -> "100k-200k"
+  text = text
+    .replace(/([<>]=?|=)\s+(?=\d)/g, '$1')
+    .replace(/(\d(?:k|tr|m)?)\s+(d|vnd|dong)\b/g, '$1$2')
+    .replace(/(\d(?:k|tr|m)?)\s+-\s+(?=\d)/g, '$1-');
+
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    const amount = parseAmountToken(token);
+    if (amount) {
+      amounts.push(amount);
+    } else {
+      terms.push(...toTerms(token));
+    }
+  }
+
+  return {
+    terms: [...new Set(terms)].slice(0, MAX_SEARCH_TERMS),
+    amounts,
+    dateRange
+  };
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Tạo đoạn trích của text với các vị trí khớp từ khoá bọc trong <mark>
+ * So khớp trên chuỗi đã bỏ dấu rồi ánh xạ ngược về vị trí trong chuỗi gốc
+ *
+ * @returns Đoạn trích (HTML đã escape) hoặc null nếu không khớp từ khoá nào
+ */
+export function highlightText(text: string, terms: string[]) {
+  // folded[i] tương ứng ký tự text[indexMap[i]]
+  let folded = '';
+  const indexMap: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    for (const char of foldSearchText(text[i])) {
+      folded += char;
+      indexMap.push(i);
+    }
+  }
+  const toOriginal = (foldedIndex: number) =>
+    foldedIndex < indexMap.length ? indexMap[foldedIndex] : text.length;
+
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    let from = folded.indexOf(term);
+    while (from !== -1) {
+      ranges.push([toOriginal(from), toOriginal(from + term.length)]);
+      from = folded.indexOf(term, from + term.length);
+    }
+  }
+  if (ranges.length === 0) return null;
+
+  // Gộp các vị trí khớp chồng lên nhau
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  const windowStart = text.length <= MAX_SNIPPET_LENGTH ? 0 : Math.max(0, merged[0][0] - SNIPPET_CONTEXT);
+  const windowEnd = Math.min(text.length, windowStart + MAX_SNIPPET_LENGTH);
+
+  let snippet = windowStart > 0 ? '…' : '';
+  let position = windowStart;
+  for (const [start, end] of merged) {
+    if (start >= windowEnd) break;
+    const markStart = Math.max(start, position);
+    const markEnd = Math.min(end, windowEnd);
+    if (markEnd <= markStart) continue;
+
+    snippet += escapeHtml(text.slice(position, markStart))
+      + `<mark>${escapeHtml(text.slice(markStart, markEnd))}</mark>`;
+    position = markEnd;
+  }
+  snippet += escapeHtml(text.slice(position, windowEnd));
+  if (windowEnd < text.length) snippet += '…';
+
+  return snippet;
+}
+
+/**
+ * Tạo danh sách highlight cho các trường của giao dịch khớp từ khoá
+ */
+export function buildSearchHighlights(fields: SearchableFields, terms: string[]): SearchHighlight[] {
+  if (terms.length === 0) return [];
+
+  const candidates: { field: SearchHighlight['field']; text: string | null }[] = [
+    { field: 'note', text: fields.note },
+    ...fields.categories.map((text) => ({ field: 'category' as const, text })),
+    ...fields.wallets.map((text) => ({ field: 'wallet' as const, text })),
+    { field: 'payee', text: fields.payee },
+    { field: 'loanCounterparty', text: fields.loanCounterparty }
+  ];
+
+  const highlights: SearchHighlight[] = [];
+  for (const { field, text } of candidates) {
+    const snippet = text ? highlightText(text, terms) : null;
+    if (snippet) highlights.push({ field, snippet });
+  }
+  return highlights;
+}
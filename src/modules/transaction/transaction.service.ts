@@ -7,16 +7,53 @@
  * - Income: 1 entry (in) vào wallet, tăng currentBalance
  * - Expense: 1 entry (out) từ wallet, giảm currentBalance
  * - Transfer: 2 entries (out từ wallet A, in vào wallet B), balance thay đổi tương ứng
+ * - Refund: 1 entry (in) vào ví của giao dịch chi tiêu gốc, tổng tiền hoàn không vượt quá amount của giao dịch gốc
+ * - Adjustment: 1 entry (in/out) ghi chênh lệch khi điều chỉnh số dư ví (tạo qua WalletService.adjustBalance)
  * - Tất cả operations phải atomic (sử dụng DB transaction)
  */
 import { prisma } from '../../db/prisma';
-import { CreateTransactionData } from './transaction.schema';
+import { env } from '../../config/env';
+import { Prisma } from '../../generated/prisma/client';
+import { ErrorMap } from '../../utils/error-handler';
+import { KeysetField, findCursorPage } from '../../utils/pagination';
+import { createCurrencyConverter, getExchangeRate, pickExchangeRate } from '../currency/currency.service';
+import { resolveTagIds } from '../tag/tag.service';
+import { resolvePayeeIds, validatePayeeOwnership } from '../payee/payee.service';
+import { removeAttachmentFiles } from '../attachment/attachment.service';
+import { applyWalletDeltas, creditWallet, debitWallet } from '../wallet/wallet.balance';
+import { RuleMatch, loadRuleMatcher } from '../categorization/categorization.engine';
+import {
+  BulkCreateTransactionsData,
+  CreateTransactionData,
+  TransactionSplitData,
+  CreateRefundData,
+  UpdateTransactionData,
+  UpdateTransactionStatusData
+} from './transaction.schema';
+import { buildSearchHighlights, foldSearchText, parseSearchQuery } from './transaction.search';
+
+// Thông tin nguồn gốc gắn thêm khi giao dịch được sinh từ luồng khác (VD: RecurringRule)
+export type CreateTransactionOptions = {
+  recurringRuleId?: string;
+  // ID dòng sao kê khi giao dịch được import từ file (OFX/QIF)
+  externalId?: string;
+};
+
+// Entry tối thiểu để tính ảnh hưởng lên số dư ví
+type BalanceEntry = {
+  walletId: string;
+  direction: 'in' | 'out';
+  amount: Prisma.Decimal | number;
+  isFee?: boolean; // Entry phí chuyển tiền
+  categoryId?: string | null; // Category chi tiêu của entry phí
+};
 
 /**
- * Validate wallet ownership and check sufficient balance for debit operations
- * Đảm bảo wallet thuộc về user hiện tại và có đủ số dư
+ * Validate wallet ownership
+ * Đảm bảo wallet thuộc về user hiện tại và chưa bị archive
+ * Số dư không kiểm tra ở đây mà khi trừ tiền trong DB transaction (debitWallet/applyWalletDeltas)
  */
-async function validateWalletOwnership(walletId: string, userId: string, requiredAmount?: number) {
+async function validateWalletOwnership(walletId: string, userId: string) {
   const wallet = await prisma.wallet.findFirst({
     where: { id: walletId, userId, isArchived: false }
   });
@@ -24,11 +61,6 @@ async function validateWalletOwnership(walletId: string, userId: string, require
     throw new Error('TRANSACTION_WALLET_NOT_FOUND');
   }
 
-  // Kiểm tra số dư nếu cần trừ tiền (expense hoặc transfer out)
-  if (requiredAmount !== undefined && wallet.currentBalance.toNumber() < requiredAmount) {
-    throw new Error('INSUFFICIENT_WALLET_BALANCE');
-  }
-
   return wallet;
 }
 
@@ -36,7 +68,7 @@ async function validateWalletOwnership(walletId: string, userId: string, require
  * Validate category ownership (chỉ cho income/expense)
  * Đảm bảo category thuộc về user và có type phù hợp
  */
-async function validateCategoryOwnership(categoryId: string, userId: string, transactionType: string) {
+export async function validateCategoryOwnership(categoryId: string, userId: string, transactionType: string) {
   const category = await prisma.category.findFirst({
     where: { id: categoryId, userId }
   });
@@ -55,16 +87,167 @@ async function validateCategoryOwnership(categoryId: string, userId: string, tra
   return category;
 }
 
+/**
+ * Validate các dòng split của giao dịch income/expense
+ * Tổng amount các dòng phải bằng amount của giao dịch, mỗi category phải thuộc user và đúng type
+ */
+async function validateSplits(splits: TransactionSplitData[], amount: number, userId: string, transactionType: string) {
+  const total = splits.reduce(
+    (sum, split) => sum.plus(split.amount),
+    new Prisma.Decimal(0)
+  );
+  if (!total.equals(amount)) {
+    throw new Error('SPLIT_AMOUNT_MISMATCH');
+  }
+
+  for (const split of splits) {
+    await validateCategoryOwnership(split.categoryId, userId, transactionType);
+  }
+}
+
+/**
+ * Dữ liệu tạo TransactionTag từ danh sách tên tag (tag chưa có được tạo mới)
+ */
+async function buildTagLinks(userId: string, names?: string[]) {
+  if (!names || names.length === 0) {
+    return undefined;
+  }
+  const tagIds = await resolveTagIds(userId, names);
+  return { create: [...new Set(tagIds.values())].map((tagId) => ({ tagId })) };
+}
+
+/**
+ * Payee của giao dịch từ payeeId (phải thuộc user) hoặc payeeName (tạo mới nếu chưa có)
+ * @throws Error('PAYEE_NOT_FOUND') nếu payeeId không tồn tại
+ */
+async function resolveTransactionPayeeId(userId: string, data: { payeeId?: string | null; payeeName?: string }) {
+  if (data.payeeId) {
+    return (await validatePayeeOwnership(data.payeeId, userId)).id;
+  }
+  if (data.payeeName) {
+    return (await resolvePayeeIds(userId, [data.payeeName])).get(data.payeeName) ?? null;
+  }
+  return null;
+}
+
+/**
+ * Gộp kết quả rule tự phân loại vào 1 item income/expense
+ * - Tag của các rule khớp được thêm vào tag của giao dịch
+ * - Danh mục của rule chỉ dùng khi giao dịch không gửi categoryId/splits (danh mục user chọn luôn được giữ)
+ */
+function withRuleMatch<T extends CreateTransactionData>(item: T, match: RuleMatch): T {
+  if (item.type === 'transfer') return item;
+  return {
+    ...item,
+    categoryId: item.categoryId ?? (item.splits ? undefined : match.categoryId ?? undefined),
+    tags: match.tags.length > 0 ? [...new Set([...(item.tags ?? []), ...match.tags])] : item.tags
+  };
+}
+
+/**
+ * Áp dụng quy tắc tự phân loại (CategorizationRule đang bật) cho các item income/expense sắp tạo
+ * Rule được load 1 lần cho cả danh sách; transfer giữ nguyên
+ */
+async function applyCategorizationRules<T extends CreateTransactionData>(items: T[], userId: string): Promise<T[]> {
+  if (items.every((item) => item.type === 'transfer')) {
+    return items;
+  }
+  const matcher = await loadRuleMatcher(userId);
+  if (matcher.rules.length === 0) {
+    return items;
+  }
+
+  // Điều kiện theo payee cần tên của payee chọn bằng payeeId
+  const payeeIds = [...new Set(items.flatMap((item) =>
+    item.type !== 'transfer' && item.payeeId ? [item.payeeId] : []
+  ))];
+  const payees = payeeIds.length > 0
+    ? await prisma.payee.findMany({
+      where: { id: { in: payeeIds }, userId },
+      select: { id: true, name: true }
+    })
+    : [];
+  const payeeNames = new Map(payees.map((payee) => [payee.id, payee.name]));
+
+  return items.map((item) => item.type === 'transfer'
+    ? item
+    : withRuleMatch(item, matcher.match({
+      type: item.type,
+      note: item.note,
+      payeeName: item.payeeName ?? (item.payeeId ? payeeNames.get(item.payeeId) : null),
+      amount: item.amount,
+      walletId: item.walletId
+    })));
+}
+
+/**
+ * Ghi nhớ danh mục vừa dùng cho payee để gợi ý khi tạo giao dịch mới
+ * Giao dịch split không có 1 danh mục duy nhất => bỏ qua
+ */
+async function rememberPayeeCategory(tx: Prisma.TransactionClient, payeeId: string | null, categoryId: string | null) {
+  if (!payeeId || !categoryId) return;
+  await tx.payee.update({
+    where: { id: payeeId },
+    data: { lastCategoryId: categoryId }
+  });
+}
+
+/**
+ * Giao dịch đã chốt đối chiếu (reconciled) bị khoá, phải mở khoá (unlock) trước khi sửa/xoá
+ * @throws Error('TRANSACTION_RECONCILED')
+ */
+function assertNotReconciled(transaction: { status: string }) {
+  if (transaction.status === 'reconciled') {
+    throw new Error('TRANSACTION_RECONCILED');
+  }
+}
+
+/**
+ * Khoá dòng giao dịch (SELECT ... FOR UPDATE) đến hết DB transaction
+ * Gọi trước mọi lần đọc giao dịch trong DB transaction: đọc thường của InnoDB (REPEATABLE READ) là snapshot
+ * không khoá => 2 request đồng thời cùng đọc bản cũ rồi cùng hoàn tác/áp dụng số dư
+ *
+ * @returns refundOfId của giao dịch (đọc có khoá, để khoá tiếp giao dịch gốc trước lần đọc snapshot đầu tiên)
+ */
+async function lockTransactionRow(tx: Prisma.TransactionClient, transactionId: string) {
+  const rows = await tx.$queryRaw<{ refundOfId: string | null }[]>`
+    SELECT refundOfId FROM \`Transaction\` WHERE id = ${transactionId} FOR UPDATE`;
+  return rows[0]?.refundOfId ?? null;
+}
+
+/**
+ * Tổng tiền đã hoàn (refund chưa xoá) của 1 giao dịch chi tiêu
+ */
+async function sumActiveRefunds(db: Prisma.TransactionClient, refundOfId: string) {
+  const { _sum } = await db.transaction.aggregate({
+    where: { refundOfId, type: 'refund', deletedAt: null },
+    _sum: { amount: true }
+  });
+  return _sum.amount ?? new Prisma.Decimal(0);
+}
+
 /**
  * Tạo Income transaction
  * Logic: 1 entry (direction: in) vào wallet, tăng currentBalance
  */
-async function createIncomeTransaction(data: CreateTransactionData & { type: 'income' }, userId: string) {
-  const { walletId, categoryId, transactionDate, amount, note } = data;
+async function createIncomeTransaction(
+  data: CreateTransactionData & { type: 'income' },
+  userId: string,
+  options: CreateTransactionOptions = {}
+) {
+  const { walletId, categoryId, splits, transactionDate, amount, note } = data;
 
   // Validate wallet và category
-  await validateWalletOwnership(walletId, userId);
-  await validateCategoryOwnership(categoryId!, userId, 'income');
+  const wallet = await validateWalletOwnership(walletId, userId);
+  if (splits) {
+    await validateSplits(splits, amount, userId, 'income');
+  } else if (categoryId) {
+    await validateCategoryOwnership(categoryId, userId, 'income');
+  } else {
+    throw new Error('TRANSACTION_CATEGORY_REQUIRED');
+  }
+  const tags = await buildTagLinks(userId, data.tags);
+  const payeeId = await resolveTransactionPayeeId(userId, data);
 
   // Tạo transaction và entry trong DB transaction
   return await prisma.$transaction(async (tx) => {
@@ -74,32 +257,37 @@ async function createIncomeTransaction(data: CreateTransactionData & { type: 'in
         userId,
         type: 'income',
         transactionDate,
-        categoryId,
+        categoryId: splits ? null : categoryId,
         amount,
+        currency: wallet.currency,
         note,
+        payeeId,
+        status: data.status,
+        recurringRuleId: options.recurringRuleId,
+        externalId: options.externalId,
+        importWalletId: options.externalId ? walletId : undefined,
         entries: {
           create: {
             walletId,
             direction: 'in',
             amount
           }
-        }
+        },
+        splits: splits ? { create: splits } : undefined,
+        tags
       },
       include: {
         entries: true,
-        category: true
+        category: true,
+        splits: true,
+        tags: { include: { tag: true } },
+        payee: true
       }
     });
+    await rememberPayeeCategory(tx, payeeId, transaction.categoryId);
 
     // 2. Cập nhật currentBalance của wallet (tăng)
-    await tx.wallet.update({
-      where: { id: walletId },
-      data: {
-        currentBalance: {
-          increment: amount
-        }
-      }
-    });
+    await creditWallet(tx, walletId, amount);
 
     return transaction;
   });
@@ -110,281 +298,1942 @@ async function createIncomeTransaction(data: CreateTransactionData & { type: 'in
  * Logic: 1 entry (direction: out) từ wallet, giảm currentBalance
  * Kiểm tra số dư trước khi thực hiện
  */
-async function createExpenseTransaction(data: CreateTransactionData & { type: 'expense' }, userId: string) {
-  const { walletId, categoryId, transactionDate, amount, note } = data;
+async function createExpenseTransaction(
+  data: CreateTransactionData & { type: 'expense' },
+  userId: string,
+  options: CreateTransactionOptions = {}
+) {
+  const { walletId, categoryId, splits, transactionDate, amount, note } = data;
 
-  // Validate wallet và kiểm tra số dư
-  await validateWalletOwnership(walletId, userId, amount);
-  await validateCategoryOwnership(categoryId!, userId, 'expense');
+  // Validate wallet
+  const { currency } = await validateWalletOwnership(walletId, userId);
+  if (splits) {
+    await validateSplits(splits, amount, userId, 'expense');
+  } else if (categoryId) {
+    await validateCategoryOwnership(categoryId, userId, 'expense');
+  } else {
+    throw new Error('TRANSACTION_CATEGORY_REQUIRED');
+  }
+  const tags = await buildTagLinks(userId, data.tags);
+  const payeeId = await resolveTransactionPayeeId(userId, data);
 
   // Tạo transaction và entry trong DB transaction
   return await prisma.$transaction(async (tx) => {
-    // Kiểm tra lại số dư trong transaction để tránh race condition
-    const wallet = await tx.wallet.findUnique({
-      where: { id: walletId },
-      select: { currentBalance: true }
-    });
-
-    if (!wallet || wallet.currentBalance.toNumber() < amount) {
-      throw new Error('INSUFFICIENT_WALLET_BALANCE');
-    }
-
     // 1. Tạo Transaction header
     const transaction = await tx.transaction.create({
       data: {
         userId,
         type: 'expense',
         transactionDate,
-        categoryId,
+        categoryId: splits ? null : categoryId,
         amount,
+        currency,
         note,
+        payeeId,
+        status: data.status,
+        recurringRuleId: options.recurringRuleId,
+        externalId: options.externalId,
+        importWalletId: options.externalId ? walletId : undefined,
         entries: {
           create: {
             walletId,
             direction: 'out',
             amount
           }
-        }
+        },
+        splits: splits ? { create: splits } : undefined,
+        tags
       },
       include: {
         entries: true,
-        category: true
+        category: true,
+        splits: true,
+        tags: { include: { tag: true } },
+        payee: true
       }
     });
+    await rememberPayeeCategory(tx, payeeId, transaction.categoryId);
 
-    // 2. Cập nhật currentBalance của wallet (giảm)
-    await tx.wallet.update({
-      where: { id: walletId },
-      data: {
-        currentBalance: {
-          decrement: amount
-        }
-      }
-    });
+    // 2. Trừ currentBalance của wallet (kiểm tra số dư và trừ trong cùng 1 câu lệnh)
+    await debitWallet(tx, walletId, amount);
 
     return transaction;
   });
 }
 
+/**
+ * Build entries cho transfer
+ * - out từ ví nguồn: số tiền gửi (amount)
+ * - in vào ví đích: số tiền nhận (toAmount, mặc định = amount)
+ * - out từ ví nguồn: phí chuyển (nếu có), gắn category chi tiêu
+ */
+function buildTransferEntries(transfer: {
+  fromWalletId: string;
+  toWalletId: string;
+  amount: number;
+  toAmount?: number | null;
+  fee?: number | null;
+  feeCategoryId?: string | null;
+}): BalanceEntry[] {
+  const entries: BalanceEntry[] = [
+    { walletId: transfer.fromWalletId, direction: 'out', amount: transfer.amount },
+    { walletId: transfer.toWalletId, direction: 'in', amount: transfer.toAmount ?? transfer.amount }
+  ];
+  if (transfer.fee) {
+    entries.push({
+      walletId: transfer.fromWalletId,
+      direction: 'out',
+      amount: transfer.fee,
+      isFee: true,
+      categoryId: transfer.feeCategoryId
+    });
+  }
+  return entries;
+}
+
+/**
+ * Tính số tiền ví đích nhận và tỷ giá lưu trên transfer
+ * - 2 ví cùng tiền tệ: không lưu tỷ giá, toAmount giữ nguyên (null => = amount)
+ * - Khác tiền tệ, có toAmount: tỷ giá thực tế = toAmount / amount
+ * - Khác tiền tệ, không có toAmount: quy đổi amount theo rate tra từ bảng tỷ giá
+ *
+ * @throws Error('EXCHANGE_RATE_NOT_FOUND') nếu khác tiền tệ, không có toAmount và không có rate
+ */
+function resolveTransferConversion(
+  transfer: { amount: number; toAmount?: number | null; fromCurrency: string; toCurrency: string },
+  rate: Prisma.Decimal | null
+) {
+  if (transfer.fromCurrency === transfer.toCurrency) {
+    return { toAmount: transfer.toAmount ?? null, exchangeRate: null };
+  }
+
+  if (transfer.toAmount != null) {
+    return {
+      toAmount: transfer.toAmount,
+      exchangeRate: new Prisma.Decimal(transfer.toAmount).div(transfer.amount).toDecimalPlaces(8)
+    };
+  }
+
+  if (!rate) {
+    throw new Error('EXCHANGE_RATE_NOT_FOUND');
+  }
+  return {
+    toAmount: new Prisma.Decimal(transfer.amount).times(rate).toDecimalPlaces(2).toNumber(),
+    exchangeRate: rate.toDecimalPlaces(8)
+  };
+}
+
+/**
+ * Dữ liệu tạo TransactionEntry từ BalanceEntry
+ */
+function toEntryCreateInput({ walletId, direction, amount, isFee, categoryId }: BalanceEntry) {
+  return { walletId, direction, amount, isFee: isFee ?? false, categoryId: categoryId ?? null };
+}
+
 /**
  * Tạo Transfer transaction
- * Logic: 2 entries (out từ fromWallet, in vào toWallet), balance thay đổi tương ứng
- * Kiểm tra số dư ví nguồn trước khi thực hiện
+ * Logic: entry out từ ví nguồn, entry in vào ví đích (số tiền nhận có thể khác số tiền gửi)
+ * và entry phí (out từ ví nguồn) nếu có fee
+ * 2 ví khác tiền tệ: lưu tỷ giá, toAmount không gửi lên thì quy đổi theo bảng tỷ giá tại ngày giao dịch
  */
-async function createTransferTransaction(data: CreateTransactionData & { type: 'transfer' }, userId: string) {
-  const { fromWalletId, toWalletId, transactionDate, amount, note } = data;
+async function createTransferTransaction(
+  data: CreateTransactionData & { type: 'transfer' },
+  userId: string,
+  options: CreateTransactionOptions = {}
+) {
+  const { fromWalletId, toWalletId, transactionDate, amount, fee, feeCategoryId, note } = data;
 
   // Validate: fromWalletId !== toWalletId
   if (fromWalletId === toWalletId) {
     throw new Error('SAME_WALLET_TRANSFER');
   }
 
-  // Validate cả 2 wallet, kiểm tra số dư ví nguồn
-  await validateWalletOwnership(fromWalletId, userId, amount);
-  await validateWalletOwnership(toWalletId, userId);
+  // Validate cả 2 wallet (số dư ví nguồn cho cả số tiền gửi và phí được kiểm tra khi ghi)
+  const fromWallet = await validateWalletOwnership(fromWalletId, userId);
+  const toWallet = await validateWalletOwnership(toWalletId, userId);
+  if (fee) {
+    await validateCategoryOwnership(feeCategoryId!, userId, 'expense');
+  }
+
+  const needsRate = fromWallet.currency !== toWallet.currency && data.toAmount == null;
+  const conversion = resolveTransferConversion(
+    { amount, toAmount: data.toAmount, fromCurrency: fromWallet.currency, toCurrency: toWallet.currency },
+    needsRate ? await getExchangeRate(userId, fromWallet.currency, toWallet.currency, transactionDate) : null
+  );
+  const entries = buildTransferEntries({ ...data, toAmount: conversion.toAmount });
+  const tags = await buildTagLinks(userId, data.tags);
 
   // Tạo transaction và entries trong DB transaction
   return await prisma.$transaction(async (tx) => {
-    // Kiểm tra lại số dư ví nguồn trong transaction để tránh race condition
-    const fromWallet = await tx.wallet.findUnique({
-      where: { id: fromWalletId },
-      select: { currentBalance: true }
-    });
-
-    if (!fromWallet || fromWallet.currentBalance.toNumber() < amount) {
-      throw new Error('INSUFFICIENT_WALLET_BALANCE');
-    }
-
-    // 1. Tạo Transaction header (transfer không có category)
+    // 1. Tạo Transaction header (transfer không có category, phí gắn category ở entry)
     const transaction = await tx.transaction.create({
       data: {
         userId,
         type: 'transfer',
         transactionDate,
         amount,
+        currency: fromWallet.currency,
+        exchangeRate: conversion.exchangeRate,
         note,
+        status: data.status,
+        recurringRuleId: options.recurringRuleId,
+        externalId: options.externalId,
         entries: {
-          create: [
-            // Entry out từ ví nguồn
-            {
-              walletId: fromWalletId,
-              direction: 'out',
-              amount
-            },
-            // Entry in vào ví đích
-            {
-              walletId: toWalletId,
-              direction: 'in',
-              amount
-            }
-          ]
-        }
+          create: entries.map(toEntryCreateInput)
+        },
+        tags
       },
       include: {
-        entries: true
-      }
-    });
-
-    // 2. Cập nhật currentBalance của cả 2 wallet
-    // Ví nguồn: giảm balance
-    await tx.wallet.update({
-      where: { id: fromWalletId },
-      data: {
-        currentBalance: {
-          decrement: amount
-        }
+        entries: true,
+        tags: { include: { tag: true } }
       }
     });
 
-    // Ví đích: tăng balance
-    await tx.wallet.update({
-      where: { id: toWalletId },
-      data: {
-        currentBalance: {
-          increment: amount
-        }
-      }
-    });
+    // 2. Cập nhật currentBalance của cả 2 wallet, ví nguồn phải đủ số dư
+    await applyWalletDeltas(tx, collectWalletDeltas(entries, 'apply'));
 
     return transaction;
   });
 }
 
-export const TransactionService = {
-  /**
-   * Tạo giao dịch mới
-   * Tự động xử lý các loại transaction khác nhau và cập nhật balance
-   *
-   * @param data - Dữ liệu giao dịch đã validate
-   * @param userId - ID của user thực hiện giao dịch
-   * @returns Transaction object với entries
-   * @throws Error nếu validation fail hoặc có lỗi database
-   */
-  async createTransaction(data: CreateTransactionData, userId: string) {
-    switch (data.type) {
-      case 'income':
-        return await createIncomeTransaction(data, userId);
+/**
+ * Cộng dồn biến động số dư theo từng ví từ danh sách entries
+ * mode = 'apply': in => +amount, out => -amount
+ * mode = 'revert': đảo ngược (dùng khi sửa/xoá giao dịch)
+ */
+function collectWalletDeltas(
+  entries: BalanceEntry[],
+  mode: 'apply' | 'revert',
+  deltas: Map<string, Prisma.Decimal> = new Map()
+) {
+  for (const entry of entries) {
+    const value = new Prisma.Decimal(entry.amount.toString());
+    const isIncrease = (entry.direction === 'in') === (mode === 'apply');
+    const current = deltas.get(entry.walletId) ?? new Prisma.Decimal(0);
+    deltas.set(entry.walletId, isIncrease ? current.plus(value) : current.minus(value));
+  }
+  return deltas;
+}
+
+// Ví/danh mục/tỷ giá được load 1 lần cho cả batch (tránh query lại cho từng item)
+type BulkLookups = {
+  wallets: Map<string, { id: string; currency: string }>;
+  categories: Map<string, { id: string; type: string }>;
+  exchangeRates: { fromCurrency: string; toCurrency: string; rate: Prisma.Decimal; effectiveDate: Date }[];
+  tags: Map<string, string>; // Tên tag -> tag ID
+  payees: Map<string, string>; // Tên payee -> payee ID
+  payeeIds: Set<string>; // payeeId thuộc user
+};
 
-      case 'expense':
-        return await createExpenseTransaction(data, userId);
+// Item đã validate, sẵn sàng ghi vào DB
+type PreparedBulkItem = {
+  type: 'income' | 'expense' | 'transfer';
+  transactionDate: Date;
+  amount: number;
+  currency: string;
+  exchangeRate: Prisma.Decimal | null;
+  note?: string;
+  categoryId: string | null;
+  splits?: TransactionSplitData[];
+  entries: BalanceEntry[];
+  tagIds: string[];
+  payeeId: string | null;
+  status?: 'pending' | 'cleared';
+};
+
+// Kết quả của từng item trong bulk (index theo thứ tự trong request)
+type BulkItemResult = {
+  index: number;
+  success: boolean;
+  transaction?: unknown;
+  error?: { code: string; status: number; message: string };
+};
+
+/**
+ * Chuyển error code sang payload lỗi theo ErrorMap (lỗi lạ => 500)
+ */
+function toBulkError(error: any) {
+  const config = ErrorMap[error.message];
+  return config
+    ? { code: error.message, status: config.status, message: config.message }
+    : { code: 'INTERNAL_ERROR', status: 500, message: 'Internal server error' };
+}
 
-      case 'transfer':
-        return await createTransferTransaction(data, userId);
+/**
+ * Load toàn bộ ví (chưa archive) và danh mục mà batch tham chiếu tới,
+ * cùng tỷ giá giữa các tiền tệ của ví nếu batch có transfer khác tiền tệ
+ * Tag/payee theo tên được resolve (tạo mới nếu chưa có) 1 lần cho cả batch
+ */
+async function loadBulkLookups(items: CreateTransactionData[], userId: string): Promise<BulkLookups> {
+  const walletIds = new Set<string>();
+  const categoryIds = new Set<string>();
+  const payeeIds = new Set<string>();
+  const payeeNames: string[] = [];
 
-      default:
-        throw new Error('UNSUPPORTED_TRANSACTION_TYPE');
+  for (const item of items) {
+    if (item.type === 'transfer') {
+      walletIds.add(item.fromWalletId);
+      walletIds.add(item.toWalletId);
+      if (item.feeCategoryId) categoryIds.add(item.feeCategoryId);
+    } else {
+      walletIds.add(item.walletId);
+      if (item.categoryId) categoryIds.add(item.categoryId);
+      item.splits?.forEach((split) => categoryIds.add(split.categoryId));
+      if (item.payeeId) payeeIds.add(item.payeeId);
+      if (item.payeeName) payeeNames.push(item.payeeName);
     }
-  },
+  }
 
-  /**
-   * Lấy danh sách giao dịch của user
-   * Có thể filter theo type, date range, category, wallet
-   */
-  async getTransactions(userId: string, filters?: {
-    type?: 'income' | 'expense' | 'transfer';
-    startDate?: Date;
-    endDate?: Date;
-    categoryId?: string;
-    walletId?: string;
-    limit?: number;
-    offset?: number;
-    /** Loại trừ giao dịch phát sinh từ trả nợ/thu nợ (LoanPayment) */
-    excludeLoanRelated?: boolean;
-  }) {
-    const {
-      type,
-      startDate,
-      endDate,
-      categoryId,
-      walletId,
-      limit = 50,
-      offset = 0,
-      excludeLoanRelated = false
-    } = filters || {};
-
-    // Build where clause cơ bản (không tính loan filter)
-    const baseWhere: any = {
-      userId,
-      deletedAt: null // Không lấy soft deleted transactions
+  const wallets = await prisma.wallet.findMany({
+    where: { id: { in: [...walletIds] }, userId, isArchived: false },
+    select: { id: true, currency: true }
+  });
+  const categories = await prisma.category.findMany({
+    where: { id: { in: [...categoryIds] }, userId },
+    select: { id: true, type: true }
+  });
+
+  const currencies = [...new Set(wallets.map((wallet) => wallet.currency))];
+  const exchangeRates = currencies.length > 1
+    ? await prisma.exchangeRate.findMany({
+      where: { userId, fromCurrency: { in: currencies }, toCurrency: { in: currencies } },
+      select: { fromCurrency: true, toCurrency: true, rate: true, effectiveDate: true }
+    })
+    : [];
+
+  const tags = await resolveTagIds(userId, items.flatMap((item) => item.tags ?? []));
+  const payees = await resolvePayeeIds(userId, payeeNames);
+  const ownedPayees = payeeIds.size > 0
+    ? await prisma.payee.findMany({
+      where: { id: { in: [...payeeIds] }, userId },
+      select: { id: true }
+    })
+    : [];
+
+  return {
+    wallets: new Map(wallets.map((wallet) => [wallet.id, wallet])),
+    categories: new Map(categories.map((category) => [category.id, category])),
+    exchangeRates,
+    tags,
+    payees,
+    payeeIds: new Set(ownedPayees.map((payee) => payee.id))
+  };
+}
+
+/**
+ * Validate 1 item của batch với dữ liệu đã load (cùng error codes như createTransaction)
+ * Số dư ví được kiểm tra khi ghi (applyWalletDeltas), không kiểm tra ở đây
+ */
+function prepareBulkItem(item: CreateTransactionData, lookups: BulkLookups): PreparedBulkItem {
+  const base = {
+    type: item.type,
+    transactionDate: item.transactionDate,
+    amount: item.amount,
+    note: item.note,
+    status: item.status,
+    tagIds: [...new Set((item.tags ?? []).map((name) => lookups.tags.get(name)!))],
+    payeeId: null as string | null
+  };
+
+  const checkWallet = (walletId: string) => {
+    const wallet = lookups.wallets.get(walletId);
+    if (!wallet) {
+      throw new Error('TRANSACTION_WALLET_NOT_FOUND');
+    }
+    return wallet;
+  };
+  // Phí chuyển tiền luôn dùng category chi tiêu
+  const checkCategory = (categoryId: string, type: 'income' | 'expense') => {
+    const category = lookups.categories.get(categoryId);
+    if (!category) {
+      throw new Error('TRANSACTION_CATEGORY_NOT_FOUND');
+    }
+    if (category.type !== type) {
+      throw new Error(type === 'income' ? 'INVALID_CATEGORY_TYPE_FOR_INCOME' : 'INVALID_CATEGORY_TYPE_FOR_EXPENSE');
+    }
+  };
+
+  if (item.type === 'transfer') {
+    if (item.fromWalletId === item.toWalletId) {
+      throw new Error('SAME_WALLET_TRANSFER');
+    }
+    const fromWallet = checkWallet(item.fromWalletId);
+    const toWallet = checkWallet(item.toWalletId);
+    if (item.fee) {
+      checkCategory(item.feeCategoryId!, 'expense');
+    }
+
+    const conversion = resolveTransferConversion(
+      { amount: item.amount, toAmount: item.toAmount, fromCurrency: fromWallet.currency, toCurrency: toWallet.currency },
+      pickExchangeRate(lookups.exchangeRates, fromWallet.currency, toWallet.currency, item.transactionDate)
+    );
+
+    return {
+      ...base,
+      currency: fromWallet.currency,
+      exchangeRate: conversion.exchangeRate,
+      categoryId: null,
+      entries: buildTransferEntries({ ...item, toAmount: conversion.toAmount })
     };
+  }
 
-    if (type) baseWhere.type = type;
-    if (startDate || endDate) {
-      baseWhere.transactionDate = {};
-      if (startDate) baseWhere.transactionDate.gte = startDate;
-      if (endDate) baseWhere.transactionDate.lte = endDate;
+  const wallet = checkWallet(item.walletId);
+  if (item.payeeId && !lookups.payeeIds.has(item.payeeId)) {
+    throw new Error('PAYEE_NOT_FOUND');
+  }
+  if (item.splits) {
+    const total = item.splits.reduce((sum, split) => sum.plus(split.amount), new Prisma.Decimal(0));
+    if (!total.equals(item.amount)) {
+      throw new Error('SPLIT_AMOUNT_MISMATCH');
+    }
+    item.splits.forEach((split) => checkCategory(split.categoryId, item.type));
+  } else if (item.categoryId) {
+    checkCategory(item.categoryId, item.type);
+  } else {
+    throw new Error('TRANSACTION_CATEGORY_REQUIRED');
+  }
+
+  return {
+    ...base,
+    currency: wallet.currency,
+    exchangeRate: null,
+    categoryId: item.splits ? null : item.categoryId!,
+    splits: item.splits,
+    payeeId: item.payeeId ?? (item.payeeName ? lookups.payees.get(item.payeeName) ?? null : null),
+    entries: [
+      { walletId: item.walletId, direction: item.type === 'income' ? 'in' : 'out', amount: item.amount }
+    ]
+  };
+}
+
+/**
+ * Ghi 1 item đã validate vào DB (header + entries + splits), chưa cập nhật số dư
+ */
+async function insertPreparedItem(tx: Prisma.TransactionClient, item: PreparedBulkItem, userId: string) {
+  const transaction = await tx.transaction.create({
+    data: {
+      userId,
+      type: item.type,
+      transactionDate: item.transactionDate,
+      categoryId: item.categoryId,
+      amount: item.amount,
+      currency: item.currency,
+      exchangeRate: item.exchangeRate,
+      note: item.note,
+      payeeId: item.payeeId,
+      status: item.status,
+      entries: {
+        create: item.entries.map(toEntryCreateInput)
+      },
+      splits: item.splits ? { create: item.splits } : undefined,
+      tags: item.tagIds.length > 0 ? { create: item.tagIds.map((tagId) => ({ tagId })) } : undefined
+    },
+    include: {
+      entries: true
+    }
+  });
+  await rememberPayeeCategory(tx, item.payeeId, item.categoryId);
+  return transaction;
+}
+
+// Bộ lọc danh sách giao dịch (dùng chung cho list và export)
+type TransactionListFilters = {
+  type?: 'income' | 'expense' | 'transfer' | 'refund' | 'adjustment';
+  startDate?: Date;
+  endDate?: Date;
+  categoryId?: string;
+  walletId?: string;
+  /** Loại trừ giao dịch phát sinh từ trả nợ/thu nợ (LoanPayment) */
+  excludeLoanRelated?: boolean;
+  /** Tên tag đã chuẩn hoá; tagMode any: có ít nhất 1 tag, all: có đủ các tag */
+  tags?: string[];
+  tagMode?: 'any' | 'all';
+  payeeId?: string;
+  status?: 'pending' | 'cleared' | 'reconciled';
+};
+
+/**
+ * Build where clause cho danh sách giao dịch theo bộ lọc
+ */
+function buildTransactionListWhere(userId: string, filters: TransactionListFilters) {
+  const {
+    type, startDate, endDate, categoryId, walletId, excludeLoanRelated = false, tags, tagMode = 'any', payeeId, status
+  } = filters;
+
+  // Build where clause cơ bản (không tính loan filter)
+  const baseWhere: any = {
+    userId,
+    deletedAt: null // Không lấy soft deleted transactions
+  };
+
+  if (type) baseWhere.type = type;
+  if (payeeId) baseWhere.payeeId = payeeId;
+  if (status) baseWhere.status = status;
+  if (startDate || endDate) {
+    baseWhere.transactionDate = {};
+    if (startDate) baseWhere.transactionDate.gte = startDate;
+    if (endDate) baseWhere.transactionDate.lte = endDate;
+  }
+  // Giao dịch split được tính nếu có ít nhất 1 dòng thuộc category cần lọc
+  if (categoryId) {
+    baseWhere.OR = [
+      { categoryId },
+      { splits: { some: { categoryId } } }
+    ];
+  }
+  if (tags && tags.length > 0) {
+    if (tagMode === 'all') {
+      baseWhere.AND = tags.map((name) => ({ tags: { some: { tag: { name } } } }));
+    } else {
+      baseWhere.tags = { some: { tag: { name: { in: tags } } } };
     }
-    if (categoryId) baseWhere.categoryId = categoryId;
+  }
+
+  // where cuối cùng (có thể được wrap lại nếu excludeLoanRelated = true)
+  let where: any = baseWhere;
 
-    // where cuối cùng (có thể được wrap lại nếu excludeLoanRelated = true)
-    let where: any = baseWhere;
+  // Loại toàn bộ giao dịch liên quan vay nợ khỏi thống kê thu/chi:
+  // - Giao dịch phát sinh từ LoanPayment (trả nợ / thu nợ)  => có loanPayment
+  // - Giao dịch gốc khi tạo Loan (giải ngân ban đầu)       => có loanId
+  if (excludeLoanRelated) {
+    where = {
+      AND: [
+        baseWhere,
+        {
+          NOT: {
+            OR: [
+              { loanPayment: { isNot: null } },
+              { loanId: { not: null } }
+            ]
+          }
+        }
+      ]
+    };
+  }
 
-    // Loại toàn bộ giao dịch liên quan vay nợ khỏi thống kê thu/chi:
-    // - Giao dịch phát sinh từ LoanPayment (trả nợ / thu nợ)  => có loanPayment
-    // - Giao dịch gốc khi tạo Loan (giải ngân ban đầu)       => có loanId
+  // Filter theo wallet nếu có
+  if (walletId) {
     if (excludeLoanRelated) {
-      where = {
-        AND: [
-          baseWhere,
-          {
-            NOT: {
-              OR: [
-                { loanPayment: { isNot: null } },
-                { loanId: { not: null } }
-              ]
-            }
+      // Đã wrap bằng AND ở trên -> nối thêm điều kiện entries
+      where.AND = [
+        ...(where.AND || []),
+        {
+          entries: {
+            some: { walletId }
           }
-        ]
+        }
+      ];
+    } else {
+      where.entries = {
+        some: { walletId }
       };
     }
+  }
 
-    // Filter theo wallet nếu có
-    if (walletId) {
-      if (excludeLoanRelated) {
-        // Đã wrap bằng AND ở trên -> nối thêm điều kiện entries
-        where.AND = [
-          ...(where.AND || []),
-          {
-            entries: {
-              some: { walletId }
-            }
-          }
-        ];
-      } else {
-        where.entries = {
-          some: { walletId }
-        };
-      }
-    }
+  return where;
+}
 
-    const transactions = await prisma.transaction.findMany({
-      where,
-      include: {
-        entries: {
-          include: {
-            wallet: true
-          }
-        },
-        category: true
-      },
-      orderBy: {
-        transactionDate: 'desc'
-      },
-      take: limit,
-      skip: offset
-    });
+// Thứ tự của danh sách giao dịch khi phân trang bằng cursor
+const TRANSACTION_CURSOR_KEYS: KeysetField[] = [
+  { field: 'transactionDate', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' }
+];
 
-    // Đếm total records
-    const total = await prisma.transaction.count({ where });
+// Số giao dịch đọc mỗi lần khi export (giữ bộ nhớ ổn định với dữ liệu lớn)
+const EXPORT_BATCH_SIZE = 500;
 
-    return {
-      transactions,
-      pagination: {
-        total,
-        limit,
-        offset,
-        hasMore: offset + limit < total
-      }
+// Quan hệ cần load để build dòng export
+const exportInclude = {
+  entries: { include: { wallet: { select: { name: true, currency: true } } } },
+  category: { include: { parent: { select: { name: true } } } },
+  splits: { include: { category: { include: { parent: { select: { name: true } } } } } },
+  loanPayment: { include: { loan: { select: { counterpartyName: true } } } },
+  loan: { select: { counterpartyName: true } },
+  tags: { include: { tag: { select: { name: true } } } },
+  payee: { select: { name: true } }
+} satisfies Prisma.TransactionInclude;
+
+// 1 dòng trong file export (giá trị thô, định dạng theo locale ở tầng ghi file)
+export type TransactionExportRow = {
+  id: string;
+  transactionDate: Date;
+  type: 'income' | 'expense' | 'transfer' | 'refund' | 'adjustment';
+  amount: Prisma.Decimal;
+  currency: string;
+  toAmount: Prisma.Decimal | null; // Chỉ transfer: số tiền ví đích nhận được
+  toCurrency: string | null; // Chỉ transfer: tiền tệ của ví đích
+  exchangeRate: Prisma.Decimal | null; // Chỉ transfer khác tiền tệ
+  fee: Prisma.Decimal | null; // Chỉ transfer: phí chuyển tiền
+  wallet: string; // Ví nguồn với transfer
+  toWallet: string | null; // Chỉ transfer
+  category: string | null; // Giao dịch split => nối tên các danh mục
+  parentCategory: string | null;
+  payee: string | null;
+  loanCounterparty: string | null;
+  tags: string | null; // Nối tên các tag
+  note: string | null;
+};
+
+/**
+ * Chuyển giao dịch (kèm quan hệ) thành dòng export
+ */
+function toExportRow(
+  transaction: Prisma.TransactionGetPayload<{ include: typeof exportInclude }>
+): TransactionExportRow {
+  const outEntry = transaction.entries.find((entry) => entry.direction === 'out' && !entry.isFee);
+  const inEntry = transaction.entries.find((entry) => entry.direction === 'in');
+  const feeEntry = transaction.entries.find((entry) => entry.isFee);
+
+  const categories = transaction.splits.length > 0
+    ? transaction.splits.map((split) => split.category)
+    : transaction.category ? [transaction.category] : [];
+  const joinNames = (names: (string | undefined)[]) =>
+    names.filter(Boolean).join('; ') || null;
+
+  return {
+    id: transaction.id,
+    transactionDate: transaction.transactionDate,
+    type: transaction.type,
+    amount: transaction.amount,
+    currency: transaction.currency,
+    toAmount: transaction.type === 'transfer' ? inEntry?.amount ?? null : null,
+    toCurrency: transaction.type === 'transfer' ? inEntry?.wallet.currency ?? null : null,
+    exchangeRate: transaction.exchangeRate,
+    fee: feeEntry?.amount ?? null,
+    wallet: (transaction.type === 'income' || transaction.type === 'refund' ? inEntry : outEntry ?? inEntry)?.wallet.name ?? '',
+    toWallet: transaction.type === 'transfer' ? inEntry?.wallet.name ?? null : null,
+    category: joinNames(categories.map((category) => category.name)),
+    parentCategory: joinNames(categories.map((category) => category.parent?.name)),
+    payee: transaction.payee?.name ?? null,
+    loanCounterparty:
+      transaction.loanPayment?.loan.counterpartyName ?? transaction.loan?.counterpartyName ?? null,
+    tags: joinNames(transaction.tags.map((link) => link.tag.name)),
+    note: transaction.note
+  };
+}
+
+// Quan hệ cần load cho kết quả tìm kiếm (hiển thị + tạo highlight)
+const searchInclude = {
+  entries: { include: { wallet: true } },
+  category: true,
+  splits: { include: { category: true } },
+  loanPayment: { include: { loan: { select: { counterpartyName: true } } } },
+  loan: { select: { counterpartyName: true } },
+  tags: { include: { tag: true } },
+  payee: true
+} satisfies Prisma.TransactionInclude;
+
+/**
+ * Điều kiện 1 từ khoá (đã bỏ dấu) khớp note, tên danh mục, tên ví, payee hoặc tên người vay/cho vay
+ * Collation utf8mb4_unicode_ci của DB đã không phân biệt hoa thường/dấu ("an uong" khớp "Ăn uống"),
+ * riêng "đ" được thử thêm biến thể vì không chắc collation coi "đ" = "d"
+ */
+function buildSearchTermWhere(term: string): Prisma.TransactionWhereInput {
+  const variants = term.includes('d') ? [term, term.replace(/d/g, 'đ')] : [term];
+
+  return {
+    OR: variants.flatMap((value) => [
+      { note: { contains: value } },
+      { category: { name: { contains: value } } },
+      { splits: { some: { category: { name: { contains: value } } } } },
+      { entries: { some: { wallet: { name: { contains: value } } } } },
+      { payee: { name: { contains: value } } },
+      { loan: { counterpartyName: { contains: value } } },
+      { loanPayment: { loan: { counterpartyName: { contains: value } } } }
+    ])
+  };
+}
+
+// Số nhóm nghi trùng tối đa trả về mỗi lần quét
+const MAX_DUPLICATE_GROUPS = 100;
+
+/**
+ * Chuẩn hoá note để so sánh: lowercase, bỏ dấu tiếng Việt, chỉ giữ chữ/số
+ */
+function normalizeNoteTokens(note: string | null | undefined) {
+  const text = foldSearchText(note ?? '');
+  return new Set(text.split(/[^a-z0-9]+/).filter(Boolean));
+}
+
+/**
+ * 2 note được coi là tương tự nếu cùng rỗng hoặc tỉ lệ token chung (Jaccard) >= 0.5
+ */
+function notesSimilar(a: string | null | undefined, b: string | null | undefined) {
+  const tokensA = normalizeNoteTokens(a);
+  const tokensB = normalizeNoteTokens(b);
+  if (tokensA.size === 0 && tokensB.size === 0) return true;
+  if (tokensA.size === 0 || tokensB.size === 0) return false;
+
+  const common = [...tokensA].filter((token) => tokensB.has(token)).length;
+  return common / (tokensA.size + tokensB.size - common) >= 0.5;
+}
+
+/**
+ * Khoá nhóm giao dịch có thể trùng nhau: cùng type, số tiền, danh mục và ví
+ */
+function duplicateGroupKey(transaction: {
+  type: string;
+  amount: Prisma.Decimal;
+  categoryId: string | null;
+  entries: { walletId: string; direction: string; isFee: boolean }[];
+}) {
+  const wallets = ['out', 'in']
+    .map((direction) => transaction.entries.find((entry) => entry.direction === direction && !entry.isFee)?.walletId ?? '')
+    .join('>');
+  return [transaction.type, transaction.amount.toFixed(2), transaction.categoryId ?? '', wallets].join('|');
+}
+
+/**
+ * Tạo giao dịch theo type, data đã được áp dụng quy tắc tự phân loại
+ */
+async function createCategorizedTransaction(
+  data: CreateTransactionData,
+  userId: string,
+  options: CreateTransactionOptions = {}
+) {
+  switch (data.type) {
+    case 'income':
+      return await createIncomeTransaction(data, userId, options);
+
+    case 'expense':
+      return await createExpenseTransaction(data, userId, options);
+
+    case 'transfer':
+      return await createTransferTransaction(data, userId, options);
+
+    default:
+      throw new Error('UNSUPPORTED_TRANSACTION_TYPE');
+  }
+}
+
+export const TransactionService = {
+  /**
+   * Tạo giao dịch mới
+   * Tự động xử lý các loại transaction khác nhau và cập nhật balance
+   * Income/expense được áp dụng quy tắc tự phân loại (danh mục khi không gửi categoryId/splits, tag gộp thêm)
+   *
+   * @param data - Dữ liệu giao dịch đã validate
+   * @param userId - ID của user thực hiện giao dịch
+   * @param options - Thông tin nguồn gốc (VD: recurringRuleId khi sinh từ rule định kỳ, externalId khi import sao kê)
+   * @returns Transaction object với entries
+   * @throws Error nếu validation fail hoặc có lỗi database
+   */
+  async createTransaction(data: CreateTransactionData, userId: string, options: CreateTransactionOptions = {}) {
+    [data] = await applyCategorizationRules([data], userId);
+    return await createCategorizedTransaction(data, userId, options);
+  },
+
+  /**
+   * Tạo giao dịch từ request của user, có cảnh báo nghi trùng
+   * Quy tắc tự phân loại được áp dụng trước để danh mục do rule điền cũng được dùng khi so trùng,
+   * bỏ qua kiểm tra nghi trùng nếu data.force = true
+   *
+   * @param data - Dữ liệu giao dịch đã validate
+   * @param userId - ID của user thực hiện giao dịch
+   * @returns { transaction } khi đã tạo hoặc { duplicates } (chưa tạo) nếu có giao dịch nghi trùng
+   */
+  async createTransactionWithDuplicateCheck(data: CreateTransactionData, userId: string) {
+    [data] = await applyCategorizationRules([data], userId);
+
+    if (!data.force) {
+      const duplicates = await TransactionService.findDuplicateCandidates(data, userId);
+      if (duplicates.length > 0) {
+        return { transaction: null, duplicates };
+      }
+    }
+
+    return { transaction: await createCategorizedTransaction(data, userId), duplicates: [] };
+  },
+
+  /**
+   * Tạo nhiều giao dịch cùng lúc
+   * Ví/danh mục/quy tắc tự phân loại được load 1 lần và mọi item được validate trước khi ghi
+   * - atomic: 1 DB transaction cho cả batch, số dư được kiểm tra trên tổng biến động của batch
+   * - best_effort: mỗi item 1 DB transaction, item lỗi không ảnh hưởng item khác
+   *
+   * @param data - mode + danh sách item (cùng format createTransactionSchema)
+   * @param userId - ID của user thực hiện giao dịch
+   * @returns committed (atomic: cả batch đã ghi hay chưa), kết quả từng item và lỗi cấp batch nếu có
+   */
+  async createTransactionsBulk(data: BulkCreateTransactionsData, userId: string) {
+    const { mode } = data;
+    const items = await applyCategorizationRules(data.items, userId);
+    const lookups = await loadBulkLookups(items, userId);
+
+    // 1. Validate toàn bộ item trước khi ghi
+    const prepared = items.map((item, index) => {
+      try {
+        return { index, item: prepareBulkItem(item, lookups) };
+      } catch (error: any) {
+        return { index, error: toBulkError(error) };
+      }
+    });
+
+    const results: BulkItemResult[] = prepared.map(({ index, error }) => ({
+      index,
+      success: !error,
+      error
+    }));
+
+    if (mode === 'atomic') {
+      if (prepared.some((p) => p.error)) {
+        return { mode, committed: false, results };
+      }
+
+      try {
+        const transactions = await prisma.$transaction(async (tx) => {
+          const created = [];
+          const deltas = new Map<string, Prisma.Decimal>();
+          for (const { item } of prepared) {
+            created.push(await insertPreparedItem(tx, item!, userId));
+            collectWalletDeltas(item!.entries, 'apply', deltas);
+          }
+          await applyWalletDeltas(tx, deltas);
+          return created;
+        }, { timeout: 60_000 });
+
+        transactions.forEach((transaction, i) => {
+          results[i].transaction = transaction;
+        });
+        return { mode, committed: true, results };
+      } catch (error: any) {
+        // Lỗi nghiệp vụ cấp batch (VD: tổng chi vượt số dư ví) => rollback toàn bộ
+        if (!ErrorMap[error.message]) throw error;
+        return {
+          mode,
+          committed: false,
+          error: toBulkError(error),
+          results: results.map((result) => ({ ...result, success: false }))
+        };
+      }
+    }
+
+    // best_effort: ghi từng item hợp lệ trong DB transaction riêng
+    for (const { index, item } of prepared) {
+      if (!item) continue;
+      try {
+        results[index].transaction = await prisma.$transaction(async (tx) => {
+          const transaction = await insertPreparedItem(tx, item, userId);
+          await applyWalletDeltas(tx, collectWalletDeltas(item.entries, 'apply'));
+          return transaction;
+        });
+      } catch (error: any) {
+        results[index].success = false;
+        results[index].error = toBulkError(error);
+      }
+    }
+
+    return {
+      mode,
+      committed: results.some((result) => result.success),
+      results
+    };
+  },
+
+  /**
+   * Lấy chi tiết giao dịch theo ID kèm nguồn gốc
+   * Bao gồm entries + ví, danh mục + chuỗi danh mục cha, LoanPayment + Loan (trả/thu nợ)
+   * hoặc Loan mà giao dịch này là giao dịch giải ngân gốc, RecurringRule nếu được sinh tự động,
+   * các refund (kèm tổng đã hoàn) hoặc giao dịch gốc nếu đây là refund
+   *
+   * @param transactionId - ID của giao dịch
+   * @param userId - ID của user (để verify ownership)
+   * @returns Transaction object với categoryPath hoặc null nếu không tìm thấy
+   */
+  async getTransactionById(transactionId: string, userId: string) {
+    const transaction = await prisma.transaction.findFirst({
+      where: { id: transactionId, userId, deletedAt: null },
+      include: {
+        entries: {
+          include: {
+            wallet: true,
+            category: true
+          }
+        },
+        category: true,
+        splits: {
+          include: {
+            category: true
+          }
+        },
+        loanPayment: {
+          include: {
+            loan: true
+          }
+        },
+        loan: true,
+        recurringRule: {
+          select: { id: true, name: true, frequency: true }
+        },
+        tags: { include: { tag: true } },
+        payee: true,
+        refundOf: {
+          select: { id: true, transactionDate: true, amount: true, note: true }
+        },
+        refunds: {
+          where: { deletedAt: null },
+          select: { id: true, transactionDate: true, amount: true, categoryId: true, note: true },
+          orderBy: { transactionDate: 'asc' }
+        }
+      }
+    });
+
+    if (!transaction) {
+      return null;
+    }
+
+    // Chuỗi danh mục từ gốc -> danh mục của giao dịch (VD: [Ăn uống, Cà phê])
+    const categoryPath: { id: string; name: string; icon: string | null }[] = [];
+    let parentId = transaction.category?.parentId ?? null;
+    if (transaction.category) {
+      categoryPath.push({
+        id: transaction.category.id,
+        name: transaction.category.name,
+        icon: transaction.category.icon
+      });
+    }
+    // Giới hạn độ sâu để tránh vòng lặp nếu dữ liệu bị tham chiếu vòng
+    while (parentId && categoryPath.length < 10) {
+      const parent = await prisma.category.findFirst({
+        where: { id: parentId, userId },
+        select: { id: true, name: true, icon: true, parentId: true }
+      });
+      if (!parent) break;
+      categoryPath.unshift({ id: parent.id, name: parent.name, icon: parent.icon });
+      parentId = parent.parentId;
+    }
+
+    return {
+      ...transaction,
+      categoryPath,
+      refundedAmount: transaction.refunds.reduce(
+        (sum, refund) => sum.plus(refund.amount),
+        new Prisma.Decimal(0)
+      )
+    };
+  },
+
+  /**
+   * Cập nhật giao dịch
+   * Hoàn tác entries cũ, tạo entries mới theo dữ liệu sau khi merge và cập nhật lại số dư ví
+   * Field không gửi lên sẽ giữ nguyên; khi đổi type phải gửi đủ ví/danh mục cho type mới
+   *
+   * @param transactionId - ID của giao dịch cần cập nhật
+   * @param userId - ID của user sở hữu giao dịch
+   * @param data - Dữ liệu cập nhật đã validate
+   * @returns Transaction object đã cập nhật với entries
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu giao dịch không tồn tại hoặc đã xoá
+   * @throws Error('TRANSACTION_LINKED_TO_LOAN') nếu giao dịch thuộc luồng vay nợ
+   * @throws Error('TRANSACTION_IS_REFUND') nếu giao dịch là refund
+   * @throws Error('TRANSACTION_IS_ADJUSTMENT') nếu giao dịch là điều chỉnh số dư
+   * @throws Error('TRANSACTION_RECONCILED') nếu giao dịch đã chốt đối chiếu (phải unlock trước)
+   * @throws Error('TRANSACTION_HAS_REFUNDS') nếu đổi type hoặc giảm amount dưới tổng đã hoàn của giao dịch đã hoàn tiền
+   * @throws Error('TRANSACTION_UPDATE_MISSING_FIELDS') nếu thiếu ví/danh mục cho type mới
+   * @throws Error('TRANSACTION_MODIFIED') nếu giao dịch bị request khác sửa/đối chiếu trong lúc cập nhật
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu ví không đủ số dư sau khi cập nhật
+   */
+  async updateTransaction(transactionId: string, userId: string, data: UpdateTransactionData) {
+    const existing = await prisma.transaction.findFirst({
+      where: { id: transactionId, userId, deletedAt: null },
+      include: {
+        entries: true,
+        splits: true,
+        loanPayment: { select: { id: true } }
+      }
+    });
+
+    if (!existing) {
+      throw new Error('TRANSACTION_NOT_FOUND');
+    }
+
+    // Giao dịch vay nợ phải sửa qua luồng Loan để outstandingAmount không bị lệch
+    if (existing.loanPayment || existing.loanId) {
+      throw new Error('TRANSACTION_LINKED_TO_LOAN');
+    }
+    // Refund gắn với giao dịch gốc: xoá và hoàn tiền lại thay vì sửa
+    if (existing.type === 'refund') {
+      throw new Error('TRANSACTION_IS_REFUND');
+    }
+    // Adjustment ghi chênh lệch số dư: xoá rồi điều chỉnh số dư lại thay vì sửa
+    if (existing.type === 'adjustment') {
+      throw new Error('TRANSACTION_IS_ADJUSTMENT');
+    }
+    assertNotReconciled(existing);
+
+    // Merge dữ liệu mới với dữ liệu cũ
+    const type = data.type ?? existing.type;
+    const amount = data.amount ?? existing.amount.toNumber();
+
+    const transactionDate = data.transactionDate ?? existing.transactionDate;
+    const note = data.note !== undefined ? data.note : existing.note;
+
+    const oldOutEntry = existing.entries.find((e) => e.direction === 'out' && !e.isFee);
+    const oldInEntry = existing.entries.find((e) => e.direction === 'in');
+    const oldFeeEntry = existing.entries.find((e) => e.isFee);
+
+    let categoryId: string | null = null;
+    let splits: TransactionSplitData[] | null = null;
+    let newEntries: BalanceEntry[];
+    let currency: string;
+    let exchangeRate: Prisma.Decimal | null = null;
+
+    if (type === 'transfer') {
+      const fromWalletId = data.fromWalletId ?? (existing.type === 'transfer' ? oldOutEntry?.walletId : undefined);
+      const toWalletId = data.toWalletId ?? (existing.type === 'transfer' ? oldInEntry?.walletId : undefined);
+      if (!fromWalletId || !toWalletId) {
+        throw new Error('TRANSACTION_UPDATE_MISSING_FIELDS');
+      }
+      if (fromWalletId === toWalletId) {
+        throw new Error('SAME_WALLET_TRANSFER');
+      }
+
+      // Giữ số tiền nhận/phí cũ nếu giao dịch cũ là transfer và request không gửi (null => bỏ)
+      const wasTransfer = existing.type === 'transfer';
+      const oldToAmount = wasTransfer && oldInEntry && !oldInEntry.amount.equals(existing.amount)
+        ? oldInEntry.amount.toNumber()
+        : null;
+      const toAmount = data.toAmount !== undefined ? data.toAmount : oldToAmount;
+      const fee = data.fee !== undefined ? data.fee : (wasTransfer ? oldFeeEntry?.amount.toNumber() ?? null : null);
+      const feeCategoryId = data.feeCategoryId ?? (wasTransfer ? oldFeeEntry?.categoryId ?? null : null);
+      if (fee && !feeCategoryId) {
+        throw new Error('TRANSACTION_UPDATE_MISSING_FIELDS');
+      }
+
+      const fromWallet = await validateWalletOwnership(fromWalletId, userId);
+      const toWallet = await validateWalletOwnership(toWalletId, userId);
+      if (fee) {
+        await validateCategoryOwnership(feeCategoryId!, userId, 'expense');
+      }
+
+      // Khác tiền tệ và không gửi toAmount: vẫn cùng cặp ví và ngày => giữ tỷ giá cũ
+      // (không đổi amount thì giữ nguyên cả số tiền nhận), ngược lại tra lại bảng tỷ giá
+      let conversion: { toAmount: number | null; exchangeRate: Prisma.Decimal | null };
+      const crossCurrency = fromWallet.currency !== toWallet.currency;
+      const samePair = wasTransfer
+        && fromWalletId === oldOutEntry?.walletId
+        && toWalletId === oldInEntry?.walletId
+        && data.transactionDate === undefined
+        && existing.exchangeRate !== null;
+
+      if (crossCurrency && data.toAmount === undefined && samePair && data.amount === undefined) {
+        conversion = { toAmount: oldInEntry!.amount.toNumber(), exchangeRate: existing.exchangeRate };
+      } else if (crossCurrency && data.toAmount === undefined) {
+        const rate = samePair
+          ? existing.exchangeRate!
+          : await getExchangeRate(userId, fromWallet.currency, toWallet.currency, transactionDate);
+        conversion = resolveTransferConversion(
+          { amount, toAmount: null, fromCurrency: fromWallet.currency, toCurrency: toWallet.currency },
+          rate
+        );
+      } else {
+        conversion = resolveTransferConversion(
+          { amount, toAmount, fromCurrency: fromWallet.currency, toCurrency: toWallet.currency },
+          null
+        );
+      }
+      currency = fromWallet.currency;
+      exchangeRate = conversion.exchangeRate;
+
+      newEntries = buildTransferEntries({
+        fromWalletId,
+        toWalletId,
+        amount,
+        toAmount: conversion.toAmount,
+        fee,
+        feeCategoryId
+      });
+    } else {
+      // Income/expense: giữ ví cũ nếu giao dịch cũ cũng là income/expense
+      const walletId = data.walletId ?? (existing.type !== 'transfer' ? existing.entries[0]?.walletId : undefined);
+
+      // Danh mục: categoryId hoặc splits mới thay thế hoàn toàn cái cũ
+      // Chỉ giữ category/splits cũ khi không đổi type (category có type riêng)
+      if (data.splits) {
+        splits = data.splits;
+      } else if (data.categoryId) {
+        categoryId = data.categoryId;
+      } else if (existing.type === type) {
+        categoryId = existing.categoryId;
+        if (existing.splits.length > 0) {
+          splits = existing.splits.map((split) => ({
+            categoryId: split.categoryId,
+            amount: split.amount.toNumber(),
+            note: split.note ?? undefined
+          }));
+        }
+      }
+
+      if (!walletId || (!categoryId && !splits)) {
+        throw new Error('TRANSACTION_UPDATE_MISSING_FIELDS');
+      }
+
+      ({ currency } = await validateWalletOwnership(walletId, userId));
+      if (splits) {
+        // Đổi amount mà giữ splits cũ => tổng splits phải khớp amount mới
+        await validateSplits(splits, amount, userId, type);
+      } else {
+        await validateCategoryOwnership(categoryId!, userId, type);
+      }
+
+      newEntries = [
+        { walletId, direction: type === 'income' ? 'in' : 'out', amount }
+      ];
+    }
+
+    // Gửi tags => thay toàn bộ tag cũ
+    const tags = data.tags !== undefined ? await buildTagLinks(userId, data.tags) : undefined;
+
+    // Payee: gửi payeeId (null => bỏ) hoặc payeeName để đổi, transfer không có payee
+    const payeeChanged = data.payeeId !== undefined || data.payeeName !== undefined;
+    let payeeId = payeeChanged ? await resolveTransactionPayeeId(userId, data) : existing.payeeId;
+    if (type === 'transfer') {
+      payeeId = null;
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      // 1. Khoá và đọc lại giao dịch: dữ liệu đã validate ở trên phải còn nguyên (không bị sửa/xoá/đối chiếu
+      //    bởi request đồng thời), entries hoàn tác lấy từ bản đã khoá
+      await lockTransactionRow(tx, transactionId);
+      const current = await tx.transaction.findFirst({
+        where: { id: transactionId, userId, deletedAt: null },
+        include: { entries: true }
+      });
+      if (!current) {
+        throw new Error('TRANSACTION_NOT_FOUND');
+      }
+      if (current.updatedAt.getTime() !== existing.updatedAt.getTime()) {
+        throw new Error('TRANSACTION_MODIFIED');
+      }
+
+      // Giao dịch đã được hoàn tiền phải giữ type expense và amount >= tổng đã hoàn
+      // (tính sau khi khoá: tạo refund cũng khoá giao dịch gốc)
+      if (existing.type === 'expense' && (type !== 'expense' || data.amount !== undefined)) {
+        const refundedAmount = await sumActiveRefunds(tx, transactionId);
+        if (refundedAmount.greaterThan(0) && (type !== 'expense' || refundedAmount.greaterThan(amount))) {
+          throw new Error('TRANSACTION_HAS_REFUNDS');
+        }
+      }
+
+      // 2. Tính biến động số dư: hoàn tác entries cũ + áp dụng entries mới
+      const deltas = collectWalletDeltas(current.entries, 'revert');
+      collectWalletDeltas(newEntries, 'apply', deltas);
+
+      // 3. Cập nhật currentBalance (kiểm tra số dư trong cùng DB transaction)
+      await applyWalletDeltas(tx, deltas);
+
+      // 4. Thay entries/splits cũ bằng entries/splits mới
+      await tx.transactionEntry.deleteMany({
+        where: { transactionId }
+      });
+      await tx.transactionSplit.deleteMany({
+        where: { transactionId }
+      });
+      if (data.tags !== undefined) {
+        await tx.transactionTag.deleteMany({
+          where: { transactionId }
+        });
+      }
+
+      // 5. Ghi nhớ danh mục cho payee khi đổi payee/danh mục
+      if (payeeChanged || data.categoryId !== undefined) {
+        await rememberPayeeCategory(tx, payeeId, splits ? null : categoryId);
+      }
+
+      // 6. Cập nhật Transaction header
+      return await tx.transaction.update({
+        where: { id: transactionId },
+        data: {
+          type,
+          transactionDate,
+          categoryId: splits ? null : categoryId,
+          amount,
+          currency,
+          exchangeRate,
+          note,
+          payeeId,
+          status: data.status,
+          entries: {
+            create: newEntries.map(toEntryCreateInput)
+          },
+          splits: splits ? { create: splits } : undefined,
+          tags
+        },
+        include: {
+          entries: true,
+          category: true,
+          splits: true,
+          tags: { include: { tag: true } },
+          payee: true
+        }
+      });
+    });
+  },
+
+  /**
+   * Xoá giao dịch (soft delete)
+   * Set deletedAt và hoàn tác ảnh hưởng của các entries lên số dư ví
+   *
+   * @param transactionId - ID của giao dịch cần xoá
+   * @param userId - ID của user sở hữu giao dịch
+   * @returns Transaction object đã xoá
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu giao dịch không tồn tại hoặc đã xoá
+   * @throws Error('TRANSACTION_LINKED_TO_LOAN') nếu giao dịch thuộc luồng vay nợ
+   * @throws Error('TRANSACTION_RECONCILED') nếu giao dịch đã chốt đối chiếu (phải unlock trước)
+   * @throws Error('TRANSACTION_HAS_REFUNDS') nếu giao dịch chi tiêu còn refund chưa xoá
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu hoàn tác làm số dư ví bị âm
+   */
+  async deleteTransaction(transactionId: string, userId: string) {
+    return await prisma.$transaction(async (tx) => {
+      // Khoá trước khi đọc: 2 lần xoá đồng thời không cùng hoàn tác số dư
+      await lockTransactionRow(tx, transactionId);
+      const transaction = await tx.transaction.findFirst({
+        where: { id: transactionId, userId, deletedAt: null },
+        include: {
+          entries: true,
+          loanPayment: { select: { id: true } }
+        }
+      });
+
+      if (!transaction) {
+        throw new Error('TRANSACTION_NOT_FOUND');
+      }
+
+      // Giao dịch trả/thu nợ hoặc giải ngân phải xoá qua Loan để outstandingAmount không bị lệch
+      if (transaction.loanPayment || transaction.loanId) {
+        throw new Error('TRANSACTION_LINKED_TO_LOAN');
+      }
+      assertNotReconciled(transaction);
+
+      // Xoá giao dịch gốc khi còn refund sẽ để lại refund không có giao dịch chi tiêu tương ứng
+      if (transaction.type === 'expense' && (await sumActiveRefunds(tx, transactionId)).greaterThan(0)) {
+        throw new Error('TRANSACTION_HAS_REFUNDS');
+      }
+
+      // 1. Hoàn tác số dư ví
+      await applyWalletDeltas(tx, collectWalletDeltas(transaction.entries, 'revert'));
+
+      // 2. Soft delete transaction
+      return await tx.transaction.update({
+        where: { id: transactionId },
+        data: { deletedAt: new Date() },
+        include: {
+          entries: true,
+          category: true
+        }
+      });
+    });
+  },
+
+  /**
+   * Khôi phục giao dịch đã xoá (soft delete)
+   * Áp dụng lại các entries lên số dư ví, kiểm tra số dư như khi tạo mới
+   *
+   * @param transactionId - ID của giao dịch cần khôi phục
+   * @param userId - ID của user sở hữu giao dịch
+   * @returns Transaction object đã khôi phục
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu không có giao dịch đã xoá với ID này
+   * @throws Error('TRANSACTION_LINKED_TO_LOAN') nếu giao dịch thuộc luồng vay nợ
+   * @throws Error('TRANSACTION_WALLET_NOT_FOUND') nếu ví của giao dịch đã bị archive
+   * @throws Error('REFUND_INVALID_TRANSACTION') nếu refund có giao dịch gốc đã bị xoá
+   * @throws Error('REFUND_EXCEEDS_ORIGINAL') nếu khôi phục refund làm tổng tiền hoàn vượt amount gốc
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu ví không đủ số dư
+   */
+  async restoreTransaction(transactionId: string, userId: string) {
+    return await prisma.$transaction(async (tx) => {
+      // Khoá trước khi đọc: 2 lần khôi phục đồng thời không cùng áp dụng lại số dư
+      // Refund => khoá cả giao dịch gốc để tổng tiền hoàn tính bên dưới không lệch với lần hoàn tiền đồng thời
+      const refundOfId = await lockTransactionRow(tx, transactionId);
+      if (refundOfId) {
+        await lockTransactionRow(tx, refundOfId);
+      }
+      const transaction = await tx.transaction.findFirst({
+        where: { id: transactionId, userId, deletedAt: { not: null } },
+        include: {
+          entries: {
+            include: {
+              wallet: { select: { isArchived: true } }
+            }
+          },
+          loanPayment: { select: { id: true } }
+        }
+      });
+
+      if (!transaction) {
+        throw new Error('TRANSACTION_NOT_FOUND');
+      }
+
+      if (transaction.loanPayment || transaction.loanId) {
+        throw new Error('TRANSACTION_LINKED_TO_LOAN');
+      }
+
+      if (transaction.entries.some((entry) => entry.wallet.isArchived)) {
+        throw new Error('TRANSACTION_WALLET_NOT_FOUND');
+      }
+
+      // Refund chỉ khôi phục được khi giao dịch gốc còn và tổng tiền hoàn vẫn không vượt amount gốc
+      if (transaction.type === 'refund') {
+        const original = await tx.transaction.findFirst({
+          where: { id: transaction.refundOfId ?? undefined, userId, deletedAt: null },
+          select: { amount: true }
+        });
+        if (!original) {
+          throw new Error('REFUND_INVALID_TRANSACTION');
+        }
+        const refundedAmount = await sumActiveRefunds(tx, transaction.refundOfId!);
+        if (refundedAmount.plus(transaction.amount).greaterThan(original.amount)) {
+          throw new Error('REFUND_EXCEEDS_ORIGINAL');
+        }
+      }
+
+      // 1. Áp dụng lại số dư ví
+      await applyWalletDeltas(tx, collectWalletDeltas(transaction.entries, 'apply'));
+
+      // 2. Bỏ đánh dấu xoá
+      return await tx.transaction.update({
+        where: { id: transactionId },
+        data: { deletedAt: null },
+        include: {
+          entries: true,
+          category: true
+        }
+      });
+    });
+  },
+
+  /**
+   * Hoàn tiền (1 phần hoặc toàn bộ) cho giao dịch chi tiêu
+   * Tạo giao dịch refund gắn với giao dịch gốc: 1 entry (in) vào ví của giao dịch gốc,
+   * danh mục = danh mục chi tiêu của giao dịch gốc (báo cáo trừ vào chi tiêu, không tính là thu nhập),
+   * payee và tag lấy theo giao dịch gốc
+   *
+   * @param transactionId - ID của giao dịch chi tiêu gốc
+   * @param userId - ID của user sở hữu giao dịch
+   * @param data - Số tiền, ngày, ghi chú, trạng thái và danh mục (bắt buộc nếu giao dịch gốc là split)
+   * @returns Refund đã tạo, tổng tiền đã hoàn và số tiền còn có thể hoàn
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu giao dịch gốc không tồn tại hoặc đã xoá
+   * @throws Error('REFUND_INVALID_TRANSACTION') nếu giao dịch gốc không phải chi tiêu hoặc thuộc luồng vay nợ
+   * @throws Error('REFUND_CATEGORY_INVALID') nếu categoryId không thuộc giao dịch gốc
+   * @throws Error('TRANSACTION_WALLET_NOT_FOUND') nếu ví của giao dịch gốc đã bị archive
+   * @throws Error('REFUND_EXCEEDS_ORIGINAL') nếu tổng tiền hoàn vượt amount của giao dịch gốc
+   */
+  async createRefund(transactionId: string, userId: string, data: CreateRefundData) {
+    const original = await prisma.transaction.findFirst({
+      where: { id: transactionId, userId, deletedAt: null },
+      include: {
+        entries: { include: { wallet: { select: { isArchived: true } } } },
+        splits: { select: { categoryId: true } },
+        tags: { select: { tagId: true } },
+        loanPayment: { select: { id: true } }
+      }
+    });
+
+    if (!original) {
+      throw new Error('TRANSACTION_NOT_FOUND');
+    }
+    if (original.type !== 'expense' || original.loanPayment || original.loanId) {
+      throw new Error('REFUND_INVALID_TRANSACTION');
+    }
+
+    // Danh mục được giảm chi tiêu: danh mục của giao dịch gốc hoặc 1 trong các dòng split
+    const originalCategoryIds = original.splits.length > 0
+      ? original.splits.map((split) => split.categoryId)
+      : original.categoryId ? [original.categoryId] : [];
+    const categoryId = data.categoryId ?? (original.splits.length > 0 ? undefined : original.categoryId);
+    if (!categoryId || !originalCategoryIds.includes(categoryId)) {
+      throw new Error('REFUND_CATEGORY_INVALID');
+    }
+
+    const entry = original.entries.find((e) => e.direction === 'out' && !e.isFee);
+    if (!entry || entry.wallet.isArchived) {
+      throw new Error('TRANSACTION_WALLET_NOT_FOUND');
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      // Khoá giao dịch gốc rồi mới tính tổng đã hoàn: 2 lần hoàn tiền đồng thời phải chờ nhau
+      // => không cùng vượt qua kiểm tra rồi tổng vượt amount gốc (sửa/xoá giao dịch gốc cũng khoá dòng này)
+      await lockTransactionRow(tx, transactionId);
+      const locked = await tx.transaction.findFirst({
+        where: { id: transactionId, userId, deletedAt: null, type: 'expense' },
+        select: { amount: true }
+      });
+      if (!locked) {
+        throw new Error('TRANSACTION_NOT_FOUND');
+      }
+
+      const refundedAmount = await sumActiveRefunds(tx, transactionId);
+      const totalRefunded = refundedAmount.plus(data.amount);
+      if (totalRefunded.greaterThan(locked.amount)) {
+        throw new Error('REFUND_EXCEEDS_ORIGINAL');
+      }
+
+      const refund = await tx.transaction.create({
+        data: {
+          userId,
+          type: 'refund',
+          transactionDate: data.transactionDate,
+          categoryId,
+          amount: data.amount,
+          currency: original.currency,
+          note: data.note,
+          payeeId: original.payeeId,
+          status: data.status,
+          refundOfId: transactionId,
+          entries: {
+            create: {
+              walletId: entry.walletId,
+              direction: 'in',
+              amount: data.amount
+            }
+          },
+          tags: original.tags.length > 0
+            ? { create: original.tags.map(({ tagId }) => ({ tagId })) }
+            : undefined
+        },
+        include: {
+          entries: true,
+          category: true,
+          tags: { include: { tag: true } },
+          payee: true
+        }
+      });
+
+      await creditWallet(tx, entry.walletId, data.amount);
+
+      return {
+        refund,
+        refundedAmount: totalRefunded,
+        refundableAmount: locked.amount.minus(totalRefunded)
+      };
+    });
+  },
+
+  /**
+   * Đánh dấu trạng thái đối chiếu (pending/cleared) cho nhiều giao dịch
+   * Chỉ đổi status nên số dư ví không bị ảnh hưởng
+   *
+   * @param data - Danh sách transactionIds và status mới
+   * @param userId - ID của user sở hữu giao dịch
+   * @returns Số giao dịch đã cập nhật
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu có giao dịch không tồn tại hoặc đã xoá
+   * @throws Error('TRANSACTION_RECONCILED') nếu có giao dịch đã chốt đối chiếu (phải unlock trước)
+   */
+  async updateTransactionStatus(data: UpdateTransactionStatusData, userId: string) {
+    const transactionIds = [...new Set(data.transactionIds)];
+
+    return await prisma.$transaction(async (tx) => {
+      const transactions = await tx.transaction.findMany({
+        where: { id: { in: transactionIds }, userId, deletedAt: null },
+        select: { id: true, status: true }
+      });
+      if (transactions.length !== transactionIds.length) {
+        throw new Error('TRANSACTION_NOT_FOUND');
+      }
+      transactions.forEach(assertNotReconciled);
+
+      const { count } = await tx.transaction.updateMany({
+        where: { id: { in: transactionIds }, userId, status: { not: 'reconciled' } },
+        data: { status: data.status }
+      });
+      return { status: data.status, updatedCount: count };
+    });
+  },
+
+  /**
+   * Mở khoá giao dịch đã chốt đối chiếu (reconciled => cleared) để có thể sửa/xoá
+   * Số dư đối chiếu của lần reconcile trước có thể không còn khớp nếu giao dịch bị sửa
+   *
+   * @param transactionId - ID của giao dịch
+   * @param userId - ID của user sở hữu giao dịch
+   * @returns Transaction object đã mở khoá
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu giao dịch không tồn tại hoặc đã xoá
+   * @throws Error('TRANSACTION_NOT_RECONCILED') nếu giao dịch chưa bị khoá
+   */
+  async unlockTransaction(transactionId: string, userId: string) {
+    const transaction = await prisma.transaction.findFirst({
+      where: { id: transactionId, userId, deletedAt: null },
+      select: { status: true }
+    });
+
+    if (!transaction) {
+      throw new Error('TRANSACTION_NOT_FOUND');
+    }
+    if (transaction.status !== 'reconciled') {
+      throw new Error('TRANSACTION_NOT_RECONCILED');
+    }
+
+    return await prisma.transaction.update({
+      where: { id: transactionId },
+      data: { status: 'cleared', reconciliationId: null },
+      include: {
+        entries: true,
+        category: true
+      }
+    });
+  },
+
+  /**
+   * Xoá vĩnh viễn giao dịch đã soft delete (không thể khôi phục)
+   * Số dư ví đã được hoàn tác khi soft delete nên không cần cập nhật lại;
+   * entries, splits, tag, file đính kèm và các refund (đã xoá) bị xoá theo, file trong storage được dọn sau khi xoá DB
+   *
+   * @param transactionId - ID của giao dịch
+   * @param userId - ID của user sở hữu giao dịch
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu giao dịch không tồn tại
+   * @throws Error('TRANSACTION_NOT_DELETED') nếu giao dịch chưa bị xoá (phải soft delete trước)
+   */
+  async purgeTransaction(transactionId: string, userId: string) {
+    const transaction = await prisma.transaction.findFirst({
+      where: { id: transactionId, userId },
+      select: {
+        deletedAt: true,
+        attachments: { select: { storageKey: true, thumbnailKey: true } },
+        refunds: {
+          select: { attachments: { select: { storageKey: true, thumbnailKey: true } } }
+        }
+      }
+    });
+
+    if (!transaction) {
+      throw new Error('TRANSACTION_NOT_FOUND');
+    }
+    if (!transaction.deletedAt) {
+      throw new Error('TRANSACTION_NOT_DELETED');
+    }
+
+    await prisma.transaction.delete({ where: { id: transactionId } });
+    await removeAttachmentFiles([
+      ...transaction.attachments,
+      ...transaction.refunds.flatMap((refund) => refund.attachments)
+    ]);
+
+    return { id: transactionId, purged: true };
+  },
+
+  /**
+   * Lấy danh sách giao dịch của user
+   * Có thể filter theo type, date range, category, wallet
+   * Có cursor (kể cả rỗng = trang đầu) => phân trang keyset theo (transactionDate, id), không đếm total;
+   * ngược lại dùng limit/offset như cũ
+   */
+  async getTransactions(userId: string, filters?: TransactionListFilters & {
+    limit?: number;
+    offset?: number;
+    cursor?: string;
+  }) {
+    const { limit = 50, offset = 0, cursor, ...listFilters } = filters || {};
+
+    const where = buildTransactionListWhere(userId, listFilters);
+    const include = {
+      entries: {
+        include: {
+          wallet: true
+        }
+      },
+      category: true,
+      splits: {
+        include: {
+          category: true
+        }
+      },
+      tags: { include: { tag: true } },
+      payee: true
+    } satisfies Prisma.TransactionInclude;
+
+    if (cursor !== undefined) {
+      const { items, pagination } = await findCursorPage(TRANSACTION_CURSOR_KEYS, cursor, limit, (page) =>
+        prisma.transaction.findMany({ where: { AND: [where, page.where] }, include, orderBy: page.orderBy, take: page.take })
+      );
+      return { transactions: items, pagination };
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where,
+      include,
+      orderBy: {
+        transactionDate: 'desc'
+      },
+      take: limit,
+      skip: offset
+    });
+
+    // Đếm total records
+    const total = await prisma.transaction.count({ where });
+
+    return {
+      transactions,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Tìm kiếm giao dịch theo câu truy vấn, kết hợp với bộ lọc của getTransactions
+   * Mọi từ khoá đều phải khớp (mỗi từ khoá khớp ít nhất 1 trường: note, danh mục, ví, payee, người vay/cho vay);
+   * biểu thức số tiền và từ khoá ngày trong câu truy vấn được áp dụng thêm vào bộ lọc
+   *
+   * @param userId - ID của user
+   * @param query - Câu truy vấn (VD: "an uong >500k thang truoc")
+   * @param filters - Bộ lọc giống getTransactions và phân trang
+   * @returns Giao dịch khớp (kèm highlights), câu truy vấn đã phân tích và pagination info
+   */
+  async searchTransactions(userId: string, query: string, filters: TransactionListFilters & {
+    limit?: number;
+    offset?: number;
+  } = {}) {
+    const { limit = 50, offset = 0, ...listFilters } = filters;
+    const parsed = parseSearchQuery(query);
+
+    const conditions: Prisma.TransactionWhereInput[] = [
+      buildTransactionListWhere(userId, listFilters),
+      ...parsed.terms.map(buildSearchTermWhere),
+      ...parsed.amounts.map((amount) => ({ amount }))
+    ];
+    if (parsed.dateRange) {
+      conditions.push({
+        transactionDate: { gte: parsed.dateRange.startDate, lte: parsed.dateRange.endDate }
+      });
+    }
+    const where: Prisma.TransactionWhereInput = { AND: conditions };
+
+    const [transactions, total] = await Promise.all([
+      prisma.transaction.findMany({
+        where,
+        include: searchInclude,
+        orderBy: [{ transactionDate: 'desc' }, { id: 'desc' }],
+        take: limit,
+        skip: offset
+      }),
+      prisma.transaction.count({ where })
+    ]);
+
+    return {
+      query: parsed,
+      transactions: transactions.map((transaction) => ({
+        ...transaction,
+        highlights: buildSearchHighlights({
+          note: transaction.note,
+          categories: [
+            ...(transaction.category ? [transaction.category.name] : []),
+            ...transaction.splits.map((split) => split.category.name)
+          ],
+          wallets: [...new Set(transaction.entries.map((entry) => entry.wallet.name))],
+          payee: transaction.payee?.name ?? null,
+          loanCounterparty:
+            transaction.loanPayment?.loan.counterpartyName ?? transaction.loan?.counterpartyName ?? null
+        }, parsed.terms)
+      })),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Duyệt toàn bộ giao dịch khớp bộ lọc để export (không giới hạn theo trang)
+   * Đọc theo từng batch với keyset cursor (transactionDate desc, id desc) để không giữ toàn bộ kết quả trong bộ nhớ
+   *
+   * @param userId - ID của user
+   * @param filters - Bộ lọc giống getTransactions (type, khoảng ngày, category, wallet, excludeLoanRelated)
+   * @returns Async iterator các dòng export
+   */
+  async *iterateTransactionsForExport(
+    userId: string,
+    filters: TransactionListFilters = {}
+  ): AsyncGenerator<TransactionExportRow> {
+    const where = buildTransactionListWhere(userId, filters);
+    let cursor: string | undefined;
+
+    while (true) {
+      const batch = await prisma.transaction.findMany({
+        where,
+        include: exportInclude,
+        orderBy: [{ transactionDate: 'desc' }, { id: 'desc' }],
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+
+      for (const transaction of batch) {
+        yield toExportRow(transaction);
+      }
+
+      if (batch.length < EXPORT_BATCH_SIZE) return;
+      cursor = batch[batch.length - 1].id;
+    }
+  },
+
+  /**
+   * Tìm giao dịch nghi trùng với giao dịch sắp tạo
+   * Trùng = cùng ví, cùng type, cùng số tiền, cùng danh mục, transactionDate lệch trong khoảng
+   * DUPLICATE_WINDOW_MINUTES và note tương tự
+   *
+   * @param data - Dữ liệu giao dịch sắp tạo (đã validate)
+   * @param userId - ID của user
+   * @returns Danh sách giao dịch nghi trùng (rỗng nếu không có hoặc kiểm tra bị tắt)
+   */
+  async findDuplicateCandidates(data: CreateTransactionData, userId: string) {
+    const windowMs = env.DUPLICATE_WINDOW_MINUTES * 60_000;
+    if (windowMs === 0) return [];
+
+    const date = data.transactionDate.getTime();
+    const walletWhere: Prisma.TransactionWhereInput = data.type === 'transfer'
+      ? {
+          AND: [
+            { entries: { some: { walletId: data.fromWalletId, direction: 'out' } } },
+            { entries: { some: { walletId: data.toWalletId, direction: 'in' } } }
+          ]
+        }
+      : {
+          categoryId: data.splits ? null : data.categoryId,
+          entries: { some: { walletId: data.walletId } }
+        };
+
+    const candidates = await prisma.transaction.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        type: data.type,
+        amount: data.amount,
+        transactionDate: {
+          gte: new Date(date - windowMs),
+          lte: new Date(date + windowMs)
+        },
+        ...walletWhere
+      },
+      include: {
+        entries: { include: { wallet: { select: { id: true, name: true } } } },
+        category: true
+      },
+      orderBy: { transactionDate: 'desc' },
+      take: 20
+    });
+
+    return candidates.filter((candidate) => notesSimilar(candidate.note, data.note));
+  },
+
+  /**
+   * Liệt kê các nhóm giao dịch nghi trùng (dọn dẹp sau khi import)
+   * Mỗi nhóm gồm các giao dịch cùng ví/type/số tiền/danh mục, note tương tự
+   * và nằm liên tiếp nhau trong khoảng windowMinutes
+   *
+   * @param userId - ID của user
+   * @param filters - Khoảng ngày cần quét (controller giới hạn tối đa 366 ngày), ví, độ rộng cửa sổ thời gian (phút)
+   * @returns Danh sách nhóm (mỗi nhóm >= 2 giao dịch), mới nhất trước
+   */
+  async getDuplicateGroups(userId: string, filters: {
+    startDate: Date;
+    endDate: Date;
+    walletId?: string;
+    windowMinutes: number;
+  }) {
+    const windowMs = filters.windowMinutes * 60_000;
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        transactionDate: { gte: filters.startDate, lte: filters.endDate },
+        ...(filters.walletId ? { entries: { some: { walletId: filters.walletId } } } : {})
+      },
+      // Chỉ lấy field cần để gom nhóm và trả về
+      select: {
+        id: true,
+        type: true,
+        transactionDate: true,
+        amount: true,
+        currency: true,
+        note: true,
+        status: true,
+        categoryId: true,
+        category: { select: { id: true, name: true } },
+        entries: {
+          select: {
+            walletId: true,
+            direction: true,
+            amount: true,
+            isFee: true,
+            wallet: { select: { id: true, name: true } }
+          }
+        }
+      },
+      orderBy: { transactionDate: 'asc' }
+    });
+
+    // Gom theo khoá, trong mỗi khoá ghép vào nhóm đang mở nếu còn trong cửa sổ thời gian và note tương tự
+    const openGroups = new Map<string, (typeof transactions)[]>();
+    const groups: (typeof transactions)[] = [];
+    for (const transaction of transactions) {
+      const key = duplicateGroupKey(transaction);
+      const keyGroups = openGroups.get(key) ?? [];
+      const time = transaction.transactionDate.getTime();
+
+      const group = keyGroups.find((members) =>
+        time - members[members.length - 1].transactionDate.getTime() <= windowMs &&
+        members.some((member) => notesSimilar(member.note, transaction.note))
+      );
+      if (group) {
+        group.push(transaction);
+      } else {
+        const newGroup = [transaction];
+        keyGroups.push(newGroup);
+        groups.push(newGroup);
+      }
+      openGroups.set(key, keyGroups);
+    }
+
+    const duplicateGroups = groups
+      .filter((members) => members.length > 1)
+      .reverse();
+
+    return {
+      windowMinutes: filters.windowMinutes,
+      totalGroups: duplicateGroups.length,
+      groups: duplicateGroups.slice(0, MAX_DUPLICATE_GROUPS).map((members) => ({
+        type: members[0].type,
+        amount: members[0].amount,
+        transactions: members
+      }))
+    };
+  },
+
+  /**
+   * Thống kê tổng tiền theo danh mục
+   * Giao dịch 1 danh mục tính theo Transaction.amount, giao dịch split tính theo từng dòng split,
+   * phí chuyển tiền tính vào category chi tiêu của entry phí; refund được trừ vào category chi tiêu gốc
+   * (tổng chi tiêu là số đã trừ hoàn tiền, có thể âm nếu hoàn tiền trong kỳ cho giao dịch kỳ trước)
+   * Tổng tiền được quy đổi sang tiền tệ gốc của user theo tỷ giá tại endDate (mặc định: hiện tại)
+   *
+   * @param userId - ID của user
+   * @param filters - type (income/expense), khoảng ngày, loại trừ giao dịch vay nợ
+   * @returns Danh sách category kèm tổng tiền (tiền tệ gốc) và số giao dịch, sắp xếp giảm dần theo tổng tiền
+   */
+  async getCategoryStats(userId: string, filters?: {
+    type?: 'income' | 'expense';
+    startDate?: Date;
+    endDate?: Date;
+    excludeLoanRelated?: boolean;
+  }) {
+    const { type, startDate, endDate, excludeLoanRelated = false } = filters || {};
+
+    const transactionWhere: any = {
+      userId,
+      deletedAt: null,
+      type: type ?? { in: ['income', 'expense'] }
+    };
+    if (startDate || endDate) {
+      transactionWhere.transactionDate = {};
+      if (startDate) transactionWhere.transactionDate.gte = startDate;
+      if (endDate) transactionWhere.transactionDate.lte = endDate;
+    }
+    if (excludeLoanRelated) {
+      transactionWhere.NOT = {
+        OR: [
+          { loanPayment: { isNot: null } },
+          { loanId: { not: null } }
+        ]
+      };
+    }
+
+    // Số tiền được gom theo từng tiền tệ rồi quy đổi sang tiền tệ gốc theo tỷ giá tại cuối kỳ
+    const converter = await createCurrencyConverter(userId, endDate ?? new Date());
+    // Tiền tệ lấy cả từ transfer vì phí chuyển tiền cũng được tính vào thống kê chi tiêu
+    const currencies = await prisma.transaction.groupBy({
+      by: ['currency'],
+      where: { ...transactionWhere, type: type === 'income' ? 'income' : undefined }
+    });
+
+    const totals = new Map<string, { totalAmount: Prisma.Decimal; transactionCount: number }>();
+    for (const { currency } of currencies) {
+      const currencyWhere = { ...transactionWhere, currency };
+
+      // 1. Giao dịch gắn trực tiếp 1 category
+      const direct = await prisma.transaction.groupBy({
+        by: ['categoryId'],
+        where: {
+          ...currencyWhere,
+          categoryId: { not: null }
+        },
+        _sum: { amount: true },
+        _count: { id: true }
+      });
+
+      // 2. Các dòng split của giao dịch nhiều danh mục
+      const split = await prisma.transactionSplit.groupBy({
+        by: ['categoryId'],
+        where: {
+          transaction: currencyWhere
+        },
+        _sum: { amount: true },
+        _count: { id: true }
+      });
+
+      // 3. Phí chuyển tiền (entry phí của transfer) tính là chi tiêu theo category của entry
+      const fee = type === 'income'
+        ? []
+        : await prisma.transactionEntry.groupBy({
+            by: ['categoryId'],
+            where: {
+              isFee: true,
+              transaction: { ...currencyWhere, type: 'transfer' }
+            },
+            _sum: { amount: true },
+            _count: { id: true }
+          });
+
+      // 4. Refund trừ vào chi tiêu của danh mục gốc (không đếm là giao dịch riêng)
+      const refund = type === 'income'
+        ? []
+        : await prisma.transaction.groupBy({
+            by: ['categoryId'],
+            where: {
+              ...currencyWhere,
+              type: 'refund',
+              categoryId: { not: null }
+            },
+            _sum: { amount: true }
+          });
+
+      // Gộp các nguồn theo categoryId (tiền tệ thiếu tỷ giá chỉ được đếm, không cộng tiền)
+      for (const row of [...direct, ...split, ...fee]) {
+        if (!row.categoryId) continue;
+        const current = totals.get(row.categoryId) ?? { totalAmount: new Prisma.Decimal(0), transactionCount: 0 };
+        const converted = converter.convert(row._sum.amount ?? 0, currency);
+        totals.set(row.categoryId, {
+          totalAmount: converted ? current.totalAmount.plus(converted) : current.totalAmount,
+          transactionCount: current.transactionCount + row._count.id
+        });
+      }
+      for (const row of refund) {
+        const current = totals.get(row.categoryId!) ?? { totalAmount: new Prisma.Decimal(0), transactionCount: 0 };
+        const converted = converter.convert(row._sum.amount ?? 0, currency);
+        totals.set(row.categoryId!, {
+          totalAmount: converted ? current.totalAmount.minus(converted) : current.totalAmount,
+          transactionCount: current.transactionCount
+        });
+      }
+    }
+
+    const categories = await prisma.category.findMany({
+      where: { id: { in: [...totals.keys()] }, userId },
+      select: { id: true, name: true, type: true, icon: true, parentId: true }
+    });
+
+    return {
+      categories: categories
+        .map((category) => ({
+          ...category,
+          totalAmount: totals.get(category.id)!.totalAmount,
+          transactionCount: totals.get(category.id)!.transactionCount
+        }))
+        .sort((a, b) => b.totalAmount.comparedTo(a.totalAmount)),
+      baseCurrency: converter.baseCurrency,
+      unconvertedCurrencies: converter.unconvertedCurrencies
     };
   }
 };
@@ -36,6 +36,9 @@ export const UsersController = {
    *                 role:
    *                   type: string
    *                   enum: [USER, ADMIN]
+   *                 baseCurrency:
+   *                   type: string
+   *                   example: VND
    *                 createdAt:
    *                   type: string
    *                   format: date-time
@@ -52,6 +55,43 @@ export const UsersController = {
     return res.json(me);
   },
 
+  /**
+   * @swagger
+   * /users/me:
+   *   put:
+   *     tags:
+   *       - Users
+   *     summary: Cập nhật thông tin user hiện tại
+   *     description: |
+   *       Cập nhật tên hoặc tiền tệ gốc (baseCurrency).
+   *       Tổng số dư ví, thống kê danh mục và khoản vay được quy đổi sang tiền tệ gốc theo bảng tỷ giá.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               name:
+   *                 type: string
+   *               baseCurrency:
+   *                 type: string
+   *                 example: VND
+   *     responses:
+   *       200:
+   *         description: Thông tin user sau khi cập nhật
+   *       400:
+   *         description: Dữ liệu không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async updateMe(req: Request, res: Response) {
+    const me = await UsersService.updateMe(req.user!.sub, req.body);
+    return res.json(me);
+  },
+
   /**
    * @swagger
    * /users:
@@ -0,0 +1,85 @@
+/**
+ * Wallet Balance
+ * Ghi biến động currentBalance của ví trong DB transaction, dùng chung cho mọi luồng làm thay đổi số dư
+ *
+ * Trừ tiền dùng UPDATE có điều kiện (currentBalance >= số tiền trừ): kiểm tra và trừ nằm trong cùng 1 câu lệnh,
+ * InnoDB khoá dòng ví đến hết transaction => 2 giao dịch đồng thời không thể cùng vượt qua kiểm tra số dư
+ * rồi làm số dư bị âm (đọc số dư trước rồi mới trừ thì có thể)
+ *
+ * Thẻ tín dụng có creditLimit được trừ đến khi số dư = -creditLimit
+ */
+import { Prisma } from '../../generated/prisma/client';
+
+/**
+ * Cộng tiền vào ví
+ */
+export async function creditWallet(
+  tx: Prisma.TransactionClient,
+  walletId: string,
+  amount: Prisma.Decimal | number
+) {
+  await tx.wallet.update({
+    where: { id: walletId },
+    data: {
+      currentBalance: {
+        increment: amount
+      }
+    }
+  });
+}
+
+/**
+ * Trừ tiền khỏi ví, chỉ thành công khi số dư (cộng hạn mức tín dụng) đủ tại thời điểm ghi
+ * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu số dư không đủ
+ */
+export async function debitWallet(
+  tx: Prisma.TransactionClient,
+  walletId: string,
+  amount: Prisma.Decimal | number
+) {
+  const wallet = await tx.wallet.findUnique({
+    where: { id: walletId },
+    select: { creditLimit: true }
+  });
+  const creditLimit = wallet?.creditLimit ?? null;
+
+  // Điều kiện kèm creditLimit đã đọc => hạn mức vừa bị giảm đồng thời thì không trừ theo hạn mức cũ
+  const { count } = await tx.wallet.updateMany({
+    where: {
+      id: walletId,
+      creditLimit,
+      currentBalance: { gte: new Prisma.Decimal(amount).minus(creditLimit ?? 0) }
+    },
+    data: {
+      currentBalance: {
+        decrement: amount
+      }
+    }
+  });
+
+  if (count === 0) {
+    throw new Error('INSUFFICIENT_WALLET_BALANCE');
+  }
+}
+
+/**
+ * Ghi biến động số dư của nhiều ví (delta dương: cộng, âm: trừ có kiểm tra số dư)
+ * Ví được cập nhật theo thứ tự ID để các giao dịch đồng thời khoá dòng ví cùng thứ tự (tránh deadlock,
+ * VD: chuyển A -> B và B -> A cùng lúc)
+ *
+ * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu ví bị trừ tiền không đủ số dư
+ */
+export async function applyWalletDeltas(tx: Prisma.TransactionClient, deltas: Map<string, Prisma.Decimal>) {
+  const walletIds = [...deltas.keys()].sort();
+
+  for (const walletId of walletIds) {
+    const delta = deltas.get(walletId)!;
+    if (delta.isZero()) continue;
+
+    if (delta.isNegative()) {
+      await debitWallet(tx, walletId, delta.negated());
+    } else {
+      await creditWallet(tx, walletId, delta);
+    }
+  }
+}
@@ -5,12 +5,41 @@
  */
 import { Request, Response } from 'express';
 import { WalletService } from './wallet.service';
+import { HISTORY_INTERVALS, HistoryInterval, defaultHistoryFrom } from './wallet.history';
 import { handleError } from '../../utils/error-handler';
+import { env } from '../../config/env';
 
 // Create module-specific error handler
 const handleWalletError = (error: any, res: Response) =>
   handleError(error, res, 'Wallet');
 
+/**
+ * Đọc query from/to/interval của chuỗi số dư
+ * Mặc định: interval = day, to = hiện tại, from = 30 ngày / 12 tuần / 12 tháng trước `to`
+ *
+ * @returns filters hoặc error (message trả về với 400)
+ */
+function parseHistoryQuery(query: Request['query']) {
+  const interval = (query.interval as string | undefined) ?? 'day';
+  if (!HISTORY_INTERVALS.includes(interval as HistoryInterval)) {
+    return { error: 'interval must be day, week or month' };
+  }
+
+  const to = query.to ? new Date(query.to as string) : new Date();
+  if (isNaN(to.getTime())) {
+    return { error: 'Invalid to format' };
+  }
+  const from = query.from ? new Date(query.from as string) : defaultHistoryFrom(to, interval as HistoryInterval);
+  if (isNaN(from.getTime())) {
+    return { error: 'Invalid from format' };
+  }
+  if (from > to) {
+    return { error: 'from must be before to' };
+  }
+
+  return { filters: { from, to, interval: interval as HistoryInterval } };
+}
+
 export const WalletController = {
   /**
    * @swagger
@@ -43,10 +72,29 @@ export const WalletController = {
    *                 example: "cash"
    *               openingBalance:
    *                 type: number
-   *                 minimum: 0
    *                 multipleOf: 0.01
    *                 example: 1000.00
    *                 default: 0
+   *                 description: Không âm; thẻ tín dụng được âm (dư nợ) đến -creditLimit
+   *               currency:
+   *                 type: string
+   *                 example: "USD"
+   *                 description: Mã tiền tệ ISO 4217 (mặc định là tiền tệ gốc của user)
+   *               creditLimit:
+   *                 type: number
+   *                 multipleOf: 0.01
+   *                 example: 50000000
+   *                 description: Chỉ ví credit - hạn mức, số dư được âm đến -creditLimit
+   *               statementClosingDay:
+   *                 type: integer
+   *                 minimum: 1
+   *                 maximum: 31
+   *                 description: Chỉ ví credit - ngày chốt sao kê hằng tháng
+   *               paymentDueDay:
+   *                 type: integer
+   *                 minimum: 1
+   *                 maximum: 31
+   *                 description: Chỉ ví credit - ngày đến hạn thanh toán (đầu tiên sau ngày chốt)
    *     responses:
    *       201:
    *         description: Ví được tạo thành công
@@ -120,6 +168,13 @@ export const WalletController = {
    *           minimum: 0
    *           default: 0
    *         description: Số ví bỏ qua (pagination)
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: |
+   *           nextCursor/prevCursor của trang trước đó; gửi rỗng để lấy trang đầu ở chế độ cursor
+   *           (bỏ qua offset, pagination trả nextCursor/prevCursor thay cho total/offset)
    *     responses:
    *       200:
    *         description: Danh sách ví
@@ -160,15 +215,256 @@ export const WalletController = {
         type: req.query.type as 'cash' | 'bank' | 'ewallet' | 'credit' | undefined,
         includeArchived: req.query.includeArchived === 'true',
         limit: parseInt(req.query.limit as string) || 50,
-        offset: parseInt(req.query.offset as string) || 0
+        offset: parseInt(req.query.offset as string) || 0,
+        cursor: req.query.cursor as string | undefined
       });
       return res.status(200).json({
         message: 'Wallets retrieved successfully',
         ...result
       });
     } catch (e: any) {
-      console.error('Get wallets error:', e);
-      return res.status(500).json({ message: 'Internal server error' });
+      return handleWalletError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /wallets/history:
+   *   get:
+   *     tags:
+   *       - Wallets
+   *     summary: Chuỗi tổng số dư của tất cả ví theo thời gian
+   *     description: |
+   *       Tổng số dư các ví chưa archive tại cuối mỗi kỳ, quy đổi sang tiền tệ gốc theo tỷ giá tại `to`.
+   *       Ví có tiền tệ chưa có tỷ giá không được cộng vào và được liệt kê trong unconvertedCurrencies.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Mặc định 30 ngày / 12 tuần / 12 tháng trước `to` (theo interval)
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Mặc định hiện tại
+   *       - in: query
+   *         name: interval
+   *         schema:
+   *           type: string
+   *           enum: [day, week, month]
+   *           default: day
+   *         description: Độ dài kỳ (tuần bắt đầu từ thứ Hai), tối đa 1000 kỳ
+   *     responses:
+   *       200:
+   *         description: baseCurrency và points (periodStart, periodEnd, balance)
+   *       400:
+   *         description: Tham số không hợp lệ hoặc khoảng thời gian quá nhiều kỳ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getNetBalanceHistory(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = parseHistoryQuery(req.query);
+      if (!parsed.filters) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const history = await WalletService.getNetBalanceHistory(userId, parsed.filters);
+      return res.status(200).json({
+        message: 'Balance history retrieved successfully',
+        ...history
+      });
+    } catch (e: any) {
+      return handleWalletError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /wallets/credit/reminders:
+   *   get:
+   *     tags:
+   *       - Wallets
+   *     summary: Nhắc thanh toán thẻ tín dụng
+   *     description: |
+   *       Kỳ sao kê đã chốt gần nhất của mỗi thẻ tín dụng (đã thiết lập ngày chốt và hạn thanh toán)
+   *       còn tiền phải trả (remainingDue > 0) và hạn thanh toán trong `days` ngày tới hoặc đã quá hạn.
+   *       Trả thẻ bằng giao dịch transfer từ ví ngân hàng vào ví thẻ.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: days
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *           maximum: 31
+   *         description: Số ngày nhắc trước hạn (mặc định CREDIT_REMINDER_DAYS)
+   *     responses:
+   *       200:
+   *         description: reminders (dueDate, daysUntilDue, amountDue, remainingDue, isOverdue), hạn gần nhất trước
+   *       400:
+   *         description: Tham số không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getCreditReminders(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const days = req.query.days ? parseInt(req.query.days as string) : env.CREDIT_REMINDER_DAYS;
+      if (isNaN(days) || days < 0 || days > 31) {
+        return res.status(400).json({ message: 'days must be between 0 and 31' });
+      }
+
+      const result = await WalletService.getCreditReminders(userId, days);
+      return res.status(200).json({
+        message: 'Credit reminders retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleWalletError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /wallets/{id}/history:
+   *   get:
+   *     tags:
+   *       - Wallets
+   *     summary: Chuỗi số dư của ví theo thời gian
+   *     description: |
+   *       Số dư của ví tại cuối mỗi kỳ trong khoảng [from, to], tính từ openingBalance và entries
+   *       của các giao dịch chưa xoá (kỳ cuối tính đến `to`).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Mặc định 30 ngày / 12 tuần / 12 tháng trước `to` (theo interval)
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Mặc định hiện tại
+   *       - in: query
+   *         name: interval
+   *         schema:
+   *           type: string
+   *           enum: [day, week, month]
+   *           default: day
+   *         description: Độ dài kỳ (tuần bắt đầu từ thứ Hai), tối đa 1000 kỳ
+   *     responses:
+   *       200:
+   *         description: currency và points (periodStart, periodEnd, balance)
+   *       400:
+   *         description: Tham số không hợp lệ hoặc khoảng thời gian quá nhiều kỳ
+   *       404:
+   *         description: Ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getBalanceHistory(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = parseHistoryQuery(req.query);
+      if (!parsed.filters) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const history = await WalletService.getBalanceHistory(req.params.id, userId, parsed.filters);
+      return res.status(200).json({
+        message: 'Balance history retrieved successfully',
+        ...history
+      });
+    } catch (e: any) {
+      return handleWalletError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /wallets/{id}/statement:
+   *   get:
+   *     tags:
+   *       - Wallets
+   *     summary: Sao kê kỳ của thẻ tín dụng
+   *     description: |
+   *       Giao dịch trong kỳ sao kê (chi tiêu: direction out, trả thẻ/hoàn tiền: direction in), số dư đầu kỳ,
+   *       dư nợ tại ngày chốt (amountDue), hạn thanh toán và số tiền còn phải trả sau khi trừ tiền vào ví
+   *       từ sau ngày chốt (remainingDue).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: date
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Ngày bất kỳ trong kỳ cần xem (mặc định kỳ đã chốt gần nhất)
+   *     responses:
+   *       200:
+   *         description: Sao kê của kỳ
+   *       400:
+   *         description: Ví không phải thẻ tín dụng, chưa có ngày chốt sao kê hoặc date không hợp lệ
+   *       404:
+   *         description: Ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getStatement(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const date = req.query.date ? new Date(req.query.date as string) : undefined;
+      if (date && isNaN(date.getTime())) {
+        return res.status(400).json({ message: 'Invalid date format' });
+      }
+
+      const statement = await WalletService.getStatement(req.params.id, userId, date);
+      return res.status(200).json({
+        message: 'Statement retrieved successfully',
+        statement
+      });
+    } catch (e: any) {
+      return handleWalletError(e, res);
     }
   },
 
@@ -212,7 +508,8 @@ export const WalletController = {
    * @param req.user.sub - User ID từ JWT token
    * @returns 200 OK với wallet info đã cập nhật
    * @returns 404 Not Found nếu ví không tồn tại
-   * @returns 409 Conflict nếu tên ví đã tồn tại
+   * @returns 400 Bad Request nếu thiết lập thẻ tín dụng cho ví không phải credit hoặc dư nợ vượt hạn mức mới
+   * @returns 409 Conflict nếu tên ví đã tồn tại hoặc đổi tiền tệ của ví đã có giao dịch
    */
   async updateWallet(req: Request, res: Response) {
     try {
@@ -231,6 +528,93 @@ export const WalletController = {
     }
   },
 
+  /**
+   * @swagger
+   * /wallets/{id}/adjustments:
+   *   post:
+   *     tags:
+   *       - Wallets
+   *     summary: Điều chỉnh số dư ví
+   *     description: |
+   *       Đưa currentBalance về số dư thực tế. Chênh lệch được ghi thành giao dịch `adjustment` (tiền vào nếu tăng,
+   *       tiền ra nếu giảm) nên hiện trong lịch sử giao dịch của ví và không tính là thu/chi trong thống kê.
+   *       Xoá giao dịch adjustment sẽ hoàn tác điều chỉnh.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - balance
+   *             properties:
+   *               balance:
+   *                 type: number
+   *                 multipleOf: 0.01
+   *                 example: 1250000
+   *                 description: Số dư thực tế mong muốn (không âm; thẻ tín dụng không thấp hơn -creditLimit)
+   *               transactionDate:
+   *                 type: string
+   *                 format: date-time
+   *                 description: Ngày của giao dịch adjustment (mặc định hiện tại)
+   *               note:
+   *                 type: string
+   *                 maxLength: 1000
+   *               status:
+   *                 type: string
+   *                 enum: [pending, cleared]
+   *     responses:
+   *       201:
+   *         description: Điều chỉnh thành công
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 adjustment:
+   *                   $ref: '#/components/schemas/Transaction'
+   *                 wallet:
+   *                   $ref: '#/components/schemas/Wallet'
+   *                 difference:
+   *                   type: number
+   *                   description: Chênh lệch đã ghi (dương - tăng, âm - giảm)
+   *       400:
+   *         description: Dữ liệu không hợp lệ hoặc số dư không thay đổi
+   *       404:
+   *         description: Ví không tồn tại hoặc đã archive
+   *       409:
+   *         description: Số dư ví vừa bị giao dịch khác thay đổi, thử lại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async adjustBalance(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await WalletService.adjustBalance(req.params.id, userId, req.body);
+      return res.status(201).json({
+        message: 'Wallet balance adjusted successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleWalletError(e, res);
+    }
+  },
+
   /**
    * Xóa ví (archive)
    * DELETE /api/wallets/:id
@@ -0,0 +1,178 @@
+/**
+ * Wallet Credit
+ * Kỳ sao kê và sao kê của ví thẻ tín dụng (type credit)
+ *
+ * - Kỳ sao kê kết thúc cuối ngày statementClosingDay (tháng ít ngày hơn => ngày cuối tháng), theo giờ địa phương
+ * - Hạn thanh toán là cuối ngày paymentDueDay đầu tiên sau ngày chốt sao kê
+ * - Số dư âm = dư nợ thẻ; số tiền phải trả của kỳ = dư nợ tại ngày chốt
+ * - Trả thẻ bằng giao dịch transfer từ ví ngân hàng vào ví thẻ (entry in của ví thẻ)
+ */
+import { prisma } from '../../db/prisma';
+import { Prisma } from '../../generated/prisma/client';
+
+// Kỳ sao kê: [cycleStart, closingDate]
+export type StatementCycle = {
+  cycleStart: Date;
+  closingDate: Date;
+};
+
+// Ví thẻ tín dụng đã thiết lập ngày chốt sao kê
+export type StatementWallet = {
+  id: string;
+  name: string;
+  currency: string;
+  openingBalance: Prisma.Decimal;
+  creditLimit: Prisma.Decimal | null;
+  statementClosingDay: number;
+  paymentDueDay: number | null;
+};
+
+/**
+ * Cuối ngày `day` của tháng (month tính từ 0, được chuẩn hoá nếu vượt 0..11)
+ * Ngày lớn hơn số ngày của tháng được đưa về ngày cuối tháng (VD: 31 -> 30/4)
+ */
+function endOfDayInMonth(year: number, month: number, day: number) {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  const normalized = new Date(year, month, 1);
+  return new Date(normalized.getFullYear(), normalized.getMonth(), Math.min(day, lastDay), 23, 59, 59, 999);
+}
+
+/**
+ * Kỳ sao kê chứa `date`
+ */
+export function statementCycleFor(date: Date, closingDay: number): StatementCycle {
+  let closingDate = endOfDayInMonth(date.getFullYear(), date.getMonth(), closingDay);
+  if (date > closingDate) {
+    closingDate = endOfDayInMonth(date.getFullYear(), date.getMonth() + 1, closingDay);
+  }
+  const previousClosing = endOfDayInMonth(closingDate.getFullYear(), closingDate.getMonth() - 1, closingDay);
+
+  return {
+    cycleStart: new Date(previousClosing.getTime() + 1),
+    closingDate
+  };
+}
+
+/**
+ * Kỳ sao kê đã chốt gần nhất tính đến `now`
+ */
+export function lastClosedCycle(now: Date, closingDay: number) {
+  const current = statementCycleFor(now, closingDay);
+  return current.closingDate <= now
+    ? current
+    : statementCycleFor(new Date(current.cycleStart.getTime() - 1), closingDay);
+}
+
+/**
+ * Hạn thanh toán của kỳ: cuối ngày paymentDueDay đầu tiên sau ngày chốt sao kê
+ */
+export function paymentDueDate(closingDate: Date, dueDay: number) {
+  const sameMonth = endOfDayInMonth(closingDate.getFullYear(), closingDate.getMonth(), dueDay);
+  return sameMonth > closingDate
+    ? sameMonth
+    : endOfDayInMonth(closingDate.getFullYear(), closingDate.getMonth() + 1, dueDay);
+}
+
+/**
+ * Sao kê 1 kỳ của ví thẻ tín dụng
+ * Giao dịch trong kỳ gồm chi tiêu (entry out) và tiền vào (trả thẻ, hoàn tiền: entry in),
+ * paidSinceClosing là tiền vào ví sau ngày chốt (đến `now`) được trừ vào số tiền phải trả
+ *
+ * @param wallet - Ví thẻ tín dụng
+ * @param cycle - Kỳ sao kê
+ * @param now - Thời điểm tính trạng thái thanh toán
+ */
+export async function buildStatement(wallet: StatementWallet, cycle: StatementCycle, now: Date) {
+  const notDeleted = { deletedAt: null };
+
+  // 1. Số dư đầu kỳ = openingBalance + entries trước kỳ
+  const before = await prisma.transactionEntry.groupBy({
+    by: ['direction'],
+    where: {
+      walletId: wallet.id,
+      transaction: { ...notDeleted, transactionDate: { lt: cycle.cycleStart } }
+    },
+    _sum: { amount: true }
+  });
+  let previousBalance = wallet.openingBalance;
+  for (const sum of before) {
+    const amount = sum._sum.amount ?? 0;
+    previousBalance = sum.direction === 'in' ? previousBalance.plus(amount) : previousBalance.minus(amount);
+  }
+
+  // 2. Giao dịch trong kỳ
+  const entries = await prisma.transactionEntry.findMany({
+    where: {
+      walletId: wallet.id,
+      transaction: { ...notDeleted, transactionDate: { gte: cycle.cycleStart, lte: cycle.closingDate } }
+    },
+    include: {
+      transaction: {
+        select: {
+          id: true,
+          type: true,
+          transactionDate: true,
+          note: true,
+          status: true,
+          category: { select: { id: true, name: true } },
+          payee: { select: { id: true, name: true } }
+        }
+      }
+    },
+    orderBy: { transaction: { transactionDate: 'asc' } }
+  });
+
+  let totalCharges = new Prisma.Decimal(0);
+  let totalCredits = new Prisma.Decimal(0);
+  for (const entry of entries) {
+    if (entry.direction === 'out') {
+      totalCharges = totalCharges.plus(entry.amount);
+    } else {
+      totalCredits = totalCredits.plus(entry.amount);
+    }
+  }
+  const closingBalance = previousBalance.plus(totalCredits).minus(totalCharges);
+  const amountDue = closingBalance.isNegative() ? closingBalance.negated() : new Prisma.Decimal(0);
+
+  // 3. Tiền vào ví sau ngày chốt (trả thẻ) được trừ vào số tiền phải trả
+  const isClosed = cycle.closingDate <= now;
+  const paid = isClosed
+    ? await prisma.transactionEntry.aggregate({
+      where: {
+        walletId: wallet.id,
+        direction: 'in',
+        transaction: { ...notDeleted, transactionDate: { gt: cycle.closingDate, lte: now } }
+      },
+      _sum: { amount: true }
+    })
+    : null;
+  const paidSinceClosing = paid?._sum.amount ?? new Prisma.Decimal(0);
+  const remaining = amountDue.minus(paidSinceClosing);
+  const remainingDue = remaining.isNegative() ? new Prisma.Decimal(0) : remaining;
+
+  const dueDate = wallet.paymentDueDay ? paymentDueDate(cycle.closingDate, wallet.paymentDueDay) : null;
+
+  return {
+    walletId: wallet.id,
+    name: wallet.name,
+    currency: wallet.currency,
+    creditLimit: wallet.creditLimit,
+    cycleStart: cycle.cycleStart,
+    closingDate: cycle.closingDate,
+    dueDate,
+    isClosed,
+    previousBalance,
+    totalCharges,
+    totalCredits,
+    closingBalance,
+    amountDue,
+    paidSinceClosing,
+    remainingDue,
+    isOverdue: isClosed && dueDate !== null && dueDate < now && remainingDue.greaterThan(0),
+    transactions: entries.map(({ transaction, direction, amount }) => ({
+      ...transaction,
+      direction,
+      amount
+    }))
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Wallet History
+ * Chia khoảng thời gian thành các kỳ (ngày/tuần/tháng theo giờ địa phương) và tính số dư ví tại cuối mỗi kỳ
+ * Số dư = openingBalance + entries (in: +, out: -) của giao dịch chưa xoá có transactionDate <= cuối kỳ
+ */
+import { prisma } from '../../db/prisma';
+import { Prisma } from '../../generated/prisma/client';
+
+export const HISTORY_INTERVALS = ['day', 'week', 'month'] as const;
+export type HistoryInterval = (typeof HISTORY_INTERVALS)[number];
+
+// Giới hạn số điểm của 1 chuỗi (VD: ~2.7 năm theo ngày)
+export const MAX_HISTORY_POINTS = 1000;
+
+// 1 kỳ của chuỗi số dư: periodEnd là mốc tính số dư (kỳ cuối bị cắt tại `to`)
+export type HistoryPeriod = {
+  periodStart: Date;
+  periodEnd: Date;
+};
+
+/**
+ * Đầu kỳ chứa `date`: 0h của ngày, thứ Hai của tuần hoặc ngày 1 của tháng
+ */
+function startOfPeriod(date: Date, interval: HistoryInterval) {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (interval === 'week') {
+    // getDay(): Chủ nhật = 0 => lùi 6 ngày về thứ Hai
+    result.setDate(result.getDate() - ((result.getDay() + 6) % 7));
+  } else if (interval === 'month') {
+    result.setDate(1);
+  }
+  return result;
+}
+
+/**
+ * Đầu kỳ kế tiếp
+ */
+function nextPeriodStart(start: Date, interval: HistoryInterval) {
+  const result = new Date(start);
+  if (interval === 'day') {
+    result.setDate(result.getDate() + 1);
+  } else if (interval === 'week') {
+    result.setDate(result.getDate() + 7);
+  } else {
+    result.setMonth(result.getMonth() + 1);
+  }
+  return result;
+}
+
+/**
+ * Mốc `from` mặc định khi không truyền: 30 ngày / 12 tuần / 12 tháng trước `to`
+ */
+export function defaultHistoryFrom(to: Date, interval: HistoryInterval) {
+  const result = new Date(to);
+  if (interval === 'day') {
+    result.setDate(result.getDate() - 29);
+  } else if (interval === 'week') {
+    result.setDate(result.getDate() - 7 * 11);
+  } else {
+    result.setMonth(result.getMonth() - 11);
+  }
+  return result;
+}
+
+/**
+ * Chia [from, to] thành các kỳ liên tiếp, kỳ đầu bắt đầu từ đầu kỳ chứa `from`
+ * @throws Error('WALLET_HISTORY_RANGE_TOO_LARGE') nếu vượt MAX_HISTORY_POINTS kỳ
+ */
+export function buildHistoryPeriods(from: Date, to: Date, interval: HistoryInterval): HistoryPeriod[] {
+  const periods: HistoryPeriod[] = [];
+  let start = startOfPeriod(from, interval);
+
+  while (start <= to) {
+    if (periods.length === MAX_HISTORY_POINTS) {
+      throw new Error('WALLET_HISTORY_RANGE_TOO_LARGE');
+    }
+    const next = nextPeriodStart(start, interval);
+    const end = new Date(next.getTime() - 1);
+    periods.push({ periodStart: start, periodEnd: end < to ? end : to });
+    start = next;
+  }
+
+  return periods;
+}
+
+/**
+ * Số dư của từng ví tại cuối mỗi kỳ
+ * Entries trước kỳ đầu được cộng dồn bằng 1 câu groupBy, entries trong khoảng được cộng lần lượt theo ngày
+ *
+ * @returns Map walletId => số dư tại periodEnd của từng kỳ (cùng thứ tự với periods)
+ */
+export async function computeBalanceSeries(
+  wallets: { id: string; openingBalance: Prisma.Decimal }[],
+  periods: HistoryPeriod[]
+) {
+  const series = new Map<string, Prisma.Decimal[]>(wallets.map((wallet) => [wallet.id, []]));
+  if (wallets.length === 0 || periods.length === 0) {
+    return series;
+  }
+
+  const walletIds = wallets.map((wallet) => wallet.id);
+  const firstStart = periods[0].periodStart;
+  const lastEnd = periods[periods.length - 1].periodEnd;
+
+  // 1. Số dư đầu kỳ đầu tiên
+  const balances = new Map(wallets.map((wallet) => [wallet.id, wallet.openingBalance]));
+  const before = await prisma.transactionEntry.groupBy({
+    by: ['walletId', 'direction'],
+    where: {
+      walletId: { in: walletIds },
+      transaction: { deletedAt: null, transactionDate: { lt: firstStart } }
+    },
+    _sum: { amount: true }
+  });
+  for (const sum of before) {
+    const amount = sum._sum.amount ?? 0;
+    const balance = balances.get(sum.walletId)!;
+    balances.set(sum.walletId, sum.direction === 'in' ? balance.plus(amount) : balance.minus(amount));
+  }
+
+  // 2. Entries trong khoảng, sắp xếp theo ngày giao dịch
+  const entries = await prisma.transactionEntry.findMany({
+    where: {
+      walletId: { in: walletIds },
+      transaction: { deletedAt: null, transactionDate: { gte: firstStart, lte: lastEnd } }
+    },
+    select: {
+      walletId: true,
+      direction: true,
+      amount: true,
+      transaction: { select: { transactionDate: true } }
+    },
+    orderBy: { transaction: { transactionDate: 'asc' } }
+  });
+
+  // 3. Cộng dồn entries đến cuối từng kỳ rồi ghi lại số dư
+  let index = 0;
+  for (const period of periods) {
+    while (index < entries.length && entries[index].transaction.transactionDate <= period.periodEnd) {
+      const entry = entries[index++];
+      const balance = balances.get(entry.walletId)!;
+      balances.set(entry.walletId, entry.direction === 'in' ? balance.plus(entry.amount) : balance.minus(entry.amount));
+    }
+    for (const walletId of walletIds) {
+      series.get(walletId)!.push(balances.get(walletId)!);
+    }
+  }
+
+  return series;
+}
@@ -1,6 +1,8 @@
 // Schema validation cho Wallet APIs
 // Sử dụng Zod để validate request body cho các wallet operations
 import { z } from 'zod';
+import { currencyCodeSchema } from '../currency/currency.schema';
+import { transactionStatusSchema } from '../transaction/transaction.schema';
 
 // Enum từ Prisma schema để đảm bảo consistency
 const WalletType = {
@@ -10,17 +12,45 @@ const WalletType = {
   credit: 'credit'
 } as const;
 
+// Thiết lập thẻ tín dụng, chỉ dùng được với ví type credit
+const dayOfMonthSchema = (field: string) => z.number()
+  .int(`${field} phải là số nguyên`)
+  .min(1, `${field} phải từ 1 đến 31`)
+  .max(31, `${field} phải từ 1 đến 31`);
+
+const creditFields = {
+  creditLimit: z.number().positive('creditLimit phải lớn hơn 0').refine(
+    (val) => Number(val.toFixed(2)) === val,
+    'creditLimit chỉ được phép 2 số thập phân'
+  ),
+  statementClosingDay: dayOfMonthSchema('statementClosingDay'),
+  paymentDueDay: dayOfMonthSchema('paymentDueDay')
+};
+
 // Schema cho tạo wallet mới
 export const createWalletSchema = z.object({
   name: z.string().min(1, 'Tên ví không được rỗng').max(100, 'Tên ví không được quá 100 ký tự'),
   type: z.enum(['cash', 'bank', 'ewallet', 'credit'], {
     message: 'Loại ví phải là cash, bank, ewallet hoặc credit'
   }),
-  openingBalance: z.number().min(0, 'Số dư ban đầu không được âm').refine(
+  // Thẻ tín dụng được âm (dư nợ đầu kỳ) đến -creditLimit
+  openingBalance: z.number().refine(
     (val) => Number(val.toFixed(2)) === val,
     'Số dư ban đầu chỉ được phép 2 số thập phân'
-  ).optional().default(0)
-});
+  ).optional().default(0),
+  // Bỏ trống => dùng tiền tệ gốc của user
+  currency: currencyCodeSchema.optional(),
+  creditLimit: creditFields.creditLimit.optional(),
+  statementClosingDay: creditFields.statementClosingDay.optional(),
+  paymentDueDay: creditFields.paymentDueDay.optional()
+}).refine(
+  (data) => data.type === 'credit' ||
+    (data.creditLimit === undefined && data.statementClosingDay === undefined && data.paymentDueDay === undefined),
+  { message: 'creditLimit, statementClosingDay, paymentDueDay chỉ dùng cho ví credit', path: ['type'] }
+).refine(
+  (data) => data.openingBalance >= -(data.type === 'credit' ? data.creditLimit ?? 0 : 0),
+  { message: 'Số dư ban đầu không được âm (thẻ tín dụng: không thấp hơn -creditLimit)', path: ['openingBalance'] }
+);
 
 // Schema cho cập nhật wallet
 export const updateWalletSchema = z.object({
@@ -29,15 +59,31 @@ export const updateWalletSchema = z.object({
     message: 'Loại ví phải là cash, bank, ewallet hoặc credit'
   }).optional(),
   isArchived: z.boolean().optional(),
-  currentBalance: z.number()
-    .min(0, 'Số dư không được âm')
-    .refine((val) => Number(val.toFixed(2)) === val, 'Số dư chỉ được phép 2 số thập phân')
-    .optional()
+  // Chỉ đổi được khi ví chưa có giao dịch
+  currency: currencyCodeSchema.optional(),
+  // null => bỏ thiết lập; chỉ dùng cho ví credit (kiểm tra ở service)
+  creditLimit: creditFields.creditLimit.nullable().optional(),
+  statementClosingDay: creditFields.statementClosingDay.nullable().optional(),
+  paymentDueDay: creditFields.paymentDueDay.nullable().optional()
+  // currentBalance không sửa trực tiếp được, dùng điều chỉnh số dư (adjustWalletBalanceSchema)
 }).refine(
   (data) => Object.keys(data).length > 0,
   'Phải cung cấp ít nhất một trường để cập nhật'
 );
 
+// Schema cho điều chỉnh số dư ví: ghi chênh lệch thành giao dịch adjustment
+export const adjustWalletBalanceSchema = z.object({
+  // Số dư thực tế mong muốn của ví (không âm; thẻ tín dụng: không thấp hơn -creditLimit, kiểm tra ở service)
+  balance: z.number()
+    .refine((val) => Number(val.toFixed(2)) === val, 'Số dư chỉ được phép 2 số thập phân'),
+  // Mặc định: thời điểm hiện tại
+  transactionDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'transactionDate phải là ngày hợp lệ'
+  }).transform((val) => new Date(val)).optional(),
+  note: z.string().max(1000, 'note không được quá 1000 ký tự').optional(),
+  status: transactionStatusSchema.optional()
+});
+
 // Schema cho query parameters
 export const getWalletsQuerySchema = z.object({
   type: z.enum([WalletType.cash, WalletType.bank, WalletType.ewallet, WalletType.credit]).optional(),
@@ -49,10 +95,13 @@ export const getWalletsQuerySchema = z.object({
   offset: z.string().transform((val) => {
     const num = parseInt(val);
     return isNaN(num) ? 0 : Math.max(num, 0);
-  }).optional().default(0)
+  }).optional().default(0),
+  // Có cursor (kể cả rỗng) => phân trang keyset thay cho offset
+  cursor: z.string().optional()
 });
 
 // Type definitions cho TypeScript
 export type CreateWalletData = z.infer<typeof createWalletSchema>;
 export type UpdateWalletData = z.infer<typeof updateWalletSchema>;
+export type AdjustWalletBalanceData = z.infer<typeof adjustWalletBalanceSchema>;
 export type GetWalletsQuery = z.infer<typeof getWalletsQuerySchema>;
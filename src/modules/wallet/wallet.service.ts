@@ -4,7 +4,43 @@
  * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
  */
 import { prisma } from '../../db/prisma';
-import { CreateWalletData, UpdateWalletData, GetWalletsQuery } from './wallet.schema';
+import { Prisma } from '../../generated/prisma/client';
+import { KeysetField, findCursorPage } from '../../utils/pagination';
+import { createCurrencyConverter } from '../currency/currency.service';
+import { CreateWalletData, UpdateWalletData, AdjustWalletBalanceData, GetWalletsQuery } from './wallet.schema';
+import { HistoryInterval, buildHistoryPeriods, computeBalanceSeries } from './wallet.history';
+import { StatementWallet, buildStatement, lastClosedCycle, statementCycleFor } from './wallet.credit';
+
+// Thứ tự của danh sách ví khi phân trang bằng cursor (thêm id để thứ tự ổn định)
+const WALLET_CURSOR_KEYS: KeysetField[] = [
+  { field: 'isArchived', direction: 'asc', type: 'enum', values: [false, true] },
+  { field: 'createdAt', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' }
+];
+
+/**
+ * Lấy ví thẻ tín dụng đã thiết lập ngày chốt sao kê (phải thuộc user)
+ * @throws Error('WALLET_NOT_FOUND') nếu không tìm thấy
+ * @throws Error('WALLET_NOT_CREDIT') nếu ví không phải thẻ tín dụng
+ * @throws Error('WALLET_STATEMENT_NOT_CONFIGURED') nếu ví chưa có statementClosingDay
+ */
+async function findStatementWallet(walletId: string, userId: string): Promise<StatementWallet> {
+  const wallet = await prisma.wallet.findFirst({
+    where: { id: walletId, userId }
+  });
+
+  if (!wallet) {
+    throw new Error('WALLET_NOT_FOUND');
+  }
+  if (wallet.type !== 'credit') {
+    throw new Error('WALLET_NOT_CREDIT');
+  }
+  if (!wallet.statementClosingDay) {
+    throw new Error('WALLET_STATEMENT_NOT_CONFIGURED');
+  }
+
+  return { ...wallet, statementClosingDay: wallet.statementClosingDay };
+}
 
 export const WalletService = {
   /**
@@ -16,7 +52,7 @@ export const WalletService = {
    * @throws Error('WALLET_NAME_EXISTS') nếu tên ví đã tồn tại cho user này
    */
   async createWallet(data: CreateWalletData, userId: string) {
-    const { name, type, openingBalance = 0 } = data;
+    const { name, type, openingBalance = 0, creditLimit, statementClosingDay, paymentDueDay } = data;
 
     // Kiểm tra tên ví đã tồn tại cho user này chưa
     const existingWallet = await prisma.wallet.findFirst({
@@ -31,14 +67,24 @@ export const WalletService = {
       throw new Error('WALLET_NAME_EXISTS');
     }
 
+    // Ví không chỉ định tiền tệ => dùng tiền tệ gốc của user
+    const currency = data.currency ?? (await prisma.user.findUnique({
+      where: { id: userId },
+      select: { baseCurrency: true }
+    }))?.baseCurrency;
+
     // Tạo ví mới
     const wallet = await prisma.wallet.create({
       data: {
         userId,
         name,
         type,
+        currency,
         openingBalance,
-        currentBalance: openingBalance // Số dư hiện tại ban đầu = số dư mở đầu
+        currentBalance: openingBalance, // Số dư hiện tại ban đầu = số dư mở đầu
+        creditLimit,
+        statementClosingDay,
+        paymentDueDay
       }
     });
 
@@ -49,11 +95,11 @@ export const WalletService = {
    * Lấy danh sách ví của user
    *
    * @param userId - ID của user
-   * @param filters - Các filter tùy chọn
+   * @param filters - Các filter tùy chọn (có cursor => phân trang keyset, không đếm total)
    * @returns Danh sách ví với pagination
    */
   async getWallets(userId: string, filters: Partial<GetWalletsQuery> = {}) {
-    const { type, includeArchived = false, limit = 50, offset = 0 } = filters;
+    const { type, includeArchived = false, limit = 50, offset = 0, cursor } = filters;
 
     // Build where clause
     const where: any = { userId };
@@ -66,6 +112,13 @@ export const WalletService = {
       where.type = type;
     }
 
+    if (cursor !== undefined) {
+      const { items, pagination } = await findCursorPage(WALLET_CURSOR_KEYS, cursor, limit, (page) =>
+        prisma.wallet.findMany({ where: { AND: [where, page.where] }, orderBy: page.orderBy, take: page.take })
+      );
+      return { wallets: items, pagination };
+    }
+
     // Lấy danh sách ví
     const wallets = await prisma.wallet.findMany({
       where,
@@ -116,6 +169,9 @@ export const WalletService = {
    * @returns Wallet object đã cập nhật
    * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại
    * @throws Error('WALLET_NAME_EXISTS') nếu tên mới đã tồn tại
+   * @throws Error('WALLET_CURRENCY_LOCKED') nếu đổi tiền tệ của ví đã có giao dịch
+   * @throws Error('WALLET_NOT_CREDIT') nếu thiết lập thẻ tín dụng cho ví không phải credit
+   * @throws Error('WALLET_BALANCE_BELOW_LIMIT') nếu đổi loại ví/hạn mức mà số dư hiện tại thấp hơn hạn mức mới (hoặc âm khi bỏ hạn mức)
    */
   async updateWallet(walletId: string, userId: string, data: UpdateWalletData) {
     // Kiểm tra ví tồn tại và thuộc user
@@ -143,13 +199,118 @@ export const WalletService = {
       }
     }
 
-    // Cập nhật ví
-    const updatedWallet = await prisma.wallet.update({
-      where: { id: walletId },
-      data
+    // Số tiền đã ghi nhận theo tiền tệ cũ => không cho đổi tiền tệ khi ví đã có giao dịch
+    if (data.currency && data.currency !== existingWallet.currency) {
+      const entry = await prisma.transactionEntry.findFirst({
+        where: { walletId },
+        select: { id: true }
+      });
+
+      if (entry) {
+        throw new Error('WALLET_CURRENCY_LOCKED');
+      }
+    }
+
+    // Thiết lập thẻ tín dụng chỉ dùng cho ví credit, đổi sang loại khác thì bỏ thiết lập
+    const isCredit = (data.type ?? existingWallet.type) === 'credit';
+    const updateData = { ...data };
+    if (!isCredit) {
+      if ([data.creditLimit, data.statementClosingDay, data.paymentDueDay].some((value) => value != null)) {
+        throw new Error('WALLET_NOT_CREDIT');
+      }
+      Object.assign(updateData, { creditLimit: null, statementClosingDay: null, paymentDueDay: null });
+    }
+
+    // Đổi loại ví/hạn mức => dư nợ hiện tại phải nằm trong hạn mức mới; kiểm tra trong câu UPDATE
+    // để không lệch với giao dịch đồng thời. Cập nhật khác (đổi tên, archive...) không kiểm tra số dư
+    const creditLimit = isCredit
+      ? (data.creditLimit !== undefined ? data.creditLimit : existingWallet.creditLimit)
+      : null;
+    const limitChanged = (data.type !== undefined && data.type !== existingWallet.type)
+      || (data.creditLimit !== undefined && !new Prisma.Decimal(creditLimit ?? 0).equals(existingWallet.creditLimit ?? 0));
+    const { count } = await prisma.wallet.updateMany({
+      where: limitChanged
+        ? { id: walletId, currentBalance: { gte: new Prisma.Decimal(creditLimit ?? 0).negated() } }
+        : { id: walletId },
+      data: updateData
+    });
+
+    if (count === 0) {
+      throw new Error('WALLET_BALANCE_BELOW_LIMIT');
+    }
+
+    return await prisma.wallet.findUniqueOrThrow({ where: { id: walletId } });
+  },
+
+  /**
+   * Điều chỉnh số dư ví về số dư thực tế
+   * Chênh lệch được ghi thành giao dịch adjustment (1 entry in/out) để lịch sử ví, báo cáo và kiểm tra sổ sách
+   * vẫn khớp với currentBalance; adjustment không tính là thu/chi trong thống kê
+   * Số dư chỉ được ghi khi chưa bị giao dịch khác thay đổi kể từ lúc tính chênh lệch
+   *
+   * @param walletId - ID của ví cần điều chỉnh
+   * @param userId - ID của user sở hữu ví
+   * @param data - Số dư mong muốn, ngày, ghi chú và trạng thái của giao dịch adjustment
+   * @returns Giao dịch adjustment, ví sau điều chỉnh và chênh lệch (dương: tăng, âm: giảm)
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại hoặc đã archive
+   * @throws Error('WALLET_BALANCE_UNCHANGED') nếu số dư mong muốn bằng số dư hiện tại
+   * @throws Error('WALLET_BALANCE_BELOW_LIMIT') nếu số dư mong muốn âm (thẻ tín dụng: thấp hơn -creditLimit)
+   * @throws Error('WALLET_BALANCE_CHANGED') nếu số dư vừa bị thay đổi bởi giao dịch đồng thời
+   */
+  async adjustBalance(walletId: string, userId: string, data: AdjustWalletBalanceData) {
+    const wallet = await prisma.wallet.findFirst({
+      where: { id: walletId, userId, isArchived: false }
     });
 
-    return updatedWallet;
+    if (!wallet) {
+      throw new Error('WALLET_NOT_FOUND');
+    }
+
+    if (new Prisma.Decimal(data.balance).lessThan(new Prisma.Decimal(wallet.creditLimit ?? 0).negated())) {
+      throw new Error('WALLET_BALANCE_BELOW_LIMIT');
+    }
+
+    const difference = new Prisma.Decimal(data.balance).minus(wallet.currentBalance);
+    if (difference.isZero()) {
+      throw new Error('WALLET_BALANCE_UNCHANGED');
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      // Ghi số dư mới có điều kiện số dư (và hạn mức) cũ => chênh lệch đã tính vẫn đúng tại thời điểm ghi
+      const { count } = await tx.wallet.updateMany({
+        where: { id: walletId, currentBalance: wallet.currentBalance, creditLimit: wallet.creditLimit },
+        data: { currentBalance: data.balance }
+      });
+      if (count === 0) {
+        throw new Error('WALLET_BALANCE_CHANGED');
+      }
+
+      const adjustment = await tx.transaction.create({
+        data: {
+          userId,
+          type: 'adjustment',
+          transactionDate: data.transactionDate ?? new Date(),
+          amount: difference.abs(),
+          currency: wallet.currency,
+          note: data.note,
+          status: data.status,
+          entries: {
+            create: {
+              walletId,
+              direction: difference.isPositive() ? 'in' : 'out',
+              amount: difference.abs()
+            }
+          }
+        },
+        include: { entries: true }
+      });
+
+      return {
+        adjustment,
+        wallet: await tx.wallet.findUniqueOrThrow({ where: { id: walletId } }),
+        difference
+      };
+    });
   },
 
   /**
@@ -193,6 +354,8 @@ export const WalletService = {
 
   /**
    * Lấy thống kê tổng quan về ví của user
+   * totalBalance được quy đổi sang tiền tệ gốc của user theo tỷ giá hiện hành,
+   * ví có tiền tệ chưa có tỷ giá không được cộng vào và được liệt kê trong unconvertedCurrencies
    *
    * @param userId - ID của user
    * @returns Thống kê tổng quan
@@ -210,8 +373,9 @@ export const WalletService = {
       }
     });
 
-    // Tính tổng số dư
-    const totalBalance = await prisma.wallet.aggregate({
+    // Tính tổng số dư theo từng tiền tệ
+    const balancesByCurrency = await prisma.wallet.groupBy({
+      by: ['currency'],
       where: {
         userId,
         isArchived: false
@@ -221,13 +385,170 @@ export const WalletService = {
       }
     });
 
+    // Quy đổi sang tiền tệ gốc
+    const converter = await createCurrencyConverter(userId);
+    let totalBalance = new Prisma.Decimal(0);
+    for (const group of balancesByCurrency) {
+      const converted = converter.convert(group._sum.currentBalance ?? 0, group.currency);
+      if (converted) {
+        totalBalance = totalBalance.plus(converted);
+      }
+    }
+
     return {
       byType: walletStats.reduce((acc, stat) => {
         acc[stat.type] = stat._count.id;
         return acc;
       }, {} as Record<string, number>),
-      totalBalance: totalBalance._sum.currentBalance || 0,
+      totalBalance,
+      baseCurrency: converter.baseCurrency,
+      balancesByCurrency: balancesByCurrency.reduce((acc, group) => {
+        acc[group.currency] = group._sum.currentBalance ?? new Prisma.Decimal(0);
+        return acc;
+      }, {} as Record<string, Prisma.Decimal>),
+      unconvertedCurrencies: converter.unconvertedCurrencies,
       totalWallets: walletStats.reduce((sum, stat) => sum + stat._count.id, 0)
     };
+  },
+
+  /**
+   * Chuỗi số dư của 1 ví tại cuối mỗi kỳ (ngày/tuần/tháng) trong khoảng [from, to]
+   *
+   * @param walletId - ID của ví
+   * @param userId - ID của user sở hữu ví
+   * @param filters - Khoảng thời gian và độ dài kỳ
+   * @returns Tiền tệ của ví và danh sách điểm { periodStart, periodEnd, balance }
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại
+   * @throws Error('WALLET_HISTORY_RANGE_TOO_LARGE') nếu khoảng thời gian có quá nhiều kỳ
+   */
+  async getBalanceHistory(walletId: string, userId: string, filters: { from: Date; to: Date; interval: HistoryInterval }) {
+    const wallet = await prisma.wallet.findFirst({
+      where: { id: walletId, userId },
+      select: { id: true, name: true, currency: true, openingBalance: true }
+    });
+
+    if (!wallet) {
+      throw new Error('WALLET_NOT_FOUND');
+    }
+
+    const periods = buildHistoryPeriods(filters.from, filters.to, filters.interval);
+    const balances = (await computeBalanceSeries([wallet], periods)).get(wallet.id)!;
+
+    return {
+      walletId: wallet.id,
+      name: wallet.name,
+      currency: wallet.currency,
+      interval: filters.interval,
+      from: filters.from,
+      to: filters.to,
+      points: periods.map((period, index) => ({ ...period, balance: balances[index] }))
+    };
+  },
+
+  /**
+   * Chuỗi tổng số dư (net) của các ví chưa archive tại cuối mỗi kỳ
+   * Số dư được quy đổi sang tiền tệ gốc theo tỷ giá tại `to` (như thống kê theo danh mục),
+   * ví có tiền tệ chưa có tỷ giá không được cộng vào và được liệt kê trong unconvertedCurrencies
+   *
+   * @param userId - ID của user
+   * @param filters - Khoảng thời gian và độ dài kỳ
+   * @returns Tiền tệ gốc và danh sách điểm { periodStart, periodEnd, balance }
+   * @throws Error('WALLET_HISTORY_RANGE_TOO_LARGE') nếu khoảng thời gian có quá nhiều kỳ
+   */
+  async getNetBalanceHistory(userId: string, filters: { from: Date; to: Date; interval: HistoryInterval }) {
+    const wallets = await prisma.wallet.findMany({
+      where: { userId, isArchived: false },
+      select: { id: true, currency: true, openingBalance: true }
+    });
+
+    const periods = buildHistoryPeriods(filters.from, filters.to, filters.interval);
+    const series = await computeBalanceSeries(wallets, periods);
+    const converter = await createCurrencyConverter(userId, filters.to);
+
+    const points = periods.map((period, index) => {
+      let balance = new Prisma.Decimal(0);
+      for (const wallet of wallets) {
+        const converted = converter.convert(series.get(wallet.id)![index], wallet.currency);
+        if (converted) {
+          balance = balance.plus(converted);
+        }
+      }
+      return { ...period, balance };
+    });
+
+    return {
+      baseCurrency: converter.baseCurrency,
+      interval: filters.interval,
+      from: filters.from,
+      to: filters.to,
+      points,
+      unconvertedCurrencies: converter.unconvertedCurrencies,
+      totalWallets: wallets.length
+    };
+  },
+
+  /**
+   * Sao kê 1 kỳ của ví thẻ tín dụng: giao dịch trong kỳ, dư nợ tại ngày chốt, số tiền phải trả và hạn thanh toán
+   *
+   * @param walletId - ID của ví thẻ tín dụng
+   * @param userId - ID của user sở hữu ví
+   * @param date - Ngày bất kỳ trong kỳ cần xem (mặc định: kỳ đã chốt gần nhất)
+   * @returns Sao kê của kỳ
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại
+   * @throws Error('WALLET_NOT_CREDIT') nếu ví không phải thẻ tín dụng
+   * @throws Error('WALLET_STATEMENT_NOT_CONFIGURED') nếu ví chưa có statementClosingDay
+   */
+  async getStatement(walletId: string, userId: string, date?: Date) {
+    const wallet = await findStatementWallet(walletId, userId);
+    const now = new Date();
+    const cycle = date
+      ? statementCycleFor(date, wallet.statementClosingDay)
+      : lastClosedCycle(now, wallet.statementClosingDay);
+
+    return await buildStatement(wallet, cycle, now);
+  },
+
+  /**
+   * Nhắc thanh toán thẻ tín dụng: kỳ đã chốt gần nhất của mỗi thẻ còn tiền phải trả
+   * và hạn thanh toán trong `days` ngày tới (hoặc đã quá hạn)
+   *
+   * @param userId - ID của user
+   * @param days - Số ngày nhắc trước hạn thanh toán
+   * @returns Danh sách nhắc, hạn thanh toán gần nhất trước
+   */
+  async getCreditReminders(userId: string, days: number) {
+    const wallets = await prisma.wallet.findMany({
+      where: {
+        userId,
+        type: 'credit',
+        isArchived: false,
+        statementClosingDay: { not: null },
+        paymentDueDay: { not: null }
+      }
+    });
+
+    const now = new Date();
+    const remindBefore = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+    const reminders = [];
+    for (const wallet of wallets) {
+      const statementWallet = { ...wallet, statementClosingDay: wallet.statementClosingDay! };
+      const statement = await buildStatement(
+        statementWallet,
+        lastClosedCycle(now, statementWallet.statementClosingDay),
+        now
+      );
+      if (!statement.remainingDue.greaterThan(0) || statement.dueDate! > remindBefore) continue;
+
+      const { transactions, ...summary } = statement;
+      reminders.push({
+        ...summary,
+        daysUntilDue: Math.ceil((statement.dueDate!.getTime() - now.getTime()) / (24 * 60 * 60 * 1000))
+      });
+    }
+
+    return {
+      days,
+      reminders: reminders.sort((a, b) => a.dueDate!.getTime() - b.dueDate!.getTime())
+    };
   }
 };
@@ -4,19 +4,47 @@
  */
 import { Router } from 'express';
 import { validateBody } from './middlewares/validate.middleware';
+import { uploadSingleFile } from './middlewares/upload.middleware';
 import { requireAuth, requireRole } from './middlewares/auth.middleware';
 
 import { AuthController } from './modules/auth/auth.controller';
 import { registerSchema, loginSchema, refreshSchema } from './modules/auth/auth.schema';
 import { UsersController } from './modules/users/users.controller';
+import { updateMeSchema } from './modules/users/users.schema';
 import { TransactionController } from './modules/transaction/transaction.controller';
-import { createTransactionSchema } from './modules/transaction/transaction.schema';
+import {
+  createTransactionSchema,
+  updateTransactionSchema,
+  bulkCreateTransactionsSchema,
+  updateTransactionStatusSchema,
+  createRefundSchema
+} from './modules/transaction/transaction.schema';
 import { WalletController } from './modules/wallet/wallet.controller';
-import { createWalletSchema, updateWalletSchema, getWalletsQuerySchema } from './modules/wallet/wallet.schema';
+import { createWalletSchema, updateWalletSchema, adjustWalletBalanceSchema, getWalletsQuerySchema } from './modules/wallet/wallet.schema';
 import { CategoryController } from './modules/category/category.controller';
 import { createCategorySchema, updateCategorySchema, getCategoriesQuerySchema, createFromTemplateSchema } from './modules/category/category.schema';
 import { LoanController } from './modules/loan/loan.controller';
 import { createLoanSchema, updateLoanSchema, createLoanPaymentSchema, getLoansQuerySchema, getLoanPaymentsQuerySchema } from './modules/loan/loan.schema';
+import { RecurringController } from './modules/recurring/recurring.controller';
+import { createRecurringRuleSchema, updateRecurringRuleSchema } from './modules/recurring/recurring.schema';
+import { ImportController } from './modules/import/import.controller';
+import { csvImportSchema, statementImportSchema, createImportPresetSchema } from './modules/import/import.schema';
+import { TagController } from './modules/tag/tag.controller';
+import { createTagSchema, updateTagSchema } from './modules/tag/tag.schema';
+import { AttachmentController } from './modules/attachment/attachment.controller';
+import { PayeeController } from './modules/payee/payee.controller';
+import { createPayeeSchema, updatePayeeSchema } from './modules/payee/payee.schema';
+import { CategorizationController } from './modules/categorization/categorization.controller';
+import {
+  createCategorizationRuleSchema,
+  updateCategorizationRuleSchema,
+  applyCategorizationRulesSchema
+} from './modules/categorization/categorization.schema';
+import { ReconciliationController } from './modules/reconciliation/reconciliation.controller';
+import { reconcileWalletSchema } from './modules/reconciliation/reconciliation.schema';
+import { LedgerController } from './modules/ledger/ledger.controller';
+import { CurrencyController } from './modules/currency/currency.controller';
+import { createExchangeRateSchema, importExchangeRatesSchema } from './modules/currency/currency.schema';
 
 // Tạo router instance để định nghĩa các routes
 export const routes = Router();
@@ -34,20 +62,52 @@ routes.post('/auth/logout', validateBody(refreshSchema), AuthController.logout);
 // ========== User Routes ==========
 // Lấy thông tin user hiện tại - yêu cầu authentication
 routes.get('/users/me', requireAuth, UsersController.me);
+// Cập nhật tên / tiền tệ gốc của user hiện tại
+routes.put('/users/me', requireAuth, validateBody(updateMeSchema), UsersController.updateMe);
 // Lấy danh sách users - yêu cầu authentication và role ADMIN
 routes.get('/users', requireAuth, requireRole(['ADMIN']), UsersController.list);
 
 // ========== Transaction Routes ==========
 routes.post('/transactions', requireAuth, validateBody(createTransactionSchema), TransactionController.createTransaction);
+routes.post('/transactions/bulk', requireAuth, validateBody(bulkCreateTransactionsSchema), TransactionController.createTransactionsBulk);
 routes.get('/transactions', requireAuth, TransactionController.getTransactions);
+routes.get('/transactions/stats/by-category', requireAuth, TransactionController.getCategoryStats);
+routes.get('/transactions/search', requireAuth, TransactionController.searchTransactions);
+routes.get('/transactions/export', requireAuth, TransactionController.exportTransactions);
+routes.get('/transactions/duplicates', requireAuth, TransactionController.getDuplicates);
+routes.post('/transactions/status', requireAuth, validateBody(updateTransactionStatusSchema), TransactionController.updateTransactionStatus);
+routes.get('/transactions/:id', requireAuth, TransactionController.getTransaction);
+routes.put('/transactions/:id', requireAuth, validateBody(updateTransactionSchema), TransactionController.updateTransaction);
+routes.delete('/transactions/:id', requireAuth, TransactionController.deleteTransaction);
+routes.post('/transactions/:id/restore', requireAuth, TransactionController.restoreTransaction);
+routes.delete('/transactions/:id/purge', requireAuth, TransactionController.purgeTransaction);
+routes.post('/transactions/:id/unlock', requireAuth, TransactionController.unlockTransaction);
+routes.post('/transactions/:id/refunds', requireAuth, validateBody(createRefundSchema), TransactionController.createRefund);
+
+// ========== Attachment Routes ==========
+routes.post('/transactions/:id/attachments', requireAuth, uploadSingleFile('file'), AttachmentController.uploadAttachment);
+routes.get('/transactions/:id/attachments', requireAuth, AttachmentController.getAttachments);
+routes.get('/transactions/:id/attachments/:attachmentId', requireAuth, AttachmentController.downloadAttachment);
+routes.get('/transactions/:id/attachments/:attachmentId/thumbnail', requireAuth, AttachmentController.getAttachmentThumbnail);
+routes.delete('/transactions/:id/attachments/:attachmentId', requireAuth, AttachmentController.deleteAttachment);
 
 // ========== Wallet Routes ==========
 routes.post('/wallets', requireAuth, validateBody(createWalletSchema), WalletController.createWallet);
 routes.get('/wallets', requireAuth, WalletController.getWallets);
 routes.get('/wallets/stats/summary', requireAuth, WalletController.getWalletStats);
+routes.get('/wallets/history', requireAuth, WalletController.getNetBalanceHistory);
+routes.get('/wallets/credit/reminders', requireAuth, WalletController.getCreditReminders);
 routes.get('/wallets/:id', requireAuth, WalletController.getWallet);
+routes.get('/wallets/:id/history', requireAuth, WalletController.getBalanceHistory);
+routes.get('/wallets/:id/statement', requireAuth, WalletController.getStatement);
 routes.put('/wallets/:id', requireAuth, validateBody(updateWalletSchema), WalletController.updateWallet);
 routes.delete('/wallets/:id', requireAuth, WalletController.deleteWallet);
+routes.post('/wallets/:id/adjustments', requireAuth, validateBody(adjustWalletBalanceSchema), WalletController.adjustBalance);
+
+// ========== Reconciliation Routes ==========
+routes.post('/wallets/:id/reconciliations/preview', requireAuth, validateBody(reconcileWalletSchema), ReconciliationController.previewReconciliation);
+routes.post('/wallets/:id/reconciliations', requireAuth, validateBody(reconcileWalletSchema), ReconciliationController.createReconciliation);
+routes.get('/wallets/:id/reconciliations', requireAuth, ReconciliationController.getReconciliations);
 
 // ========== Category Routes ==========
 routes.post('/categories', requireAuth, validateBody(createCategorySchema), CategoryController.createCategory);
@@ -69,3 +129,58 @@ routes.delete('/loans/:id', requireAuth, LoanController.deleteLoan);
 // ========== Loan Payment Routes ==========
 routes.post('/loan-payments', requireAuth, validateBody(createLoanPaymentSchema), LoanController.createLoanPayment);
 routes.get('/loan-payments', requireAuth, LoanController.getLoanPayments);
+
+// ========== Recurring Rule Routes ==========
+routes.post('/recurring-rules', requireAuth, validateBody(createRecurringRuleSchema), RecurringController.createRule);
+routes.get('/recurring-rules', requireAuth, RecurringController.getRules);
+routes.get('/recurring-rules/:id', requireAuth, RecurringController.getRule);
+routes.get('/recurring-rules/:id/preview', requireAuth, RecurringController.previewRule);
+routes.put('/recurring-rules/:id', requireAuth, validateBody(updateRecurringRuleSchema), RecurringController.updateRule);
+routes.delete('/recurring-rules/:id', requireAuth, RecurringController.deleteRule);
+
+// ========== Import Routes ==========
+routes.post('/imports/csv/preview', requireAuth, validateBody(csvImportSchema), ImportController.previewCsv);
+routes.post('/imports/csv/commit', requireAuth, validateBody(csvImportSchema), ImportController.commitCsv);
+routes.post('/imports/statement/preview', requireAuth, validateBody(statementImportSchema), ImportController.previewStatement);
+routes.post('/imports/statement/commit', requireAuth, validateBody(statementImportSchema), ImportController.commitStatement);
+routes.get('/imports/presets', requireAuth, ImportController.getPresets);
+routes.post('/imports/presets', requireAuth, validateBody(createImportPresetSchema), ImportController.createPreset);
+routes.delete('/imports/presets/:id', requireAuth, ImportController.deletePreset);
+
+// ========== Exchange Rate Routes ==========
+routes.get('/exchange-rates', requireAuth, CurrencyController.getRates);
+routes.post('/exchange-rates', requireAuth, validateBody(createExchangeRateSchema), CurrencyController.createRate);
+routes.post('/exchange-rates/import', requireAuth, validateBody(importExchangeRatesSchema), CurrencyController.importRates);
+routes.delete('/exchange-rates/:id', requireAuth, CurrencyController.deleteRate);
+
+// ========== Tag Routes ==========
+routes.post('/tags', requireAuth, validateBody(createTagSchema), TagController.createTag);
+routes.get('/tags', requireAuth, TagController.getTags);
+routes.get('/tags/summary', requireAuth, TagController.getTagSummary);
+routes.get('/tags/:id', requireAuth, TagController.getTag);
+routes.put('/tags/:id', requireAuth, validateBody(updateTagSchema), TagController.updateTag);
+routes.delete('/tags/:id', requireAuth, TagController.deleteTag);
+
+// ========== Payee Routes ==========
+routes.post('/payees', requireAuth, validateBody(createPayeeSchema), PayeeController.createPayee);
+routes.get('/payees', requireAuth, PayeeController.getPayees);
+routes.get('/payees/summary', requireAuth, PayeeController.getPayeeSummary);
+routes.get('/payees/:id', requireAuth, PayeeController.getPayee);
+routes.put('/payees/:id', requireAuth, validateBody(updatePayeeSchema), PayeeController.updatePayee);
+routes.delete('/payees/:id', requireAuth, PayeeController.deletePayee);
+
+// ========== Categorization Rule Routes ==========
+routes.post('/categorization-rules', requireAuth, validateBody(createCategorizationRuleSchema), CategorizationController.createRule);
+routes.get('/categorization-rules', requireAuth, CategorizationController.getRules);
+routes.post('/categorization-rules/apply/preview', requireAuth, validateBody(applyCategorizationRulesSchema), CategorizationController.previewApply);
+routes.post('/categorization-rules/apply', requireAuth, validateBody(applyCategorizationRulesSchema), CategorizationController.applyRules);
+routes.get('/categorization-rules/:id', requireAuth, CategorizationController.getRule);
+routes.put('/categorization-rules/:id', requireAuth, validateBody(updateCategorizationRuleSchema), CategorizationController.updateRule);
+routes.delete('/categorization-rules/:id', requireAuth, CategorizationController.deleteRule);
+
+// ========== Ledger Integrity Routes ==========
+routes.get('/ledger/integrity', requireAuth, LedgerController.checkIntegrity);
+routes.post('/ledger/integrity/repair', requireAuth, LedgerController.repairIntegrity);
+// Kiểm tra/sửa sổ sách của mọi user - yêu cầu role ADMIN
+routes.get('/admin/ledger/integrity', requireAuth, requireRole(['ADMIN']), LedgerController.checkAllIntegrity);
+routes.post('/admin/ledger/integrity/repair', requireAuth, requireRole(['ADMIN']), LedgerController.repairAllIntegrity);
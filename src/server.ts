@@ -5,6 +5,7 @@
 import { createApp } from './app';
 import { env } from './config/env';
 import { logger } from './config/logger';
+import { startRecurringScheduler } from './modules/recurring/recurring.scheduler';
 
 // Tạo Express app instance
 const app = createApp();
@@ -13,4 +14,7 @@ const app = createApp();
 app.listen(env.PORT, () => {
   logger.info(`Server: http://localhost:${env.PORT}`);
   logger.info(`Health: http://localhost:${env.PORT}/health`);
+
+  // Scheduler sinh giao dịch định kỳ (catch-up ngay khi khởi động)
+  startRecurringScheduler(env.RECURRING_SCHEDULER_INTERVAL_MS);
 });
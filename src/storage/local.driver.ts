@@ -0,0 +1,47 @@
+/**
+ * Local Storage Driver
+ * Lưu file trên filesystem của server, mỗi key là 1 đường dẫn tương đối trong thư mục gốc
+ */
+import fs from 'fs';
+import path from 'path';
+import { StorageDriver } from './storage.driver';
+
+/**
+ * Tạo driver lưu file vào thư mục rootDir
+ *
+ * @param rootDir - Thư mục gốc chứa file (tự tạo nếu chưa có)
+ */
+export function createLocalStorageDriver(rootDir: string): StorageDriver {
+  const root = path.resolve(rootDir);
+
+  // Key do server sinh ra, vẫn chặn key thoát ra ngoài thư mục gốc (../)
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error('STORAGE_INVALID_KEY');
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, data);
+    },
+
+    async getStream(key) {
+      const filePath = resolveKey(key);
+      try {
+        await fs.promises.access(filePath, fs.constants.R_OK);
+      } catch {
+        throw new Error('STORAGE_FILE_NOT_FOUND');
+      }
+      return fs.createReadStream(filePath);
+    },
+
+    async delete(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    }
+  };
+}
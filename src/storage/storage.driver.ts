@@ -0,0 +1,36 @@
+/**
+ * Storage Driver
+ * Lớp trừu tượng lưu trữ file (file đính kèm giao dịch...), driver được chọn qua STORAGE_DRIVER
+ * Thêm driver mới (VD: S3-compatible) bằng cách implement StorageDriver và đăng ký trong createStorageDriver
+ */
+import { Readable } from 'stream';
+import { env } from '../config/env';
+import { createLocalStorageDriver } from './local.driver';
+
+export interface StorageDriver {
+  /** Ghi file, ghi đè nếu key đã tồn tại */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Đọc file dạng stream
+   * @throws Error('STORAGE_FILE_NOT_FOUND') nếu file không tồn tại
+   */
+  getStream(key: string): Promise<Readable>;
+
+  /** Xoá file, không lỗi nếu file không tồn tại */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Khởi tạo storage driver theo cấu hình
+ */
+export function createStorageDriver(): StorageDriver {
+  switch (env.STORAGE_DRIVER) {
+    case 'local':
+    default:
+      return createLocalStorageDriver(env.STORAGE_LOCAL_DIR);
+  }
+}
+
+// Storage driver dùng chung cho toàn bộ ứng dụng
+export const storage = createStorageDriver();
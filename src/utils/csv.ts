@@ -0,0 +1,62 @@
+/**
+ * Parse nội dung CSV thành mảng các dòng (mỗi dòng là mảng ô)
+ * Hỗ trợ ô có dấu ngoặc kép (chứa delimiter, xuống dòng, "" để escape), bỏ BOM đầu file
+ * và bỏ qua dòng trống
+ *
+ * @param content - Nội dung file CSV
+ * @param delimiter - Ký tự phân cách cột (mặc định ',')
+ * @returns Mảng các dòng, mỗi dòng là mảng string đã trim
+ */
+export function parseCsv(content: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  const pushRow = () => {
+    row.push(cell.trim());
+    if (row.some((value) => value !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      // \r\n => chỉ tính 1 lần xuống dòng
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      pushRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  // Dòng cuối không có ký tự xuống dòng
+  if (cell !== '' || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+}
@@ -30,6 +30,13 @@ export const ErrorMap: Record<string, ErrorResponse> = {
   WALLET_NAME_EXISTS: { status: 409, message: 'Wallet name already exists' },
   WALLET_NOT_FOUND: { status: 404, message: 'Wallet not found' },
   WALLET_HAS_TRANSACTIONS: { status: 409, message: 'Cannot archive wallet with existing transactions' },
+  WALLET_CURRENCY_LOCKED: { status: 409, message: 'Cannot change currency of a wallet with existing transactions' },
+  WALLET_BALANCE_UNCHANGED: { status: 400, message: 'New balance equals the current wallet balance' },
+  WALLET_BALANCE_CHANGED: { status: 409, message: 'Wallet balance changed while adjusting, please try again' },
+  WALLET_BALANCE_BELOW_LIMIT: { status: 400, message: 'Wallet balance cannot go below zero, or below the credit limit for credit wallets' },
+  WALLET_NOT_CREDIT: { status: 400, message: 'Credit limit, statement cycle and due date are only available for credit wallets' },
+  WALLET_STATEMENT_NOT_CONFIGURED: { status: 400, message: 'Credit wallet has no statement closing day' },
+  WALLET_HISTORY_RANGE_TOO_LARGE: { status: 400, message: 'Balance history range has too many intervals, use a shorter range or a longer interval' },
 
   // Category Errors
   CATEGORY_NAME_EXISTS: { status: 409, message: 'Category name already exists for this type' },
@@ -50,10 +57,75 @@ export const ErrorMap: Record<string, ErrorResponse> = {
   SAME_WALLET_TRANSFER: { status: 400, message: 'Ví nguồn và ví đích phải khác nhau' },
   INSUFFICIENT_WALLET_BALANCE: { status: 400, message: 'Số dư ví không đủ để thực hiện giao dịch' },
   INSUFFICIENT_BALANCE: { status: 400, message: 'Insufficient balance' },
+  TRANSACTION_NOT_FOUND: { status: 404, message: 'Transaction not found' },
+  TRANSACTION_LINKED_TO_LOAN: { status: 409, message: 'Giao dịch thuộc khoản vay/nợ, vui lòng thao tác qua khoản vay' },
+  SPLIT_AMOUNT_MISMATCH: { status: 400, message: 'Total of split amounts must equal transaction amount' },
+  TRANSACTION_UPDATE_MISSING_FIELDS: { status: 400, message: 'Missing wallet or category for the new transaction type' },
+  POSSIBLE_DUPLICATE_TRANSACTION: { status: 409, message: 'Possible duplicate transaction, resend with force: true to create anyway' },
+  TRANSACTION_NOT_DELETED: { status: 409, message: 'Transaction must be deleted before it can be purged' },
+  TRANSACTION_CATEGORY_REQUIRED: { status: 400, message: 'categoryId or splits is required (no categorization rule matched)' },
+  TRANSACTION_RECONCILED: { status: 409, message: 'Transaction is reconciled, unlock it before editing' },
+  TRANSACTION_NOT_RECONCILED: { status: 409, message: 'Transaction is not reconciled' },
+  TRANSACTION_IS_REFUND: { status: 409, message: 'Refund transactions cannot be edited, delete it and create a new refund' },
+  TRANSACTION_IS_ADJUSTMENT: { status: 409, message: 'Balance adjustments cannot be edited, delete it and adjust the balance again' },
+  TRANSACTION_MODIFIED: { status: 409, message: 'Transaction was changed by another request, reload it and try again' },
+  TRANSACTION_HAS_REFUNDS: { status: 409, message: 'Transaction has refunds, delete them first or keep the amount at least the refunded total' },
+
+  // Attachment Errors
+  ATTACHMENT_NOT_FOUND: { status: 404, message: 'Attachment not found' },
+  ATTACHMENT_FILE_REQUIRED: { status: 400, message: 'File is required (multipart/form-data field "file")' },
+  ATTACHMENT_TOO_LARGE: { status: 413, message: 'Attachment exceeds the maximum file size' },
+  ATTACHMENT_TYPE_NOT_ALLOWED: { status: 415, message: 'Only JPEG, PNG, WebP images and PDF files are allowed' },
+  ATTACHMENT_INVALID_FILE: { status: 400, message: 'Image file is corrupted or unreadable' },
+  ATTACHMENT_LIMIT_REACHED: { status: 409, message: 'Transaction already has the maximum number of attachments' },
+  INVALID_UPLOAD: { status: 400, message: 'Invalid file upload' },
+
+  // Loan Errors
+  LOAN_CURRENCY_MISMATCH: { status: 400, message: 'Wallet currency must match the loan currency' },
+
+  // Recurring Rule Errors
+  RECURRING_RULE_NOT_FOUND: { status: 404, message: 'Recurring rule not found' },
+  RECURRING_RULE_INVALID_END_DATE: { status: 400, message: 'endDate must be after startDate' },
+  RECURRING_RULE_FIELD_NOT_APPLICABLE: { status: 400, message: 'walletId/categoryId apply to income/expense rules, fromWalletId/toWalletId to transfer rules' },
+
+  // Import Errors
+  IMPORT_PRESET_NOT_FOUND: { status: 404, message: 'Import preset not found' },
+  IMPORT_PRESET_NAME_EXISTS: { status: 409, message: 'Import preset name already exists' },
+  IMPORT_COLUMN_NOT_FOUND: { status: 400, message: 'Mapped column not found in CSV header' },
+  IMPORT_NO_VALID_ROWS: { status: 400, message: 'No valid rows to import' },
+  IMPORT_TOO_MANY_ROWS: { status: 400, message: 'Too many rows in a single import (max 1000)' },
+  IMPORT_UNSUPPORTED_FORMAT: { status: 400, message: 'Unsupported statement file format (expected OFX or QIF)' },
+  IMPORT_CATEGORY_REQUIRED: { status: 400, message: 'incomeCategoryId/expenseCategoryId is required for the imported rows' },
+
+  // Tag Errors
+  TAG_NOT_FOUND: { status: 404, message: 'Tag not found' },
+  TAG_NAME_EXISTS: { status: 409, message: 'Tag name already exists' },
+
+  // Payee Errors
+  PAYEE_NOT_FOUND: { status: 404, message: 'Payee not found' },
+  PAYEE_NAME_EXISTS: { status: 409, message: 'Payee name already exists' },
+
+  // Categorization Rule Errors
+  CATEGORIZATION_RULE_NOT_FOUND: { status: 404, message: 'Categorization rule not found' },
+  CATEGORIZATION_RULE_NO_ACTION: { status: 400, message: 'Categorization rule must assign a category or tags' },
+  CATEGORIZATION_APPLY_TOO_MANY_TRANSACTIONS: { status: 400, message: 'Too many transactions in the date range (max 5000), narrow the range' },
+
+  // Refund Errors
+  REFUND_INVALID_TRANSACTION: { status: 400, message: 'Only existing expense transactions not linked to a loan can be refunded' },
+  REFUND_CATEGORY_INVALID: { status: 400, message: 'categoryId must be a category of the original transaction (required for split expenses)' },
+  REFUND_EXCEEDS_ORIGINAL: { status: 400, message: 'Total refunded amount cannot exceed the original transaction amount' },
+
+  // Reconciliation Errors
+  RECONCILIATION_BALANCE_MISMATCH: { status: 409, message: 'Cleared balance does not match the statement balance' },
+  RECONCILIATION_TRANSACTIONS_CHANGED: { status: 409, message: 'Cleared transactions changed during reconciliation, please try again' },
+
+  // Exchange Rate Errors
+  EXCHANGE_RATE_NOT_FOUND: { status: 404, message: 'Exchange rate not found for this currency pair' },
 
   // Validation Errors
   VALIDATION_ERROR: { status: 400, message: 'Validation error' },
   INVALID_INPUT: { status: 400, message: 'Invalid input' },
+  INVALID_CURSOR: { status: 400, message: 'Invalid pagination cursor' },
 
   // Database Errors
   DATABASE_ERROR: { status: 500, message: 'Database error' },
@@ -0,0 +1,181 @@
+/**
+ * Keyset (cursor) pagination
+ * Phân trang theo giá trị các cột sắp xếp của bản ghi cuối/đầu trang thay vì skip/take:
+ * không cần count, tốc độ ổn định với dữ liệu lớn và không bị lệch trang khi có bản ghi mới
+ */
+
+/**
+ * 1 cột trong thứ tự sắp xếp, cột cuối cùng phải là khoá duy nhất (id) để thứ tự ổn định
+ * Cột enum/boolean không so sánh lớn/nhỏ được qua Prisma => khai báo thứ tự giá trị trong values
+ * (enum MySQL sắp xếp theo thứ tự khai báo, boolean: false trước true)
+ */
+export type KeysetField = {
+  field: string;
+  direction: 'asc' | 'desc';
+  type: 'date' | 'string' | 'number' | 'enum';
+  values?: readonly (string | boolean)[];
+  /** Cột có thể null: MySQL xếp NULL đầu tiên khi asc, cuối cùng khi desc */
+  nullable?: boolean;
+};
+
+/** Vị trí cursor: lấy trang sau (next) hoặc trang trước (prev) của bản ghi có values */
+type CursorPosition = {
+  direction: 'next' | 'prev';
+  values: unknown[];
+};
+
+export type CursorPagination = {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasMore: boolean;
+};
+
+const flip = (direction: 'asc' | 'desc') => (direction === 'asc' ? 'desc' : 'asc');
+
+function encodeCursor(position: CursorPosition) {
+  return Buffer.from(JSON.stringify({ d: position.direction, v: position.values })).toString('base64url');
+}
+
+/**
+ * Giải mã cursor token
+ * Token rỗng => trang đầu tiên
+ *
+ * @throws Error('INVALID_CURSOR') nếu token sai định dạng hoặc không khớp thứ tự sắp xếp
+ */
+function decodeCursor(token: string, keys: readonly KeysetField[]): CursorPosition | null {
+  if (token === '') return null;
+
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('INVALID_CURSOR');
+  }
+
+  if (
+    !payload
+    || (payload.d !== 'next' && payload.d !== 'prev')
+    || !Array.isArray(payload.v)
+    || payload.v.length !== keys.length
+  ) {
+    throw new Error('INVALID_CURSOR');
+  }
+
+  const values = keys.map((key, index) => {
+    const value = payload.v[index];
+    if (value === null && key.nullable) return null;
+
+    switch (key.type) {
+      case 'date': {
+        const date = typeof value === 'string' ? new Date(value) : null;
+        if (date && !isNaN(date.getTime())) return date;
+        break;
+      }
+      case 'number':
+        if (typeof value === 'number' && Number.isFinite(value)) return value;
+        break;
+      case 'enum':
+        if (key.values?.includes(value)) return value;
+        break;
+      default:
+        if (typeof value === 'string') return value;
+    }
+    throw new Error('INVALID_CURSOR');
+  });
+
+  return { direction: payload.d, values };
+}
+
+/**
+ * Điều kiện bản ghi đứng sau value theo chiều direction của 1 cột
+ * @returns null nếu không có bản ghi nào đứng sau
+ */
+function afterCondition(key: KeysetField, direction: 'asc' | 'desc', value: unknown) {
+  if (key.values) {
+    const index = key.values.indexOf(value as string | boolean);
+    const after = direction === 'asc' ? key.values.slice(index + 1) : key.values.slice(0, index);
+    if (after.length === 0) return null;
+    return { [key.field]: after.length === 1 ? after[0] : { in: after } };
+  }
+
+  if (direction === 'asc') {
+    return { [key.field]: value === null ? { not: null } : { gt: value } };
+  }
+  if (value === null) return null;
+  return key.nullable
+    ? { OR: [{ [key.field]: { lt: value } }, { [key.field]: null }] }
+    : { [key.field]: { lt: value } };
+}
+
+/**
+ * Lấy 1 trang theo cursor
+ * Trang trước được đọc theo thứ tự đảo ngược rồi đảo lại, luôn lấy dư 1 bản ghi để biết còn trang hay không
+ *
+ * @param keys - Thứ tự sắp xếp của danh sách
+ * @param token - Cursor token từ client (rỗng = trang đầu tiên)
+ * @param limit - Số bản ghi mỗi trang
+ * @param findMany - Hàm truy vấn, nhận điều kiện keyset (AND với where của danh sách) và orderBy
+ * @returns Bản ghi của trang và thông tin cursor
+ * @throws Error('INVALID_CURSOR') nếu token không hợp lệ
+ */
+export async function findCursorPage<T extends Record<string, any>>(
+  keys: readonly KeysetField[],
+  token: string,
+  limit: number,
+  findMany: (args: {
+    where: Record<string, any>;
+    orderBy: Record<string, 'asc' | 'desc'>[];
+    take: number;
+  }) => Promise<T[]>
+): Promise<{ items: T[]; pagination: CursorPagination }> {
+  const position = decodeCursor(token, keys);
+  const backward = position?.direction === 'prev';
+  const directionOf = (key: KeysetField) => (backward ? flip(key.direction) : key.direction);
+
+  // (k1 sau v1) OR (k1 = v1 AND k2 sau v2) OR ...
+  let where: Record<string, any> = {};
+  if (position) {
+    const branches: Record<string, any>[] = [];
+    keys.forEach((key, index) => {
+      const after = afterCondition(key, directionOf(key), position.values[index]);
+      if (!after) return;
+      const equals = keys.slice(0, index).map((previous, i) => ({ [previous.field]: position.values[i] }));
+      branches.push(equals.length > 0 ? { AND: [...equals, after] } : after);
+    });
+    // Không còn nhánh nào => không có bản ghi nào đứng sau cursor
+    where = branches.length > 0 ? { OR: branches } : { [keys[keys.length - 1].field]: { in: [] } };
+  }
+
+  const rows = await findMany({
+    where,
+    orderBy: keys.map((key) => ({ [key.field]: directionOf(key) })),
+    take: limit + 1
+  });
+
+  const hasExtra = rows.length > limit;
+  const items = rows.slice(0, limit);
+  if (backward) items.reverse();
+
+  const cursorOf = (item: T | undefined, direction: CursorPosition['direction']) =>
+    item
+      ? encodeCursor({
+        direction,
+        values: keys.map((key) => (item[key.field] instanceof Date ? item[key.field].toISOString() : item[key.field]))
+      })
+      : null;
+
+  const hasNext = backward ? items.length > 0 : hasExtra;
+  const hasPrev = backward ? hasExtra : position !== null && items.length > 0;
+  const nextCursor = hasNext ? cursorOf(items[items.length - 1], 'next') : null;
+
+  return {
+    items,
+    pagination: {
+      limit,
+      nextCursor,
+      prevCursor: hasPrev ? cursorOf(items[0], 'prev') : null,
+      hasMore: nextCursor !== null
+    }
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Dọn file trong storage khi upload đính kèm thất bại (prisma, storage và sharp được mock, không cần DB)
+ */
+jest.mock('../src/db/prisma', () => ({
+  prisma: {
+    transaction: { findFirst: jest.fn() },
+    transactionAttachment: { count: jest.fn(), create: jest.fn() }
+  }
+}));
+jest.mock('../src/config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('../src/storage/storage.driver', () => ({
+  storage: { put: jest.fn(), delete: jest.fn() }
+}));
+jest.mock('sharp', () => () => {
+  const pipeline = {
+    rotate: () => pipeline,
+    resize: () => pipeline,
+    webp: () => pipeline,
+    toBuffer: async () => Buffer.from('thumbnail')
+  };
+  return pipeline;
+});
+
+import { prisma } from '../src/db/prisma';
+import { storage } from '../src/storage/storage.driver';
+import { AttachmentService } from '../src/modules/attachment/attachment.service';
+
+const mockPrisma = prisma as unknown as {
+  transaction: { findFirst: jest.Mock };
+  transactionAttachment: { count: jest.Mock; create: jest.Mock };
+};
+const mockStorage = storage as unknown as { put: jest.Mock; delete: jest.Mock };
+
+const pngFile = {
+  originalname: 'receipt.png',
+  buffer: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00])
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma.transaction.findFirst.mockResolvedValue({ id: 'tx-1' });
+  mockPrisma.transactionAttachment.count.mockResolvedValue(0);
+  mockStorage.put.mockResolvedValue(undefined);
+  mockStorage.delete.mockResolvedValue(undefined);
+});
+
+describe('AttachmentService.uploadAttachment', () => {
+  it('removes the original file when the thumbnail write fails', async () => {
+    mockStorage.put
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(AttachmentService.uploadAttachment('tx-1', 'user-1', pngFile)).rejects.toThrow('disk full');
+
+    const [storageKey, thumbnailKey] = mockStorage.put.mock.calls.map(([key]) => key);
+    const deletedKeys = mockStorage.delete.mock.calls.map(([key]) => key);
+    expect(deletedKeys).toEqual(expect.arrayContaining([storageKey, thumbnailKey]));
+    expect(mockPrisma.transactionAttachment.create).not.toHaveBeenCalled();
+  });
+
+  it('removes both files when saving metadata fails', async () => {
+    mockPrisma.transactionAttachment.create.mockRejectedValue(new Error('db down'));
+
+    await expect(AttachmentService.uploadAttachment('tx-1', 'user-1', pngFile)).rejects.toThrow('db down');
+
+    const writtenKeys = mockStorage.put.mock.calls.map(([key]) => key);
+    expect(writtenKeys).toHaveLength(2);
+    expect(mockStorage.delete.mock.calls.map(([key]) => key)).toEqual(expect.arrayContaining(writtenKeys));
+  });
+});
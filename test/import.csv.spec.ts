@@ -0,0 +1,63 @@
+import { parseCsv } from '../src/utils/csv';
+import { parseStatementAmount, parseStatementDate } from '../src/modules/import/import.parsers';
+
+describe('parseCsv', () => {
+  it('splits rows and trims cells', () => {
+    expect(parseCsv('a, b ,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps delimiters, line breaks and escaped quotes inside quoted cells', () => {
+    expect(parseCsv('"Nguyen, Van A","line 1\nline 2","say ""hi"""')).toEqual([
+      ['Nguyen, Van A', 'line 1\nline 2', 'say "hi"']
+    ]);
+  });
+
+  it('handles CRLF, BOM, blank lines and a missing trailing newline', () => {
+    expect(parseCsv('\uFEFFdate;amount\r\n\r\n01/02/2024;100\r\n;\r\n02/02/2024;-50', ';')).toEqual([
+      ['date', 'amount'],
+      ['01/02/2024', '100'],
+      ['02/02/2024', '-50']
+    ]);
+  });
+});
+
+describe('parseStatementAmount', () => {
+  it('parses vi and en number formats', () => {
+    expect(parseStatementAmount('1.234.567,89', 'vi')).toBe(1234567.89);
+    expect(parseStatementAmount('1,234,567.89', 'en')).toBe(1234567.89);
+    expect(parseStatementAmount('50.000', 'vi')).toBe(50000);
+  });
+
+  it('treats leading/trailing minus and parentheses as negative', () => {
+    expect(parseStatementAmount('-1,000.50', 'en')).toBe(-1000.5);
+    expect(parseStatementAmount('1.000-', 'vi')).toBe(-1000);
+    expect(parseStatementAmount('(250.00)', 'en')).toBe(-250);
+  });
+
+  it('ignores currency symbols and rounds to 2 decimals', () => {
+    expect(parseStatementAmount('1 500 000 ₫', 'vi')).toBe(1500000);
+    expect(parseStatementAmount('$12.345', 'en')).toBe(12.35);
+    expect(parseStatementAmount('+20', 'en')).toBe(20);
+  });
+
+  it('returns undefined for empty cells and null for invalid numbers', () => {
+    expect(parseStatementAmount('', 'en')).toBeUndefined();
+    expect(parseStatementAmount(' VND ', 'vi')).toBeUndefined();
+    expect(parseStatementAmount('1.2.3', 'en')).toBeNull();
+    expect(parseStatementAmount('-', 'en')).toBeNull();
+  });
+});
+
+describe('parseStatementDate', () => {
+  it('reads day/month/year in the configured order with an optional time', () => {
+    expect(parseStatementDate('05/03/2024', 'dd/MM/yyyy')).toEqual(new Date(2024, 2, 5));
+    expect(parseStatementDate('05/03/2024', 'MM/dd/yyyy')).toEqual(new Date(2024, 4, 3));
+    expect(parseStatementDate('2024-03-05 14:30', 'yyyy-MM-dd')).toEqual(new Date(2024, 2, 5, 14, 30));
+    expect(parseStatementDate('05.03.2024 08:15:20', 'dd.MM.yyyy')).toEqual(new Date(2024, 2, 5, 8, 15, 20));
+  });
+
+  it('rejects dates that do not exist or do not match the format', () => {
+    expect(parseStatementDate('31/02/2024', 'dd/MM/yyyy')).toBeNull();
+    expect(parseStatementDate('2024-03-05', 'dd/MM/yyyy')).toBeNull();
+  });
+});
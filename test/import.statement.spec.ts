@@ -0,0 +1,105 @@
+import {
+  detectStatementFormat,
+  parseOfx,
+  parseQif,
+  parseQifDate
+} from '../src/modules/import/import.parsers';
+
+describe('parseOfx', () => {
+  it('reads SGML (OFX 1.x) transactions without closing tags', () => {
+    const content = [
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20240305143000.000[+7:ICT]',
+      '<TRNAMT>-125000,50',
+      '<FITID>TX-001',
+      '<NAME>Coffee &amp; Tea',
+      '<MEMO>Morning',
+      '<STMTTRN>',
+      '<DTPOSTED>20240306',
+      '<TRNAMT>2000000',
+      '<PAYEE>Salary',
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>'
+    ].join('\n');
+
+    expect(parseOfx(content)).toEqual([
+      {
+        transactionDate: new Date(2024, 2, 5, 14, 30, 0),
+        amount: '-125000.50',
+        payee: 'Coffee & Tea',
+        memo: 'Morning',
+        fitId: 'TX-001'
+      },
+      {
+        transactionDate: new Date(2024, 2, 6),
+        amount: '2000000',
+        payee: 'Salary',
+        memo: '',
+        fitId: undefined
+      }
+    ]);
+  });
+
+  it('reads XML (OFX 2.x) transactions and rejects invalid dates', () => {
+    const content = '<OFX><STMTTRN><DTPOSTED>20240231</DTPOSTED><TRNAMT>10.00</TRNAMT>'
+      + '<FITID>X1</FITID><NAME>Shop</NAME></STMTTRN></OFX>';
+
+    expect(parseOfx(content)).toEqual([
+      { transactionDate: null, amount: '10.00', payee: 'Shop', memo: '', fitId: 'X1' }
+    ]);
+  });
+});
+
+describe('parseQifDate', () => {
+  it('follows the configured month/day order', () => {
+    expect(parseQifDate('03/05/2024', 'MM/dd/yyyy')).toEqual(new Date(2024, 2, 5));
+    expect(parseQifDate('03/05/2024', 'dd/MM/yyyy')).toEqual(new Date(2024, 4, 3));
+  });
+
+  it('maps 2-digit years to 20xx after an apostrophe and 19xx otherwise', () => {
+    expect(parseQifDate("12/31'23", 'MM/dd/yyyy')).toEqual(new Date(2023, 11, 31));
+    expect(parseQifDate(' 1/ 5\'24', 'MM/dd/yyyy')).toEqual(new Date(2024, 0, 5));
+    expect(parseQifDate('12/31/99', 'MM/dd/yyyy')).toEqual(new Date(1999, 11, 31));
+  });
+
+  it('returns null for invalid or non-existent dates', () => {
+    expect(parseQifDate('02/30/2024', 'MM/dd/yyyy')).toBeNull();
+    expect(parseQifDate('2024-03-05', 'MM/dd/yyyy')).toBeNull();
+    expect(parseQifDate('', 'MM/dd/yyyy')).toBeNull();
+  });
+});
+
+describe('parseQif', () => {
+  it('reads records and keeps only the first field of each code', () => {
+    const content = [
+      '!Type:Bank',
+      'D03/05/2024',
+      'T-1,250.00',
+      'PGrocery',
+      'MWeekly',
+      'SFood',
+      '$-1000.00',
+      'SHome',
+      '$-250.00',
+      '^',
+      "D03/06'24",
+      'U500.00',
+      '^'
+    ].join('\r\n');
+
+    expect(parseQif(content, 'MM/dd/yyyy')).toEqual([
+      { transactionDate: new Date(2024, 2, 5), amount: '-1,250.00', payee: 'Grocery', memo: 'Weekly' },
+      { transactionDate: new Date(2024, 2, 6), amount: '500.00', payee: '', memo: '' }
+    ]);
+  });
+});
+
+describe('detectStatementFormat', () => {
+  it('detects OFX and QIF content', () => {
+    expect(detectStatementFormat('OFXHEADER:100\n<OFX>')).toBe('ofx');
+    expect(detectStatementFormat('\uFEFF!Type:Bank\nD01/01/2024')).toBe('qif');
+    expect(() => detectStatementFormat('date,amount')).toThrow('IMPORT_UNSUPPORTED_FORMAT');
+  });
+});
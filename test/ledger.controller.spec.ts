@@ -0,0 +1,57 @@
+/**
+ * Query userId của endpoint admin kiểm tra sổ sách (LedgerService được mock, không cần DB)
+ */
+jest.mock('../src/modules/ledger/ledger.service', () => ({
+  LedgerService: { checkIntegrity: jest.fn(), repairIntegrity: jest.fn() }
+}));
+
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import { LedgerController } from '../src/modules/ledger/ledger.controller';
+import { LedgerService } from '../src/modules/ledger/ledger.service';
+
+const checkIntegrity = LedgerService.checkIntegrity as jest.Mock;
+
+const mockResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  return res;
+};
+
+const request = (query: Record<string, unknown>) => ({ query }) as unknown as Request;
+
+describe('LedgerController.checkAllIntegrity', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    checkIntegrity.mockResolvedValue({ walletDiscrepancies: [], loanDiscrepancies: [] });
+  });
+
+  it('rejects a repeated userId query parameter', async () => {
+    const res = mockResponse();
+
+    await LedgerController.checkAllIntegrity(request({ userId: [randomUUID(), randomUUID()] }), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(checkIntegrity).not.toHaveBeenCalled();
+  });
+
+  it('rejects a userId that is not a UUID', async () => {
+    const res = mockResponse();
+
+    await LedgerController.checkAllIntegrity(request({ userId: 'not-a-uuid' }), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(checkIntegrity).not.toHaveBeenCalled();
+  });
+
+  it('checks a single user when userId is a UUID', async () => {
+    const res = mockResponse();
+    const userId = randomUUID();
+
+    await LedgerController.checkAllIntegrity(request({ userId }), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(checkIntegrity).toHaveBeenCalledWith({ userId });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Chốt đối chiếu chỉ khoá giao dịch còn cleared (prisma được mock, không cần DB)
+ */
+jest.mock('../src/db/prisma', () => ({
+  prisma: {
+    wallet: { findFirst: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+import { prisma } from '../src/db/prisma';
+import { Prisma } from '../src/generated/prisma/client';
+import { ReconciliationService } from '../src/modules/reconciliation/reconciliation.service';
+
+const mockPrisma = prisma as unknown as {
+  wallet: { findFirst: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const statement = { statementDate: new Date(2024, 2, 31), statementBalance: 150 };
+
+// Ví mở đầu 100, giao dịch cleared cộng thêm 50 => khớp sao kê 150
+const createTx = (updatedCount: number) => ({
+  transactionEntry: {
+    groupBy: jest.fn().mockResolvedValue([{ direction: 'in', _sum: { amount: new Prisma.Decimal(50) } }])
+  },
+  transaction: {
+    findMany: jest.fn().mockResolvedValue([{ id: 'transaction-1' }, { id: 'transaction-2' }]),
+    updateMany: jest.fn().mockResolvedValue({ count: updatedCount })
+  },
+  walletReconciliation: {
+    create: jest.fn().mockResolvedValue({ id: 'reconciliation-1', transactionCount: 2 })
+  }
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma.wallet.findFirst.mockResolvedValue({
+    id: 'wallet-1',
+    name: 'Bank',
+    currency: 'VND',
+    openingBalance: new Prisma.Decimal(100),
+    currentBalance: new Prisma.Decimal(150)
+  });
+});
+
+describe('ReconciliationService.reconcileWallet', () => {
+  it('reconciles only rows that are still cleared and not deleted', async () => {
+    const tx = createTx(2);
+    mockPrisma.$transaction.mockImplementation((callback: (client: unknown) => unknown) => callback(tx));
+
+    const result = await ReconciliationService.reconcileWallet('wallet-1', 'user-1', statement);
+
+    expect(result.id).toBe('reconciliation-1');
+    expect(tx.transaction.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: { in: ['transaction-1', 'transaction-2'] }, status: 'cleared', deletedAt: null }
+    }));
+  });
+
+  it('aborts when a cleared row changed after it was read', async () => {
+    const tx = createTx(1);
+    mockPrisma.$transaction.mockImplementation((callback: (client: unknown) => unknown) => callback(tx));
+
+    await expect(ReconciliationService.reconcileWallet('wallet-1', 'user-1', statement))
+      .rejects.toThrow('RECONCILIATION_TRANSACTIONS_CHANGED');
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  firstOccurrenceAfter,
+  nextOccurrence,
+  RuleSchedule,
+  withinEndDate
+} from '../src/modules/recurring/recurring.schedule';
+
+const schedule = (overrides: Partial<RuleSchedule>): RuleSchedule => ({
+  frequency: 'monthly',
+  interval: 1,
+  dayOfMonth: null,
+  dayOfWeek: null,
+  startDate: new Date(2024, 0, 1, 9, 30),
+  endDate: null,
+  ...overrides
+});
+
+// n occurrence đầu tiên (>= startDate) của rule
+const occurrences = (rule: RuleSchedule, count: number) => {
+  const result: Date[] = [];
+  let occurrence = firstOccurrenceAfter(rule, null);
+  while (occurrence && result.length < count) {
+    result.push(occurrence);
+    occurrence = withinEndDate(rule, nextOccurrence(rule, occurrence));
+  }
+  return result;
+};
+
+describe('recurring schedule', () => {
+  it('steps daily and weekly rules by interval, keeping the start time', () => {
+    expect(occurrences(schedule({ frequency: 'daily', interval: 3 }), 3)).toEqual([
+      new Date(2024, 0, 1, 9, 30),
+      new Date(2024, 0, 4, 9, 30),
+      new Date(2024, 0, 7, 9, 30)
+    ]);
+
+    // 1/1/2024 là thứ Hai => thứ Sáu đầu tiên là 5/1, sau đó cách 2 tuần
+    expect(occurrences(schedule({ frequency: 'weekly', interval: 2, dayOfWeek: 5 }), 3)).toEqual([
+      new Date(2024, 0, 5, 9, 30),
+      new Date(2024, 0, 19, 9, 30),
+      new Date(2024, 1, 2, 9, 30)
+    ]);
+  });
+
+  it('clamps monthly day 31 to the end of shorter months without drifting', () => {
+    expect(occurrences(schedule({ dayOfMonth: 31 }), 4)).toEqual([
+      new Date(2024, 0, 31, 9, 30),
+      new Date(2024, 1, 29, 9, 30),
+      new Date(2024, 2, 31, 9, 30),
+      new Date(2024, 3, 30, 9, 30)
+    ]);
+  });
+
+  it('starts next month when dayOfMonth is before the start date', () => {
+    const rule = schedule({ dayOfMonth: 10, startDate: new Date(2024, 0, 15, 9, 30) });
+    expect(occurrences(rule, 2)).toEqual([new Date(2024, 1, 10, 9, 30), new Date(2024, 2, 10, 9, 30)]);
+  });
+
+  it('crosses the year boundary for monthly intervals', () => {
+    const rule = schedule({ interval: 5, dayOfMonth: 15, startDate: new Date(2024, 9, 1) });
+    expect(occurrences(rule, 2)).toEqual([new Date(2024, 9, 15), new Date(2025, 2, 15)]);
+  });
+
+  it('keeps yearly rules on Feb 29 clamped to Feb 28 in non-leap years', () => {
+    const rule = schedule({ frequency: 'yearly', startDate: new Date(2024, 1, 29) });
+    expect(occurrences(rule, 3)).toEqual([
+      new Date(2024, 1, 29),
+      new Date(2025, 1, 28),
+      new Date(2026, 1, 28)
+    ]);
+  });
+
+  it('stops at endDate', () => {
+    const rule = schedule({ frequency: 'daily', endDate: new Date(2024, 0, 3, 9, 30) });
+    expect(occurrences(rule, 10)).toHaveLength(3);
+  });
+
+  it('finds the first occurrence after a date (exclusive or inclusive)', () => {
+    const rule = schedule({ dayOfMonth: 20 });
+    const after = new Date(2024, 2, 20, 9, 30);
+    expect(firstOccurrenceAfter(rule, after)).toEqual(new Date(2024, 3, 20, 9, 30));
+    expect(firstOccurrenceAfter(rule, after, true)).toEqual(after);
+    expect(firstOccurrenceAfter(schedule({ dayOfMonth: 20, endDate: after }), after)).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Back-off khi sinh giao dịch lỗi và cập nhật rule định kỳ (prisma và TransactionService được mock, không cần DB)
+ */
+jest.mock('../src/db/prisma', () => ({
+  prisma: {
+    recurringRule: { findFirst: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    transaction: { findFirst: jest.fn() }
+  }
+}));
+jest.mock('../src/config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('../src/modules/transaction/transaction.service', () => ({
+  TransactionService: { createTransaction: jest.fn() }
+}));
+
+import { prisma } from '../src/db/prisma';
+import { Prisma } from '../src/generated/prisma/client';
+import { RecurringService } from '../src/modules/recurring/recurring.service';
+import { TransactionService } from '../src/modules/transaction/transaction.service';
+
+const mockPrisma = prisma as unknown as {
+  recurringRule: { findFirst: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+  transaction: { findFirst: jest.Mock };
+};
+const createTransaction = TransactionService.createTransaction as jest.Mock;
+
+const now = new Date(2024, 2, 10, 12, 0);
+
+const dailyRule = (failedAttempts: number) => ({
+  id: 'rule-1',
+  userId: 'user-1',
+  name: 'Daily',
+  type: 'expense',
+  amount: new Prisma.Decimal(10),
+  walletId: 'wallet-1',
+  categoryId: 'category-1',
+  fromWalletId: null,
+  toWalletId: null,
+  note: null,
+  frequency: 'daily',
+  interval: 1,
+  dayOfMonth: null,
+  dayOfWeek: null,
+  startDate: new Date(2024, 2, 8, 9, 0),
+  endDate: null,
+  nextRunAt: new Date(2024, 2, 8, 9, 0),
+  lastRunAt: null,
+  lastError: 'INSUFFICIENT_WALLET_BALANCE',
+  failedAttempts,
+  retryAt: new Date(2024, 2, 10, 11, 0),
+  isActive: true
+});
+
+// Lần update ghi nhận lỗi (có lastError khác null)
+const failureUpdate = () =>
+  mockPrisma.recurringRule.update.mock.calls
+    .map(([args]) => args.data)
+    .find((data) => data.lastError);
+
+describe('recurring rule back-off', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.transaction.findFirst.mockResolvedValue(null);
+    mockPrisma.recurringRule.update.mockResolvedValue({});
+  });
+
+  it('counts failures from zero again after an occurrence succeeds in the same run', async () => {
+    mockPrisma.recurringRule.findMany.mockResolvedValue([dailyRule(4)]);
+    createTransaction
+      .mockResolvedValueOnce({ id: 'transaction-1' })
+      .mockRejectedValueOnce(new Error('INSUFFICIENT_WALLET_BALANCE'));
+
+    const result = await RecurringService.runDueRules(now);
+
+    expect(result.createdTransactions).toBe(1);
+    expect(failureUpdate()).toMatchObject({ failedAttempts: 1, isActive: undefined });
+    // Lỗi lần 1 => chờ RETRY_BASE_DELAY_MS (1 phút)
+    expect(failureUpdate().retryAt).toEqual(new Date(now.getTime() + 60_000));
+  });
+
+  it('keeps counting consecutive failures across runs and pauses at the cap', async () => {
+    mockPrisma.recurringRule.findMany.mockResolvedValue([dailyRule(9)]);
+    createTransaction.mockRejectedValueOnce(new Error('INSUFFICIENT_WALLET_BALANCE'));
+
+    const result = await RecurringService.runDueRules(now);
+
+    expect(result.createdTransactions).toBe(0);
+    expect(failureUpdate()).toMatchObject({ failedAttempts: 10, isActive: false });
+  });
+});
+
+describe('updateRule', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rejects walletId/categoryId on a transfer rule', async () => {
+    mockPrisma.recurringRule.findFirst.mockResolvedValue({
+      ...dailyRule(0),
+      type: 'transfer',
+      walletId: null,
+      categoryId: null,
+      fromWalletId: 'wallet-1',
+      toWalletId: 'wallet-2'
+    });
+
+    await expect(RecurringService.updateRule('rule-1', 'user-1', { walletId: 'wallet-of-another-user' }))
+      .rejects.toThrow('RECURRING_RULE_FIELD_NOT_APPLICABLE');
+    expect(mockPrisma.recurringRule.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects fromWalletId/toWalletId on an income/expense rule', async () => {
+    mockPrisma.recurringRule.findFirst.mockResolvedValue(dailyRule(0));
+
+    await expect(RecurringService.updateRule('rule-1', 'user-1', { toWalletId: 'wallet-of-another-user' }))
+      .rejects.toThrow('RECURRING_RULE_FIELD_NOT_APPLICABLE');
+    expect(mockPrisma.recurringRule.update).not.toHaveBeenCalled();
+  });
+});
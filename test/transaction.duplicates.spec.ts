@@ -0,0 +1,62 @@
+/**
+ * Cảnh báo nghi trùng khi tạo giao dịch dùng danh mục đã được quy tắc tự phân loại điền (prisma được mock, không cần DB)
+ */
+jest.mock('../src/db/prisma', () => ({
+  prisma: {
+    categorizationRule: { findMany: jest.fn() },
+    category: { findMany: jest.fn() },
+    transaction: { findMany: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+import { randomUUID } from 'crypto';
+import { prisma } from '../src/db/prisma';
+import { TransactionService } from '../src/modules/transaction/transaction.service';
+import { createTransactionSchema } from '../src/modules/transaction/transaction.schema';
+
+const mockPrisma = prisma as unknown as {
+  categorizationRule: { findMany: jest.Mock };
+  category: { findMany: jest.Mock };
+  transaction: { findMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const walletId = randomUUID();
+const transportId = randomUUID();
+
+const grabRide = createTransactionSchema.parse({
+  type: 'expense',
+  walletId,
+  amount: 50000,
+  transactionDate: '2024-03-05T08:00:00.000Z',
+  note: 'Grab to work'
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma.categorizationRule.findMany.mockResolvedValue([{
+    id: 'rule-1',
+    name: 'Grab',
+    type: 'expense',
+    conditions: [{ field: 'note', operator: 'contains', value: 'grab' }],
+    categoryId: transportId,
+    tags: []
+  }]);
+  mockPrisma.category.findMany.mockResolvedValue([{ id: transportId, type: 'expense' }]);
+});
+
+describe('TransactionService.createTransactionWithDuplicateCheck', () => {
+  it('looks for duplicates with the category filled in by a rule', async () => {
+    mockPrisma.transaction.findMany.mockResolvedValue([{ id: 'transaction-1', note: 'Grab to work' }]);
+
+    const result = await TransactionService.createTransactionWithDuplicateCheck(grabRide, 'user-1');
+
+    expect(mockPrisma.transaction.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ categoryId: transportId })
+    }));
+    expect(result.transaction).toBeNull();
+    expect(result.duplicates).toHaveLength(1);
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+});
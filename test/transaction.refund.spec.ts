@@ -0,0 +1,102 @@
+/**
+ * Giới hạn tổng tiền hoàn của giao dịch chi tiêu (prisma được mock, không cần DB)
+ */
+jest.mock('../src/db/prisma', () => ({
+  prisma: {
+    transaction: { findFirst: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+import { prisma } from '../src/db/prisma';
+import { Prisma } from '../src/generated/prisma/client';
+import { TransactionService } from '../src/modules/transaction/transaction.service';
+import { createRefundSchema } from '../src/modules/transaction/transaction.schema';
+
+const mockPrisma = prisma as unknown as {
+  transaction: { findFirst: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const original = {
+  id: 'expense-1',
+  type: 'expense',
+  amount: new Prisma.Decimal(100),
+  currency: 'VND',
+  categoryId: 'category-1',
+  payeeId: null,
+  loanId: null,
+  loanPayment: null,
+  splits: [],
+  tags: [],
+  entries: [{ walletId: 'wallet-1', direction: 'out', isFee: false, wallet: { isArchived: false } }]
+};
+
+/**
+ * DB transaction giả: giao dịch gốc đọc lại (đã khoá) có amount = lockedAmount, đã hoàn refundedAmount
+ */
+function mockRefundTransaction(lockedAmount: number, refundedAmount: number) {
+  const tx = {
+    $queryRaw: jest.fn().mockResolvedValue([]),
+    transaction: {
+      findFirst: jest.fn().mockResolvedValue({ amount: new Prisma.Decimal(lockedAmount) }),
+      aggregate: jest.fn().mockResolvedValue({ _sum: { amount: new Prisma.Decimal(refundedAmount) } }),
+      create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'refund-1', ...data }))
+    },
+    wallet: { update: jest.fn().mockResolvedValue({}) }
+  };
+  mockPrisma.$transaction.mockImplementation((callback: (client: typeof tx) => unknown) => callback(tx));
+  return tx;
+}
+
+const refund = (amount: number) =>
+  TransactionService.createRefund(
+    original.id,
+    'user-1',
+    createRefundSchema.parse({ amount, transactionDate: '2024-03-05T00:00:00.000Z' })
+  );
+
+describe('createRefund cap', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.transaction.findFirst.mockResolvedValue(original);
+  });
+
+  it('allows refunds up to exactly the original amount', async () => {
+    const tx = mockRefundTransaction(100, 60);
+
+    const result = await refund(40);
+
+    expect(result.refundedAmount.toString()).toBe('100');
+    expect(result.refundableAmount.toString()).toBe('0');
+    expect(tx.wallet.update).toHaveBeenCalledWith({
+      where: { id: 'wallet-1' },
+      data: { currentBalance: { increment: 40 } }
+    });
+  });
+
+  it('rejects a refund that would push the total over the original amount', async () => {
+    const tx = mockRefundTransaction(100, 60);
+
+    await expect(refund(40.01)).rejects.toThrow('REFUND_EXCEEDS_ORIGINAL');
+    expect(tx.transaction.create).not.toHaveBeenCalled();
+    expect(tx.wallet.update).not.toHaveBeenCalled();
+  });
+
+  it('checks the cap against the amount re-read after locking the original', async () => {
+    // Giao dịch gốc vừa bị sửa 100 => 50 bởi request khác
+    const tx = mockRefundTransaction(50, 0);
+
+    await expect(refund(60)).rejects.toThrow('REFUND_EXCEEDS_ORIGINAL');
+    expect(tx.transaction.create).not.toHaveBeenCalled();
+  });
+
+  it('locks the original before summing existing refunds', async () => {
+    const tx = mockRefundTransaction(100, 0);
+
+    await refund(10);
+
+    expect(tx.$queryRaw.mock.invocationCallOrder[0])
+      .toBeLessThan(tx.transaction.aggregate.mock.invocationCallOrder[0]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tổng các dòng split phải bằng amount của giao dịch (prisma được mock, không cần DB)
+ */
+jest.mock('../src/db/prisma', () => ({
+  prisma: {
+    categorizationRule: { findMany: jest.fn() },
+    wallet: { findFirst: jest.fn(), findMany: jest.fn() },
+    category: { findFirst: jest.fn(), findMany: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+import { randomUUID } from 'crypto';
+import { prisma } from '../src/db/prisma';
+import { Prisma } from '../src/generated/prisma/client';
+import { TransactionService } from '../src/modules/transaction/transaction.service';
+import { createTransactionSchema } from '../src/modules/transaction/transaction.schema';
+
+const mockPrisma = prisma as unknown as {
+  categorizationRule: { findMany: jest.Mock };
+  wallet: { findFirst: jest.Mock; findMany: jest.Mock };
+  category: { findFirst: jest.Mock; findMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const walletId = randomUUID();
+const foodId = randomUUID();
+const homeId = randomUUID();
+
+const splitExpense = (amount: number, splitAmounts: [number, number]) =>
+  createTransactionSchema.parse({
+    type: 'expense',
+    walletId,
+    amount,
+    transactionDate: '2024-03-05T00:00:00.000Z',
+    splits: [
+      { categoryId: foodId, amount: splitAmounts[0] },
+      { categoryId: homeId, amount: splitAmounts[1] }
+    ]
+  });
+
+describe('split sums', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.categorizationRule.findMany.mockResolvedValue([]);
+    mockPrisma.wallet.findFirst.mockResolvedValue({ id: walletId, currentBalance: new Prisma.Decimal(1000) });
+    mockPrisma.wallet.findMany.mockResolvedValue([{ id: walletId }]);
+    mockPrisma.category.findFirst.mockResolvedValue({ type: 'expense' });
+    mockPrisma.category.findMany.mockResolvedValue([
+      { id: foodId, type: 'expense' },
+      { id: homeId, type: 'expense' }
+    ]);
+    mockPrisma.$transaction.mockResolvedValue({ id: 'transaction-1' });
+  });
+
+  it('rejects splits that do not add up to the amount', async () => {
+    await expect(TransactionService.createTransaction(splitExpense(100, [60, 39.99]), 'user-1'))
+      .rejects.toThrow('SPLIT_AMOUNT_MISMATCH');
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('compares decimal split amounts exactly (0.1 + 0.2 = 0.3)', async () => {
+    await TransactionService.createTransaction(splitExpense(0.3, [0.1, 0.2]), 'user-1');
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies the same check to bulk items', async () => {
+    const result = await TransactionService.createTransactionsBulk(
+      { mode: 'atomic', items: [splitExpense(0.3, [0.1, 0.2]), splitExpense(100, [50, 49])] },
+      'user-1'
+    );
+
+    expect(result.committed).toBe(false);
+    expect(result.results.map((item) => item.error?.code)).toEqual([undefined, 'SPLIT_AMOUNT_MISMATCH']);
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+});
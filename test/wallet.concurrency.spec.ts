@@ -0,0 +1,185 @@
+/**
+ * Số dư ví khi nhiều request ghi đồng thời (cần MySQL/MariaDB thật đã chạy migrations)
+ *
+ * Chạy: RUN_DB_TESTS=1 DB_HOST=... DB_USER=... DB_PASSWORD=... DB_NAME=<db test> npm test -- wallet.concurrency
+ * Không có RUN_DB_TESTS=1 => suite bị bỏ qua (không import prisma, không cần DB)
+ *
+ * Chi tiêu, chuyển tiền 2 chiều, trả nợ, xoá và hoàn tiền được bắn song song lên cùng các ví, sau đó kiểm tra:
+ * - Số dư không lúc nào thấp hơn 0 (thẻ tín dụng: -creditLimit), kể cả trong lúc các request đang chạy
+ * - currentBalance cuối cùng = openingBalance + tổng entries (in: +, out: -) của giao dịch chưa xoá
+ * - Tổng tiền hoàn không vượt số tiền giao dịch gốc
+ */
+import { randomUUID } from 'crypto';
+import type { PrismaClient } from '../src/generated/prisma/client';
+import type { TransactionService as TransactionServiceType } from '../src/modules/transaction/transaction.service';
+import type { LoanService as LoanServiceType } from '../src/modules/loan/loan.service';
+import type { LedgerService as LedgerServiceType } from '../src/modules/ledger/ledger.service';
+import { createRefundSchema, createTransactionSchema } from '../src/modules/transaction/transaction.schema';
+
+const describeDb = process.env.RUN_DB_TESTS === '1' ? describe : describe.skip;
+
+// Lỗi nghiệp vụ hợp lệ khi tranh chấp (hết tiền, hết hạn mức hoàn, đã xoá, đã trả hết nợ)
+const EXPECTED_ERRORS = new Set([
+  'INSUFFICIENT_WALLET_BALANCE',
+  'REFUND_EXCEEDS_ORIGINAL',
+  'TRANSACTION_NOT_FOUND',
+  'PAYMENT_EXCEEDS_OUTSTANDING',
+  'LOAN_ALREADY_CLOSED'
+]);
+
+describeDb('wallet balance under concurrent writes', () => {
+  let prisma: PrismaClient;
+  let TransactionService: typeof TransactionServiceType;
+  let LoanService: typeof LoanServiceType;
+  let LedgerService: typeof LedgerServiceType;
+
+  let userId: string;
+  let walletA: string;
+  let walletB: string;
+  let creditWallet: string;
+  let expenseCategoryId: string;
+
+  const today = () => new Date().toISOString();
+
+  const expense = (walletId: string, amount: number) =>
+    TransactionService.createTransaction(
+      createTransactionSchema.parse({ type: 'expense', walletId, categoryId: expenseCategoryId, amount, transactionDate: today() }),
+      userId
+    );
+
+  const transfer = (fromWalletId: string, toWalletId: string, amount: number) =>
+    TransactionService.createTransaction(
+      createTransactionSchema.parse({ type: 'transfer', fromWalletId, toWalletId, amount, transactionDate: today() }),
+      userId
+    );
+
+  beforeAll(async () => {
+    // Import sau khi biết suite được chạy: src/db/prisma throw ngay nếu thiếu DB_*
+    ({ prisma } = await import('../src/db/prisma'));
+    ({ TransactionService } = await import('../src/modules/transaction/transaction.service'));
+    ({ LoanService } = await import('../src/modules/loan/loan.service'));
+    ({ LedgerService } = await import('../src/modules/ledger/ledger.service'));
+
+    const user = await prisma.user.create({
+      data: { email: `concurrency-${randomUUID()}@test.local`, password: 'not-used' }
+    });
+    userId = user.id;
+
+    const category = await prisma.category.create({ data: { userId, name: 'Concurrency', type: 'expense' } });
+    expenseCategoryId = category.id;
+
+    const createWallet = (name: string, type: 'cash' | 'credit', balance: number, creditLimit?: number) =>
+      prisma.wallet.create({
+        data: { userId, name, type, openingBalance: balance, currentBalance: balance, creditLimit }
+      });
+    walletA = (await createWallet('A', 'cash', 100)).id;
+    walletB = (await createWallet('B', 'cash', 50)).id;
+    creditWallet = (await createWallet('Credit', 'credit', 0, 50)).id;
+  });
+
+  afterAll(async () => {
+    if (!prisma) return;
+    if (userId) {
+      await prisma.loanPayment.deleteMany({ where: { userId } });
+      await prisma.transaction.deleteMany({ where: { userId } });
+      await prisma.loan.deleteMany({ where: { userId } });
+      await prisma.wallet.deleteMany({ where: { userId } });
+      await prisma.category.deleteMany({ where: { userId } });
+      await prisma.user.delete({ where: { id: userId } });
+    }
+    await prisma.$disconnect();
+  });
+
+  it('never overdraws a wallet and keeps currentBalance equal to the sum of entries', async () => {
+    // Dữ liệu chuẩn bị (tuần tự): giao dịch để hoàn tiền, giao dịch để xoá, khoản vay để trả nợ
+    const refundable = await expense(walletA, 40);
+    const deletable = [];
+    for (let i = 0; i < 3; i++) {
+      deletable.push(await expense(walletA, 5));
+    }
+    const loan = await LoanService.createLoan(
+      { kind: 'you_owe', counterpartyName: 'Concurrency', principal: 30, walletId: walletA, startDate: today() },
+      userId
+    );
+
+    const walletIds = [walletA, walletB, creditWallet];
+    const limits = new Map([[walletA, 0], [walletB, 0], [creditWallet, 50]]);
+    const violations: string[] = [];
+
+    // Theo dõi số dư trong lúc các request đang chạy
+    let running = true;
+    const sampler = (async () => {
+      while (running) {
+        const wallets = await prisma.wallet.findMany({
+          where: { id: { in: walletIds } },
+          select: { id: true, currentBalance: true }
+        });
+        for (const wallet of wallets) {
+          if (wallet.currentBalance.lessThan(-limits.get(wallet.id)!)) {
+            violations.push(`${wallet.id}: ${wallet.currentBalance}`);
+          }
+        }
+      }
+    })();
+
+    const operations: Promise<unknown>[] = [
+      ...Array.from({ length: 15 }, () => expense(walletA, 10)),
+      ...Array.from({ length: 8 }, () => transfer(walletA, walletB, 15)),
+      ...Array.from({ length: 8 }, () => transfer(walletB, walletA, 15)),
+      ...Array.from({ length: 5 }, () => LoanService.createLoanPayment(
+        { loanId: loan.id, walletId: walletA, paymentDate: today(), amount: 10 },
+        userId
+      )),
+      // Mỗi giao dịch bị xoá 2 lần cùng lúc => chỉ được hoàn tác số dư 1 lần
+      ...deletable.flatMap((transaction) => [
+        TransactionService.deleteTransaction(transaction.id, userId),
+        TransactionService.deleteTransaction(transaction.id, userId)
+      ]),
+      ...Array.from({ length: 5 }, () => TransactionService.createRefund(
+        refundable.id,
+        userId,
+        createRefundSchema.parse({ amount: 15, transactionDate: today() })
+      )),
+      ...Array.from({ length: 6 }, () => expense(creditWallet, 15))
+    ];
+
+    const results = await Promise.allSettled(operations);
+    running = false;
+    await sampler;
+
+    const unexpected = results.flatMap((result) =>
+      result.status === 'rejected' && !EXPECTED_ERRORS.has(result.reason?.message) ? [result.reason] : []
+    );
+    expect(unexpected).toEqual([]);
+    expect(violations).toEqual([]);
+
+    // Số dư cuối cùng khớp với tổng entries và không vượt hạn mức
+    const wallets = await prisma.wallet.findMany({ where: { id: { in: walletIds } } });
+    for (const wallet of wallets) {
+      const sums = await prisma.transactionEntry.groupBy({
+        by: ['direction'],
+        where: { walletId: wallet.id, transaction: { deletedAt: null } },
+        _sum: { amount: true }
+      });
+      const expected = sums.reduce(
+        (balance, sum) => sum.direction === 'in'
+          ? balance.plus(sum._sum.amount ?? 0)
+          : balance.minus(sum._sum.amount ?? 0),
+        wallet.openingBalance
+      );
+      expect(wallet.currentBalance.toString()).toBe(expected.toString());
+      expect(wallet.currentBalance.greaterThanOrEqualTo(-limits.get(wallet.id)!)).toBe(true);
+    }
+
+    // Tổng tiền hoàn không vượt giao dịch gốc (40 => tối đa 2 lần hoàn 15)
+    const refunded = await prisma.transaction.aggregate({
+      where: { refundOfId: refundable.id, deletedAt: null },
+      _sum: { amount: true }
+    });
+    expect(refunded._sum.amount?.toNumber() ?? 0).toBeLessThanOrEqual(40);
+
+    const report = await LedgerService.checkIntegrity({ userId });
+    expect(report.walletDiscrepancies).toEqual([]);
+    expect(report.loanDiscrepancies).toEqual([]);
+  }, 120_000);
+});
@@ -0,0 +1,57 @@
+/**
+ * Kiểm tra số dư theo hạn mức khi cập nhật ví (prisma được mock, không cần DB)
+ */
+jest.mock('../src/db/prisma', () => ({
+  prisma: {
+    wallet: { findFirst: jest.fn(), updateMany: jest.fn(), findUniqueOrThrow: jest.fn() }
+  }
+}));
+
+import { prisma } from '../src/db/prisma';
+import { Prisma } from '../src/generated/prisma/client';
+import { WalletService } from '../src/modules/wallet/wallet.service';
+
+const mockPrisma = prisma as unknown as {
+  wallet: { findFirst: jest.Mock; updateMany: jest.Mock; findUniqueOrThrow: jest.Mock };
+};
+
+// Thẻ tín dụng hạn mức 50, đang nợ 60 (VD: phí ngân hàng ghi nhận sau khi hạ hạn mức)
+const overLimitCard = {
+  id: 'wallet-1',
+  name: 'Card',
+  type: 'credit',
+  currency: 'VND',
+  creditLimit: new Prisma.Decimal(50),
+  currentBalance: new Prisma.Decimal(-60)
+};
+
+const updateWhere = () => mockPrisma.wallet.updateMany.mock.calls[0][0].where;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma.wallet.findFirst.mockResolvedValueOnce(overLimitCard).mockResolvedValue(null);
+  mockPrisma.wallet.updateMany.mockResolvedValue({ count: 1 });
+  mockPrisma.wallet.findUniqueOrThrow.mockResolvedValue(overLimitCard);
+});
+
+describe('WalletService.updateWallet', () => {
+  it('does not check the balance when only the name changes', async () => {
+    await WalletService.updateWallet('wallet-1', 'user-1', { name: 'Visa' });
+
+    expect(updateWhere()).toEqual({ id: 'wallet-1' });
+  });
+
+  it('does not check the balance when the same credit limit is sent again', async () => {
+    await WalletService.updateWallet('wallet-1', 'user-1', { name: 'Visa', creditLimit: 50 });
+
+    expect(updateWhere()).toEqual({ id: 'wallet-1' });
+  });
+
+  it('checks the balance against a changed credit limit inside the update', async () => {
+    mockPrisma.wallet.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(WalletService.updateWallet('wallet-1', 'user-1', { creditLimit: 55 }))
+      .rejects.toThrow('WALLET_BALANCE_BELOW_LIMIT');
+    expect(updateWhere().currentBalance.gte.toString()).toBe('-55');
+  });
+});